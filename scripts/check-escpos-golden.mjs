@@ -0,0 +1,68 @@
+// Compares the ESC/POS output for the sample orders against the golden .bin files.
+// Run `npm run test:escpos`; after an intended change, regenerate with `npm run test:escpos -- --update`
+// and review the byte diff before committing.
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const goldenDir = path.join(root, 'src/lib/printing/golden');
+const update = process.argv.includes('--update');
+
+// Loads the TypeScript sources through Vite so the '@/' imports resolve as in the app
+const server = await createServer({
+  root,
+  mode: 'test',
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false }
+});
+
+let failures = 0;
+
+try {
+  const { renderEscPos } = await server.ssrLoadModule('/src/lib/printing/escpos.ts');
+  const { buildKitchenTicket, buildReceipt } = await server.ssrLoadModule('/src/lib/printing/tickets.ts');
+  const { goldenDeliveryOrder, goldenDineInOrder } = await server.ssrLoadModule('/src/lib/printing/golden/orders.ts');
+
+  const cases = [];
+  for (const width of [58, 80]) {
+    cases.push([`kitchen-${width}.bin`, renderEscPos(buildKitchenTicket(goldenDineInOrder), width)]);
+    cases.push([`receipt-${width}.bin`, renderEscPos(buildReceipt(goldenDeliveryOrder), width)]);
+  }
+
+  for (const [name, actual] of cases) {
+    const file = path.join(goldenDir, name);
+
+    if (update) {
+      await writeFile(file, actual);
+      console.log(`updated ${name} (${actual.length} bytes)`);
+      continue;
+    }
+
+    const expected = new Uint8Array(await readFile(file));
+    const length = Math.max(expected.length, actual.length);
+    let offset = -1;
+    for (let i = 0; i < length; i++) {
+      if (expected[i] !== actual[i]) {
+        offset = i;
+        break;
+      }
+    }
+
+    if (offset === -1) {
+      console.log(`ok ${name}`);
+    } else {
+      failures++;
+      const hex = (bytes) => Array.from(bytes.slice(offset, offset + 16), (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+      console.error(`FAIL ${name}: first difference at byte ${offset}`);
+      console.error(`  expected ${hex(expected)} (${expected.length} bytes)`);
+      console.error(`  actual   ${hex(actual)} (${actual.length} bytes)`);
+    }
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(failures > 0 ? 1 : 0);
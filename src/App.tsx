@@ -13,6 +13,9 @@ import Admin from "./pages/Admin";
 import Driver from "./pages/Driver";
 import Profile from "./pages/Profile";
 import PaymentPage from "./pages/PaymentPage";
+import OrderTrackingPage from "./pages/OrderTrackingPage";
+import Kitchen from "./pages/Kitchen";
+import ReservationPage from "./pages/ReservationPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -31,8 +34,11 @@ const App = () => (
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/admin" element={<Admin />} />
                 <Route path="/driver" element={<Driver />} />
+                <Route path="/kitchen" element={<Kitchen />} />
                 <Route path="/profile" element={<Profile />} />
                 <Route path="/payment/:orderId" element={<PaymentPage />} />
+                <Route path="/orders/:orderId" element={<OrderTrackingPage />} />
+                <Route path="/reservar" element={<ReservationPage />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
               </Routes>
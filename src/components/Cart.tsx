@@ -2,16 +2,48 @@
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Badge } from '@/components/ui/badge';
-import { useCart } from '@/hooks/useCart';
+import { Input } from '@/components/ui/input';
+import { useCart, type CompositeDishCartLine } from '@/hooks/useCart';
 import { useAuth } from '@/hooks/useAuth';
 import { useWaiterContext } from '@/hooks/useWaiterContext';
-import { ShoppingCart, Plus, Minus, Trash2 } from 'lucide-react';
+import { usePromoCode } from '@/hooks/usePromoCode';
+import { useDeliveryFee } from '@/hooks/useDeliveryFee';
+import type { DeliveryAddress } from '@/hooks/useDeliveryAddresses';
+import { ShoppingCart, Plus, Minus, Trash2, Tag, X, Truck, Store, MapPin, CreditCard, Banknote } from 'lucide-react';
 import { useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { placeOrder, type OrderChannel } from '@/lib/orders';
+import type { OrderPaymentMethod } from '@/types/payment';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { useCreateWaiterOrder } from '@/hooks/useTables';
 import TableSelector from '@/components/TableSelector';
+import DualPrice from '@/components/DualPrice';
+import DeliveryLocationStep from '@/components/delivery/DeliveryLocationStep';
+
+const CompositeDishLineDetails = ({ item }: { item: CompositeDishCartLine }) => {
+  const added = item.customizations.filter(c => c.isIncluded && !c.isIncludedByDefault && !c.replacementItemId);
+  const replaced = item.customizations.filter(c => c.isIncluded && c.replacementItemId);
+  const removed = item.customizations.filter(c => !c.isIncluded && c.isIncludedByDefault);
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-gray-500">
+      {item.includedItems.length > 0 && (
+        <p>Incluye: {item.includedItems.join(', ')}</p>
+      )}
+      {added.map(custom => (
+        <p key={custom.optionalElementId} className="text-orange-600">+ {custom.elementName}</p>
+      ))}
+      {replaced.map(custom => (
+        <p key={custom.optionalElementId} className="text-blue-600">
+          {custom.elementName} → {custom.replacementItemName}
+        </p>
+      ))}
+      {removed.map(custom => (
+        <p key={custom.optionalElementId} className="text-red-600">Sin {custom.elementName}</p>
+      ))}
+    </div>
+  );
+};
 
 export const Cart = () => {
   const { items, updateQuantity, removeItem, clearCart, totalItems, totalPrice } = useCart();
@@ -21,144 +53,25 @@ export const Cart = () => {
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
   const [showTableSelector, setShowTableSelector] = useState(false);
   const createWaiterOrder = useCreateWaiterOrder();
+  const [promoInput, setPromoInput] = useState('');
+  const { promoCode, promotion, discount, error: promoError, isValidating, applyPromoCode, clearPromoCode } = usePromoCode(items);
 
-  const isWaiter = userRole === 'mesero';
+  const [channel, setChannel] = useState<Exclude<OrderChannel, 'dine_in'>>('delivery');
+  const [deliveryAddress, setDeliveryAddress] = useState<DeliveryAddress | null>(null);
+  const [showLocationStep, setShowLocationStep] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<OrderPaymentMethod>('transfer');
 
-  const createOrderItemWithCustomizations = async (orderId: string, item: any) => {
-    // Check if it's a customized composite dish (has timestamp in ID)
-    const isCustomizedDish = item.id.includes('-') && item.id.split('-').length > 5;
-    
-    if (isCustomizedDish) {
-      // Extract original dish ID (all parts except the last timestamp part)
-      const idParts = item.id.split('-');
-      const originalDishId = idParts.slice(0, -1).join('-');
-      
-      // Get customization data from localStorage
-      const customizationData = localStorage.getItem(`dish-customization-${item.id}`);
-      let finalPrice = item.price;
-      
-      if (customizationData) {
-        try {
-          const { totalPrice } = JSON.parse(customizationData);
-          // Use the stored total price to ensure accuracy
-          finalPrice = totalPrice || item.price;
-          console.log('Cart - Using stored customization price:', { totalPrice, finalPrice });
-        } catch (error) {
-          console.error('Cart - Error parsing customization data:', error);
-        }
-      }
-      
-      // Try to find as composite dish first
-      const { data: compositeDish, error: compositeError } = await supabase
-        .from('composite_dishes')
-        .select('id, name')
-        .eq('id', originalDishId)
-        .single();
-      
-      if (!compositeError && compositeDish) {
-        const { data: orderItem, error: itemError } = await supabase
-          .from('order_items')
-          .insert({
-            order_id: orderId,
-            menu_item_id: null,
-            composite_dish_id: compositeDish.id,
-            quantity: item.quantity,
-            unit_price: finalPrice, // Use the calculated final price
-            total_price: finalPrice * item.quantity
-          })
-          .select()
-          .single();
-        
-        if (itemError) throw itemError;
-        
-        // Save customizations if available
-        if (customizationData && orderItem) {
-          try {
-            const { customizations } = JSON.parse(customizationData);
-            
-            for (const customization of customizations) {
-              await supabase
-                .from('order_dish_customizations')
-                .insert({
-                  order_item_id: orderItem.id,
-                  optional_element_id: customization.elementId,
-                  is_included: customization.isIncluded,
-                  replacement_item_id: customization.replacementItemId || null,
-                  price_adjustment: customization.priceAdjustment
-                });
-            }
-            
-            // Clean up localStorage
-            localStorage.removeItem(`dish-customization-${item.id}`);
-            
-          } catch (error) {
-            console.error('Cart - Error processing customizations:', error);
-          }
-        }
-        return;
-      }
-      
-      // Fall back to regular menu item
-      const { data: menuItem, error: menuError } = await supabase
-        .from('menu_items')
-        .select('id, name')
-        .eq('id', originalDishId)
-        .single();
-      
-      if (menuError) throw new Error(`Item no encontrado: ${item.name}`);
-      
-      const { error: itemError } = await supabase
-        .from('order_items')
-        .insert({
-          order_id: orderId,
-          menu_item_id: menuItem.id,
-          composite_dish_id: null,
-          quantity: item.quantity,
-          unit_price: finalPrice, // Use the calculated final price
-          total_price: finalPrice * item.quantity
-        });
-      
-      if (itemError) throw itemError;
-      return;
-    }
-    
-    // Regular item - try composite first, then menu items
-    const { data: compositeDish, error: compositeError } = await supabase
-      .from('composite_dishes')
-      .select('id, name')
-      .eq('id', item.id)
-      .single();
-    
-    if (!compositeError && compositeDish) {
-      const { error: itemError } = await supabase
-        .from('order_items')
-        .insert({
-          order_id: orderId,
-          menu_item_id: null,
-          composite_dish_id: compositeDish.id,
-          quantity: item.quantity,
-          unit_price: item.price,
-          total_price: item.price * item.quantity
-        });
-      
-      if (itemError) throw itemError;
-      return;
-    }
-    
-    // Regular menu item
-    const { error: itemError } = await supabase
-      .from('order_items')
-      .insert({
-        order_id: orderId,
-        menu_item_id: item.id,
-        composite_dish_id: null,
-        quantity: item.quantity,
-        unit_price: item.price,
-        total_price: item.price * item.quantity
-      });
-    
-    if (itemError) throw itemError;
-  };
+  const isWaiter = userRole === 'mesero';
+  const isDelivery = !isWaiter && channel === 'delivery';
+  // Cash is collected by the driver, so it is only offered for delivery
+  const effectivePaymentMethod: OrderPaymentMethod = isDelivery ? paymentMethod : 'transfer';
+  const { deliveryFee: quotedDeliveryFee, distanceKm, zoneName, error: deliveryFeeError, isQuoting } = useDeliveryFee(
+    items,
+    deliveryAddress?.id,
+    isDelivery,
+    promotion ? promoCode : null
+  );
+  const deliveryFee = isDelivery ? quotedDeliveryFee : 0;
 
   const handlePlaceOrder = async () => {
     if (!user) {
@@ -178,53 +91,47 @@ export const Cart = () => {
       return;
     }
 
+    // Delivery orders go through the address step first
+    if (isDelivery && !deliveryAddress) {
+      setShowLocationStep(true);
+      return;
+    }
+
     setIsPlacingOrder(true);
 
     try {
       if (isWaiter && selectedTable) {
         // Waiter flow - create table order
         await createWaiterOrder.mutateAsync({
-          items: items.map(item => ({
-            id: item.id,
-            quantity: item.quantity,
-            price: item.price,
-            name: item.name
-          })),
-          tableId: selectedTable.id,
-          totalAmount: totalPrice
+          items,
+          tableId: selectedTable.id
         });
 
         clearCart();
         setSelectedTable(null);
         setShowTableSelector(false);
       } else {
-        // Regular customer flow
-        const deliveryFee = 3.50;
-        const finalTotal = totalPrice + deliveryFee;
-
-        const { data: order, error: orderError } = await supabase
-          .from('orders')
-          .insert({
-            user_id: user.id,
-            total_amount: finalTotal,
-            delivery_fee: deliveryFee,
-            status: 'pending'
-          })
-          .select()
-          .single();
+        // Regular customer flow - prices and totals are recomputed server-side
+        const orderId = await placeOrder({
+          items,
+          promoCode: promotion ? promoCode : null,
+          deliveryAddressId: isDelivery ? deliveryAddress?.id : null,
+          channel,
+          paymentMethod: effectivePaymentMethod
+        });
 
-        if (orderError) throw orderError;
+        clearCart();
+        clearPromoCode();
+        setPromoInput('');
 
-        // Process each item with customizations
-        for (const item of items) {
-          await createOrderItemWithCustomizations(order.id, item);
+        if (effectivePaymentMethod === 'cash') {
+          toast.success('¡Pedido realizado! Pagarás en efectivo al recibirlo');
+          navigate(`/orders/${orderId}`);
+        } else {
+          toast.success('¡Pedido realizado exitosamente!');
+          // Redirect to payment page
+          navigate(`/payment/${orderId}`);
         }
-
-        toast.success('¡Pedido realizado exitosamente!');
-        clearCart();
-        
-        // Redirect to payment page
-        navigate(`/payment/${order.id}`);
       }
     } catch (error) {
       console.error('Error placing order:', error);
@@ -247,7 +154,7 @@ export const Cart = () => {
           )}
         </Button>
       </SheetTrigger>
-      <SheetContent className="w-full sm:max-w-lg">
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
         <SheetHeader>
           <SheetTitle>Tu Carrito ({totalItems} productos)</SheetTitle>
         </SheetHeader>
@@ -255,20 +162,32 @@ export const Cart = () => {
         <div className="mt-8 space-y-4">
           {items.length === 0 ? (
             <p className="text-gray-500 text-center py-8">Tu carrito está vacío</p>
+          ) : showLocationStep && isDelivery ? (
+            <DeliveryLocationStep
+              selectedAddressId={deliveryAddress?.id}
+              onBack={() => setShowLocationStep(false)}
+              onAddressConfirmed={(address) => {
+                setDeliveryAddress(address);
+                setShowLocationStep(false);
+              }}
+            />
           ) : (
             <>
               {items.map((item) => (
-                <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div key={item.key} className="flex items-center justify-between p-4 border rounded-lg">
                   <div className="flex-1">
                     <h4 className="font-medium">{item.name}</h4>
-                    <p className="text-sm text-gray-600">${item.price.toFixed(2)} c/u</p>
+                    <p className="text-sm text-gray-600">${item.unitPrice.toFixed(2)} c/u</p>
+                    {item.type === 'composite_dish' && (
+                      <CompositeDishLineDetails item={item} />
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-2">
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                      onClick={() => updateQuantity(item.key, item.quantity - 1)}
                     >
                       <Minus className="h-3 w-3" />
                     </Button>
@@ -278,7 +197,7 @@ export const Cart = () => {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                      onClick={() => updateQuantity(item.key, item.quantity + 1)}
                     >
                       <Plus className="h-3 w-3" />
                     </Button>
@@ -286,7 +205,7 @@ export const Cart = () => {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => removeItem(item.id)}
+                      onClick={() => removeItem(item.key)}
                       className="text-red-600 hover:text-red-700"
                     >
                       <Trash2 className="h-3 w-3" />
@@ -308,21 +227,136 @@ export const Cart = () => {
                 </div>
               )}
               
+              {/* Delivery or pickup for customers */}
+              {!isWaiter && (
+                <div className="border-t pt-4 grid grid-cols-2 gap-2">
+                  <Button
+                    variant={channel === 'delivery' ? 'default' : 'outline'}
+                    onClick={() => setChannel('delivery')}
+                  >
+                    <Truck className="h-4 w-4 mr-1" />
+                    A domicilio
+                  </Button>
+                  <Button
+                    variant={channel === 'pickup' ? 'default' : 'outline'}
+                    onClick={() => setChannel('pickup')}
+                  >
+                    <Store className="h-4 w-4 mr-1" />
+                    Retirar en tienda
+                  </Button>
+                </div>
+              )}
+
+              {/* Delivery address for delivery orders */}
+              {isDelivery && (
+                <div className="border rounded-lg p-3 flex items-start justify-between gap-2">
+                  <div className="flex items-start gap-2 text-sm">
+                    <MapPin className="h-4 w-4 mt-0.5 text-gray-500" />
+                    {deliveryAddress ? (
+                      <div>
+                        <p className="font-medium">{deliveryAddress.street_address}</p>
+                        <p className="text-gray-600">{deliveryAddress.city}</p>
+                      </div>
+                    ) : (
+                      <p className="text-gray-600">Selecciona la dirección de entrega</p>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setShowLocationStep(true)}>
+                    {deliveryAddress ? 'Cambiar' : 'Elegir'}
+                  </Button>
+                </div>
+              )}
+
+              {/* Payment method for delivery orders */}
+              {isDelivery && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Forma de pago</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={paymentMethod === 'transfer' ? 'default' : 'outline'}
+                      onClick={() => setPaymentMethod('transfer')}
+                    >
+                      <CreditCard className="h-4 w-4 mr-1" />
+                      Transferencia
+                    </Button>
+                    <Button
+                      variant={paymentMethod === 'cash' ? 'default' : 'outline'}
+                      onClick={() => setPaymentMethod('cash')}
+                    >
+                      <Banknote className="h-4 w-4 mr-1" />
+                      Efectivo al recibir
+                    </Button>
+                  </div>
+                  {paymentMethod === 'cash' && (
+                    <p className="text-xs text-gray-600">
+                      Paga en dólares al repartidor cuando recibas tu pedido.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Promo code for customers */}
+              {!isWaiter && (
+                <div className="border-t pt-4 space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Código promocional"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => applyPromoCode(promoInput)}
+                      disabled={!promoInput.trim() || isValidating}
+                    >
+                      <Tag className="h-4 w-4 mr-1" />
+                      {isValidating ? 'Validando...' : 'Aplicar'}
+                    </Button>
+                  </div>
+                  {promoError && (
+                    <p className="text-sm text-red-600">{promoError}</p>
+                  )}
+                  {promotion && (
+                    <p className="text-sm text-green-600">Promoción aplicada: {promotion.promotion_name}</p>
+                  )}
+                </div>
+              )}
+
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between">
                   <span>Subtotal:</span>
-                  <span>${totalPrice.toFixed(2)}</span>
+                  <DualPrice amount={totalPrice} align="end" />
                 </div>
                 
                 {!isWaiter && (
                   <>
-                    <div className="flex justify-between">
-                      <span>Envío:</span>
-                      <span>$3.50</span>
-                    </div>
+                    {promotion && (
+                      <div className="flex justify-between text-green-600">
+                        <span className="flex items-center gap-1">
+                          Descuento ({promoCode}):
+                          <button onClick={clearPromoCode} className="text-gray-400 hover:text-gray-600">
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                        <span>-${discount.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {isDelivery && (
+                      <div className="flex justify-between">
+                        <span>
+                          Envío{zoneName ? ` (${zoneName})` : distanceKm !== null ? ` (${distanceKm} km)` : ''}:
+                        </span>
+                        <span>
+                          {isQuoting ? 'Calculando...' : deliveryFee === 0 ? 'Gratis' : `$${deliveryFee.toFixed(2)}`}
+                        </span>
+                      </div>
+                    )}
+                    {isDelivery && deliveryFeeError && (
+                      <p className="text-sm text-red-600">{deliveryFeeError}</p>
+                    )}
                     <div className="flex justify-between font-bold text-lg">
                       <span>Total:</span>
-                      <span>${(totalPrice + 3.50).toFixed(2)}</span>
+                      <DualPrice amount={totalPrice - discount + deliveryFee} align="end" vesClassName="text-sm font-normal text-gray-500" />
                     </div>
                   </>
                 )}
@@ -330,7 +364,7 @@ export const Cart = () => {
                 {isWaiter && (
                   <div className="flex justify-between font-bold text-lg">
                     <span>Total:</span>
-                    <span>${totalPrice.toFixed(2)}</span>
+                    <DualPrice amount={totalPrice} align="end" vesClassName="text-sm font-normal text-gray-500" />
                   </div>
                 )}
               </div>
@@ -355,7 +389,7 @@ export const Cart = () => {
               <Button 
                 onClick={handlePlaceOrder}
                 className="w-full bg-orange-600 hover:bg-orange-700"
-                disabled={isPlacingOrder || !user}
+                disabled={isPlacingOrder || !user || (isDelivery && (isQuoting || !!deliveryFeeError))}
               >
                 {isPlacingOrder ? 'Procesando...' : 
                   isWaiter ? 'Enviar a Cocina' : 'Realizar Pedido'}
@@ -8,6 +8,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 import CustomizationDialog from './CustomizationDialog';
 import type { CompositeDish } from '@/hooks/useCompositeDishes';
+import DualPrice from '@/components/DualPrice';
 
 interface CompositeDishCardProps {
   dish: CompositeDish;
@@ -56,7 +57,7 @@ const CompositeDishCard = ({ dish }: CompositeDishCardProps) => {
             {/* Title and Price */}
             <div className="space-y-1">
               <h3 className="font-semibold text-gray-900 line-clamp-1">{dish.name}</h3>
-              <p className="text-2xl font-bold text-orange-600">desde ${dish.base_price.toFixed(2)}</p>
+              <DualPrice amount={dish.base_price} prefix="desde " className="text-2xl font-bold text-orange-600" />
             </div>
 
             {/* Description */}
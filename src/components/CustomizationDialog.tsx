@@ -6,10 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Plus, Minus, ArrowRight, X } from 'lucide-react';
-import { useCart } from '@/hooks/useCart';
+import { useCart, type DishCustomization } from '@/hooks/useCart';
 import { toast } from 'sonner';
 import type { CompositeDish } from '@/hooks/useCompositeDishes';
 import type { Tables } from '@/integrations/supabase/types';
+import DualPrice from '@/components/DualPrice';
 
 type MenuItem = Tables<'menu_items'>;
 
@@ -27,7 +28,7 @@ interface OptionalElementCustomization {
 }
 
 const CustomizationDialog = ({ dish, isOpen, onClose }: CustomizationDialogProps) => {
-  const { addItem } = useCart();
+  const { addCompositeDish } = useCart();
   const [customizations, setCustomizations] = useState<OptionalElementCustomization[]>([]);
   const [totalPrice, setTotalPrice] = useState(dish.base_price);
 
@@ -180,42 +181,30 @@ const CustomizationDialog = ({ dish, isOpen, onClose }: CustomizationDialogProps
     });
   };
 
-  const handleAddToCart = async () => {
+  const handleAddToCart = () => {
     console.log('CustomizationDialog - Adding to cart:', {
       dishName: dish.name,
       basePrice: dish.base_price,
       totalPrice,
       customizations: customizations.filter(c => c.isIncluded)
     });
-    
-    // Create a MenuItem-compatible object for the customized dish
-    const customizedDish = {
-      id: `${dish.id}-${Date.now()}`, // Unique ID for customized version
-      name: dish.name,
-      price: totalPrice, // Use the calculated total price
-      description: dish.description || '',
-      image_url: dish.image_url || '',
-      is_available: dish.is_available,
-      category_id: dish.category_id || '',
-      created_at: dish.created_at || new Date().toISOString(),
-      preparation_time: dish.preparation_time || '',
-      rating: 0,
-      updated_at: dish.updated_at || new Date().toISOString()
-    };
 
-    console.log('CustomizationDialog - Customized dish object:', customizedDish);
+    const cartCustomizations: DishCustomization[] = (dish.dish_optional_elements || []).map(element => {
+      const customization = getCustomizationForElement(element.id);
+      const replacementItem = getReplacementItem(element.id);
 
-    // Store customizations in localStorage for later use during order creation
-    const customizationData = {
-      dishId: dish.id,
-      customizations: customizations.filter(c => c.isIncluded),
-      totalPrice: totalPrice, // Store the calculated total price
-      basePrice: dish.base_price
-    };
-    
-    localStorage.setItem(`dish-customization-${customizedDish.id}`, JSON.stringify(customizationData));
+      return {
+        optionalElementId: element.id,
+        elementName: element.menu_items.name,
+        isIncluded: customization?.isIncluded ?? false,
+        isIncludedByDefault: element.is_included_by_default ?? false,
+        replacementItemId: replacementItem?.id ?? null,
+        replacementItemName: replacementItem?.name ?? null,
+        priceAdjustment: customization?.isIncluded ? customization.priceAdjustment : 0
+      };
+    });
 
-    addItem(customizedDish);
+    addCompositeDish(dish, cartCustomizations);
     toast.success(`${dish.name} personalizado agregado al carrito`);
     onClose();
   };
@@ -415,7 +404,7 @@ const CustomizationDialog = ({ dish, isOpen, onClose }: CustomizationDialogProps
               <Separator />
               <div className="flex justify-between font-bold text-lg">
                 <span>Total:</span>
-                <span>${totalPrice.toFixed(2)}</span>
+                <DualPrice amount={totalPrice} align="end" />
               </div>
             </div>
           </div>
@@ -0,0 +1,28 @@
+import { useExchangeRate } from '@/hooks/useExchangeRate';
+import { formatUSD, formatVES } from '@/lib/currency';
+
+interface DualPriceProps {
+  amount: number;
+  // Frozen rate of an existing order; when omitted the current rate is used
+  rate?: number | null;
+  prefix?: string;
+  align?: 'start' | 'end';
+  className?: string;
+  vesClassName?: string;
+}
+
+const DualPrice = ({ amount, rate, prefix, align = 'start', className, vesClassName = 'text-xs text-gray-500' }: DualPriceProps) => {
+  const { data: currentRate } = useExchangeRate();
+  const effectiveRate = rate === undefined ? currentRate?.usd_to_ves_rate : rate;
+
+  return (
+    <span className={`inline-flex flex-col ${align === 'end' ? 'items-end' : 'items-start'}`}>
+      <span className={className}>{prefix}{formatUSD(amount)}</span>
+      {effectiveRate ? (
+        <span className={vesClassName}>{formatVES(amount, effectiveRate)}</span>
+      ) : null}
+    </span>
+  );
+};
+
+export default DualPrice;
@@ -6,6 +6,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { ShoppingCart, Plus } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
+import DualPrice from '@/components/DualPrice';
 
 type MenuItem = Tables<'menu_items'>;
 type MenuCategory = Tables<'menu_categories'> & {
@@ -57,9 +58,7 @@ const MenuCategory = ({ category }: MenuCategoryProps) => {
             <CardHeader className="pb-3">
               <CardTitle className="text-lg">{item.name}</CardTitle>
               <div className="flex items-center justify-between">
-                <span className="text-2xl font-bold text-orange-600">
-                  ${item.price.toFixed(2)}
-                </span>
+                <DualPrice amount={item.price} className="text-2xl font-bold text-orange-600" />
                 {item.rating && item.rating > 0 && (
                   <div className="flex items-center text-sm text-gray-600">
                     <span>⭐ {item.rating.toFixed(1)}</span>
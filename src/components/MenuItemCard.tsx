@@ -6,6 +6,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { Plus, Star } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
+import DualPrice from '@/components/DualPrice';
 
 type MenuItem = Tables<'menu_items'>;
 
@@ -59,7 +60,7 @@ const MenuItemCard = ({ item }: MenuItemCardProps) => {
           {/* Title and Price */}
           <div className="space-y-1">
             <h3 className="font-semibold text-gray-900 line-clamp-1">{item.name}</h3>
-            <p className="text-2xl font-bold text-orange-600">${item.price.toFixed(2)}</p>
+            <DualPrice amount={item.price} className="text-2xl font-bold text-orange-600" />
           </div>
 
           {/* Description */}
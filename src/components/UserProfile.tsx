@@ -16,6 +16,8 @@ const UserProfile = () => {
         return 'bg-blue-100 text-blue-800';
       case 'delivery':
         return 'bg-green-100 text-green-800';
+      case 'kitchen':
+        return 'bg-red-100 text-red-800';
       case 'cliente':
         return 'bg-orange-100 text-orange-800';
       default:
@@ -29,6 +31,8 @@ const UserProfile = () => {
         return 'Restaurante';
       case 'delivery':
         return 'Repartidor';
+      case 'kitchen':
+        return 'Cocina';
       case 'cliente':
         return 'Cliente';
       default:
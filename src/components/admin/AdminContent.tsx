@@ -13,7 +13,11 @@ import PaymentMethodsManagement from '@/components/admin/PaymentMethodsManagemen
 import PaymentVerificationManagement from '@/components/admin/PaymentVerificationManagement';
 import CompositeDishManagement from '@/components/admin/CompositeDishManagement';
 import TableManagement from '@/components/admin/TableManagement';
+import ReservationManagement from '@/components/admin/ReservationManagement';
 import UserManagement from '@/components/admin/UserManagement';
+import DeliveryFeeManagement from '@/components/admin/DeliveryFeeManagement';
+import ExchangeRateManagement from '@/components/admin/ExchangeRateManagement';
+import KitchenStationManagement from '@/components/admin/KitchenStationManagement';
 
 interface AdminContentProps {
   activeTab: string;
@@ -77,6 +81,22 @@ const AdminContent = ({ activeTab, setActiveTab }: AdminContentProps) => {
             </div>
           </TabsContent>
 
+          <TabsContent value="stations" className="space-y-6">
+            <div className="max-w-7xl mx-auto">
+              <Card className="shadow-sm">
+                <CardHeader className="border-b border-gray-100">
+                  <CardTitle className="text-xl">Estaciones de Cocina</CardTitle>
+                  <CardDescription>
+                    Define las estaciones (parrilla, cocina fría, bar...) a las que se envía cada producto
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <KitchenStationManagement />
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
           <TabsContent value="tables" className="space-y-6">
             <div className="max-w-7xl mx-auto">
               <Card className="shadow-sm">
@@ -93,6 +113,22 @@ const AdminContent = ({ activeTab, setActiveTab }: AdminContentProps) => {
             </div>
           </TabsContent>
 
+          <TabsContent value="reservations" className="space-y-6">
+            <div className="max-w-7xl mx-auto">
+              <Card className="shadow-sm">
+                <CardHeader className="border-b border-gray-100">
+                  <CardTitle className="text-xl">Reservas</CardTitle>
+                  <CardDescription>
+                    Agenda del día por mesa, nuevas reservas y llegadas
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <ReservationManagement />
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
           <TabsContent value="inventory" className="space-y-6">
             <div className="max-w-7xl mx-auto">
               <Card className="shadow-sm">
@@ -125,6 +161,22 @@ const AdminContent = ({ activeTab, setActiveTab }: AdminContentProps) => {
             </div>
           </TabsContent>
 
+          <TabsContent value="delivery-fees" className="space-y-6">
+            <div className="max-w-7xl mx-auto">
+              <Card className="shadow-sm">
+                <CardHeader className="border-b border-gray-100">
+                  <CardTitle className="text-xl">Tarifas de Envío</CardTitle>
+                  <CardDescription>
+                    Define tarifas por distancia o por zonas, pedidos mínimos y envío gratis
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <DeliveryFeeManagement />
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
           <TabsContent value="users" className="space-y-6">
             <div className="max-w-7xl mx-auto">
               <Card className="shadow-sm">
@@ -189,6 +241,22 @@ const AdminContent = ({ activeTab, setActiveTab }: AdminContentProps) => {
             </div>
           </TabsContent>
 
+          <TabsContent value="exchange-rates" className="space-y-6">
+            <div className="max-w-7xl mx-auto">
+              <Card className="shadow-sm">
+                <CardHeader className="border-b border-gray-100">
+                  <CardTitle className="text-xl">Tasa de Cambio</CardTitle>
+                  <CardDescription>
+                    Registra la tasa diaria USD/VES usada para mostrar precios en bolívares
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <ExchangeRateManagement />
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
           <TabsContent value="payment-verifications" className="space-y-6">
             <div className="max-w-7xl mx-auto">
               <Card className="shadow-sm">
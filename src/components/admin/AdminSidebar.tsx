@@ -11,7 +11,11 @@ import {
   CreditCard,
   CheckCircle,
   Utensils,
-  UserCog
+  UserCog,
+  Truck,
+  DollarSign,
+  Flame,
+  CalendarDays
 } from 'lucide-react';
 
 interface AdminSidebarProps {
@@ -25,13 +29,17 @@ const AdminSidebar = ({ activeTab, setActiveTab }: AdminSidebarProps) => {
     { value: 'orders', label: 'Pedidos', icon: ShoppingCart },
     { value: 'menu', label: 'Menú', icon: ChefHat },
     { value: 'composite-dishes', label: 'Platos Compuestos', icon: Package },
+    { value: 'stations', label: 'Estaciones', icon: Flame },
     { value: 'tables', label: 'Mesas', icon: Utensils },
+    { value: 'reservations', label: 'Reservas', icon: CalendarDays },
     { value: 'inventory', label: 'Inventario', icon: Package },
     { value: 'drivers', label: 'Repartidores', icon: Users },
+    { value: 'delivery-fees', label: 'Tarifas Envío', icon: Truck },
     { value: 'users', label: 'Usuarios', icon: UserCog },
     { value: 'stats', label: 'Estadísticas', icon: BarChart3 },
     { value: 'promotions', label: 'Promociones', icon: Gift },
     { value: 'payment-methods', label: 'Métodos Pago', icon: CreditCard },
+    { value: 'exchange-rates', label: 'Tasa de Cambio', icon: DollarSign },
     { value: 'payment-verifications', label: 'Verificaciones', icon: CheckCircle }
   ];
 
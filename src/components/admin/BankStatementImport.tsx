@@ -0,0 +1,197 @@
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSpreadsheet, CheckCircle } from 'lucide-react';
+import { usePaymentMethods } from '@/hooks/usePaymentMethods';
+import { useBankStatementImport, useBankStatementMovements } from '@/hooks/useBankStatementImport';
+import { formatPaymentAmount, type PaymentCurrency } from '@/lib/currency';
+
+const BankStatementImport = () => {
+  const [open, setOpen] = useState(false);
+  const [paymentMethodId, setPaymentMethodId] = useState('');
+  const [currency, setCurrency] = useState<PaymentCurrency>('VES');
+  const [file, setFile] = useState<File | null>(null);
+  const [importId, setImportId] = useState<string | null>(null);
+
+  const { data: paymentMethods } = usePaymentMethods();
+  const { importStatement, approveMatches } = useBankStatementImport();
+  const { data: movements, isLoading: loadingMovements } = useBankStatementMovements(importId);
+
+  const pendingMatches = movements?.filter(
+    movement => movement.manual_payment_verifications?.status === 'pending'
+  ) || [];
+  const unmatched = movements?.filter(movement => !movement.matched_verification_id) || [];
+
+  // Zelle statements are in dollars; Pago Móvil and transfers in bolívares
+  const selectPaymentMethod = (id: string) => {
+    setPaymentMethodId(id);
+    const method = paymentMethods?.find(paymentMethod => paymentMethod.id === id);
+    setCurrency(method?.payment_type === 'Zelle' ? 'USD' : 'VES');
+  };
+
+  const handleImport = () => {
+    if (!paymentMethodId || !file) return;
+
+    importStatement.mutate(
+      { paymentMethodId, currency, file },
+      { onSuccess: ({ importId }) => setImportId(importId) }
+    );
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setFile(null);
+      setImportId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileSpreadsheet className="w-4 h-4 mr-1" />
+          Importar estado de cuenta
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Conciliar con estado de cuenta</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Cuenta receptora</Label>
+              <Select value={paymentMethodId} onValueChange={selectPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecciona la cuenta" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods?.map((method) => (
+                    <SelectItem key={method.id} value={method.id}>
+                      {method.payment_type} - {method.destination_bank} ({method.account_number})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Moneda</Label>
+              <Select value={currency} onValueChange={(value) => setCurrency(value as PaymentCurrency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="VES">Bolívares (Bs.)</SelectItem>
+                  <SelectItem value="USD">Dólares ($)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank_statement">Archivo (CSV u OFX)</Label>
+            <Input
+              id="bank_statement"
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <p className="text-sm text-gray-600">
+              Solo se usan los créditos. Un pago se concilia cuando se hizo a esta cuenta y coinciden la referencia
+              (al menos 4 dígitos), el monto exacto y la fecha (hasta 3 días antes del reporte del cliente).
+            </p>
+          </div>
+
+          <Button
+            onClick={handleImport}
+            disabled={!paymentMethodId || !file || importStatement.isPending}
+          >
+            {importStatement.isPending ? 'Procesando...' : 'Procesar archivo'}
+          </Button>
+
+          {importId && (
+            <div className="space-y-4 pt-4 border-t">
+              {loadingMovements ? (
+                <div className="text-center py-4">Cargando movimientos...</div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm text-gray-600">
+                      {movements?.length || 0} créditos · {pendingMatches.length} por aprobar · {unmatched.length} sin coincidencia
+                    </div>
+                    <Button
+                      onClick={() => approveMatches.mutate(importId)}
+                      disabled={pendingMatches.length === 0 || approveMatches.isPending}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Aprobar {pendingMatches.length} pagos
+                    </Button>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fecha</TableHead>
+                        <TableHead>Referencia</TableHead>
+                        <TableHead>Monto</TableHead>
+                        <TableHead>Pago conciliado</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {movements?.map((movement) => {
+                        const verification = movement.manual_payment_verifications;
+
+                        return (
+                          <TableRow key={movement.id}>
+                            <TableCell>{movement.movement_date}</TableCell>
+                            <TableCell>
+                              <div className="font-mono">{movement.reference}</div>
+                              {movement.description && (
+                                <div className="text-xs text-gray-500">{movement.description}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatPaymentAmount(movement.amount, currency)}</TableCell>
+                            <TableCell>
+                              {verification ? (
+                                <div className="space-y-1">
+                                  <div className="text-sm">
+                                    #{verification.order_id.slice(-8)} · {verification.orders?.profiles?.full_name || 'N/A'}
+                                  </div>
+                                  <Badge
+                                    variant="outline"
+                                    className={verification.status === 'pending'
+                                      ? 'bg-yellow-100 text-yellow-800'
+                                      : 'bg-green-100 text-green-800'}
+                                  >
+                                    {verification.status === 'pending' ? 'Por aprobar' : 'Aprobado'}
+                                  </Badge>
+                                </div>
+                              ) : (
+                                <span className="text-sm text-gray-500">Sin coincidencia</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankStatementImport;
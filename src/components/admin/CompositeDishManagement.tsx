@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useCompositeDishes } from '@/hooks/useCompositeDishes';
 import { useMenu } from '@/hooks/useMenu';
+import { useKitchenStations } from '@/hooks/useKitchenStations';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
@@ -212,11 +213,13 @@ const CompositeDishForm: React.FC<CompositeDishFormProps> = ({
   initialData,
   isEditing = false
 }) => {
+  const { stations } = useKitchenStations();
   const [formData, setFormData] = useState({
     name: initialData?.name || '',
     description: initialData?.description || '',
     base_price: initialData?.base_price || 0,
     category_id: initialData?.category_id || '',
+    station_id: initialData?.station_id || '',
     preparation_time: initialData?.preparation_time || '25-30 min',
     base_products: initialData?.dish_base_products?.map(bp => ({
       menu_item_id: bp.menu_item_id,
@@ -314,6 +317,8 @@ const CompositeDishForm: React.FC<CompositeDishFormProps> = ({
       ...formData,
       // Convert empty category_id to null
       category_id: formData.category_id || null,
+      // Empty station means the general kitchen
+      station_id: formData.station_id || null,
       // Filter out base products with empty menu_item_id
       base_products: formData.base_products.filter(product => product.menu_item_id),
       // Filter out optional elements with empty menu_item_id
@@ -388,6 +393,28 @@ const CompositeDishForm: React.FC<CompositeDishFormProps> = ({
         </div>
       </div>
 
+      <div>
+        <Label htmlFor="station">Estación de Cocina</Label>
+        <Select
+          value={formData.station_id || 'general'}
+          onValueChange={(value) => setFormData(prev => ({ ...prev, station_id: value === 'general' ? '' : value }))}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="General" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="general">General</SelectItem>
+            {stations
+              ?.filter((station) => station.is_active || station.id === formData.station_id)
+              .map((station) => (
+                <SelectItem key={station.id} value={station.id}>
+                  {station.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Base Products Section */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
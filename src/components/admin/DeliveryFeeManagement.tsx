@@ -0,0 +1,609 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+type DeliveryFeeSettings = Tables<'delivery_fee_settings'>;
+type DeliveryFeeTier = Tables<'delivery_fee_tiers'>;
+type DeliveryZone = Tables<'delivery_zones'>;
+
+interface SettingsFormData {
+  pricing_mode: 'distance' | 'zone';
+  restaurant_latitude: string;
+  restaurant_longitude: string;
+  default_fee: string;
+  free_delivery_threshold: string;
+  max_distance_km: string;
+}
+
+interface TierFormData {
+  max_distance_km: string;
+  fee: string;
+}
+
+interface ZoneFormData {
+  name: string;
+  center_latitude: string;
+  center_longitude: string;
+  radius_km: string;
+  fee: string;
+  min_order_amount: string;
+  free_delivery_threshold: string;
+  display_order: string;
+}
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : parseFloat(value));
+
+const DeliveryFeeManagement = () => {
+  const queryClient = useQueryClient();
+  const [isTierDialogOpen, setIsTierDialogOpen] = useState(false);
+  const [isZoneDialogOpen, setIsZoneDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+
+  const settingsForm = useForm<SettingsFormData>();
+  const tierForm = useForm<TierFormData>();
+  const zoneForm = useForm<ZoneFormData>();
+
+  const resetSettingsForm = settingsForm.reset;
+  const watchedPricingMode = settingsForm.watch('pricing_mode');
+
+  const { data: settings, isLoading: settingsLoading } = useQuery({
+    queryKey: ['admin-delivery-fee-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('delivery_fee_settings')
+        .select('*')
+        .order('created_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching delivery fee settings:', error);
+        throw error;
+      }
+
+      return data as DeliveryFeeSettings | null;
+    }
+  });
+
+  const { data: tiers } = useQuery({
+    queryKey: ['admin-delivery-fee-tiers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('delivery_fee_tiers')
+        .select('*')
+        .order('max_distance_km');
+
+      if (error) throw error;
+      return data as DeliveryFeeTier[];
+    }
+  });
+
+  const { data: zones } = useQuery({
+    queryKey: ['admin-delivery-zones'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('delivery_zones')
+        .select('*')
+        .order('display_order');
+
+      if (error) throw error;
+      return data as DeliveryZone[];
+    }
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    resetSettingsForm({
+      pricing_mode: settings.pricing_mode as SettingsFormData['pricing_mode'],
+      restaurant_latitude: settings.restaurant_latitude?.toString() ?? '',
+      restaurant_longitude: settings.restaurant_longitude?.toString() ?? '',
+      default_fee: settings.default_fee.toString(),
+      free_delivery_threshold: settings.free_delivery_threshold?.toString() ?? '',
+      max_distance_km: settings.max_distance_km?.toString() ?? ''
+    });
+  }, [settings, resetSettingsForm]);
+
+  const saveSettings = useMutation({
+    mutationFn: async (data: SettingsFormData) => {
+      const values = {
+        pricing_mode: data.pricing_mode,
+        restaurant_latitude: toNumberOrNull(data.restaurant_latitude),
+        restaurant_longitude: toNumberOrNull(data.restaurant_longitude),
+        default_fee: parseFloat(data.default_fee),
+        free_delivery_threshold: toNumberOrNull(data.free_delivery_threshold),
+        max_distance_km: toNumberOrNull(data.max_distance_km)
+      };
+
+      const { error } = settings
+        ? await supabase.from('delivery_fee_settings').update(values).eq('id', settings.id)
+        : await supabase.from('delivery_fee_settings').insert([values]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-fee-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['delivery-fee'] });
+      toast.success('Configuración de envío actualizada');
+    },
+    onError: (error) => {
+      toast.error('Error al guardar configuración: ' + error.message);
+    }
+  });
+
+  const createTier = useMutation({
+    mutationFn: async (data: TierFormData) => {
+      const { error } = await supabase
+        .from('delivery_fee_tiers')
+        .insert([{ max_distance_km: parseFloat(data.max_distance_km), fee: parseFloat(data.fee) }]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-fee-tiers'] });
+      queryClient.invalidateQueries({ queryKey: ['delivery-fee'] });
+      toast.success('Tramo creado exitosamente');
+      tierForm.reset();
+      setIsTierDialogOpen(false);
+    },
+    onError: (error) => {
+      toast.error('Error al crear tramo: ' + error.message);
+    }
+  });
+
+  const deleteTier = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('delivery_fee_tiers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-fee-tiers'] });
+      queryClient.invalidateQueries({ queryKey: ['delivery-fee'] });
+      toast.success('Tramo eliminado');
+    },
+    onError: (error) => {
+      toast.error('Error al eliminar tramo: ' + error.message);
+    }
+  });
+
+  const saveZone = useMutation({
+    mutationFn: async (data: ZoneFormData) => {
+      const values = {
+        name: data.name,
+        center_latitude: parseFloat(data.center_latitude),
+        center_longitude: parseFloat(data.center_longitude),
+        radius_km: parseFloat(data.radius_km),
+        fee: parseFloat(data.fee),
+        min_order_amount: toNumberOrNull(data.min_order_amount) ?? 0,
+        free_delivery_threshold: toNumberOrNull(data.free_delivery_threshold),
+        display_order: parseInt(data.display_order) || 0
+      };
+
+      const { error } = editingZone
+        ? await supabase.from('delivery_zones').update(values).eq('id', editingZone.id)
+        : await supabase.from('delivery_zones').insert([values]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['delivery-fee'] });
+      toast.success(editingZone ? 'Zona actualizada exitosamente' : 'Zona creada exitosamente');
+      handleCloseZoneDialog();
+    },
+    onError: (error) => {
+      toast.error('Error al guardar zona: ' + error.message);
+    }
+  });
+
+  const toggleZoneStatus = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase
+        .from('delivery_zones')
+        .update({ is_active })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['delivery-fee'] });
+      toast.success('Estado actualizado exitosamente');
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar estado: ' + error.message);
+    }
+  });
+
+  const handleEditZone = (zone: DeliveryZone) => {
+    setEditingZone(zone);
+    zoneForm.reset({
+      name: zone.name,
+      center_latitude: zone.center_latitude.toString(),
+      center_longitude: zone.center_longitude.toString(),
+      radius_km: zone.radius_km.toString(),
+      fee: zone.fee.toString(),
+      min_order_amount: zone.min_order_amount.toString(),
+      free_delivery_threshold: zone.free_delivery_threshold?.toString() ?? '',
+      display_order: zone.display_order?.toString() ?? '0'
+    });
+    setIsZoneDialogOpen(true);
+  };
+
+  const handleCloseZoneDialog = () => {
+    setIsZoneDialogOpen(false);
+    setEditingZone(null);
+    zoneForm.reset();
+  };
+
+  if (settingsLoading) {
+    return <div className="text-center py-8">Cargando configuración de envío...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Configuración General</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={settingsForm.handleSubmit((data) => saveSettings.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Modo de Cálculo</Label>
+                <Select
+                  value={watchedPricingMode}
+                  onValueChange={(value) => settingsForm.setValue('pricing_mode', value as SettingsFormData['pricing_mode'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecciona el modo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="distance">Por distancia (tramos)</SelectItem>
+                    <SelectItem value="zone">Por zonas</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="default_fee">Tarifa por Defecto ($)</Label>
+                <Input
+                  id="default_fee"
+                  type="number"
+                  step="0.01"
+                  {...settingsForm.register('default_fee', { required: true })}
+                />
+                <p className="text-xs text-gray-500">Se aplica cuando la dirección no tiene coordenadas</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="restaurant_latitude">Latitud del Restaurante</Label>
+                <Input
+                  id="restaurant_latitude"
+                  type="number"
+                  step="any"
+                  {...settingsForm.register('restaurant_latitude')}
+                  placeholder="10.4806"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="restaurant_longitude">Longitud del Restaurante</Label>
+                <Input
+                  id="restaurant_longitude"
+                  type="number"
+                  step="any"
+                  {...settingsForm.register('restaurant_longitude')}
+                  placeholder="-66.9036"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="free_delivery_threshold">Envío Gratis Desde ($)</Label>
+                <Input
+                  id="free_delivery_threshold"
+                  type="number"
+                  step="0.01"
+                  {...settingsForm.register('free_delivery_threshold')}
+                  placeholder="Sin envío gratis"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max_distance_km">Distancia Máxima (km)</Label>
+                <Input
+                  id="max_distance_km"
+                  type="number"
+                  step="0.1"
+                  {...settingsForm.register('max_distance_km')}
+                  placeholder="Sin límite"
+                />
+              </div>
+            </div>
+
+            <Button type="submit" disabled={saveSettings.isPending}>
+              {saveSettings.isPending ? 'Guardando...' : 'Guardar Configuración'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Tramos por Distancia</CardTitle>
+          <Dialog open={isTierDialogOpen} onOpenChange={setIsTierDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setIsTierDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar Tramo
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Agregar Tramo</DialogTitle>
+              </DialogHeader>
+
+              <form onSubmit={tierForm.handleSubmit((data) => createTier.mutate(data))} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tier_max_distance_km">Hasta (km)</Label>
+                  <Input
+                    id="tier_max_distance_km"
+                    type="number"
+                    step="0.1"
+                    {...tierForm.register('max_distance_km', { required: 'La distancia es requerida' })}
+                  />
+                  {tierForm.formState.errors.max_distance_km && (
+                    <span className="text-red-500 text-sm">{tierForm.formState.errors.max_distance_km.message}</span>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="tier_fee">Tarifa ($)</Label>
+                  <Input
+                    id="tier_fee"
+                    type="number"
+                    step="0.01"
+                    {...tierForm.register('fee', { required: 'La tarifa es requerida' })}
+                  />
+                  {tierForm.formState.errors.fee && (
+                    <span className="text-red-500 text-sm">{tierForm.formState.errors.fee.message}</span>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1">Crear</Button>
+                  <Button type="button" variant="outline" onClick={() => setIsTierDialogOpen(false)}>
+                    Cancelar
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Hasta</TableHead>
+                <TableHead>Tarifa</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tiers?.map((tier) => (
+                <TableRow key={tier.id}>
+                  <TableCell>{tier.max_distance_km} km</TableCell>
+                  <TableCell>${tier.fee.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteTier.mutate(tier.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {tiers?.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              No hay tramos configurados; se usará la tarifa por defecto
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Zonas de Entrega</CardTitle>
+          <Dialog open={isZoneDialogOpen} onOpenChange={(open) => open ? setIsZoneDialogOpen(true) : handleCloseZoneDialog()}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setIsZoneDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar Zona
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingZone ? 'Editar' : 'Agregar'} Zona
+                </DialogTitle>
+              </DialogHeader>
+
+              <form onSubmit={zoneForm.handleSubmit((data) => saveZone.mutate(data))} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="zone_name">Nombre</Label>
+                  <Input
+                    id="zone_name"
+                    {...zoneForm.register('name', { required: 'El nombre es requerido' })}
+                    placeholder="Ej: Centro"
+                  />
+                  {zoneForm.formState.errors.name && (
+                    <span className="text-red-500 text-sm">{zoneForm.formState.errors.name.message}</span>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="center_latitude">Latitud Centro</Label>
+                    <Input
+                      id="center_latitude"
+                      type="number"
+                      step="any"
+                      {...zoneForm.register('center_latitude', { required: true })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="center_longitude">Longitud Centro</Label>
+                    <Input
+                      id="center_longitude"
+                      type="number"
+                      step="any"
+                      {...zoneForm.register('center_longitude', { required: true })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="radius_km">Radio (km)</Label>
+                    <Input
+                      id="radius_km"
+                      type="number"
+                      step="0.1"
+                      {...zoneForm.register('radius_km', { required: true })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="zone_fee">Tarifa ($)</Label>
+                    <Input
+                      id="zone_fee"
+                      type="number"
+                      step="0.01"
+                      {...zoneForm.register('fee', { required: true })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="min_order_amount">Pedido Mínimo ($)</Label>
+                    <Input
+                      id="min_order_amount"
+                      type="number"
+                      step="0.01"
+                      {...zoneForm.register('min_order_amount')}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="zone_free_delivery_threshold">Envío Gratis Desde ($)</Label>
+                    <Input
+                      id="zone_free_delivery_threshold"
+                      type="number"
+                      step="0.01"
+                      {...zoneForm.register('free_delivery_threshold')}
+                      placeholder="General"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="display_order">Prioridad</Label>
+                    <Input
+                      id="display_order"
+                      type="number"
+                      {...zoneForm.register('display_order')}
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1">
+                    {editingZone ? 'Actualizar' : 'Crear'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={handleCloseZoneDialog}>
+                    Cancelar
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zona</TableHead>
+                <TableHead>Radio</TableHead>
+                <TableHead>Tarifa</TableHead>
+                <TableHead>Pedido Mínimo</TableHead>
+                <TableHead>Envío Gratis</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {zones?.map((zone) => (
+                <TableRow key={zone.id}>
+                  <TableCell>{zone.name}</TableCell>
+                  <TableCell>{zone.radius_km} km</TableCell>
+                  <TableCell>${zone.fee.toFixed(2)}</TableCell>
+                  <TableCell>${zone.min_order_amount.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {zone.free_delivery_threshold !== null ? `$${zone.free_delivery_threshold.toFixed(2)}` : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={zone.is_active ? "default" : "secondary"}>
+                      {zone.is_active ? 'Activa' : 'Inactiva'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditZone(zone)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleZoneStatus.mutate({
+                          id: zone.id,
+                          is_active: !zone.is_active
+                        })}
+                      >
+                        {zone.is_active ? <Trash2 className="w-4 h-4" /> : 'Activar'}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {zones?.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              No hay zonas de entrega configuradas
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DeliveryFeeManagement;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Banknote } from 'lucide-react';
+import { netCash, useDriverCashSettlements, type UnsettledCashCollection } from '@/hooks/useDriverCash';
+import { formatUSD } from '@/lib/currency';
+
+interface DriverCashSettlementDialogProps {
+  driverName: string;
+  driverId: string;
+  collections: UnsettledCashCollection[];
+  isSettling: boolean;
+  onSettle: (handedInAmount: number, notes: string) => Promise<unknown>;
+}
+
+// Over/short label for a cash difference; a cent either way counts as even
+const describeDifference = (difference: number) => {
+  if (difference < -0.01) return { label: `Faltan ${formatUSD(-difference)}`, className: 'bg-red-100 text-red-800' };
+  if (difference > 0.01) return { label: `Sobran ${formatUSD(difference)}`, className: 'bg-purple-100 text-purple-800' };
+  return { label: 'Cuadra', className: 'bg-green-100 text-green-800' };
+};
+
+const DriverCashSettlementDialog = ({
+  driverName,
+  driverId,
+  collections,
+  isSettling,
+  onSettle
+}: DriverCashSettlementDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [handedIn, setHandedIn] = useState('');
+  const [notes, setNotes] = useState('');
+  const { data: recentSettlements } = useDriverCashSettlements(driverId);
+
+  const expected = collections.reduce((sum, collection) => sum + netCash(collection), 0);
+  const handedInAmount = parseFloat(handedIn);
+  const shiftDifference = describeDifference((Number.isNaN(handedInAmount) ? 0 : handedInAmount) - expected);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setHandedIn(expected.toFixed(2));
+      setNotes('');
+    }
+  };
+
+  const handleSettle = async () => {
+    try {
+      await onSettle(handedInAmount, notes);
+      setOpen(false);
+    } catch {
+      // The mutation already reported the error; keep the dialog open to retry
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Banknote className="w-4 h-4 mr-1" />
+          Cerrar turno
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cierre de caja: {driverName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {collections.length === 0 ? (
+            <p className="text-sm text-gray-600">No hay cobros en efectivo desde el último cierre.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pedido</TableHead>
+                  <TableHead>A cobrar</TableHead>
+                  <TableHead>Recibido</TableHead>
+                  <TableHead>Vuelto</TableHead>
+                  <TableHead>Neto</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {collections.map((collection) => {
+                  const orderDifference = describeDifference(netCash(collection) - collection.amount_due);
+
+                  return (
+                    <TableRow key={collection.id}>
+                      <TableCell>
+                        <div className="font-mono">#{collection.order_id.slice(-8)}</div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(collection.collected_at).toLocaleTimeString('es-VE', { hour: '2-digit', minute: '2-digit' })}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatUSD(collection.amount_due)}</TableCell>
+                      <TableCell>{formatUSD(collection.amount_received)}</TableCell>
+                      <TableCell>{formatUSD(collection.change_given)}</TableCell>
+                      <TableCell className="font-medium">{formatUSD(netCash(collection))}</TableCell>
+                      <TableCell className="space-x-1">
+                        <Badge className={orderDifference.className}>{orderDifference.label}</Badge>
+                        {collection.orders?.status !== 'delivered' && (
+                          <Badge variant="outline">No entregado</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-3 bg-gray-50 rounded border">
+            <div>
+              <div className="text-sm text-gray-600">Efectivo esperado</div>
+              <div className="text-2xl font-bold">{formatUSD(expected)}</div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`handed_in_${driverId}`}>Efectivo entregado ($)</Label>
+              <Input
+                id={`handed_in_${driverId}`}
+                type="number"
+                step="0.01"
+                min="0"
+                value={handedIn}
+                onChange={(e) => setHandedIn(e.target.value)}
+              />
+              <Badge className={shiftDifference.className}>{shiftDifference.label}</Badge>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`settlement_notes_${driverId}`}>Notas</Label>
+            <Textarea
+              id={`settlement_notes_${driverId}`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Explica cualquier faltante o sobrante..."
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleSettle}
+            disabled={isSettling || Number.isNaN(handedInAmount) || handedInAmount < 0}
+          >
+            {isSettling ? 'Registrando...' : 'Registrar cierre'}
+          </Button>
+
+          {recentSettlements && recentSettlements.length > 0 && (
+            <div className="pt-4 border-t">
+              <h4 className="font-medium mb-2">Cierres anteriores</h4>
+              <div className="space-y-2">
+                {recentSettlements.map((settlement) => {
+                  const difference = describeDifference(settlement.discrepancy);
+
+                  return (
+                    <div key={settlement.id} className="flex items-center justify-between text-sm">
+                      <span>{new Date(settlement.created_at).toLocaleString('es-VE')}</span>
+                      <span>
+                        {formatUSD(settlement.handed_in_amount)} de {formatUSD(settlement.expected_amount)}
+                      </span>
+                      <Badge className={difference.className} title={settlement.notes || undefined}>
+                        {difference.label}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DriverCashSettlementDialog;
@@ -10,8 +10,10 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { Plus, User, Phone, Car } from 'lucide-react';
+import { Plus, User, Phone, Car, Banknote } from 'lucide-react';
 import type { Tables } from '@/integrations/supabase/types';
+import { netCash, useDriverCashSettlement } from '@/hooks/useDriverCash';
+import DriverCashSettlementDialog from './DriverCashSettlementDialog';
 
 type Driver = Tables<'delivery_drivers'>;
 
@@ -19,6 +21,7 @@ const DriverManagement = () => {
   const queryClient = useQueryClient();
   const [isAddingDriver, setIsAddingDriver] = useState(false);
   const [editingDriver, setEditingDriver] = useState<Driver | null>(null);
+  const { collectionsByDriver, settle } = useDriverCashSettlement();
 
   const { data: drivers, isLoading } = useQuery({
     queryKey: ['delivery-drivers'],
@@ -191,6 +194,14 @@ const DriverManagement = () => {
                       Placa: {driver.license_plate}
                     </div>
                   )}
+
+                  {collectionsByDriver[driver.id] && (
+                    <div className="mt-2 flex items-center gap-1 text-sm text-amber-800">
+                      <Banknote className="w-3 h-3" />
+                      Efectivo en mano: ${collectionsByDriver[driver.id].reduce((sum, collection) => sum + netCash(collection), 0).toFixed(2)}
+                      {' '}({collectionsByDriver[driver.id].length} pedidos)
+                    </div>
+                  )}
                 </div>
                 
                 <div className="flex items-center gap-4">
@@ -225,6 +236,16 @@ const DriverManagement = () => {
                     )}
                   </div>
                   
+                  <DriverCashSettlementDialog
+                    driverId={driver.id}
+                    driverName={driver.full_name}
+                    collections={collectionsByDriver[driver.id] || []}
+                    isSettling={settle.isPending}
+                    onSettle={(handedInAmount, notes) =>
+                      settle.mutateAsync({ driverId: driver.id, handedInAmount, notes })
+                    }
+                  />
+
                   <Button
                     variant="outline"
                     size="sm"
@@ -0,0 +1,197 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+type ExchangeRate = Tables<'exchange_rates'>;
+
+interface ExchangeRateFormData {
+  date: string;
+  usd_to_ves_rate: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const ExchangeRateManagement = () => {
+  const queryClient = useQueryClient();
+
+  const { register, handleSubmit, formState: { errors }, reset } = useForm<ExchangeRateFormData>({
+    defaultValues: { date: today(), usd_to_ves_rate: '' }
+  });
+
+  const { data: rates, isLoading } = useQuery({
+    queryKey: ['admin-exchange-rates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('date', { ascending: false })
+        .limit(60);
+
+      if (error) {
+        console.error('Error fetching exchange rates:', error);
+        throw error;
+      }
+
+      return data as ExchangeRate[];
+    }
+  });
+
+  // One rate per day: saving a date that already exists replaces its rate
+  const saveRate = useMutation({
+    mutationFn: async (data: ExchangeRateFormData) => {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          [{ date: data.date, usd_to_ves_rate: parseFloat(data.usd_to_ves_rate), updated_at: new Date().toISOString() }],
+          { onConflict: 'date' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-exchange-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rate'] });
+      toast.success('Tasa de cambio guardada exitosamente');
+      reset({ date: today(), usd_to_ves_rate: '' });
+    },
+    onError: (error) => {
+      toast.error('Error al guardar tasa de cambio: ' + error.message);
+    }
+  });
+
+  const deleteRate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-exchange-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rate'] });
+      toast.success('Tasa de cambio eliminada');
+    },
+    onError: (error) => {
+      toast.error('Error al eliminar tasa de cambio: ' + error.message);
+    }
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8">Cargando tasas de cambio...</div>;
+  }
+
+  const currentRate = rates?.find((rate) => rate.date <= today());
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Registrar Tasa del Día</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {currentRate && (
+            <p className="text-sm text-gray-600 mb-4">
+              Tasa vigente: <strong>Bs. {currentRate.usd_to_ves_rate}</strong> por USD (desde {currentRate.date})
+            </p>
+          )}
+          <form onSubmit={handleSubmit((data) => saveRate.mutate(data))} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="date">Fecha</Label>
+              <Input
+                id="date"
+                type="date"
+                {...register('date', { required: 'La fecha es requerida' })}
+              />
+              {errors.date && (
+                <span className="text-red-500 text-sm">{errors.date.message}</span>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="usd_to_ves_rate">Bs. por USD</Label>
+              <Input
+                id="usd_to_ves_rate"
+                type="number"
+                step="0.0001"
+                {...register('usd_to_ves_rate', { required: 'La tasa es requerida' })}
+                placeholder="Ej: 36.50"
+              />
+              {errors.usd_to_ves_rate && (
+                <span className="text-red-500 text-sm">{errors.usd_to_ves_rate.message}</span>
+              )}
+            </div>
+
+            <Button type="submit" disabled={saveRate.isPending}>
+              {saveRate.isPending ? 'Guardando...' : 'Guardar Tasa'}
+            </Button>
+          </form>
+          <p className="text-xs text-gray-500 mt-3">
+            Cada pedido conserva la tasa vigente al momento de crearse; los cambios no afectan pedidos anteriores.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historial de Tasas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Bs. por USD</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates?.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell>{rate.date}</TableCell>
+                  <TableCell>{rate.usd_to_ves_rate}</TableCell>
+                  <TableCell>
+                    {rate.id === currentRate?.id ? (
+                      <Badge>Vigente</Badge>
+                    ) : rate.date > today() ? (
+                      <Badge variant="outline">Programada</Badge>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteRate.mutate(rate.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {rates?.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              No hay tasas de cambio registradas; los precios se mostrarán solo en USD
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExchangeRateManagement;
@@ -0,0 +1,384 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, RotateCw, Trash2 } from 'lucide-react';
+import { clampToZone, seatPositions, snapToGrid, tableBoxStyle, tableShapeClass } from '@/lib/floorPlan';
+import { useTables, type Table } from '@/hooks/useTables';
+import { useFloorZones, useManageFloorZones, useUpdateTableLayout, type TableLayout } from '@/hooks/useFloorPlan';
+import FloorPlanCanvas from '@/components/tables/FloorPlanCanvas';
+import type { FloorZone, TableShape } from '@/types/table';
+
+const shapeLabels: Record<TableShape, string> = {
+  square: 'Cuadrada',
+  round: 'Redonda',
+  rectangle: 'Rectangular'
+};
+
+interface DragState {
+  id: string;
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+  // Plan units per screen pixel
+  scale: number;
+}
+
+const clampSize = (value: string, fallback: number) => {
+  const size = parseInt(value, 10);
+  return Number.isNaN(size) ? fallback : Math.min(400, Math.max(30, size));
+};
+
+// Drag-and-drop layout of each zone: where tables sit, their shape, rotation and seats
+const FloorPlanEditor = () => {
+  const { data: tables } = useTables();
+  const { data: zones, isLoading } = useFloorZones();
+  const { createZone, updateZone, deleteZone } = useManageFloorZones();
+  const updateLayout = useUpdateTableLayout();
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draft, setDraft] = useState<{ id: string; x: number; y: number } | null>(null);
+  const [zoneId, setZoneId] = useState<string | null>(null);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [newZoneName, setNewZoneName] = useState('');
+
+  if (isLoading) {
+    return <div className="text-center py-8">Cargando plano...</div>;
+  }
+
+  const zone = zones?.find((candidate) => candidate.id === zoneId) || zones?.[0];
+  const zoneTables = tables?.filter((table) => zone && table.zone_id === zone.id) || [];
+  const unplacedTables = tables?.filter((table) => !table.zone_id) || [];
+  const selectedTable = tables?.find((table) => table.id === selectedTableId);
+
+  const saveLayout = (table: Table, layout: TableLayout) => updateLayout.mutate({ id: table.id, layout });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, table: Table) => {
+    e.stopPropagation();
+    setSelectedTableId(table.id);
+
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || !zone) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      id: table.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      originX: table.pos_x,
+      originY: table.pos_y,
+      scale: zone.width / rect.width
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>, table: Table) => {
+    const drag = dragRef.current;
+    if (!drag || drag.id !== table.id || !zone) return;
+
+    const { x, y } = clampToZone(
+      table,
+      zone,
+      snapToGrid(drag.originX + (e.clientX - drag.startX) * drag.scale),
+      snapToGrid(drag.originY + (e.clientY - drag.startY) * drag.scale)
+    );
+    setDraft({ id: table.id, x, y });
+  };
+
+  const handlePointerUp = (table: Table) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+
+    if (drag && draft && draft.id === table.id && (draft.x !== drag.originX || draft.y !== drag.originY)) {
+      saveLayout(table, { pos_x: draft.x, pos_y: draft.y });
+    }
+    setDraft(null);
+  };
+
+  const changeShape = (table: Table, shape: TableShape) => {
+    if (shape === 'rectangle') {
+      saveLayout(table, { shape, width: Math.max(table.width, 140), height: Math.min(table.height, 80) });
+    } else {
+      saveLayout(table, { shape, height: table.width });
+    }
+  };
+
+  const placeInZone = (table: Table, target: FloorZone) => {
+    const { x, y } = clampToZone(table, target, table.pos_x, table.pos_y);
+    saveLayout(table, { zone_id: target.id, pos_x: x, pos_y: y });
+  };
+
+  const handleCreateZone = async () => {
+    const name = newZoneName.trim();
+    if (!name) return;
+
+    try {
+      const created = await createZone.mutateAsync({ name, sort_order: (zones?.length || 0) + 1 });
+      setZoneId(created.id);
+      setNewZoneName('');
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  const handleDeleteZone = (target: FloorZone) => {
+    const count = tables?.filter((table) => table.zone_id === target.id).length || 0;
+    const message = count > 0
+      ? `¿Eliminar la zona ${target.name}? Sus ${count} mesas quedarán sin zona.`
+      : `¿Eliminar la zona ${target.name}?`;
+    if (!confirm(message)) return;
+
+    deleteZone.mutate(target.id);
+    setZoneId(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <div className="lg:col-span-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {zones?.map((candidate) => (
+            <Button
+              key={candidate.id}
+              size="sm"
+              variant={candidate.id === zone?.id ? 'default' : 'outline'}
+              onClick={() => setZoneId(candidate.id)}
+            >
+              {candidate.name}
+            </Button>
+          ))}
+          <div className="flex items-center gap-1">
+            <Input
+              className="h-9 w-36"
+              placeholder="Nueva zona"
+              value={newZoneName}
+              onChange={(e) => setNewZoneName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateZone()}
+            />
+            <Button size="sm" variant="outline" onClick={handleCreateZone} disabled={!newZoneName.trim() || createZone.isPending}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {zone ? (
+          <FloorPlanCanvas ref={canvasRef} zone={zone} editable onPointerDown={() => setSelectedTableId(null)}>
+            {zoneTables.map((table) => {
+              const position = draft?.id === table.id ? { pos_x: draft.x, pos_y: draft.y } : {};
+
+              return (
+                <div
+                  key={table.id}
+                  style={tableBoxStyle({ ...table, ...position }, zone)}
+                  className={`border-2 bg-white border-gray-500 cursor-move ${tableShapeClass[table.shape]} ${
+                    selectedTableId === table.id ? 'ring-4 ring-blue-500' : ''
+                  }`}
+                  onPointerDown={(e) => handlePointerDown(e, table)}
+                  onPointerMove={(e) => handlePointerMove(e, table)}
+                  onPointerUp={() => handlePointerUp(table)}
+                  onPointerCancel={() => handlePointerUp(table)}
+                >
+                  {seatPositions(table.shape, table.capacity).map((seat, index) => (
+                    <span
+                      key={index}
+                      className="absolute w-2 h-2 rounded-full bg-gray-400 -translate-x-1/2 -translate-y-1/2"
+                      style={{ left: `${seat.left}%`, top: `${seat.top}%` }}
+                    />
+                  ))}
+                  <span
+                    className="flex items-center justify-center h-full text-xs sm:text-sm font-bold"
+                    style={{ transform: table.rotation ? `rotate(${-table.rotation}deg)` : undefined }}
+                  >
+                    {table.table_number}
+                  </span>
+                </div>
+              );
+            })}
+          </FloorPlanCanvas>
+        ) : (
+          <p className="text-sm text-gray-500">Crea una zona para empezar a ubicar las mesas.</p>
+        )}
+
+        {unplacedTables.length > 0 && zone && (
+          <div className="space-y-1">
+            <p className="text-sm text-gray-600">Mesas sin zona</p>
+            <div className="flex flex-wrap gap-2">
+              {unplacedTables.map((table) => (
+                <Button key={table.id} size="sm" variant="outline" onClick={() => placeInZone(table, zone)}>
+                  Colocar Mesa {table.table_number} en {zone.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {zone && (
+          <Card key={zone.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Zona</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <Label htmlFor="zone_name">Nombre</Label>
+                <Input
+                  id="zone_name"
+                  defaultValue={zone.name}
+                  onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== zone.name &&
+                    updateZone.mutate({ id: zone.id, updates: { name: e.target.value.trim() } })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="zone_width">Ancho</Label>
+                  <Input
+                    id="zone_width"
+                    type="number"
+                    min="200"
+                    max="4000"
+                    step="50"
+                    defaultValue={zone.width}
+                    onBlur={(e) => {
+                      const width = Math.min(4000, Math.max(200, parseInt(e.target.value, 10) || zone.width));
+                      if (width !== zone.width) updateZone.mutate({ id: zone.id, updates: { width } });
+                    }}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone_height">Alto</Label>
+                  <Input
+                    id="zone_height"
+                    type="number"
+                    min="200"
+                    max="4000"
+                    step="50"
+                    defaultValue={zone.height}
+                    onBlur={(e) => {
+                      const height = Math.min(4000, Math.max(200, parseInt(e.target.value, 10) || zone.height));
+                      if (height !== zone.height) updateZone.mutate({ id: zone.id, updates: { height } });
+                    }}
+                  />
+                </div>
+              </div>
+              <Button variant="outline" size="sm" className="w-full" onClick={() => handleDeleteZone(zone)}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Eliminar zona
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedTable ? (
+          <Card key={selectedTable.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Mesa {selectedTable.table_number}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <Label>Forma</Label>
+                <Select value={selectedTable.shape} onValueChange={(value) => changeShape(selectedTable, value as TableShape)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(shapeLabels) as TableShape[]).map((shape) => (
+                      <SelectItem key={shape} value={shape}>{shapeLabels[shape]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Rotación: {selectedTable.rotation}°</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => saveLayout(selectedTable, { rotation: (selectedTable.rotation + 45) % 360 })}
+                >
+                  <RotateCw className="w-4 h-4 mr-1" />
+                  45°
+                </Button>
+              </div>
+              <div>
+                <Label htmlFor="table_seats">Asientos</Label>
+                <Input
+                  id="table_seats"
+                  type="number"
+                  min="1"
+                  max="20"
+                  defaultValue={selectedTable.capacity}
+                  onBlur={(e) => {
+                    const capacity = Math.min(20, Math.max(1, parseInt(e.target.value, 10) || selectedTable.capacity));
+                    if (capacity !== selectedTable.capacity) saveLayout(selectedTable, { capacity });
+                  }}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="table_width">Ancho</Label>
+                  <Input
+                    id="table_width"
+                    type="number"
+                    min="30"
+                    max="400"
+                    step="10"
+                    defaultValue={selectedTable.width}
+                    onBlur={(e) => {
+                      const width = clampSize(e.target.value, selectedTable.width);
+                      if (width !== selectedTable.width) {
+                        saveLayout(selectedTable, selectedTable.shape === 'rectangle' ? { width } : { width, height: width });
+                      }
+                    }}
+                  />
+                </div>
+                {selectedTable.shape === 'rectangle' && (
+                  <div>
+                    <Label htmlFor="table_height">Alto</Label>
+                    <Input
+                      id="table_height"
+                      type="number"
+                      min="30"
+                      max="400"
+                      step="10"
+                      defaultValue={selectedTable.height}
+                      onBlur={(e) => {
+                        const height = clampSize(e.target.value, selectedTable.height);
+                        if (height !== selectedTable.height) saveLayout(selectedTable, { height });
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <Label>Zona</Label>
+                <Select
+                  value={selectedTable.zone_id || ''}
+                  onValueChange={(value) => {
+                    const target = zones?.find((candidate) => candidate.id === value);
+                    if (target) placeInZone(selectedTable, target);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Sin zona" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {zones?.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Arrastra las mesas para ubicarlas. Selecciona una para cambiar su forma, rotación o asientos.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FloorPlanEditor;
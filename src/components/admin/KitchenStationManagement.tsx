@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useKitchenStations } from '@/hooks/useKitchenStations';
+import type { Tables } from '@/integrations/supabase/types';
+
+type KitchenStation = Tables<'kitchen_stations'>;
+
+interface KitchenStationFormData {
+  name: string;
+  display_order: number;
+}
+
+const KitchenStationManagement = () => {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingStation, setEditingStation] = useState<KitchenStation | null>(null);
+
+  const { register, handleSubmit, formState: { errors }, reset, setValue } = useForm<KitchenStationFormData>();
+
+  const { stations, isLoading } = useKitchenStations();
+
+  const saveStation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: KitchenStationFormData }) => {
+      const { error } = id
+        ? await supabase
+            .from('kitchen_stations')
+            .update({ ...data, updated_at: new Date().toISOString() })
+            .eq('id', id)
+        : await supabase
+            .from('kitchen_stations')
+            .insert([data]);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stations'] });
+      toast.success(id ? 'Estación actualizada exitosamente' : 'Estación creada exitosamente');
+      handleCloseDialog();
+    },
+    onError: (error) => {
+      toast.error('Error al guardar estación: ' + error.message);
+    }
+  });
+
+  const toggleStationStatus = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase
+        .from('kitchen_stations')
+        .update({ is_active, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stations'] });
+      toast.success('Estado actualizado exitosamente');
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar estado: ' + error.message);
+    }
+  });
+
+  const onSubmit = (data: KitchenStationFormData) => {
+    saveStation.mutate({ id: editingStation?.id, data });
+  };
+
+  const handleEdit = (station: KitchenStation) => {
+    setEditingStation(station);
+    setValue('name', station.name);
+    setValue('display_order', station.display_order);
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setEditingStation(null);
+    reset();
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Cargando estaciones...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Los productos sin estación se preparan en la cocina general.
+        </p>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : handleCloseDialog())}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="w-4 h-4 mr-2" />
+              Agregar Estación
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {editingStation ? 'Editar' : 'Agregar'} Estación
+              </DialogTitle>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Nombre</Label>
+                <Input
+                  id="name"
+                  {...register('name', { required: 'El nombre es requerido' })}
+                  placeholder="Ej: Parrilla"
+                />
+                {errors.name && (
+                  <span className="text-red-500 text-sm">{errors.name.message}</span>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="display_order">Orden</Label>
+                <Input
+                  id="display_order"
+                  type="number"
+                  {...register('display_order', { valueAsNumber: true })}
+                  defaultValue={(stations?.length || 0) + 1}
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={saveStation.isPending}>
+                  {editingStation ? 'Actualizar' : 'Crear'}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                  Cancelar
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Orden</TableHead>
+            <TableHead>Nombre</TableHead>
+            <TableHead>Estado</TableHead>
+            <TableHead>Acciones</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {stations?.map((station) => (
+            <TableRow key={station.id}>
+              <TableCell>{station.display_order}</TableCell>
+              <TableCell className="font-medium">{station.name}</TableCell>
+              <TableCell>
+                <Badge variant={station.is_active ? 'default' : 'secondary'}>
+                  {station.is_active ? 'Activa' : 'Inactiva'}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(station)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleStationStatus.mutate({
+                      id: station.id,
+                      is_active: !station.is_active
+                    })}
+                  >
+                    {station.is_active ? <Trash2 className="w-4 h-4" /> : 'Activar'}
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {stations?.length === 0 && (
+        <div className="text-center py-8 text-gray-500">
+          No hay estaciones configuradas
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KitchenStationManagement;
@@ -11,15 +11,18 @@ import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { Plus, Edit, Trash2, Upload, X, ArrowUpDown } from 'lucide-react';
 import { useMenu } from '@/hooks/useMenu';
+import { useKitchenStations } from '@/hooks/useKitchenStations';
 import CategoryOrderingDialog from './CategoryOrderingDialog';
 import type { Tables } from '@/integrations/supabase/types';
 
 type MenuCategory = Tables<'menu_categories'>;
 type MenuItem = Tables<'menu_items'>;
+type KitchenStation = Tables<'kitchen_stations'>;
 
 const MenuManagement = () => {
   const queryClient = useQueryClient();
   const { data: categories, isLoading } = useMenu();
+  const { stations } = useKitchenStations();
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [isAddingCategory, setIsAddingCategory] = useState(false);
   const [isAddingItem, setIsAddingItem] = useState(false);
@@ -49,6 +52,7 @@ const MenuManagement = () => {
       description: string;
       price: number;
       category_id: string;
+      station_id: string | null;
       preparation_time: string;
       is_available: boolean;
       image_url?: string;
@@ -74,6 +78,7 @@ const MenuManagement = () => {
       name: string;
       description: string;
       price: number;
+      station_id: string | null;
       preparation_time: string;
       is_available: boolean;
       image_url?: string;
@@ -84,6 +89,7 @@ const MenuManagement = () => {
           name: data.name,
           description: data.description,
           price: data.price,
+          station_id: data.station_id,
           preparation_time: data.preparation_time,
           is_available: data.is_available,
           image_url: data.image_url,
@@ -185,6 +191,7 @@ const MenuManagement = () => {
               </DialogHeader>
               <ItemForm 
                 categories={categories || []} 
+                stations={stations || []}
                 onSubmit={addMenuItem.mutate}
                 isLoading={addMenuItem.isPending}
               />
@@ -265,6 +272,7 @@ const MenuManagement = () => {
             </DialogHeader>
             <ItemForm 
               categories={categories || []} 
+              stations={stations || []}
               item={editingItem}
               onSubmit={(data) => updateMenuItem.mutate({ ...data, id: editingItem.id })}
               isLoading={updateMenuItem.isPending}
@@ -284,12 +292,13 @@ const MenuManagement = () => {
 
 interface ItemFormProps {
   categories: MenuCategory[];
+  stations: KitchenStation[];
   item?: MenuItem;
   onSubmit: (data: any) => void;
   isLoading: boolean;
 }
 
-const ItemForm: React.FC<ItemFormProps> = ({ categories, item, onSubmit, isLoading }) => {
+const ItemForm: React.FC<ItemFormProps> = ({ categories, stations, item, onSubmit, isLoading }) => {
   const [isAvailable, setIsAvailable] = useState(item?.is_available ?? true);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>(item?.image_url || '');
@@ -345,6 +354,7 @@ const ItemForm: React.FC<ItemFormProps> = ({ categories, item, onSubmit, isLoadi
         description: formData.get('description') as string,
         price: parseFloat(formData.get('price') as string),
         category_id: formData.get('category_id') as string,
+        station_id: (formData.get('station_id') as string) || null,
         preparation_time: formData.get('preparation_time') as string,
         is_available: isAvailable,
         image_url: imageUrl
@@ -455,6 +465,25 @@ const ItemForm: React.FC<ItemFormProps> = ({ categories, item, onSubmit, isLoadi
           </div>
         )}
         
+        <div>
+          <Label htmlFor="station_id">Estación de Cocina</Label>
+          <select
+            id="station_id"
+            name="station_id"
+            className="w-full p-2 border rounded"
+            defaultValue={item?.station_id || ''}
+          >
+            <option value="">General</option>
+            {stations
+              .filter((station) => station.is_active || station.id === item?.station_id)
+              .map((station) => (
+                <option key={station.id} value={station.id}>
+                  {station.name}
+                </option>
+              ))}
+          </select>
+        </div>
+
         <div className="flex items-center space-x-2">
           <Switch
             id="is_available"
@@ -3,6 +3,9 @@ import React from 'react';
 import OrderStatusFilter from './orders/OrderStatusFilter';
 import OrderCard from './orders/OrderCard';
 import { useOrderManagement } from './orders/hooks/useOrderManagement';
+import { useAutoPrint } from './orders/hooks/useAutoPrint';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
 const OrderManagement = () => {
   const {
@@ -10,8 +13,11 @@ const OrderManagement = () => {
     isLoading,
     selectedStatus,
     setSelectedStatus,
+    selectedChannel,
+    setSelectedChannel,
     handleStatusChange
   } = useOrderManagement();
+  const autoPrint = useAutoPrint();
 
   if (isLoading) {
     return <div className="text-center py-8">Cargando pedidos...</div>;
@@ -22,8 +28,19 @@ const OrderManagement = () => {
       <OrderStatusFilter 
         selectedStatus={selectedStatus}
         onStatusChange={setSelectedStatus}
+        selectedChannel={selectedChannel}
+        onChannelChange={setSelectedChannel}
       />
 
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="auto-print"
+          checked={autoPrint.enabled}
+          onCheckedChange={autoPrint.toggle}
+        />
+        <Label htmlFor="auto-print">Imprimir ticket de cocina al confirmar pedidos en este equipo</Label>
+      </div>
+
       <div className="grid gap-4">
         {orders?.map((order) => (
           <OrderCard 
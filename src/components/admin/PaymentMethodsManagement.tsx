@@ -14,6 +14,7 @@ import { Plus, Edit, Trash2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { PaymentMethod } from '@/types/payment';
+import PaymentProvidersSettings from './PaymentProvidersSettings';
 
 interface PaymentMethodFormData {
   payment_type: 'Pago Móvil' | 'Transferencia Bancaria' | 'Zelle' | 'Otro';
@@ -141,6 +142,8 @@ const PaymentMethodsManagement = () => {
 
   return (
     <div className="space-y-6">
+      <PaymentProvidersSettings />
+
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Gestión de Métodos de Pago</CardTitle>
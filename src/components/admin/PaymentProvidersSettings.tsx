@@ -0,0 +1,99 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { useManagePaymentProviders } from '@/hooks/usePaymentProviders';
+import { getPaymentProvider } from '@/lib/paymentProviders';
+import type { PaymentProviderConfig } from '@/types/payment';
+
+// Which payment providers checkout offers; the accounts below are used by the manual provider
+const PaymentProvidersSettings = () => {
+  const { providers, isLoading, updateProvider } = useManagePaymentProviders();
+
+  const activeCount = providers?.filter((provider) => provider.is_active).length || 0;
+
+  const toggleProvider = (provider: PaymentProviderConfig, isActive: boolean) => {
+    if (!isActive && activeCount <= 1) {
+      toast.error('Debe quedar al menos un proveedor de pago activo');
+      return;
+    }
+
+    updateProvider.mutate({ id: provider.id, updates: { is_active: isActive } });
+  };
+
+  const updateDelay = (provider: PaymentProviderConfig, value: string) => {
+    const delaySeconds = parseInt(value, 10);
+    if (Number.isNaN(delaySeconds) || delaySeconds < 0 || delaySeconds === provider.settings.delay_seconds) return;
+
+    updateProvider.mutate({
+      id: provider.id,
+      updates: { settings: { ...provider.settings, delay_seconds: Math.min(delaySeconds, 60) } }
+    });
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Cargando proveedores de pago...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Proveedores de Pago</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Proveedor</TableHead>
+              <TableHead>Descripción</TableHead>
+              <TableHead>Reembolsos</TableHead>
+              <TableHead>Activo</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {providers?.map((provider) => {
+              const implementation = getPaymentProvider(provider.id);
+
+              return (
+                <TableRow key={provider.id}>
+                  <TableCell className="font-medium">{provider.display_name}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {provider.description}
+                    {!implementation && (
+                      <div className="text-red-600">No disponible en esta versión de la app</div>
+                    )}
+                    {provider.id === 'sandbox' && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <span>Demora simulada (s):</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="60"
+                          className="w-20 h-8"
+                          defaultValue={String(provider.settings.delay_seconds ?? 5)}
+                          onBlur={(e) => updateDelay(provider, e.target.value)}
+                        />
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{implementation?.supportsRefunds ? 'Sí' : 'No'}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={provider.is_active}
+                      disabled={!implementation || updateProvider.isPending}
+                      onCheckedChange={(checked) => toggleProvider(provider, checked)}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentProvidersSettings;
@@ -1,15 +1,21 @@
 
 import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Eye, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Eye, CheckCircle, XCircle, Clock, AlertTriangle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { usePaymentReview } from '@/hooks/usePaymentReview';
+import { paymentStatusColors, paymentStatusLabels, paymentFlagLabels, type OrderPaymentStatus, type PaymentVerificationFlag } from '@/types/payment';
+import { formatPaymentAmount, paymentAmountUSD } from '@/lib/currency';
+import BankStatementImport from './BankStatementImport';
+import PaymentProofLink from '@/components/payment/PaymentProofLink';
 
 // Extended type that includes the orders relation
 interface PaymentVerificationWithOrders {
@@ -19,8 +25,9 @@ interface PaymentVerificationWithOrders {
   origin_bank: string;
   phone_number_used?: string;
   amount_paid: number;
+  amount_currency: string;
   reference_number: string;
-  payment_proof_url: string;
+  payment_proof_path: string;
   status: 'pending' | 'approved' | 'rejected';
   rejection_reason?: string;
   reviewed_by?: string;
@@ -30,15 +37,18 @@ interface PaymentVerificationWithOrders {
   orders?: {
     id: string;
     total_amount: number;
+    amount_paid: number;
+    exchange_rate: number | null;
+    payment_status: OrderPaymentStatus;
     profiles?: {
       full_name?: string;
       email?: string;
     };
   };
+  payment_verification_flags: PaymentVerificationFlag[];
 }
 
 const PaymentVerificationManagement = () => {
-  const queryClient = useQueryClient();
   const [selectedVerification, setSelectedVerification] = useState<PaymentVerificationWithOrders | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
 
@@ -52,10 +62,18 @@ const PaymentVerificationManagement = () => {
           orders (
             id,
             total_amount,
+            amount_paid,
+            exchange_rate,
+            payment_status,
             profiles (
               full_name,
               email
             )
+          ),
+          payment_verification_flags!payment_verification_flags_verification_id_fkey (
+            id,
+            flag_type,
+            message
           )
         `)
         .order('created_at', { ascending: false });
@@ -69,38 +87,12 @@ const PaymentVerificationManagement = () => {
     }
   });
 
-  const updateVerificationStatus = useMutation({
-    mutationFn: async ({ 
-      verificationId, 
-      status, 
-      rejectionReason 
-    }: { 
-      verificationId: string; 
-      status: 'approved' | 'rejected'; 
-      rejectionReason?: string 
-    }) => {
-      const { error } = await supabase
-        .from('manual_payment_verifications')
-        .update({
-          status,
-          rejection_reason: rejectionReason,
-          reviewed_by: (await supabase.auth.getUser()).data.user?.id,
-          reviewed_at: new Date().toISOString()
-        })
-        .eq('id', verificationId);
+  const reviewPayment = usePaymentReview();
 
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['payment-verifications'] });
-      toast.success('Estado actualizado exitosamente');
-      setSelectedVerification(null);
-      setRejectionReason('');
-    },
-    onError: (error) => {
-      toast.error('Error al actualizar el estado: ' + error.message);
-    }
-  });
+  const closeReview = () => {
+    setSelectedVerification(null);
+    setRejectionReason('');
+  };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -116,10 +108,10 @@ const PaymentVerificationManagement = () => {
   };
 
   const handleApprove = (verification: PaymentVerificationWithOrders) => {
-    updateVerificationStatus.mutate({
-      verificationId: verification.id,
-      status: 'approved'
-    });
+    reviewPayment.mutate(
+      { verificationId: verification.id, approve: true },
+      { onSuccess: closeReview }
+    );
   };
 
   const handleReject = (verification: PaymentVerificationWithOrders) => {
@@ -128,13 +120,51 @@ const PaymentVerificationManagement = () => {
       return;
     }
 
-    updateVerificationStatus.mutate({
-      verificationId: verification.id,
-      status: 'rejected',
-      rejectionReason
-    });
+    reviewPayment.mutate(
+      { verificationId: verification.id, approve: false, rejectionReason },
+      { onSuccess: closeReview }
+    );
+  };
+
+  // What the order's balance would look like if this payment were approved
+  const describeApproval = (verification: PaymentVerificationWithOrders) => {
+    if (!verification.orders) return null;
+
+    const remaining = verification.orders.total_amount - verification.orders.amount_paid;
+    const amountUsd = paymentAmountUSD(verification.amount_paid, verification.amount_currency, verification.orders.exchange_rate);
+
+    if (amountUsd === null) {
+      return {
+        tone: 'text-red-800 bg-red-50 border-red-200',
+        text: 'Pago en bolívares para un pedido sin tasa de cambio: no se puede aprobar, recházalo y pide el pago en dólares.',
+        blocksApproval: true
+      };
+    }
+
+    const difference = amountUsd - remaining;
+
+    if (difference < -0.01) {
+      return {
+        tone: 'text-yellow-800 bg-yellow-50 border-yellow-200',
+        text: `Pago parcial: quedarán $${(-difference).toFixed(2)} pendientes y el pedido seguirá esperando el saldo.`
+      };
+    }
+    if (difference > 0.01) {
+      return {
+        tone: 'text-purple-800 bg-purple-50 border-purple-200',
+        text: `Pago en exceso: el cliente pagó $${difference.toFixed(2)} más de lo que falta por pagar.`
+      };
+    }
+    return {
+      tone: 'text-green-800 bg-green-50 border-green-200',
+      text: 'El pago cubre el saldo. Al aprobarlo el pedido se confirmará automáticamente.'
+    };
   };
 
+  const pendingApproval = selectedVerification?.status === 'pending'
+    ? describeApproval(selectedVerification)
+    : null;
+
   if (isLoading) {
     return <div className="text-center py-8">Cargando verificaciones de pago...</div>;
   }
@@ -142,8 +172,9 @@ const PaymentVerificationManagement = () => {
   return (
     <div className="space-y-6">
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Verificaciones de Pago Manual</CardTitle>
+          <BankStatementImport />
         </CardHeader>
         <CardContent>
           <Table>
@@ -168,13 +199,25 @@ const PaymentVerificationManagement = () => {
                     {verification.orders?.profiles?.full_name || 'N/A'}
                   </TableCell>
                   <TableCell>
-                    ${verification.orders?.total_amount?.toFixed(2)}
+                    <div>${verification.orders?.total_amount?.toFixed(2)}</div>
+                    {verification.orders && (
+                      <Badge className={paymentStatusColors[verification.orders.payment_status]}>
+                        {paymentStatusLabels[verification.orders.payment_status]}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     {verification.payment_method_type}
                   </TableCell>
                   <TableCell>
-                    ${verification.amount_paid.toFixed(2)}
+                    <div className="flex items-center gap-1">
+                      {formatPaymentAmount(verification.amount_paid, verification.amount_currency)}
+                      {verification.payment_verification_flags.length > 0 && (
+                        <span title={verification.payment_verification_flags.map(flag => flag.message).join('\n')}>
+                          <AlertTriangle className="w-4 h-4 text-orange-500" />
+                        </span>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     {getStatusBadge(verification.status)}
@@ -212,7 +255,7 @@ const PaymentVerificationManagement = () => {
                                 <strong>Banco de Origen:</strong> {selectedVerification.origin_bank}
                               </div>
                               <div>
-                                <strong>Monto Pagado:</strong> ${selectedVerification.amount_paid.toFixed(2)}
+                                <strong>Monto Pagado:</strong> {formatPaymentAmount(selectedVerification.amount_paid, selectedVerification.amount_currency)}
                               </div>
                               <div>
                                 <strong>Referencia:</strong> {selectedVerification.reference_number}
@@ -227,17 +270,28 @@ const PaymentVerificationManagement = () => {
                               </div>
                             </div>
 
+                            {selectedVerification.payment_verification_flags.length > 0 && (
+                              <div className="space-y-2">
+                                {selectedVerification.payment_verification_flags.map((flag) => (
+                                  <Alert key={flag.id} className="border-orange-200 bg-orange-50 text-orange-900">
+                                    <AlertTriangle className="h-4 w-4" />
+                                    <AlertDescription>
+                                      <strong>{paymentFlagLabels[flag.flag_type]}:</strong> {flag.message}
+                                    </AlertDescription>
+                                  </Alert>
+                                ))}
+                              </div>
+                            )}
+
                             <div>
                               <strong>Comprobante de Pago:</strong>
                               <div className="mt-2">
-                                <a 
-                                  href={selectedVerification.payment_proof_url} 
-                                  target="_blank" 
-                                  rel="noopener noreferrer"
+                                <PaymentProofLink
+                                  path={selectedVerification.payment_proof_path}
                                   className="text-blue-600 hover:underline"
                                 >
                                   Ver Comprobante
-                                </a>
+                                </PaymentProofLink>
                               </div>
                             </div>
 
@@ -248,6 +302,32 @@ const PaymentVerificationManagement = () => {
                               </div>
                             )}
 
+                            {selectedVerification.orders && (
+                              <div className="grid grid-cols-3 gap-4 p-3 bg-gray-50 rounded border">
+                                <div>
+                                  <div className="text-sm text-gray-600">Total del pedido</div>
+                                  <div className="font-semibold">${selectedVerification.orders.total_amount.toFixed(2)}</div>
+                                </div>
+                                <div>
+                                  <div className="text-sm text-gray-600">Pagado (aprobado)</div>
+                                  <div className="font-semibold">${selectedVerification.orders.amount_paid.toFixed(2)}</div>
+                                </div>
+                                <div>
+                                  <div className="text-sm text-gray-600">Saldo</div>
+                                  <div className="font-semibold">
+                                    ${Math.max(0, selectedVerification.orders.total_amount - selectedVerification.orders.amount_paid).toFixed(2)}
+                                  </div>
+                                </div>
+                              </div>
+                            )}
+
+                            {pendingApproval && (
+                              <div className={`flex items-start gap-2 p-3 rounded border text-sm ${pendingApproval.tone}`}>
+                                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                {pendingApproval.text}
+                              </div>
+                            )}
+
                             {selectedVerification.status === 'pending' && (
                               <div className="space-y-4 pt-4 border-t">
                                 <div>
@@ -265,6 +345,7 @@ const PaymentVerificationManagement = () => {
                                   <Button
                                     onClick={() => handleApprove(selectedVerification)}
                                     className="bg-green-600 hover:bg-green-700"
+                                    disabled={reviewPayment.isPending || pendingApproval?.blocksApproval}
                                   >
                                     <CheckCircle className="w-4 h-4 mr-1" />
                                     Aprobar
@@ -272,6 +353,7 @@ const PaymentVerificationManagement = () => {
                                   <Button
                                     onClick={() => handleReject(selectedVerification)}
                                     variant="destructive"
+                                    disabled={reviewPayment.isPending}
                                   >
                                     <XCircle className="w-4 h-4 mr-1" />
                                     Rechazar
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Clock, Mail, Phone, Users } from 'lucide-react';
+import type { Table } from '@/hooks/useTables';
+import { formatReservationTime, useUpdateReservationStatus } from '@/hooks/useReservations';
+import {
+  reservationStatusColors,
+  reservationStatusLabels,
+  type Reservation,
+  type ReservationStatus
+} from '@/types/reservation';
+
+interface ReservationDetailsDialogProps {
+  reservation: Reservation | null;
+  tables: Table[];
+  onOpenChange: (open: boolean) => void;
+  onEdit: (reservation: Reservation) => void;
+}
+
+const ReservationDetailsDialog = ({ reservation, tables, onOpenChange, onEdit }: ReservationDetailsDialogProps) => {
+  const updateStatus = useUpdateReservationStatus();
+
+  if (!reservation) return null;
+
+  const tableNumbers = tables
+    .filter((table) => reservation.reservation_tables.some((assigned) => assigned.table_id === table.id))
+    .map((table) => table.table_number);
+  const hasStarted = new Date(reservation.starts_at).getTime() <= Date.now();
+
+  const changeStatus = async (status: ReservationStatus) => {
+    try {
+      await updateStatus.mutateAsync({ id: reservation.id, status });
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {reservation.customer_name}
+            <Badge variant="outline" className={reservationStatusColors[reservation.status]}>
+              {reservationStatusLabels[reservation.status]}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Clock className="w-4 h-4 text-gray-500" />
+            {new Date(reservation.starts_at).toLocaleDateString('es-VE')} · {formatReservationTime(reservation.starts_at)}
+            {' – '}
+            {formatReservationTime(reservation.ends_at)}
+          </div>
+          <div className="flex items-center gap-2">
+            <Users className="w-4 h-4 text-gray-500" />
+            {reservation.party_size} personas · Mesa {tableNumbers.join(' + ') || '—'}
+          </div>
+          <div className="flex items-center gap-2">
+            <Phone className="w-4 h-4 text-gray-500" />
+            <a href={`tel:${reservation.customer_phone}`} className="underline">{reservation.customer_phone}</a>
+          </div>
+          {reservation.customer_email && (
+            <div className="flex items-center gap-2">
+              <Mail className="w-4 h-4 text-gray-500" />
+              {reservation.customer_email}
+            </div>
+          )}
+          {reservation.notes && (
+            <p className="p-2 bg-yellow-50 border border-yellow-200 rounded">{reservation.notes}</p>
+          )}
+          <p className="text-xs text-gray-500">
+            {reservation.source === 'online' ? 'Reservada en línea' : 'Reservada por el personal'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {(reservation.status === 'confirmed' || reservation.status === 'seated') && (
+            <Button variant="outline" onClick={() => onEdit(reservation)}>
+              Editar
+            </Button>
+          )}
+          {reservation.status === 'confirmed' && (
+            <>
+              <Button
+                variant="outline"
+                className="text-red-600"
+                onClick={() => changeStatus('cancelled')}
+                disabled={updateStatus.isPending}
+              >
+                Cancelar reserva
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => changeStatus('no_show')}
+                disabled={updateStatus.isPending || !hasStarted}
+                title={hasStarted ? undefined : 'Disponible a partir de la hora de la reserva'}
+              >
+                No se presentó
+              </Button>
+              <Button onClick={() => changeStatus('seated')} disabled={updateStatus.isPending}>
+                Sentar
+              </Button>
+            </>
+          )}
+          {reservation.status === 'seated' && (
+            <Button onClick={() => changeStatus('completed')} disabled={updateStatus.isPending}>
+              Completar
+            </Button>
+          )}
+          {reservation.status === 'no_show' && (
+            <Button variant="outline" onClick={() => changeStatus('seated')} disabled={updateStatus.isPending}>
+              Llegó tarde: sentar
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReservationDetailsDialog;
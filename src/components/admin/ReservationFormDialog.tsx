@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useTables } from '@/hooks/useTables';
+import {
+  useCreateReservation,
+  useReservationSettings,
+  useReservationTableSuggestions,
+  useUpdateReservation
+} from '@/hooks/useReservations';
+import type { Reservation } from '@/types/reservation';
+
+interface ReservationFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing an existing booking when set; otherwise a new one on defaultDate
+  reservation?: Reservation | null;
+  defaultDate: string;
+}
+
+const sameTables = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id) => b.includes(id));
+
+const ReservationFormDialog = ({ open, onOpenChange, reservation, defaultDate }: ReservationFormDialogProps) => {
+  const { data: tables } = useTables();
+  const { data: settings } = useReservationSettings();
+  const createReservation = useCreateReservation();
+  const updateReservation = useUpdateReservation();
+
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [customerEmail, setCustomerEmail] = useState('');
+  const [partySize, setPartySize] = useState('2');
+  const [date, setDate] = useState(defaultDate);
+  const [time, setTime] = useState('20:00');
+  const [duration, setDuration] = useState('90');
+  const [notes, setNotes] = useState('');
+  const [tableIds, setTableIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (reservation) {
+      const startsAt = new Date(reservation.starts_at);
+      setCustomerName(reservation.customer_name);
+      setCustomerPhone(reservation.customer_phone);
+      setCustomerEmail(reservation.customer_email ?? '');
+      setPartySize(reservation.party_size.toString());
+      setDate(format(startsAt, 'yyyy-MM-dd'));
+      setTime(format(startsAt, 'HH:mm'));
+      setDuration(reservation.duration_minutes.toString());
+      setNotes(reservation.notes ?? '');
+      setTableIds(reservation.reservation_tables.map((table) => table.table_id));
+    } else {
+      setCustomerName('');
+      setCustomerPhone('');
+      setCustomerEmail('');
+      setPartySize('2');
+      setDate(defaultDate);
+      setTime('20:00');
+      setDuration((settings?.default_duration_minutes ?? 90).toString());
+      setNotes('');
+      setTableIds([]);
+    }
+  }, [open, reservation, defaultDate, settings?.default_duration_minutes]);
+
+  const size = parseInt(partySize) || 0;
+  const durationMinutes = parseInt(duration) || 0;
+  const startsAt = date && time ? new Date(`${date}T${time}`).toISOString() : undefined;
+
+  const { data: suggestions, isLoading: isLoadingSuggestions } = useReservationTableSuggestions({
+    partySize: size,
+    startsAt,
+    durationMinutes: durationMinutes || undefined,
+    excludeReservationId: reservation?.id
+  });
+
+  const selectedCapacity = (tables || [])
+    .filter((table) => tableIds.includes(table.id))
+    .reduce((sum, table) => sum + table.capacity, 0);
+
+  const toggleTable = (tableId: string) => {
+    setTableIds((current) =>
+      current.includes(tableId) ? current.filter((id) => id !== tableId) : [...current, tableId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startsAt) return;
+
+    try {
+      if (reservation) {
+        await updateReservation.mutateAsync({
+          id: reservation.id,
+          partySize: size,
+          startsAt,
+          durationMinutes,
+          tableIds,
+          notes
+        });
+      } else {
+        await createReservation.mutateAsync({
+          customerName,
+          customerPhone,
+          customerEmail: customerEmail || undefined,
+          partySize: size,
+          startsAt,
+          durationMinutes,
+          // Without a choice the server books the best suggestion
+          tableIds: tableIds.length > 0 ? tableIds : undefined,
+          notes: notes || undefined
+        });
+      }
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  const isSaving = createReservation.isPending || updateReservation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reservation ? `Editar reserva de ${reservation.customer_name}` : 'Nueva reserva'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!reservation && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="customer_name">Nombre</Label>
+                  <Input
+                    id="customer_name"
+                    value={customerName}
+                    onChange={(e) => setCustomerName(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customer_phone">Teléfono</Label>
+                  <Input
+                    id="customer_phone"
+                    type="tel"
+                    value={customerPhone}
+                    onChange={(e) => setCustomerPhone(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customer_email">Correo (opcional)</Label>
+                <Input
+                  id="customer_email"
+                  type="email"
+                  value={customerEmail}
+                  onChange={(e) => setCustomerEmail(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="party_size">Personas</Label>
+              <Input
+                id="party_size"
+                type="number"
+                min="1"
+                value={partySize}
+                onChange={(e) => setPartySize(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation_date">Fecha</Label>
+              <Input
+                id="reservation_date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation_time">Hora</Label>
+              <Input
+                id="reservation_time"
+                type="time"
+                step={(settings?.slot_minutes ?? 15) * 60}
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="duration">Minutos</Label>
+              <Input
+                id="duration"
+                type="number"
+                min="15"
+                step="15"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Mesas sugeridas</Label>
+            {isLoadingSuggestions && startsAt && size > 0 ? (
+              <p className="text-sm text-gray-500">Buscando mesas libres...</p>
+            ) : suggestions && suggestions.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map((suggestion) => (
+                  <Button
+                    key={suggestion.table_ids.join()}
+                    type="button"
+                    size="sm"
+                    variant={sameTables(suggestion.table_ids, tableIds) ? 'default' : 'outline'}
+                    onClick={() => setTableIds(suggestion.table_ids)}
+                  >
+                    Mesa {suggestion.table_numbers.join(' + ')} · {suggestion.total_capacity}p
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-orange-600">
+                No hay mesas libres que alcancen para este grupo a esa hora.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Mesas</Label>
+              {tableIds.length > 0 && (
+                <Badge variant={selectedCapacity >= size ? 'secondary' : 'destructive'}>
+                  {selectedCapacity} asientos
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {tables?.map((table) => (
+                <Button
+                  key={table.id}
+                  type="button"
+                  size="sm"
+                  variant={tableIds.includes(table.id) ? 'default' : 'outline'}
+                  className="h-8 px-2 text-xs"
+                  onClick={() => toggleTable(table.id)}
+                >
+                  {table.table_number} ({table.capacity})
+                </Button>
+              ))}
+            </div>
+            {!reservation && tableIds.length === 0 && (
+              <p className="text-xs text-gray-500">Si no eliges, se asigna la primera sugerencia.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reservation_notes">Notas</Label>
+            <Textarea
+              id="reservation_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSaving || (!!reservation && tableIds.length === 0)}>
+              {isSaving ? 'Guardando...' : reservation ? 'Guardar cambios' : 'Crear reserva'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReservationFormDialog;
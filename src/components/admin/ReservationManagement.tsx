@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, Plus, Settings } from 'lucide-react';
+import { useTables } from '@/hooks/useTables';
+import { timeToMinutes, useReservationSettings, useReservations } from '@/hooks/useReservations';
+import {
+  reservationStatusColors,
+  reservationStatusLabels,
+  type Reservation,
+  type ReservationStatus
+} from '@/types/reservation';
+import ReservationFormDialog from './ReservationFormDialog';
+import ReservationDetailsDialog from './ReservationDetailsDialog';
+import ReservationSettingsDialog from './ReservationSettingsDialog';
+
+// Confirmed bookings this many minutes past their start are flagged as running late
+const LATE_AFTER_MINUTES = 15;
+
+// Day view: one row per table, one bar per booking, so gaps and clashes are visible at a glance
+const ReservationManagement = () => {
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [editingReservation, setEditingReservation] = useState<Reservation | null>(null);
+  const [selectedReservationId, setSelectedReservationId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: tables, isLoading: isLoadingTables } = useTables();
+  const { data: settings } = useReservationSettings();
+  const { data: reservations, isLoading: isLoadingReservations } = useReservations(date);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const dayStart = new Date(`${date}T00:00:00`).getTime();
+  const minuteOfDay = (value: string | number) => (new Date(value).getTime() - dayStart) / 60000;
+
+  const visible = (reservations || []).filter((reservation) => reservation.status !== 'cancelled');
+  const selectedReservation = reservations?.find((reservation) => reservation.id === selectedReservationId) || null;
+
+  // Opening hours, stretched to cover any booking made outside them
+  const rangeStart = Math.max(0, Math.min(
+    Math.floor(timeToMinutes(settings?.opening_time ?? '12:00') / 60) * 60,
+    ...visible.map((reservation) => Math.floor(minuteOfDay(reservation.starts_at) / 60) * 60)
+  ));
+  const rangeEnd = Math.min(24 * 60, Math.max(
+    Math.ceil((timeToMinutes(settings?.last_seating_time ?? '21:30') + (settings?.default_duration_minutes ?? 90)) / 60) * 60,
+    ...visible.map((reservation) => Math.ceil(minuteOfDay(reservation.ends_at) / 60) * 60)
+  ));
+  const span = Math.max(60, rangeEnd - rangeStart);
+  const hours = Array.from({ length: span / 60 }, (_, index) => rangeStart / 60 + index);
+  const toPercent = (minutes: number) => ((Math.min(Math.max(minutes, rangeStart), rangeEnd) - rangeStart) / span) * 100;
+  const nowMinute = minuteOfDay(now);
+
+  const countByStatus = (status: ReservationStatus) =>
+    (reservations || []).filter((reservation) => reservation.status === status).length;
+  const expectedGuests = (reservations || [])
+    .filter((reservation) => reservation.status === 'confirmed' || reservation.status === 'seated')
+    .reduce((sum, reservation) => sum + reservation.party_size, 0);
+
+  const unassigned = visible.filter((reservation) => reservation.reservation_tables.length === 0);
+  const rows = [
+    ...(tables || []).map((table) => ({
+      key: table.id,
+      label: table.table_number,
+      detail: `${table.capacity}p${table.zone ? ` · ${table.zone}` : ''}`,
+      reservations: visible.filter((reservation) =>
+        reservation.reservation_tables.some((assigned) => assigned.table_id === table.id)
+      )
+    })),
+    ...(unassigned.length > 0 ? [{ key: 'unassigned', label: 'Sin mesa', detail: '', reservations: unassigned }] : [])
+  ];
+
+  const shiftDate = (days: number) => setDate(format(addDays(new Date(`${date}T00:00:00`), days), 'yyyy-MM-dd'));
+
+  const openNew = () => {
+    setEditingReservation(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (reservation: Reservation) => {
+    setSelectedReservationId(null);
+    setEditingReservation(reservation);
+    setIsFormOpen(true);
+  };
+
+  if (isLoadingTables || isLoadingReservations) {
+    return <div className="text-center py-4">Cargando reservas...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => shiftDate(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Input type="date" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} className="w-40" />
+          <Button variant="outline" size="icon" onClick={() => shiftDate(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setDate(format(new Date(), 'yyyy-MM-dd'))}>
+            Hoy
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          {settings && (
+            <Button variant="outline" onClick={() => setIsSettingsOpen(true)}>
+              <Settings className="w-4 h-4 mr-2" />
+              Horario
+            </Button>
+          )}
+          <Button onClick={openNew}>
+            <Plus className="w-4 h-4 mr-2" />
+            Nueva reserva
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="secondary">{expectedGuests} comensales</Badge>
+        {(Object.keys(reservationStatusLabels) as ReservationStatus[]).map((status) => (
+          <Badge key={status} variant="outline" className={reservationStatusColors[status]}>
+            {reservationStatusLabels[status]}: {countByStatus(status)}
+          </Badge>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Aún no hay mesas registradas.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <div className="min-w-[720px]">
+            <div className="flex border-b bg-gray-50 text-xs text-gray-500">
+              <div className="w-24 shrink-0 p-2 font-medium">Mesa</div>
+              <div className="relative flex-1 h-8">
+                {hours.map((hour) => (
+                  <span
+                    key={hour}
+                    className="absolute top-2 -translate-x-1/2"
+                    style={{ left: `${toPercent(hour * 60)}%` }}
+                  >
+                    {String(hour).padStart(2, '0')}:00
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {rows.map((row) => (
+              <div key={row.key} className="flex border-b last:border-b-0">
+                <div className="w-24 shrink-0 p-2 leading-tight">
+                  <div className="font-medium text-sm">{row.label}</div>
+                  <div className="text-[10px] text-gray-500 truncate">{row.detail}</div>
+                </div>
+                <div className="relative flex-1 h-12">
+                  {hours.map((hour) => (
+                    <span
+                      key={hour}
+                      className="absolute inset-y-0 border-l border-gray-100"
+                      style={{ left: `${toPercent(hour * 60)}%` }}
+                    />
+                  ))}
+                  {nowMinute > rangeStart && nowMinute < rangeEnd && (
+                    <span
+                      className="absolute inset-y-0 border-l-2 border-red-400 z-10"
+                      style={{ left: `${toPercent(nowMinute)}%` }}
+                    />
+                  )}
+                  {row.reservations.map((reservation) => {
+                    const start = toPercent(minuteOfDay(reservation.starts_at));
+                    const end = toPercent(minuteOfDay(reservation.ends_at));
+                    const isLate = reservation.status === 'confirmed' &&
+                      now > new Date(reservation.starts_at).getTime() + LATE_AFTER_MINUTES * 60000;
+
+                    return (
+                      <button
+                        key={reservation.id}
+                        type="button"
+                        className={`absolute top-1 bottom-1 rounded border-l-4 px-1 text-left text-[11px] leading-tight overflow-hidden hover:brightness-95 ${
+                          reservationStatusColors[reservation.status]
+                        } ${isLate ? 'ring-2 ring-orange-400' : ''}`}
+                        style={{ left: `${start}%`, width: `${Math.max(end - start, 1)}%` }}
+                        onClick={() => setSelectedReservationId(reservation.id)}
+                        title={`${reservation.customer_name} · ${reservation.party_size}p${isLate ? ' · con retraso' : ''}`}
+                      >
+                        <div className="font-medium truncate">{reservation.customer_name}</div>
+                        <div className="truncate">
+                          {reservation.party_size}p
+                          {reservation.reservation_tables.length > 1 && ` · ${reservation.reservation_tables.length} mesas`}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {countByStatus('cancelled') > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">Canceladas</p>
+          <div className="flex flex-wrap gap-2">
+            {reservations
+              ?.filter((reservation) => reservation.status === 'cancelled')
+              .map((reservation) => (
+                <Button
+                  key={reservation.id}
+                  variant="outline"
+                  size="sm"
+                  className="text-gray-500"
+                  onClick={() => setSelectedReservationId(reservation.id)}
+                >
+                  {reservation.customer_name} · {reservation.party_size}p
+                </Button>
+              ))}
+          </div>
+        </div>
+      )}
+
+      <ReservationDetailsDialog
+        reservation={selectedReservation}
+        tables={tables || []}
+        onOpenChange={(open) => !open && setSelectedReservationId(null)}
+        onEdit={openEdit}
+      />
+
+      <ReservationFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        reservation={editingReservation}
+        defaultDate={date}
+      />
+
+      {settings && (
+        <ReservationSettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} settings={settings} />
+      )}
+    </div>
+  );
+};
+
+export default ReservationManagement;
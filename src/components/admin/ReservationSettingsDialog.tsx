@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useUpdateReservationSettings } from '@/hooks/useReservations';
+import type { ReservationSettings } from '@/types/reservation';
+
+interface ReservationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: ReservationSettings;
+}
+
+const ReservationSettingsDialog = ({ open, onOpenChange, settings }: ReservationSettingsDialogProps) => {
+  const updateSettings = useUpdateReservationSettings();
+  const [form, setForm] = useState({
+    opening_time: '',
+    last_seating_time: '',
+    slot_minutes: '30',
+    default_duration_minutes: '',
+    max_party_size: '',
+    booking_horizon_days: ''
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      opening_time: settings.opening_time.slice(0, 5),
+      last_seating_time: settings.last_seating_time.slice(0, 5),
+      slot_minutes: settings.slot_minutes.toString(),
+      default_duration_minutes: settings.default_duration_minutes.toString(),
+      max_party_size: settings.max_party_size.toString(),
+      booking_horizon_days: settings.booking_horizon_days.toString()
+    });
+  }, [open, settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await updateSettings.mutateAsync({
+        id: settings.id,
+        updates: {
+          opening_time: form.opening_time,
+          last_seating_time: form.last_seating_time,
+          slot_minutes: parseInt(form.slot_minutes),
+          default_duration_minutes: parseInt(form.default_duration_minutes),
+          max_party_size: parseInt(form.max_party_size),
+          booking_horizon_days: parseInt(form.booking_horizon_days)
+        }
+      });
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Horario de reservas</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening_time">Primera reserva</Label>
+              <Input
+                id="opening_time"
+                type="time"
+                value={form.opening_time}
+                onChange={(e) => setForm({ ...form, opening_time: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="last_seating_time">Última reserva</Label>
+              <Input
+                id="last_seating_time"
+                type="time"
+                value={form.last_seating_time}
+                onChange={(e) => setForm({ ...form, last_seating_time: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Intervalo</Label>
+              <Select value={form.slot_minutes} onValueChange={(value) => setForm({ ...form, slot_minutes: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="15">Cada 15 min</SelectItem>
+                  <SelectItem value="30">Cada 30 min</SelectItem>
+                  <SelectItem value="60">Cada hora</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="default_duration_minutes">Duración (min)</Label>
+              <Input
+                id="default_duration_minutes"
+                type="number"
+                min="30"
+                max="360"
+                step="15"
+                value={form.default_duration_minutes}
+                onChange={(e) => setForm({ ...form, default_duration_minutes: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_party_size">Grupo máximo en línea</Label>
+              <Input
+                id="max_party_size"
+                type="number"
+                min="1"
+                value={form.max_party_size}
+                onChange={(e) => setForm({ ...form, max_party_size: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking_horizon_days">Días de antelación</Label>
+              <Input
+                id="booking_horizon_days"
+                type="number"
+                min="1"
+                value={form.booking_horizon_days}
+                onChange={(e) => setForm({ ...form, booking_horizon_days: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Horas en la zona horaria {settings.time_zone}.</p>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={updateSettings.isPending}>
+              {updateSettings.isPending ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReservationSettingsDialog;
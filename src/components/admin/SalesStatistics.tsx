@@ -8,6 +8,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, DollarSign, ShoppingCart, Clock } from 'lucide-react';
+import { channelLabels } from '@/components/admin/orders/types';
+import type { OrderChannel } from '@/lib/orders';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
@@ -48,6 +50,11 @@ const SalesStatistics = () => {
   const dailySalesData = stats?.daily_sales ? JSON.parse(stats.daily_sales as string) : [];
   const topItemsData = stats?.top_selling_items ? JSON.parse(stats.top_selling_items as string) : [];
   const peakHoursData = stats?.peak_hours ? JSON.parse(stats.peak_hours as string) : [];
+  const channelData = (stats?.sales_by_channel ?? []) as unknown as {
+    channel: OrderChannel;
+    orders: number;
+    revenue: number;
+  }[];
 
   return (
     <div className="space-y-6">
@@ -230,6 +237,27 @@ const SalesStatistics = () => {
         </Card>
       </div>
 
+      {/* Sales by Channel */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Ventas por Canal</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {channelData.map((channel) => (
+              <div key={channel.channel} className="p-3 bg-gray-50 rounded-lg">
+                <h4 className="font-medium">{channelLabels[channel.channel]}</h4>
+                <p className="text-sm text-gray-600">{channel.orders} pedidos</p>
+                <p className="font-semibold">${Number(channel.revenue || 0).toFixed(2)}</p>
+              </div>
+            ))}
+          </div>
+          {channelData.length === 0 && (
+            <div className="text-center py-4 text-gray-500">Sin ventas en el período</div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Orders Summary Table */}
       <Card>
         <CardHeader>
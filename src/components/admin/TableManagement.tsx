@@ -7,10 +7,17 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Edit, Trash2, Users } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Plus, Edit, Trash2, Users, Receipt, Sparkles } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Tables } from '@/integrations/supabase/types';
+import { formatUSD } from '@/lib/currency';
+import { sessionTotal, useMarkTableAvailable, useOpenTableSessions } from '@/hooks/useTableSessions';
+import { useFloorZones } from '@/hooks/useFloorPlan';
+import FloorPlanEditor from './FloorPlanEditor';
+import TableSessionDialog from '@/components/tables/TableSessionDialog';
+import WaitlistPanel from '@/components/tables/WaitlistPanel';
 
 type RestaurantTable = Tables<'restaurant_tables'>;
 
@@ -20,10 +27,14 @@ const TableManagement = () => {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingTable, setEditingTable] = useState<RestaurantTable | null>(null);
+  const [viewingSessionId, setViewingSessionId] = useState<string | null>(null);
+  const { sessionsByTable } = useOpenTableSessions();
+  const markTableAvailable = useMarkTableAvailable();
+  const { data: zones } = useFloorZones();
   const [formData, setFormData] = useState({
     table_number: '',
     capacity: 4,
-    zone: '',
+    zone_id: '',
   });
 
   const statusColors = {
@@ -87,7 +98,7 @@ const TableManagement = () => {
           {
             table_number: formData.table_number,
             capacity: formData.capacity,
-            zone: formData.zone || null,
+            zone_id: formData.zone_id || null,
             status: 'available'
           }
         ]);
@@ -96,7 +107,7 @@ const TableManagement = () => {
 
       toast.success('Mesa creada exitosamente');
       setIsCreateDialogOpen(false);
-      setFormData({ table_number: '', capacity: 4, zone: '' });
+      setFormData({ table_number: '', capacity: 4, zone_id: '' });
       fetchTables();
     } catch (error) {
       console.error('Error creating table:', error);
@@ -113,7 +124,7 @@ const TableManagement = () => {
         .update({
           table_number: formData.table_number,
           capacity: formData.capacity,
-          zone: formData.zone || null,
+          zone_id: formData.zone_id || null,
         })
         .eq('id', editingTable.id);
 
@@ -122,7 +133,7 @@ const TableManagement = () => {
       toast.success('Mesa actualizada exitosamente');
       setIsEditDialogOpen(false);
       setEditingTable(null);
-      setFormData({ table_number: '', capacity: 4, zone: '' });
+      setFormData({ table_number: '', capacity: 4, zone_id: '' });
       fetchTables();
     } catch (error) {
       console.error('Error updating table:', error);
@@ -171,7 +182,7 @@ const TableManagement = () => {
     setFormData({
       table_number: table.table_number,
       capacity: table.capacity,
-      zone: table.zone || '',
+      zone_id: table.zone_id || '',
     });
     setIsEditDialogOpen(true);
   };
@@ -223,13 +234,21 @@ const TableManagement = () => {
                 />
               </div>
               <div>
-                <Label htmlFor="zone">Zona (Opcional)</Label>
-                <Input
-                  id="zone"
-                  value={formData.zone}
-                  onChange={(e) => setFormData({ ...formData, zone: e.target.value })}
-                  placeholder="Ej: Interior, Terraza, VIP"
-                />
+                <Label>Zona (Opcional)</Label>
+                <Select
+                  value={formData.zone_id || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, zone_id: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin zona</SelectItem>
+                    {zones?.map((zone) => (
+                      <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="flex justify-end space-x-2">
                 <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
@@ -242,75 +261,140 @@ const TableManagement = () => {
         </Dialog>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {tables.map((table) => (
-          <Card key={table.id} className="hover:shadow-md transition-shadow">
-            <CardHeader className="pb-3">
-              <div className="flex justify-between items-start">
-                <div>
-                  <CardTitle className="text-lg">Mesa {table.table_number}</CardTitle>
-                  <CardDescription className="flex items-center gap-1">
-                    <Users className="w-4 h-4" />
-                    {table.capacity} personas
-                  </CardDescription>
-                </div>
-                <div className="flex space-x-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => openEditDialog(table)}
-                  >
-                    <Edit className="w-4 h-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDelete(table.id)}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Estado:</span>
-                  <Badge className={statusColors[table.status as keyof typeof statusColors]}>
-                    {statusLabels[table.status as keyof typeof statusLabels]}
-                  </Badge>
-                </div>
-                
-                {table.zone && (
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Zona:</span>
-                    <span className="text-sm text-gray-600">{table.zone}</span>
-                  </div>
-                )}
-
-                <div className="pt-2">
-                  <Label className="text-sm font-medium">Cambiar Estado:</Label>
-                  <Select
-                    value={table.status}
-                    onValueChange={(value: 'available' | 'occupied' | 'cleaning') => 
-                      handleStatusChange(table.id, value)
-                    }
-                  >
-                    <SelectTrigger className="mt-1">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="available">Disponible</SelectItem>
-                      <SelectItem value="occupied">Ocupada</SelectItem>
-                      <SelectItem value="cleaning">Limpieza</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+      <Tabs defaultValue="tables">
+        <TabsList>
+          <TabsTrigger value="tables">Mesas</TabsTrigger>
+          <TabsTrigger value="floor">Plano</TabsTrigger>
+          <TabsTrigger value="waitlist">Lista de espera</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="tables">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {tables.map((table) => {
+              const session = sessionsByTable.get(table.id);
+
+              return (
+                <Card key={table.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="text-lg">Mesa {table.table_number}</CardTitle>
+                        <CardDescription className="flex items-center gap-1">
+                          <Users className="w-4 h-4" />
+                          {table.capacity} personas
+                        </CardDescription>
+                      </div>
+                      <div className="flex space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditDialog(table)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(table.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Estado:</span>
+                        <Badge className={statusColors[table.status as keyof typeof statusColors]}>
+                          {statusLabels[table.status as keyof typeof statusLabels]}
+                        </Badge>
+                      </div>
+                      
+                      {table.zone && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">Zona:</span>
+                          <span className="text-sm text-gray-600">{table.zone}</span>
+                        </div>
+                      )}
+
+                      {session && (
+                        <div className="p-2 bg-gray-50 rounded-md space-y-1 text-sm">
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">
+                              Cuenta abierta desde {new Date(session.opened_at).toLocaleTimeString('es-VE', { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                            <span className="font-medium">{formatUSD(sessionTotal(session.orders))}</span>
+                          </div>
+                          <div className="flex justify-between items-center">
+                            <span className="text-gray-600">
+                              {session.orders.length} {session.orders.length === 1 ? 'ronda' : 'rondas'}
+                              {session.table_session_checks.length > 0 &&
+                                ` · ${session.table_session_checks.filter((check) => check.status === 'paid').length}/${session.table_session_checks.length} cobradas`}
+                            </span>
+                            <Button variant="outline" size="sm" onClick={() => setViewingSessionId(session.id)}>
+                              <Receipt className="w-4 h-4 mr-1" />
+                              Ver cuenta
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
+                      {table.status === 'cleaning' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => markTableAvailable.mutate(table.id)}
+                          disabled={markTableAvailable.isPending}
+                        >
+                          <Sparkles className="w-4 h-4 mr-1" />
+                          Marcar disponible
+                        </Button>
+                      )}
+
+                      <div className="pt-2">
+                        <Label className="text-sm font-medium">Cambiar Estado:</Label>
+                        <Select
+                          value={table.status}
+                          onValueChange={(value: 'available' | 'occupied' | 'cleaning') => 
+                            handleStatusChange(table.id, value)
+                          }
+                        >
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="available">Disponible</SelectItem>
+                            <SelectItem value="occupied">Ocupada</SelectItem>
+                            <SelectItem value="cleaning">Limpieza</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="floor">
+          <FloorPlanEditor />
+        </TabsContent>
+
+        <TabsContent value="waitlist">
+          <WaitlistPanel />
+        </TabsContent>
+      </Tabs>
+
+      {viewingSessionId && (
+        <TableSessionDialog
+          sessionId={viewingSessionId}
+          open={!!viewingSessionId}
+          onOpenChange={(open) => !open && setViewingSessionId(null)}
+        />
+      )}
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -343,13 +427,21 @@ const TableManagement = () => {
               />
             </div>
             <div>
-              <Label htmlFor="edit_zone">Zona (Opcional)</Label>
-              <Input
-                id="edit_zone"
-                value={formData.zone}
-                onChange={(e) => setFormData({ ...formData, zone: e.target.value })}
-                placeholder="Ej: Interior, Terraza, VIP"
-              />
+              <Label>Zona (Opcional)</Label>
+              <Select
+                value={formData.zone_id || 'none'}
+                onValueChange={(value) => setFormData({ ...formData, zone_id: value === 'none' ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Sin zona</SelectItem>
+                  {zones?.map((zone) => (
+                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
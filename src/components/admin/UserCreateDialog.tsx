@@ -185,6 +185,7 @@ const UserCreateDialog = ({ open, onOpenChange, onUserCreated }: UserCreateDialo
                       <SelectItem value="restaurant">Restaurante</SelectItem>
                       <SelectItem value="delivery">Repartidor</SelectItem>
                       <SelectItem value="mesero">Mesero</SelectItem>
+                      <SelectItem value="kitchen">Cocina</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -20,6 +20,7 @@ const UserDetailsDialog = ({ user, open, onOpenChange }: UserDetailsDialogProps)
       restaurant: 'Restaurante',
       delivery: 'Repartidor',
       mesero: 'Mesero',
+      kitchen: 'Cocina',
     };
     return labels[role] || role;
   };
@@ -30,6 +31,7 @@ const UserDetailsDialog = ({ user, open, onOpenChange }: UserDetailsDialogProps)
       restaurant: 'bg-green-100 text-green-800',
       delivery: 'bg-yellow-100 text-yellow-800',
       mesero: 'bg-purple-100 text-purple-800',
+      kitchen: 'bg-red-100 text-red-800',
     };
     return colors[role] || 'bg-gray-100 text-gray-800';
   };
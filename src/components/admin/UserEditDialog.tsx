@@ -25,6 +25,7 @@ const UserEditDialog = ({ user, open, onOpenChange, onUserUpdated }: UserEditDia
       restaurant: 'Restaurante',
       delivery: 'Repartidor',
       mesero: 'Mesero',
+      kitchen: 'Cocina',
     };
     return labels[role] || role;
   };
@@ -80,6 +81,7 @@ const UserEditDialog = ({ user, open, onOpenChange, onUserUpdated }: UserEditDia
                 <SelectItem value="restaurant">Restaurante</SelectItem>
                 <SelectItem value="delivery">Repartidor</SelectItem>
                 <SelectItem value="mesero">Mesero</SelectItem>
+                <SelectItem value="kitchen">Cocina</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -38,6 +38,7 @@ const UserManagement = () => {
       restaurant: 'bg-green-100 text-green-800',
       delivery: 'bg-yellow-100 text-yellow-800',
       mesero: 'bg-purple-100 text-purple-800',
+      kitchen: 'bg-red-100 text-red-800',
     };
     return colors[role] || 'bg-gray-100 text-gray-800';
   };
@@ -48,6 +49,7 @@ const UserManagement = () => {
       restaurant: 'Restaurante',
       delivery: 'Repartidor',
       mesero: 'Mesero',
+      kitchen: 'Cocina',
     };
     return labels[role] || role;
   };
@@ -118,6 +120,7 @@ const UserManagement = () => {
             <SelectItem value="restaurant">Restaurantes</SelectItem>
             <SelectItem value="delivery">Repartidores</SelectItem>
             <SelectItem value="mesero">Meseros</SelectItem>
+            <SelectItem value="kitchen">Cocina</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -5,8 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Eye, CheckCircle, XCircle, Clock, CreditCard, Info } from 'lucide-react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
+import { usePaymentReview } from '@/hooks/usePaymentReview';
+import { paymentMethodLabels, paymentStatusColors, paymentStatusLabels } from '@/types/payment';
+import { formatPaymentAmount } from '@/lib/currency';
 import { toast } from 'sonner';
 import OrderHeader from './OrderHeader';
 import OrderCustomerInfo from './OrderCustomerInfo';
@@ -14,51 +15,26 @@ import OrderItems from './OrderItems';
 import OrderStatusSelector from './OrderStatusSelector';
 import OrderNotes from './OrderNotes';
 import OrderDetailDialog from './OrderDetailDialog';
-import { type Order } from './types';
+import OrderPrintButtons from './OrderPrintButtons';
+import PaymentProofLink from '@/components/payment/PaymentProofLink';
+import { type Order, type OrderStatus } from './types';
 
 interface OrderCardProps {
   order: Order;
-  onStatusChange: (orderId: string, status: string) => void;
+  onStatusChange: (orderId: string, status: OrderStatus, reason?: string) => void;
 }
 
 const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
-  const queryClient = useQueryClient();
   const [rejectionReason, setRejectionReason] = useState('');
   const [selectedVerificationId, setSelectedVerificationId] = useState<string | null>(null);
   const [showDetailDialog, setShowDetailDialog] = useState(false);
 
-  const updatePaymentStatus = useMutation({
-    mutationFn: async ({ 
-      verificationId, 
-      status, 
-      rejectionReason 
-    }: { 
-      verificationId: string; 
-      status: 'approved' | 'rejected'; 
-      rejectionReason?: string 
-    }) => {
-      const { error } = await supabase
-        .from('manual_payment_verifications')
-        .update({
-          status,
-          rejection_reason: rejectionReason,
-          reviewed_by: (await supabase.auth.getUser()).data.user?.id,
-          reviewed_at: new Date().toISOString()
-        })
-        .eq('id', verificationId);
+  const reviewPayment = usePaymentReview();
 
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
-      toast.success('Estado del pago actualizado exitosamente');
-      setSelectedVerificationId(null);
-      setRejectionReason('');
-    },
-    onError: (error) => {
-      toast.error('Error al actualizar el pago: ' + error.message);
-    }
-  });
+  const resetPaymentReview = () => {
+    setSelectedVerificationId(null);
+    setRejectionReason('');
+  };
 
   const getPaymentStatusBadge = (status: string) => {
     switch (status) {
@@ -74,10 +50,10 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
   };
 
   const handleApprovePayment = (verificationId: string) => {
-    updatePaymentStatus.mutate({
-      verificationId,
-      status: 'approved'
-    });
+    reviewPayment.mutate(
+      { verificationId, approve: true },
+      { onSuccess: resetPaymentReview }
+    );
   };
 
   const handleRejectPayment = (verificationId: string) => {
@@ -86,11 +62,10 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
       return;
     }
 
-    updatePaymentStatus.mutate({
-      verificationId,
-      status: 'rejected',
-      rejectionReason
-    });
+    reviewPayment.mutate(
+      { verificationId, approve: false, rejectionReason },
+      { onSuccess: resetPaymentReview }
+    );
   };
 
   return (
@@ -99,15 +74,17 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
         <CardHeader>
           <div className="flex justify-between items-start">
             <OrderHeader order={order} />
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => setShowDetailDialog(true)}
-              className="ml-2"
-            >
-              <Info className="w-4 h-4 mr-1" />
-              Ver Detalle
-            </Button>
+            <div className="flex flex-wrap justify-end gap-2 ml-2">
+              <OrderPrintButtons order={order} />
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setShowDetailDialog(true)}
+              >
+                <Info className="w-4 h-4 mr-1" />
+                Ver Detalle
+              </Button>
+            </div>
           </div>
         </CardHeader>
         
@@ -132,6 +109,17 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                   <strong className="flex items-center">
                     <CreditCard className="w-4 h-4 mr-1" />
                     Verificación de Pago:
+                    {order.payment_status && (
+                      <Badge className={`ml-2 ${paymentStatusColors[order.payment_status]}`}>
+                        {paymentStatusLabels[order.payment_status]}
+                        {order.payment_status === 'partial' && ` ($${(order.total_amount - (order.amount_paid || 0)).toFixed(2)} pendiente)`}
+                      </Badge>
+                    )}
+                    {order.payment_method === 'cash' && (
+                      <Badge className="ml-2 bg-amber-100 text-amber-800">
+                        {paymentMethodLabels.cash}
+                      </Badge>
+                    )}
                   </strong>
                   {order.manual_payment_verifications && order.manual_payment_verifications.length > 0 && (
                     <Dialog>
@@ -157,7 +145,7 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                                   <strong>Banco de Origen:</strong> {verification.origin_bank}
                                 </div>
                                 <div>
-                                  <strong>Monto Pagado:</strong> ${verification.amount_paid.toFixed(2)}
+                                  <strong>Monto Pagado:</strong> {formatPaymentAmount(verification.amount_paid, verification.amount_currency)}
                                 </div>
                                 <div>
                                   <strong>Referencia:</strong> {verification.reference_number}
@@ -175,14 +163,12 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                               <div>
                                 <strong>Comprobante:</strong>
                                 <div className="mt-2">
-                                  <a 
-                                    href={verification.payment_proof_url} 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
+                                  <PaymentProofLink
+                                    path={verification.payment_proof_path}
                                     className="text-blue-600 hover:underline"
                                   >
                                     Ver Comprobante
-                                  </a>
+                                  </PaymentProofLink>
                                 </div>
                               </div>
 
@@ -213,7 +199,7 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                                     <Button
                                       onClick={() => handleApprovePayment(verification.id)}
                                       className="bg-green-600 hover:bg-green-700"
-                                      disabled={updatePaymentStatus.isPending}
+                                      disabled={reviewPayment.isPending}
                                     >
                                       <CheckCircle className="w-4 h-4 mr-1" />
                                       Aprobar
@@ -221,7 +207,7 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                                     <Button
                                       onClick={() => handleRejectPayment(verification.id)}
                                       variant="destructive"
-                                      disabled={updatePaymentStatus.isPending}
+                                      disabled={reviewPayment.isPending}
                                     >
                                       <XCircle className="w-4 h-4 mr-1" />
                                       Rechazar
@@ -247,7 +233,7 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                       {order.manual_payment_verifications.map((verification) => (
                         <div key={verification.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                           <span className="text-sm">
-                            {verification.payment_method_type} - ${verification.amount_paid.toFixed(2)}
+                            {verification.payment_method_type} - {formatPaymentAmount(verification.amount_paid, verification.amount_currency)}
                           </span>
                           <div className="flex items-center gap-2">
                             {getPaymentStatusBadge(verification.status)}
@@ -257,7 +243,7 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                                   size="sm"
                                   onClick={() => handleApprovePayment(verification.id)}
                                   className="bg-green-600 hover:bg-green-700 h-6 px-2"
-                                  disabled={updatePaymentStatus.isPending}
+                                  disabled={reviewPayment.isPending}
                                 >
                                   <CheckCircle className="w-3 h-3" />
                                 </Button>
@@ -300,7 +286,7 @@ const OrderCard = ({ order, onStatusChange }: OrderCardProps) => {
                                         <Button
                                           variant="destructive"
                                           onClick={() => handleRejectPayment(verification.id)}
-                                          disabled={updatePaymentStatus.isPending}
+                                          disabled={reviewPayment.isPending}
                                         >
                                           Rechazar
                                         </Button>
@@ -1,16 +1,14 @@
 
 import React from 'react';
-import { User, MapPin, Phone, Utensils } from 'lucide-react';
-import { type Order, extractTableId } from './types';
+import { User, MapPin, Phone, Utensils, Store } from 'lucide-react';
+import { type Order } from './types';
 
 interface OrderCustomerInfoProps {
   order: Order;
 }
 
 const OrderCustomerInfo = ({ order }: OrderCustomerInfoProps) => {
-  // Extraer ID de la mesa y usar la información de la relación
-  const tableId = extractTableId(order.notes);
-  const isTableOrder = tableId !== null;
+  const isTableOrder = order.channel === 'dine_in';
 
   return (
     <div className="grid md:grid-cols-2 gap-4 mb-4">
@@ -40,7 +38,7 @@ const OrderCustomerInfo = ({ order }: OrderCustomerInfoProps) => {
             <div className="text-sm text-gray-600">
               <div className="flex items-center gap-1">
                 <Utensils className="w-3 h-3" />
-                Mesa {order.restaurant_table?.table_number || tableId?.slice(-4)}
+                Mesa {order.restaurant_table?.table_number || order.table_id?.slice(-4)}
               </div>
               {order.restaurant_table?.zone && (
                 <div className="text-xs text-gray-500">
@@ -50,6 +48,16 @@ const OrderCustomerInfo = ({ order }: OrderCustomerInfoProps) => {
               <div className="text-xs text-gray-500 mt-1">Servicio en mesa</div>
             </div>
           </>
+        ) : order.channel === 'pickup' ? (
+          <>
+            <h4 className="font-medium mb-2 flex items-center gap-2">
+              <Store className="w-4 h-4" />
+              Retiro en Tienda
+            </h4>
+            <div className="text-sm text-gray-600">
+              El cliente retirará el pedido en el restaurante
+            </div>
+          </>
         ) : order.delivery_addresses ? (
           <>
             <h4 className="font-medium mb-2 flex items-center gap-2">
@@ -4,7 +4,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { User, MapPin, Phone, Clock, CreditCard, Utensils } from 'lucide-react';
-import { statusColors, statusLabels, type Order, extractTableId } from './types';
+import { statusColors, statusLabels, channelLabels, type Order } from './types';
+import { formatPaymentAmount, formatVES } from '@/lib/currency';
+import PaymentProofLink from '@/components/payment/PaymentProofLink';
+import { getPaymentProvider } from '@/lib/paymentProviders';
+import PaymentIntentRefundDialog from './PaymentIntentRefundDialog';
+import OrderStatusHistory from './OrderStatusHistory';
+import OrderPrintButtons from './OrderPrintButtons';
 
 interface OrderDetailDialogProps {
   order: Order | null;
@@ -12,12 +18,18 @@ interface OrderDetailDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
+const intentStatusLabels: Record<string, string> = {
+  requires_confirmation: 'Sin confirmar',
+  processing: 'Procesando',
+  succeeded: 'Aprobado',
+  failed: 'Rechazado',
+  cancelled: 'Cancelado'
+};
+
 const OrderDetailDialog = ({ order, open, onOpenChange }: OrderDetailDialogProps) => {
   if (!order) return null;
 
-  // Usar la función helper para extraer el ID de la mesa y usar la información de la relación
-  const tableId = extractTableId(order.notes);
-  const isTableOrder = tableId !== null;
+  const isTableOrder = order.channel === 'dine_in';
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -25,9 +37,12 @@ const OrderDetailDialog = ({ order, open, onOpenChange }: OrderDetailDialogProps
         <DialogHeader>
           <DialogTitle className="flex items-center justify-between">
             <span>Detalle del Pedido #{order.id.slice(-8)}</span>
-            <Badge className={statusColors[order.status || 'pending']}>
-              {statusLabels[order.status || 'pending']}
-            </Badge>
+            <div className="flex items-center gap-3 mr-6">
+              <OrderPrintButtons order={order} />
+              <Badge className={statusColors[order.status || 'pending']}>
+                {statusLabels[order.status || 'pending']}
+              </Badge>
+            </div>
           </DialogTitle>
         </DialogHeader>
 
@@ -51,7 +66,7 @@ const OrderDetailDialog = ({ order, open, onOpenChange }: OrderDetailDialogProps
               {isTableOrder ? (
                 <div className="flex items-center gap-2">
                   <Utensils className="w-4 h-4" />
-                  <strong>Mesa:</strong> Mesa {order.restaurant_table?.table_number || tableId?.slice(-4)}
+                  <strong>Mesa:</strong> Mesa {order.restaurant_table?.table_number || order.table_id?.slice(-4)}
                   {order.restaurant_table?.zone && (
                     <span className="text-sm text-gray-500">({order.restaurant_table.zone})</span>
                   )}
@@ -87,12 +102,20 @@ const OrderDetailDialog = ({ order, open, onOpenChange }: OrderDetailDialogProps
               </div>
               <div>
                 <strong>Total:</strong> ${order.total_amount}
+                {order.exchange_rate && (
+                  <span className="text-gray-600"> ({formatVES(order.total_amount, order.exchange_rate)})</span>
+                )}
               </div>
+              {order.exchange_rate && (
+                <div>
+                  <strong>Tasa de Cambio:</strong> Bs. {order.exchange_rate} por USD
+                </div>
+              )}
               <div>
                 <strong>Tiempo Estimado:</strong> {order.estimated_delivery_time} minutos
               </div>
               <div>
-                <strong>Tipo de Servicio:</strong> {isTableOrder ? 'Mesa' : 'Delivery'}
+                <strong>Tipo de Servicio:</strong> {channelLabels[order.channel]}
               </div>
             </CardContent>
           </Card>
@@ -204,20 +227,18 @@ const OrderDetailDialog = ({ order, open, onOpenChange }: OrderDetailDialogProps
                   <div key={verification.id} className="border rounded p-3 bg-gray-50">
                     <div className="grid grid-cols-2 gap-3 text-sm">
                       <div><strong>Método:</strong> {verification.payment_method_type}</div>
-                      <div><strong>Monto:</strong> ${verification.amount_paid.toFixed(2)}</div>
+                      <div><strong>Monto:</strong> {formatPaymentAmount(verification.amount_paid, verification.amount_currency)}</div>
                       <div><strong>Banco:</strong> {verification.origin_bank}</div>
                       <div><strong>Referencia:</strong> {verification.reference_number}</div>
                     </div>
-                    {verification.payment_proof_url && (
+                    {verification.payment_proof_path && (
                       <div className="mt-2">
-                        <a 
-                          href={verification.payment_proof_url} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
+                        <PaymentProofLink
+                          path={verification.payment_proof_path}
                           className="text-blue-600 hover:underline text-sm"
                         >
                           Ver Comprobante →
-                        </a>
+                        </PaymentProofLink>
                       </div>
                     )}
                   </div>
@@ -227,8 +248,48 @@ const OrderDetailDialog = ({ order, open, onOpenChange }: OrderDetailDialogProps
           </Card>
         )}
 
+        {/* Cobros por pasarela */}
+        {order.payment_intents && order.payment_intents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="w-5 h-5" />
+                Pagos en Línea
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {order.payment_intents.map((intent) => (
+                  <div key={intent.id} className="border rounded p-3 bg-gray-50 flex items-start justify-between gap-4">
+                    <div className="grid grid-cols-2 gap-3 text-sm flex-1">
+                      <div><strong>Proveedor:</strong> {intent.provider_id}</div>
+                      <div><strong>Monto:</strong> {formatPaymentAmount(intent.amount, intent.currency)}</div>
+                      <div><strong>Estado:</strong> {intentStatusLabels[intent.status] || intent.status}</div>
+                      <div><strong>Referencia:</strong> {intent.provider_reference || '-'}</div>
+                      {intent.refunded_amount > 0 && (
+                        <div><strong>Reembolsado:</strong> {formatPaymentAmount(intent.refunded_amount, intent.currency)}</div>
+                      )}
+                      {intent.failure_reason && (
+                        <div className="col-span-2 text-red-700">{intent.failure_reason}</div>
+                      )}
+                    </div>
+                    {intent.status === 'succeeded'
+                      && intent.refunded_amount < intent.amount
+                      && getPaymentProvider(intent.provider_id)?.supportsRefunds && (
+                        <PaymentIntentRefundDialog intent={intent} />
+                      )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Historial de Estados */}
+        <OrderStatusHistory orderId={order.id} />
+
         {/* Notas del Pedido */}
-        {order.notes && !isTableOrder && (
+        {order.notes && (
           <Card>
             <CardHeader>
               <CardTitle>Notas Adicionales</CardTitle>
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Printer, Receipt } from 'lucide-react';
+import { toast } from 'sonner';
+import { printOrder, type PrintKind } from '@/lib/printing';
+import { type Order } from './types';
+
+interface OrderPrintButtonsProps {
+  order: Order;
+}
+
+const OrderPrintButtons = ({ order }: OrderPrintButtonsProps) => {
+  const [printing, setPrinting] = useState<PrintKind | null>(null);
+
+  const handlePrint = async (kind: PrintKind) => {
+    setPrinting(kind);
+    try {
+      const method = await printOrder(order, kind);
+      if (method === 'bridge') {
+        toast.success(kind === 'kitchen' ? 'Ticket enviado a cocina' : 'Recibo enviado a la impresora');
+      }
+    } catch (error) {
+      toast.error('Error al imprimir: ' + (error as Error).message);
+    } finally {
+      setPrinting(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handlePrint('kitchen')}
+        disabled={printing !== null}
+      >
+        <Printer className="w-4 h-4 mr-1" />
+        Ticket Cocina
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handlePrint('receipt')}
+        disabled={printing !== null}
+      >
+        <Receipt className="w-4 h-4 mr-1" />
+        Recibo
+      </Button>
+    </div>
+  );
+};
+
+export default OrderPrintButtons;
@@ -7,30 +7,46 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select';
-import { type OrderStatus } from './types';
+import type { OrderChannel } from '@/lib/orders';
+import { type OrderStatus, channelLabels } from './types';
 
 interface OrderStatusFilterProps {
   selectedStatus: string;
   onStatusChange: (status: "all" | OrderStatus) => void;
+  selectedChannel: string;
+  onChannelChange: (channel: "all" | OrderChannel) => void;
 }
 
-const OrderStatusFilter = ({ selectedStatus, onStatusChange }: OrderStatusFilterProps) => {
+const OrderStatusFilter = ({ selectedStatus, onStatusChange, selectedChannel, onChannelChange }: OrderStatusFilterProps) => {
   return (
     <div className="flex items-center justify-between">
       <h3 className="text-lg font-semibold">Pedidos Activos</h3>
-      <Select value={selectedStatus} onValueChange={onStatusChange}>
-        <SelectTrigger className="w-48">
-          <SelectValue />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">Todos los pedidos</SelectItem>
-          <SelectItem value="pending">Pendientes</SelectItem>
-          <SelectItem value="confirmed">Confirmados</SelectItem>
-          <SelectItem value="preparing">Preparando</SelectItem>
-          <SelectItem value="ready">Listos</SelectItem>
-          <SelectItem value="delivered">Entregados</SelectItem>
-        </SelectContent>
-      </Select>
+      <div className="flex items-center gap-2">
+        <Select value={selectedChannel} onValueChange={onChannelChange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los canales</SelectItem>
+            {(Object.keys(channelLabels) as OrderChannel[]).map((channel) => (
+              <SelectItem key={channel} value={channel}>{channelLabels[channel]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={selectedStatus} onValueChange={onStatusChange}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los pedidos</SelectItem>
+            <SelectItem value="pending">Pendientes</SelectItem>
+            <SelectItem value="confirmed">Confirmados</SelectItem>
+            <SelectItem value="preparing">Preparando</SelectItem>
+            <SelectItem value="ready">Listos</SelectItem>
+            <SelectItem value="delivered">Entregados</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
     </div>
   );
 };
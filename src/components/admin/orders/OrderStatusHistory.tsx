@@ -0,0 +1,82 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { statusColors, statusLabels } from './types';
+
+interface OrderStatusHistoryProps {
+  orderId: string;
+}
+
+const OrderStatusHistory = ({ orderId }: OrderStatusHistoryProps) => {
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['order-status-history', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_status_history')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // changed_by points at auth.users, so names are looked up separately
+      const actorIds = [...new Set(data.map(entry => entry.changed_by).filter((id): id is string => !!id))];
+      const { data: actors } = actorIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', actorIds)
+        : { data: [] };
+
+      return data.map(entry => {
+        const actor = actors?.find(profile => profile.id === entry.changed_by);
+        return { ...entry, actorName: actor?.full_name || actor?.email || null };
+      });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Historial de Estados
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando historial...</p>
+        ) : history && history.length > 0 ? (
+          <div className="space-y-3">
+            {history.map((entry) => (
+              <div key={entry.id} className="flex items-start justify-between gap-4 border-b pb-2 last:border-b-0">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    {entry.from_status && (
+                      <>
+                        <Badge variant="outline">{statusLabels[entry.from_status]}</Badge>
+                        <span>→</span>
+                      </>
+                    )}
+                    <Badge className={statusColors[entry.to_status]}>{statusLabels[entry.to_status]}</Badge>
+                  </div>
+                  {entry.reason && (
+                    <p className="text-sm text-gray-600">{entry.reason}</p>
+                  )}
+                </div>
+                <div className="text-right text-xs text-gray-500 whitespace-nowrap">
+                  <div>{new Date(entry.created_at).toLocaleString()}</div>
+                  <div>{entry.actorName || (entry.changed_by ? entry.changed_by.slice(-8) : 'Sistema')}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Sin cambios de estado registrados</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderStatusHistory;
@@ -1,5 +1,4 @@
-
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   Select, 
   SelectContent, 
@@ -7,34 +6,98 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select';
-import { type Order, type OrderStatus } from './types';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { useOrderStatusTransitions } from '@/hooks/useOrderStatusTransitions';
+import { statusLabels, type Order, type OrderStatus } from './types';
 
 interface OrderStatusSelectorProps {
   order: Order;
-  onStatusChange: (orderId: string, status: OrderStatus) => void;
+  onStatusChange: (orderId: string, status: OrderStatus, reason?: string) => void;
 }
 
 const OrderStatusSelector = ({ order, onStatusChange }: OrderStatusSelectorProps) => {
+  const { getNextStatuses } = useOrderStatusTransitions();
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const currentStatus = order.status || 'pending';
+  const isPickedUp = order.order_assignments?.some(assignment => !!assignment.picked_up_at);
+
+  // Cancelling is only possible until the driver picks the order up
+  const nextStatuses = getNextStatuses(currentStatus).filter(
+    status => !(status === 'cancelled' && isPickedUp)
+  );
+
+  const handleValueChange = (status: string) => {
+    if (status === currentStatus) return;
+
+    if (status === 'cancelled') {
+      setShowCancelDialog(true);
+      return;
+    }
+
+    onStatusChange(order.id, status as OrderStatus);
+  };
+
+  const handleConfirmCancel = () => {
+    if (!cancelReason.trim()) {
+      toast.error('Debes indicar el motivo de la cancelación');
+      return;
+    }
+
+    onStatusChange(order.id, 'cancelled', cancelReason.trim());
+    setShowCancelDialog(false);
+    setCancelReason('');
+  };
+
   return (
     <div className="flex items-center gap-2">
       <Select
-        value={order.status || 'pending'}
-        onValueChange={(status) => 
-          onStatusChange(order.id, status as OrderStatus)
-        }
+        value={currentStatus}
+        onValueChange={handleValueChange}
+        disabled={nextStatuses.length === 0}
       >
         <SelectTrigger className="w-48">
           <SelectValue />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="pending">Pendiente</SelectItem>
-          <SelectItem value="confirmed">Confirmado</SelectItem>
-          <SelectItem value="preparing">Preparando</SelectItem>
-          <SelectItem value="ready">Listo</SelectItem>
-          <SelectItem value="delivered">Entregado</SelectItem>
-          <SelectItem value="cancelled">Cancelado</SelectItem>
+          <SelectItem value={currentStatus}>{statusLabels[currentStatus]}</SelectItem>
+          {nextStatuses.map((status) => (
+            <SelectItem key={status} value={status}>
+              {statusLabels[status]}
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
+
+      <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Pedido #{order.id.slice(-8)}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`cancel-reason-${order.id}`}>Motivo de la cancelación</Label>
+            <Textarea
+              id={`cancel-reason-${order.id}`}
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Ej: El cliente solicitó cancelar el pedido"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCancelDialog(false)}>
+              Volver
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmCancel}>
+              Cancelar Pedido
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Undo2 } from 'lucide-react';
+import { useRefundPaymentIntent } from '@/hooks/usePaymentProviders';
+import { formatPaymentAmount } from '@/lib/currency';
+import type { PaymentIntent } from '@/lib/paymentProviders';
+
+interface PaymentIntentRefundDialogProps {
+  intent: PaymentIntent;
+}
+
+const PaymentIntentRefundDialog = ({ intent }: PaymentIntentRefundDialogProps) => {
+  const refundable = Math.round((intent.amount - intent.refunded_amount) * 100) / 100;
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(refundable.toFixed(2));
+  const refundIntent = useRefundPaymentIntent();
+
+  const parsedAmount = parseFloat(amount);
+  const isValidAmount = parsedAmount > 0 && parsedAmount <= refundable;
+
+  const handleRefund = async () => {
+    try {
+      await refundIntent.mutateAsync({ intent, amount: parsedAmount });
+      setOpen(false);
+    } catch {
+      // The mutation already reported the error; keep the dialog open to retry
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Undo2 className="w-4 h-4 mr-1" />
+          Reembolsar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Reembolsar pago</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Disponible para reembolso: {formatPaymentAmount(refundable, intent.currency)}
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor={`refund_amount_${intent.id}`}>Monto</Label>
+            <Input
+              id={`refund_amount_${intent.id}`}
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={refundable.toFixed(2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={handleRefund}
+            disabled={refundIntent.isPending || !isValidAmount}
+          >
+            {refundIntent.isPending ? 'Reembolsando...' : 'Confirmar reembolso'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentIntentRefundDialog;
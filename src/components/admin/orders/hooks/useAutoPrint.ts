@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { printOrder, type PrintableOrder } from '@/lib/printing';
+
+// Only the device where this is turned on prints, so several open admin screens do not duplicate tickets
+const AUTO_PRINT_KEY = 'bitebright-auto-print-kitchen';
+
+const fetchPrintableOrder = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      id,
+      channel,
+      created_at,
+      notes,
+      total_amount,
+      delivery_fee,
+      discount_amount,
+      exchange_rate,
+      restaurant_table:restaurant_tables (
+        table_number
+      ),
+      order_items (
+        id,
+        quantity,
+        total_price,
+        menu_items (
+          name
+        ),
+        composite_dishes (
+          name
+        ),
+        order_dish_customizations (
+          id,
+          is_included,
+          replacement_item_id,
+          dish_optional_elements (
+            menu_items (
+              name
+            )
+          ),
+          replacement_menu_items:replacement_item_id (
+            name
+          )
+        )
+      )
+    `)
+    .eq('id', orderId)
+    .single();
+
+  if (error) throw error;
+  return data as unknown as PrintableOrder;
+};
+
+// Print the kitchen ticket whenever an order moves to confirmed, from whichever screen confirmed it
+export const useAutoPrint = () => {
+  const [enabled, setEnabled] = useState(() => localStorage.getItem(AUTO_PRINT_KEY) === 'true');
+
+  const toggle = (value: boolean) => {
+    localStorage.setItem(AUTO_PRINT_KEY, String(value));
+    setEnabled(value);
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = supabase
+      .channel('auto-print-confirmed-orders')
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'orders' },
+        async (payload) => {
+          if (payload.new.status !== 'confirmed' || payload.old.status === 'confirmed') return;
+
+          try {
+            const order = await fetchPrintableOrder(payload.new.id);
+            await printOrder(order, 'kitchen');
+          } catch (error) {
+            toast.error('Error al imprimir el ticket de cocina: ' + (error as Error).message);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [enabled]);
+
+  return { enabled, toggle };
+};
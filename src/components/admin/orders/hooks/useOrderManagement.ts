@@ -3,14 +3,16 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { type Order, type OrderStatus, extractTableId } from '../types';
+import type { OrderChannel } from '@/lib/orders';
+import { type Order, type OrderStatus } from '../types';
 
 export const useOrderManagement = () => {
   const [selectedStatus, setSelectedStatus] = useState<OrderStatus | 'all'>('all');
+  const [selectedChannel, setSelectedChannel] = useState<OrderChannel | 'all'>('all');
   const queryClient = useQueryClient();
 
   const { data: orders, isLoading } = useQuery({
-    queryKey: ['admin-orders', selectedStatus],
+    queryKey: ['admin-orders', selectedStatus, selectedChannel],
     queryFn: async () => {
       let query = supabase
         .from('orders')
@@ -26,6 +28,10 @@ export const useOrderManagement = () => {
             city,
             postal_code
           ),
+          restaurant_table:restaurant_tables (
+            table_number,
+            zone
+          ),
           order_items (
             *,
             menu_items (
@@ -57,6 +63,9 @@ export const useOrderManagement = () => {
           ),
           manual_payment_verifications (
             *
+          ),
+          payment_intents (
+            *
           )
         `)
         .order('created_at', { ascending: false });
@@ -65,57 +74,43 @@ export const useOrderManagement = () => {
         query = query.eq('status', selectedStatus);
       }
 
+      if (selectedChannel !== 'all') {
+        query = query.eq('channel', selectedChannel);
+      }
+
       const { data, error } = await query;
 
       if (error) throw error;
 
-      // Para cada pedido, si tiene notas de mesa, obtener la información de la mesa
-      const ordersWithTables = await Promise.all(
-        (data || []).map(async (order) => {
-          const tableId = extractTableId(order.notes);
-          
-          if (tableId) {
-            const { data: tableData } = await supabase
-              .from('restaurant_tables')
-              .select('table_number, zone')
-              .eq('id', tableId)
-              .single();
-            
-            return {
-              ...order,
-              restaurant_table: tableData
-            };
-          }
-          
-          return order;
-        })
-      );
-
-      return ordersWithTables as Order[];
+      return data as Order[];
     }
   });
 
+  // Goes through update_order_status so the reason lands in order_status_history;
+  // invalid transitions are rejected by the database trigger
   const updateOrderStatus = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status })
-        .eq('id', orderId);
+    mutationFn: async ({ orderId, status, reason }: { orderId: string; status: OrderStatus; reason?: string }) => {
+      const { error } = await supabase.rpc('update_order_status', {
+        _order_id: orderId,
+        _status: status,
+        _reason: reason
+      });
 
       if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: (_data, { orderId }) => {
       queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order-status-history', orderId] });
       toast.success('Estado del pedido actualizado');
     },
     onError: (error) => {
-      toast.error('Error al actualizar el estado del pedido');
+      toast.error('Error al actualizar el estado del pedido: ' + error.message);
       console.error('Error updating order status:', error);
     }
   });
 
-  const handleStatusChange = (orderId: string, status: string) => {
-    updateOrderStatus.mutate({ orderId, status: status as OrderStatus });
+  const handleStatusChange = (orderId: string, status: OrderStatus, reason?: string) => {
+    updateOrderStatus.mutate({ orderId, status, reason });
   };
 
   return {
@@ -123,6 +118,8 @@ export const useOrderManagement = () => {
     isLoading,
     selectedStatus,
     setSelectedStatus,
+    selectedChannel,
+    setSelectedChannel,
     handleStatusChange
   };
 };
@@ -1,3 +1,7 @@
+import type { OrderPaymentMethod, OrderPaymentStatus } from '@/types/payment';
+import type { PaymentIntent } from '@/lib/paymentProviders';
+import type { OrderChannel } from '@/lib/orders';
+
 export type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
 
 export const statusColors: Record<OrderStatus, string> = {
@@ -18,14 +22,10 @@ export const statusLabels: Record<OrderStatus, string> = {
   cancelled: 'Cancelado'
 };
 
-// Helper function to extract table ID from notes
-export const extractTableId = (notes?: string) => {
-  if (!notes || !notes.includes('Mesa:')) {
-    return null;
-  }
-  
-  const tableId = notes.replace('Mesa: ', '').trim();
-  return tableId;
+export const channelLabels: Record<OrderChannel, string> = {
+  dine_in: 'Mesa',
+  delivery: 'Delivery',
+  pickup: 'Para Retirar'
 };
 
 export interface Order {
@@ -33,7 +33,14 @@ export interface Order {
   user_id: string;
   total_amount: number;
   delivery_fee: number;
+  discount_amount?: number;
+  amount_paid?: number;
+  payment_status?: OrderPaymentStatus;
+  payment_method?: OrderPaymentMethod;
+  exchange_rate?: number | null;
   status: OrderStatus;
+  channel: OrderChannel;
+  table_id?: string | null;
   notes?: string;
   estimated_delivery_time?: number;
   delivery_address_id?: string;
@@ -60,7 +67,10 @@ export interface Order {
   // Nueva relación con verificaciones de pago
   manual_payment_verifications?: ManualPaymentVerification[];
 
-  // Nueva relación con mesas
+  // Cobros por pasarela (proveedores distintos al manual)
+  payment_intents?: PaymentIntent[];
+
+  // Mesa del pedido (solo pedidos en mesa)
   restaurant_table?: {
     table_number: string;
     zone?: string;
@@ -132,9 +142,10 @@ export interface ManualPaymentVerification {
   payment_method_type: string;
   origin_bank: string;
   amount_paid: number;
+  amount_currency: string;
   reference_number: string;
   phone_number_used?: string;
-  payment_proof_url: string;
+  payment_proof_path: string;
   status: 'pending' | 'approved' | 'rejected';
   rejection_reason?: string;
   created_at: string;
@@ -1,39 +1,66 @@
 
 import React, { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { MapPin, ArrowLeft } from 'lucide-react';
+import { MapPin, ArrowLeft, Plus, Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
 import LocationSelector from './LocationSelector';
+import {
+  useDeliveryAddresses,
+  useCreateDeliveryAddress,
+  type DeliveryAddress
+} from '@/hooks/useDeliveryAddresses';
 
 interface LocationData {
   latitude: number;
   longitude: number;
   address: string;
+  city: string;
   notes?: string;
 }
 
 interface DeliveryLocationStepProps {
-  onLocationConfirmed: (location: LocationData) => void;
+  onAddressConfirmed: (address: DeliveryAddress) => void;
   onBack: () => void;
-  initialLocation?: LocationData;
+  selectedAddressId?: string | null;
 }
 
 const DeliveryLocationStep: React.FC<DeliveryLocationStepProps> = ({
-  onLocationConfirmed,
+  onAddressConfirmed,
   onBack,
-  initialLocation
+  selectedAddressId
 }) => {
-  const [selectedLocation, setSelectedLocation] = useState<LocationData | null>(
-    initialLocation || null
-  );
+  const { data: addresses, isLoading } = useDeliveryAddresses();
+  const createAddress = useCreateDeliveryAddress();
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(selectedAddressId ?? null);
+
+  const showSelector = isAddingNew || (!isLoading && addresses?.length === 0);
+  const selectedAddress = addresses?.find(address => address.id === selectedId);
 
-  const handleLocationSelect = (location: LocationData) => {
-    setSelectedLocation(location);
+  // A dropped pin is saved as a new address so it can be linked to the order
+  const handleLocationSelect = async (location: LocationData) => {
+    try {
+      const address = await createAddress.mutateAsync({
+        street_address: location.address,
+        city: location.city,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        delivery_notes: location.notes
+      });
+
+      setIsAddingNew(false);
+      onAddressConfirmed(address);
+    } catch (error) {
+      console.error('Error saving delivery address:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
+      toast.error(`Error al guardar la dirección: ${errorMessage}`);
+    }
   };
 
   const handleConfirm = () => {
-    if (selectedLocation) {
-      onLocationConfirmed(selectedLocation);
+    if (selectedAddress) {
+      onAddressConfirmed(selectedAddress);
     }
   };
 
@@ -48,40 +75,69 @@ const DeliveryLocationStep: React.FC<DeliveryLocationStepProps> = ({
           <ArrowLeft className="w-4 h-4 mr-1" />
           Volver al carrito
         </Button>
-        <h2 className="text-xl font-bold">Confirmar ubicación de entrega</h2>
+        <h2 className="text-xl font-bold">Dirección de entrega</h2>
       </div>
 
-      <LocationSelector
-        onLocationSelect={handleLocationSelect}
-        initialLocation={initialLocation}
-      />
-
-      {selectedLocation && (
-        <Card className="bg-green-50 border-green-200">
-          <CardContent className="pt-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <h4 className="font-medium text-green-800 mb-1">
-                  Ubicación confirmada
-                </h4>
-                <p className="text-sm text-green-700">
-                  {selectedLocation.address}
-                </p>
-                {selectedLocation.notes && (
-                  <p className="text-sm text-green-600 mt-1">
-                    <strong>Notas:</strong> {selectedLocation.notes}
-                  </p>
-                )}
-              </div>
-              <Button
-                onClick={handleConfirm}
-                className="bg-green-600 hover:bg-green-700"
+      {isLoading ? (
+        <div className="text-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+        </div>
+      ) : showSelector ? (
+        <>
+          <LocationSelector onLocationSelect={handleLocationSelect} />
+          {createAddress.isPending && (
+            <p className="text-sm text-gray-600 text-center">Guardando dirección...</p>
+          )}
+          {addresses && addresses.length > 0 && (
+            <Button variant="outline" className="w-full" onClick={() => setIsAddingNew(false)}>
+              Usar una dirección guardada
+            </Button>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {addresses?.map((address) => (
+              <Card
+                key={address.id}
+                className={`cursor-pointer transition-colors ${
+                  selectedId === address.id ? 'border-orange-500 bg-orange-50' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => setSelectedId(address.id)}
               >
-                Continuar con el pedido
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <MapPin className="w-4 h-4 mt-1 text-gray-500" />
+                  <div className="flex-1">
+                    <p className="font-medium">{address.street_address}</p>
+                    <p className="text-sm text-gray-600">{address.city}</p>
+                    {address.delivery_notes && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        <strong>Notas:</strong> {address.delivery_notes}
+                      </p>
+                    )}
+                    {address.latitude === null && (
+                      <p className="text-xs text-yellow-700 mt-1">Sin ubicación en el mapa</p>
+                    )}
+                  </div>
+                  {selectedId === address.id && <Check className="w-4 h-4 text-orange-600" />}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Button variant="outline" className="w-full" onClick={() => setIsAddingNew(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Marcar una nueva ubicación
+          </Button>
+
+          <Button
+            onClick={handleConfirm}
+            disabled={!selectedAddress}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            Continuar con el pedido
+          </Button>
+        </>
       )}
     </div>
   );
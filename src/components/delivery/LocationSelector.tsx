@@ -6,11 +6,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { MapPin, Navigation, Search, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { DEFAULT_MAP_CENTER, getMapProvider } from '@/lib/maps';
+import type { GeocodeResult, LatLng, MapHandle, MarkerHandle } from '@/lib/maps';
 
 interface LocationData {
   latitude: number;
   longitude: number;
   address: string;
+  city: string;
   notes?: string;
 }
 
@@ -27,97 +30,78 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [address, setAddress] = useState(initialLocation?.address || '');
+  const [city, setCity] = useState(initialLocation?.city || '');
   const [notes, setNotes] = useState(initialLocation?.notes || '');
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<any>(null);
-  const markerRef = useRef<any>(null);
+  const mapInstanceRef = useRef<MapHandle | null>(null);
+  const markerRef = useRef<MarkerHandle | null>(null);
 
-  // Initialize Google Maps
-  useEffect(() => {
-    const initMap = () => {
-      if (!mapRef.current || !(window as any).google) return;
-
-      const googleMaps = (window as any).google.maps;
-      const defaultLocation = currentLocation || { latitude: -12.0464, longitude: -77.0428 }; // Lima, Peru
-
-      mapInstanceRef.current = new googleMaps.Map(mapRef.current, {
-        center: { lat: defaultLocation.latitude, lng: defaultLocation.longitude },
-        zoom: 15,
-        styles: [
-          {
-            featureType: 'poi',
-            elementType: 'labels',
-            stylers: [{ visibility: 'off' }]
-          }
-        ]
-      });
+  const applyGeocodeResult = (result: GeocodeResult) => {
+    setAddress(result.address);
+    setCity(result.city);
+    setCurrentLocation({
+      ...result.position,
+      address: result.address,
+      city: result.city,
+      notes
+    });
+  };
 
-      // Add marker
-      markerRef.current = new googleMaps.Marker({
-        position: { lat: defaultLocation.latitude, lng: defaultLocation.longitude },
-        map: mapInstanceRef.current,
-        draggable: true,
-        title: 'Tu ubicación de entrega'
-      });
+  const reverseGeocode = async (position: LatLng) => {
+    try {
+      const result = await getMapProvider().reverseGeocode(position);
+      if (result) {
+        // Keep the exact point the customer picked rather than the geocoder's snapped one
+        applyGeocodeResult({ ...result, position });
+      }
+    } catch (error) {
+      console.error('Error getting address:', error);
+      toast.error('Error al obtener la dirección');
+    }
+  };
 
-      // Handle marker drag
-      markerRef.current.addListener('dragend', (event: any) => {
-        const lat = event.latLng.lat();
-        const lng = event.latLng.lng();
-        reverseGeocode(lat, lng);
-      });
+  // Initialize the map
+  useEffect(() => {
+    let cancelled = false;
+    const provider = getMapProvider();
+    const startPosition = currentLocation || DEFAULT_MAP_CENTER;
 
-      // Handle map click
-      mapInstanceRef.current.addListener('click', (event: any) => {
-        const lat = event.latLng.lat();
-        const lng = event.latLng.lng();
-        
-        markerRef.current!.setPosition({ lat, lng });
-        reverseGeocode(lat, lng);
-      });
+    provider.load()
+      .then(() => {
+        if (cancelled || !mapRef.current) return;
 
-      setMapLoaded(true);
-    };
+        mapInstanceRef.current = provider.createMap(mapRef.current, { center: startPosition, zoom: 15 });
 
-    // Load Google Maps script if not already loaded
-    if (!(window as any).google) {
-      const script = document.createElement('script');
-      script.src = `https://maps.googleapis.com/maps/api/js?key=YOUR_GOOGLE_MAPS_API_KEY&libraries=places`;
-      script.onload = initMap;
-      document.head.appendChild(script);
-    } else {
-      initMap();
-    }
-  }, []);
+        // Add marker
+        markerRef.current = mapInstanceRef.current.addMarker({
+          position: startPosition,
+          draggable: true,
+          title: 'Tu ubicación de entrega'
+        });
 
-  const reverseGeocode = async (lat: number, lng: number) => {
-    if (!(window as any).google) return;
+        // Handle marker drag
+        markerRef.current.onDragEnd(reverseGeocode);
 
-    const geocoder = new (window as any).google.maps.Geocoder();
-    
-    try {
-      const response = await geocoder.geocode({
-        location: { lat, lng }
+        // Handle map click
+        mapInstanceRef.current.onClick((position) => {
+          markerRef.current?.setPosition(position);
+          reverseGeocode(position);
+        });
+
+        setMapLoaded(true);
+      })
+      .catch((error) => {
+        console.error('Error loading map:', error);
+        toast.error('Error al cargar el mapa');
       });
 
-      if (response.results[0]) {
-        const addressStr = response.results[0].formatted_address;
-        setAddress(addressStr);
-        
-        const newLocation = {
-          latitude: lat,
-          longitude: lng,
-          address: addressStr,
-          notes
-        };
-        
-        setCurrentLocation(newLocation);
-      }
-    } catch (error) {
-      console.error('Error getting address:', error);
-      toast.error('Error al obtener la dirección');
-    }
-  };
+    return () => {
+      cancelled = true;
+      mapInstanceRef.current?.destroy();
+      mapInstanceRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
 
   const getCurrentLocation = () => {
     if (!navigator.geolocation) {
@@ -129,15 +113,17 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        const { latitude, longitude } = position.coords;
-        
+        const newPosition = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude
+        };
+
         if (mapInstanceRef.current && markerRef.current) {
-          const newPosition = { lat: latitude, lng: longitude };
           mapInstanceRef.current.setCenter(newPosition);
           markerRef.current.setPosition(newPosition);
-          reverseGeocode(latitude, longitude);
+          reverseGeocode(newPosition);
         }
-        
+
         setIsLoadingLocation(false);
       },
       (error) => {
@@ -154,31 +140,18 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
   };
 
   const searchAddress = async () => {
-    if (!address.trim() || !(window as any).google) return;
+    if (!address.trim()) return;
 
-    const geocoder = new (window as any).google.maps.Geocoder();
-    
     try {
-      const response = await geocoder.geocode({ address });
-      
-      if (response.results[0]) {
-        const location = response.results[0].geometry.location;
-        const lat = location.lat();
-        const lng = location.lng();
-        
+      const result = await getMapProvider().geocode(address);
+
+      if (result) {
         if (mapInstanceRef.current && markerRef.current) {
-          mapInstanceRef.current.setCenter({ lat, lng });
-          markerRef.current.setPosition({ lat, lng });
+          mapInstanceRef.current.setCenter(result.position);
+          markerRef.current.setPosition(result.position);
         }
-        
-        const newLocation = {
-          latitude: lat,
-          longitude: lng,
-          address: response.results[0].formatted_address,
-          notes
-        };
-        
-        setCurrentLocation(newLocation);
+
+        applyGeocodeResult(result);
       } else {
         toast.error('No se encontró la dirección');
       }
@@ -194,8 +167,14 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
       return;
     }
 
+    if (!city.trim()) {
+      toast.error('Por favor indica la ciudad');
+      return;
+    }
+
     const finalLocation = {
       ...currentLocation,
+      city: city.trim(),
       notes
     };
 
@@ -250,6 +229,17 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
           )}
         </div>
 
+        {/* City */}
+        <div>
+          <Label htmlFor="city">Ciudad</Label>
+          <Input
+            id="city"
+            placeholder="Ciudad"
+            value={city}
+            onChange={(e) => setCity(e.target.value)}
+          />
+        </div>
+
         {/* Delivery Notes */}
         <div>
           <Label htmlFor="notes">Notas de entrega (opcional)</Label>
@@ -1,77 +1,93 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { 
-  MapPin, 
-  Navigation, 
-  Clock, 
-  Phone, 
+import {
+  MapPin,
+  Navigation,
+  Clock,
+  Phone,
   User,
   Package,
   CheckCircle,
   Truck,
+  KeyRound,
+  XCircle,
   Loader2
 } from 'lucide-react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { getMapProvider } from '@/lib/maps';
+import type { LatLng, MapHandle, MarkerHandle } from '@/lib/maps';
 
 interface OrderTrackingProps {
   orderId: string;
-  customerLocation: {
-    latitude: number;
-    longitude: number;
-    address: string;
-  };
 }
 
-interface OrderWithDriver {
-  id: string;
-  status: string;
-  delivery_addresses: Array<{
-    latitude: number;
-    longitude: number;
-    street_address: string;
-  }> | null;
-  order_assignments: Array<{
-    driver_id: string;
-    picked_up_at?: string;
-    delivered_at?: string;
-    delivery_drivers: {
-      full_name: string;
-      phone: string;
-      vehicle_type: string;
-    };
-  }>;
+type OrderStatus = Enums<'order_status'>;
+type DriverLocation = Pick<Tables<'driver_locations'>, 'latitude' | 'longitude'>;
+
+interface TimelineStep {
+  key: string;
+  label: string;
+  done: boolean;
+  current: boolean;
+  time?: string | null;
 }
 
-const OrderTracking: React.FC<OrderTrackingProps> = ({ 
-  orderId, 
-  customerLocation 
-}) => {
+const statusOrder: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'delivered'];
+
+const vehicleLabels: Record<string, string> = {
+  bike: 'Bicicleta',
+  motorcycle: 'Motocicleta',
+  car: 'Coche',
+  walking: 'A pie'
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const OrderTracking: React.FC<OrderTrackingProps> = ({ orderId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [mapLoaded, setMapLoaded] = useState(false);
-  const [driverLocation, setDriverLocation] = useState<{latitude: number, longitude: number} | null>(null);
+  const [driverLocation, setDriverLocation] = useState<LatLng | null>(null);
+  const [etaMinutes, setEtaMinutes] = useState<number | null>(null);
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<any>(null);
-  const driverMarkerRef = useRef<any>(null);
-  const customerMarkerRef = useRef<any>(null);
-  const routeRendererRef = useRef<any>(null);
+  const mapInstanceRef = useRef<MapHandle | null>(null);
+  const driverMarkerRef = useRef<MarkerHandle | null>(null);
 
-  // Get order details with driver info
+  // Get order details with driver info; only the owner's order is ever returned
   const { data: order, isLoading } = useQuery({
-    queryKey: ['order-tracking', orderId],
+    queryKey: ['order-tracking', orderId, user?.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('orders')
         .select(`
-          *,
-          delivery_addresses (
+          id,
+          status,
+          channel,
+          delivery_code,
+          created_at,
+          delivery_address:delivery_addresses (
             street_address,
+            city,
             latitude,
-            longitude
+            longitude,
+            delivery_notes
+          ),
+          order_status_history (
+            to_status,
+            created_at
           ),
           order_assignments (
-            *,
+            driver_id,
+            assigned_at,
+            picked_up_at,
+            delivered_at,
+            estimated_delivery_time,
             delivery_drivers (
               full_name,
               phone,
@@ -80,22 +96,59 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
           )
         `)
         .eq('id', orderId)
-        .single();
+        .eq('user_id', user!.id)
+        .maybeSingle();
 
       if (error) throw error;
-      return data as any; // Use any to avoid type conversion issues
+      return data;
     },
+    enabled: !!user,
     refetchInterval: 30000 // Refetch every 30 seconds
   });
 
-  const driverId = order?.order_assignments?.[0]?.driver_id;
-  
+  const assignment = order?.order_assignments?.[0];
+  const driverId = assignment?.driver_id;
+  const address = order?.delivery_address;
+  const isActive = !!order && order.status !== 'delivered' && order.status !== 'cancelled';
+  const customerLatitude = address?.latitude ?? null;
+  const customerLongitude = address?.longitude ?? null;
+  const showMap = order?.channel === 'delivery' && isActive
+    && customerLatitude !== null && customerLongitude !== null;
+
+  // Stable reference so the map is not rebuilt on every refetch
+  const customerLocation = useMemo<LatLng | null>(() => (
+    showMap && customerLatitude !== null && customerLongitude !== null
+      ? { latitude: customerLatitude, longitude: customerLongitude }
+      : null
+  ), [showMap, customerLatitude, customerLongitude]);
+
+  // Refresh the order when its status or assignment changes
+  useEffect(() => {
+    const subscription = supabase
+      .channel(`order-tracking-${orderId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'orders', filter: `id=eq.${orderId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['order-tracking', orderId] })
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'order_assignments', filter: `order_id=eq.${orderId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['order-tracking', orderId] })
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [orderId, queryClient]);
+
   // Subscribe to driver location updates
   useEffect(() => {
-    if (!driverId) return;
+    if (!driverId || !isActive) return;
 
     const subscription = supabase
-      .channel('driver-location-updates')
+      .channel(`driver-location-updates-${orderId}`)
       .on(
         'postgres_changes',
         {
@@ -105,20 +158,11 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
           filter: `driver_id=eq.${driverId}`
         },
         (payload) => {
-          const newLocation = payload.new as any;
+          const newLocation = payload.new as DriverLocation;
           setDriverLocation({
             latitude: newLocation.latitude,
             longitude: newLocation.longitude
           });
-          
-          if (mapInstanceRef.current && driverMarkerRef.current && (window as any).google) {
-            const position = new (window as any).google.maps.LatLng(
-              newLocation.latitude, 
-              newLocation.longitude
-            );
-            driverMarkerRef.current.setPosition(position);
-            updateRoute();
-          }
         }
       )
       .subscribe();
@@ -131,8 +175,8 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
         .eq('driver_id', driverId)
         .order('created_at', { ascending: false })
         .limit(1)
-        .single();
-      
+        .maybeSingle();
+
       if (data) {
         setDriverLocation({
           latitude: data.latitude,
@@ -146,144 +190,93 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
     return () => {
       subscription.unsubscribe();
     };
-  }, [driverId]);
+  }, [driverId, isActive, orderId]);
 
-  // Initialize Google Maps
+  // Initialize the map
   useEffect(() => {
-    const initMap = () => {
-      if (!mapRef.current || !(window as any).google) return;
-
-      const googleMaps = (window as any).google.maps;
-      const center = {
-        lat: customerLocation.latitude,
-        lng: customerLocation.longitude
-      };
-
-      mapInstanceRef.current = new googleMaps.Map(mapRef.current, {
-        center,
-        zoom: 14,
-        styles: [
-          {
-            featureType: 'poi',
-            elementType: 'labels',
-            stylers: [{ visibility: 'off' }]
-          }
-        ]
-      });
+    if (!customerLocation) return;
 
-      // Add customer marker
-      customerMarkerRef.current = new googleMaps.Marker({
-        position: center,
-        map: mapInstanceRef.current,
-        title: 'Tu ubicación',
-        icon: {
-          url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="blue" width="24" height="24">
-              <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
-            </svg>
-          `),
-          scaledSize: new googleMaps.Size(30, 30)
-        }
-      });
+    let cancelled = false;
+    const provider = getMapProvider();
 
-      // Add driver marker if location is available
-      if (driverLocation) {
-        addDriverMarker();
-      }
+    provider.load()
+      .then(() => {
+        if (cancelled || !mapRef.current) return;
 
-      setMapLoaded(true);
-    };
+        mapInstanceRef.current = provider.createMap(mapRef.current, {
+          center: customerLocation,
+          zoom: 14
+        });
 
-    // Load Google Maps script if not already loaded
-    if (!(window as any).google) {
-      const script = document.createElement('script');
-      script.src = `https://maps.googleapis.com/maps/api/js?key=YOUR_GOOGLE_MAPS_API_KEY&libraries=directions`;
-      script.onload = initMap;
-      document.head.appendChild(script);
-    } else {
-      initMap();
-    }
-  }, [customerLocation]);
+        // Add customer marker
+        mapInstanceRef.current.addMarker({
+          position: customerLocation,
+          title: 'Tu ubicación',
+          color: '#2563EB'
+        });
 
-  const addDriverMarker = () => {
-    if (!driverLocation || !mapInstanceRef.current || !(window as any).google) return;
+        setMapLoaded(true);
+      })
+      .catch((error) => {
+        console.error('Error loading map:', error);
+      });
 
-    const googleMaps = (window as any).google.maps;
-    const position = {
-      lat: driverLocation.latitude,
-      lng: driverLocation.longitude
+    return () => {
+      cancelled = true;
+      mapInstanceRef.current?.destroy();
+      mapInstanceRef.current = null;
+      driverMarkerRef.current = null;
+      setMapLoaded(false);
     };
+  }, [customerLocation]);
 
-    driverMarkerRef.current = new googleMaps.Marker({
-      position,
-      map: mapInstanceRef.current,
-      title: 'Repartidor',
-      icon: {
-        url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
-          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="green" width="24" height="24">
-            <path d="M18.92 6.01C18.72 5.42 18.16 5 17.5 5h-11c-.66 0-1.22.42-1.42 1.01L3 12v8c0 .55.45 1 1 1h1c.55 0 1-.45 1-1v-1h12v1c0 .55.45 1 1 1h1c.55 0 1-.45 1-1v-8l-2.08-5.99zM6.5 16c-.83 0-1.5-.67-1.5-1.5S5.67 13 6.5 13s1.5.67 1.5 1.5S7.33 16 6.5 16zm11 0c-.83 0-1.5-.67-1.5-1.5s.67-1.5 1.5-1.5 1.5.67 1.5 1.5-.67 1.5-1.5 1.5zM5 11l1.5-4.5h11L19 11H5z"/>
-          </svg>
-        `),
-        scaledSize: new googleMaps.Size(30, 30)
-      }
-    });
-
-    updateRoute();
-  };
-
-  const updateRoute = () => {
-    if (!driverLocation || !customerLocation || !(window as any).google) return;
-
-    const googleMaps = (window as any).google.maps;
-    const directionsService = new googleMaps.DirectionsService();
-    
-    if (!routeRendererRef.current) {
-      routeRendererRef.current = new googleMaps.DirectionsRenderer({
-        suppressMarkers: true,
-        polylineOptions: {
-          strokeColor: '#4F46E5',
-          strokeWeight: 4
-        }
+  // Move the driver marker and refresh the route when the driver reports a new position
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!driverLocation || !customerLocation || !mapLoaded || !map) return;
+
+    if (!driverMarkerRef.current) {
+      driverMarkerRef.current = map.addMarker({
+        position: driverLocation,
+        title: 'Repartidor',
+        color: '#16A34A'
       });
-      routeRendererRef.current.setMap(mapInstanceRef.current);
+      map.fitBounds([driverLocation, customerLocation]);
+    } else {
+      driverMarkerRef.current.setPosition(driverLocation);
     }
 
-    directionsService.route({
-      origin: new googleMaps.LatLng(driverLocation.latitude, driverLocation.longitude),
-      destination: new googleMaps.LatLng(customerLocation.latitude, customerLocation.longitude),
-      travelMode: googleMaps.TravelMode.DRIVING
-    }, (result: any, status: any) => {
-      if (status === 'OK') {
-        routeRendererRef.current!.setDirections(result);
-      }
-    });
-  };
+    let cancelled = false;
+    getMapProvider().route(driverLocation, customerLocation)
+      .then((route) => {
+        if (cancelled) return;
+        map.showRoute(route);
+        setEtaMinutes(route ? route.durationMinutes : null);
+      })
+      .catch((error) => {
+        console.error('Error calculating route:', error);
+      });
 
-  // Update driver marker when location changes
-  useEffect(() => {
-    if (driverLocation && mapLoaded) {
-      if (!driverMarkerRef.current) {
-        addDriverMarker();
-      } else if ((window as any).google) {
-        const position = new (window as any).google.maps.LatLng(
-          driverLocation.latitude,
-          driverLocation.longitude
-        );
-        driverMarkerRef.current.setPosition(position);
-        updateRoute();
-      }
-    }
-  }, [driverLocation, mapLoaded]);
+    return () => {
+      cancelled = true;
+    };
+  }, [driverLocation, mapLoaded, customerLocation]);
 
   const getStatusInfo = (status: string) => {
     const statusMap = {
+      pending: { label: 'Pendiente', color: 'bg-yellow-100 text-yellow-800', icon: Clock },
       confirmed: { label: 'Confirmado', color: 'bg-blue-100 text-blue-800', icon: CheckCircle },
       preparing: { label: 'Preparando', color: 'bg-orange-100 text-orange-800', icon: Package },
-      ready: { label: 'En camino', color: 'bg-green-100 text-green-800', icon: Truck },
-      delivered: { label: 'Entregado', color: 'bg-emerald-100 text-emerald-800', icon: CheckCircle }
+      ready: {
+        label: order?.channel === 'delivery' ? 'En camino' : 'Listo',
+        color: 'bg-green-100 text-green-800',
+        icon: Truck
+      },
+      delivered: { label: 'Entregado', color: 'bg-emerald-100 text-emerald-800', icon: CheckCircle },
+      cancelled: { label: 'Cancelado', color: 'bg-red-100 text-red-800', icon: XCircle }
     };
-    
-    return statusMap[status as keyof typeof statusMap] || 
+
+    return statusMap[status as keyof typeof statusMap] ||
       { label: status, color: 'bg-gray-100 text-gray-800', icon: Clock };
   };
 
@@ -308,10 +301,50 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
     );
   }
 
-  const statusInfo = getStatusInfo(order.status);
+  const statusInfo = getStatusInfo(order.status || 'pending');
   const StatusIcon = statusInfo.icon;
-  const driver = order.order_assignments?.[0]?.delivery_drivers;
-  const assignment = order.order_assignments?.[0];
+  const driver = assignment?.delivery_drivers;
+  const currentIndex = statusOrder.indexOf(order.status || 'pending');
+
+  const readyLabels: Record<string, string> = {
+    delivery: 'Listo para salir',
+    pickup: 'Listo para retirar',
+    dine_in: 'Listo para servir'
+  };
+
+  const timeline: TimelineStep[] = statusOrder.map((status, index) => ({
+    key: status,
+    label: {
+      pending: 'Pedido recibido',
+      confirmed: 'Pedido confirmado',
+      preparing: 'En preparación',
+      ready: readyLabels[order.channel],
+      delivered: 'Entregado',
+      cancelled: 'Cancelado'
+    }[status],
+    done: index <= currentIndex,
+    current: index === currentIndex && isActive,
+    time: order.order_status_history?.find(entry => entry.to_status === status)?.created_at
+      || (status === 'pending' ? order.created_at : null)
+  }));
+
+  // Delivery orders show the pickup by the driver between "ready" and "delivered"
+  if (order.channel === 'delivery') {
+    timeline.splice(4, 0, {
+      key: 'picked_up',
+      label: 'En camino hacia tu ubicación',
+      done: !!assignment?.picked_up_at,
+      current: !!assignment?.picked_up_at && isActive,
+      time: assignment?.picked_up_at
+    });
+    timeline[3].current = timeline[3].current && !assignment?.picked_up_at;
+  }
+
+  const estimatedArrival = etaMinutes !== null
+    ? `${etaMinutes} min`
+    : assignment?.estimated_delivery_time
+      ? formatTime(assignment.estimated_delivery_time)
+      : null;
 
   return (
     <div className="space-y-6">
@@ -326,6 +359,22 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {/* Delivery Code */}
+          {order.channel === 'delivery' && order.delivery_code && isActive && (
+            <div className="bg-orange-50 border border-orange-200 p-4 rounded-lg text-center">
+              <h4 className="font-medium mb-1 flex items-center justify-center">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Código de entrega
+              </h4>
+              <p className="text-3xl font-mono font-bold tracking-widest text-orange-700">
+                {order.delivery_code}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                Dale este código al repartidor cuando recibas tu pedido
+              </p>
+            </div>
+          )}
+
           {/* Driver Info */}
           {driver && (
             <div className="bg-gray-50 p-4 rounded-lg">
@@ -336,18 +385,22 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
               <div className="flex items-center justify-between">
                 <div>
                   <p className="font-medium">{driver.full_name}</p>
-                  <p className="text-sm text-gray-600">
-                    Vehículo: {driver.vehicle_type}
-                  </p>
+                  {driver.vehicle_type && (
+                    <p className="text-sm text-gray-600">
+                      Vehículo: {vehicleLabels[driver.vehicle_type] || driver.vehicle_type}
+                    </p>
+                  )}
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => window.open(`tel:${driver.phone}`)}
-                >
-                  <Phone className="w-4 h-4 mr-1" />
-                  Llamar
-                </Button>
+                {isActive && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => window.open(`tel:${driver.phone}`)}
+                  >
+                    <Phone className="w-4 h-4 mr-1" />
+                    Llamar
+                  </Button>
+                )}
               </div>
             </div>
           )}
@@ -355,85 +408,91 @@ const OrderTracking: React.FC<OrderTrackingProps> = ({
           {/* Timeline */}
           <div className="space-y-3">
             <h4 className="font-medium">Estado del pedido:</h4>
-            <div className="space-y-2">
+            {order.status === 'cancelled' ? (
               <div className="flex items-center gap-3">
-                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                <span className="text-sm">Pedido confirmado</span>
+                <div className="w-3 h-3 bg-red-500 rounded-full"></div>
+                <span className="text-sm">Pedido cancelado</span>
               </div>
-              
-              {assignment?.picked_up_at && (
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                  <span className="text-sm">
-                    Recogido - {new Date(assignment.picked_up_at).toLocaleTimeString()}
-                  </span>
-                </div>
-              )}
-              
-              {order.status === 'ready' && (
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 bg-blue-500 rounded-full animate-pulse"></div>
-                  <span className="text-sm">En camino hacia tu ubicación</span>
-                </div>
-              )}
-              
-              {assignment?.delivered_at && (
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                  <span className="text-sm">
-                    Entregado - {new Date(assignment.delivered_at).toLocaleTimeString()}
-                  </span>
-                </div>
-              )}
-            </div>
+            ) : (
+              <div className="space-y-2">
+                {timeline.map((step) => (
+                  <div key={step.key} className="flex items-center gap-3">
+                    <div
+                      className={`w-3 h-3 rounded-full ${
+                        step.current
+                          ? 'bg-blue-500 animate-pulse'
+                          : step.done ? 'bg-green-500' : 'bg-gray-300'
+                      }`}
+                    ></div>
+                    <span className={`text-sm ${step.done ? '' : 'text-gray-400'}`}>
+                      {step.label}
+                      {step.done && step.time && ` - ${formatTime(step.time)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Delivery Address */}
-          <div className="bg-blue-50 p-3 rounded-lg">
-            <h4 className="font-medium mb-1 flex items-center">
-              <MapPin className="w-4 h-4 mr-1" />
-              Dirección de entrega
-            </h4>
-            <p className="text-sm">{customerLocation.address}</p>
-          </div>
+          {order.channel === 'delivery' && address && (
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <h4 className="font-medium mb-1 flex items-center">
+                <MapPin className="w-4 h-4 mr-1" />
+                Dirección de entrega
+              </h4>
+              <p className="text-sm">{address.street_address}, {address.city}</p>
+              {address.delivery_notes && (
+                <p className="text-sm text-gray-600 mt-1">{address.delivery_notes}</p>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Map */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Navigation className="w-5 h-5" />
-            Seguimiento en tiempo real
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="relative h-80 w-full rounded-lg overflow-hidden">
-            <div ref={mapRef} className="w-full h-full" />
-            {!mapLoaded && (
-              <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
-                <div className="text-center">
-                  <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2" />
-                  <p className="text-sm text-gray-600">Cargando mapa...</p>
+      {showMap && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Navigation className="w-5 h-5" />
+              Seguimiento en tiempo real
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="relative h-80 w-full rounded-lg overflow-hidden">
+              <div ref={mapRef} className="w-full h-full" />
+              {!mapLoaded && (
+                <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
+                  <div className="text-center">
+                    <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2" />
+                    <p className="text-sm text-gray-600">Cargando mapa...</p>
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-          
-          <div className="mt-4 flex justify-between text-sm text-gray-600">
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-              <span>Tu ubicación</span>
+              )}
             </div>
-            {driverLocation && (
+
+            <div className="mt-4 flex justify-between text-sm text-gray-600">
               <div className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                <span>Repartidor</span>
+                <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                <span>Tu ubicación</span>
               </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+              {estimatedArrival && (
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  <span>Llegada estimada: {estimatedArrival}</span>
+                </div>
+              )}
+              {driverLocation && (
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                  <span>Repartidor</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Banknote } from 'lucide-react';
+import { formatUSD } from '@/lib/currency';
+
+interface CashCollectionDialogProps {
+  open: boolean;
+  amountDue: number;
+  isSubmitting: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (amountReceived: number, changeGiven: number) => void;
+}
+
+const CashCollectionDialog = ({ open, amountDue, isSubmitting, onOpenChange, onConfirm }: CashCollectionDialogProps) => {
+  const [received, setReceived] = useState(amountDue.toFixed(2));
+  const [change, setChange] = useState('0.00');
+
+  const amountReceived = parseFloat(received) || 0;
+  const changeGiven = parseFloat(change) || 0;
+  const kept = amountReceived - changeGiven;
+  const difference = kept - amountDue;
+
+  // Suggest the change as soon as the driver types what the customer handed over
+  const updateReceived = (value: string) => {
+    setReceived(value);
+    const suggested = (parseFloat(value) || 0) - amountDue;
+    setChange(suggested > 0 ? suggested.toFixed(2) : '0.00');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Banknote className="w-5 h-5 mr-2" />
+            Cobro en efectivo
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-between text-lg">
+            <span>A cobrar:</span>
+            <span className="font-bold">{formatUSD(amountDue)}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount_received">Recibido ($)</Label>
+              <Input
+                id="amount_received"
+                type="number"
+                step="0.01"
+                min="0"
+                value={received}
+                onChange={(e) => updateReceived(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="change_given">Vuelto entregado ($)</Label>
+              <Input
+                id="change_given"
+                type="number"
+                step="0.01"
+                min="0"
+                value={change}
+                onChange={(e) => setChange(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {Math.abs(difference) > 0.01 && (
+            <p className={`text-sm ${difference < 0 ? 'text-red-600' : 'text-purple-700'}`}>
+              {difference < 0
+                ? `Faltan ${formatUSD(-difference)} para cubrir el pedido.`
+                : `Te quedas con ${formatUSD(difference)} más de lo que cuesta el pedido.`}
+            </p>
+          )}
+
+          <Button
+            className="w-full bg-green-600 hover:bg-green-700"
+            disabled={isSubmitting || amountReceived <= 0 || changeGiven < 0 || changeGiven > amountReceived}
+            onClick={() => onConfirm(amountReceived, changeGiven)}
+          >
+            {isSubmitting ? 'Registrando...' : 'Registrar cobro y entregar'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CashCollectionDialog;
@@ -9,10 +9,12 @@ import {
   Star, 
   Clock,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  Banknote
 } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useDriverCash } from '@/hooks/useDriverCash';
 
 interface DriverDashboardProps {
   driverId: string;
@@ -24,6 +26,8 @@ interface DriverDashboardProps {
 }
 
 const DriverDashboard = ({ driverId, driverInfo }: DriverDashboardProps) => {
+  const { collections: cashCollections, cashOnHand } = useDriverCash(driverId);
+
   const { data: todayStats, error: statsError } = useQuery({
     queryKey: ['driver-today-stats', driverId],
     queryFn: async () => {
@@ -184,6 +188,24 @@ const DriverDashboard = ({ driverId, driverInfo }: DriverDashboardProps) => {
         </Card>
       </div>
 
+      {/* Cash collected since the last settlement; handed in at the end of the shift */}
+      {cashCollections && cashCollections.length > 0 && (
+        <Card className="border-amber-200 bg-amber-50">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-amber-900">Efectivo por entregar al restaurante</p>
+                <p className="text-2xl font-bold text-amber-900">${cashOnHand.toFixed(2)}</p>
+                <p className="text-xs text-amber-800">
+                  {cashCollections.length} {cashCollections.length === 1 ? 'pedido cobrado' : 'pedidos cobrados'} desde el último cierre
+                </p>
+              </div>
+              <Banknote className="w-8 h-8 text-amber-600" />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -13,11 +13,14 @@ import {
   DollarSign,
   Navigation,
   CheckCircle,
-  Plus
+  Plus,
+  Banknote
 } from 'lucide-react';
 import { useDriverOrders } from '@/hooks/useDriverOrders';
 import { useDriverLocation } from '@/hooks/useDriverLocation';
+import { useDriverCash } from '@/hooks/useDriverCash';
 import { DriverOrder } from '@/types/driver';
+import CashCollectionDialog from './CashCollectionDialog';
 
 interface DriverOrdersListProps {
   driverId: string;
@@ -33,6 +36,8 @@ const DriverOrdersList = ({ driverId }: DriverOrdersListProps) => {
     assignOrderToDriver 
   } = useDriverOrders(driverId);
   const { startTracking, stopTracking, isTracking } = useDriverLocation(driverId);
+  const { recordCollection } = useDriverCash(driverId);
+  const [cashOrder, setCashOrder] = useState<DriverOrder | null>(null);
 
   if (isLoading) {
     return <div className="text-center py-8">Cargando pedidos...</div>;
@@ -66,18 +71,45 @@ const DriverOrdersList = ({ driverId }: DriverOrdersListProps) => {
     startTracking(orderId);
   };
 
-  const handleDelivery = (orderId: string) => {
-    deliverOrder(orderId);
+  const handleDelivery = (order: DriverOrder) => {
+    // Cash orders can only be closed once the collection is recorded
+    if (order.payment_method === 'cash') {
+      setCashOrder(order);
+      return;
+    }
+
+    deliverOrder(order.id);
     stopTracking();
   };
 
+  const handleCashCollected = (amountReceived: number, changeGiven: number) => {
+    if (!cashOrder) return;
+
+    recordCollection.mutate(
+      { orderId: cashOrder.id, amountReceived, changeGiven },
+      {
+        onSuccess: () => {
+          deliverOrder(cashOrder.id);
+          stopTracking();
+          setCashOrder(null);
+        }
+      }
+    );
+  };
+
+  const cashDue = (order: DriverOrder) => Math.max(0, order.total_amount - order.amount_paid);
+
   const handleAssignOrder = (orderId: string) => {
     assignOrderToDriver.mutate({ orderId, driverId });
   };
 
-  const openMaps = (address: string) => {
-    const encodedAddress = encodeURIComponent(address);
-    window.open(`https://www.google.com/maps/search/?api=1&query=${encodedAddress}`, '_blank');
+  // Prefer the pin the customer dropped at checkout over the free-text address
+  const openMaps = (order: DriverOrder) => {
+    const address = order.delivery_addresses;
+    const query = address?.latitude != null && address?.longitude != null
+      ? `${address.latitude},${address.longitude}`
+      : formatAddress(order);
+    window.open(`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`, '_blank');
   };
 
   const OrderCard = ({ order, isAvailable = false }: { order: DriverOrder; isAvailable?: boolean }) => (
@@ -92,6 +124,12 @@ const DriverOrdersList = ({ driverId }: DriverOrdersListProps) => {
             <Badge variant="outline">
               ${order.total_amount.toFixed(2)}
             </Badge>
+            {order.payment_method === 'cash' && (
+              <Badge className="bg-amber-100 text-amber-800">
+                <Banknote className="w-3 h-3 mr-1" />
+                Efectivo
+              </Badge>
+            )}
             {isAvailable && (
               <Badge variant="outline" className="bg-green-50 text-green-700">
                 Disponible
@@ -140,15 +178,30 @@ const DriverOrdersList = ({ driverId }: DriverOrdersListProps) => {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => openMaps(formatAddress(order))}
+              onClick={() => openMaps(order)}
             >
               <Navigation className="w-4 h-4 mr-1" />
               Navegar
             </Button>
           </div>
           <p className="text-sm">{formatAddress(order)}</p>
+          {order.delivery_addresses?.delivery_notes && (
+            <p className="text-sm text-gray-600 mt-1">
+              <strong>Indicaciones:</strong> {order.delivery_addresses.delivery_notes}
+            </p>
+          )}
         </div>
 
+        {order.payment_method === 'cash' && cashDue(order) > 0 && (
+          <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg flex items-center justify-between">
+            <span className="flex items-center font-medium text-amber-900">
+              <Banknote className="w-4 h-4 mr-1" />
+              Cobrar en efectivo
+            </span>
+            <span className="text-lg font-bold text-amber-900">${cashDue(order).toFixed(2)}</span>
+          </div>
+        )}
+
         {/* Order Items */}
         <div className="bg-gray-50 p-3 rounded-lg">
           <h4 className="font-medium mb-2">Artículos del Pedido</h4>
@@ -214,18 +267,19 @@ const DriverOrdersList = ({ driverId }: DriverOrdersListProps) => {
             </Button>
           ) : (
             <>
-              {order.status === 'confirmed' || order.status === 'preparing' ? (
+              {!order.order_assignments?.[0]?.picked_up_at ? (
+                // The kitchen has to mark the order ready before it can be picked up
                 <Button
                   onClick={() => handlePickup(order.id)}
                   className="flex-1 bg-blue-600 hover:bg-blue-700"
-                  disabled={!order.order_assignments?.[0] || !!order.order_assignments?.[0]?.picked_up_at}
+                  disabled={!order.order_assignments?.[0] || order.status !== 'ready'}
                 >
                   <Package className="w-4 h-4 mr-1" />
-                  {order.order_assignments?.[0]?.picked_up_at ? 'Recogido' : 'Recoger Pedido'}
+                  {order.status === 'ready' ? 'Recoger Pedido' : 'Esperando cocina'}
                 </Button>
               ) : (
                 <Button
-                  onClick={() => handleDelivery(order.id)}
+                  onClick={() => handleDelivery(order)}
                   className="flex-1 bg-green-600 hover:bg-green-700"
                   disabled={!!order.order_assignments?.[0]?.delivered_at}
                 >
@@ -254,6 +308,17 @@ const DriverOrdersList = ({ driverId }: DriverOrdersListProps) => {
         )}
       </div>
 
+      {cashOrder && (
+        <CashCollectionDialog
+          key={cashOrder.id}
+          open={!!cashOrder}
+          amountDue={cashDue(cashOrder)}
+          isSubmitting={recordCollection.isPending}
+          onOpenChange={(open) => !open && setCashOrder(null)}
+          onConfirm={handleCashCollected}
+        />
+      )}
+
       <Tabs defaultValue="assigned" className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="assigned" className="flex items-center">
@@ -0,0 +1,158 @@
+import React from 'react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChefHat, CheckCircle, Clock } from 'lucide-react';
+import type { KitchenDishCustomization, KitchenOrder, KitchenStationTicket, StationTicketStatus } from '@/types/kitchen';
+
+interface KitchenTicketProps {
+  ticket: KitchenStationTicket;
+  getStationName: (stationId: string | null) => string;
+  now: number;
+  onBump: (ticketId: string) => void;
+  isBumping: boolean;
+}
+
+const channelLabels: Record<KitchenOrder['channel'], string> = {
+  dine_in: 'Mesa',
+  delivery: 'Delivery',
+  pickup: 'Para Retirar'
+};
+
+const stationStatusLabels: Record<StationTicketStatus, string> = {
+  pending: 'pendiente',
+  preparing: 'preparando',
+  ready: 'listo'
+};
+
+// Minutes in the kitchen before a ticket turns amber and then red
+const WARNING_MINUTES = 10;
+const LATE_MINUTES = 20;
+
+const getElapsedStyle = (minutes: number) => {
+  if (minutes >= LATE_MINUTES) return 'border-red-500 bg-red-50';
+  if (minutes >= WARNING_MINUTES) return 'border-yellow-500 bg-yellow-50';
+  return 'border-green-500 bg-white';
+};
+
+const describeCustomization = (customization: KitchenDishCustomization) => {
+  const elementName = customization.dish_optional_elements?.menu_items?.name || 'Elemento';
+
+  if (!customization.is_included) {
+    return { text: `SIN ${elementName}`, className: 'text-red-700 font-semibold' };
+  }
+  if (customization.replacement_item_id) {
+    return {
+      text: `${elementName} → ${customization.replacement_menu_items?.name || 'Reemplazo'}`,
+      className: 'text-blue-700 font-semibold'
+    };
+  }
+  return { text: `CON ${elementName}`, className: 'text-gray-700' };
+};
+
+const KitchenTicket = ({ ticket, getStationName, now, onBump, isBumping }: KitchenTicketProps) => {
+  const order = ticket.orders;
+  const isPreparing = ticket.status === 'preparing';
+  const stationItems = order.order_items.filter(item => item.station_id === ticket.station_id);
+  const otherStations = order.order_station_tickets.filter(other => other.id !== ticket.id);
+
+  // Time in the kitchen counts from confirmation, not from when the order was placed
+  const confirmedAt = order.order_status_history.find(entry => entry.to_status === 'confirmed')?.created_at
+    || order.created_at;
+  const elapsedMinutes = Math.max(0, Math.floor((now - new Date(confirmedAt).getTime()) / 60000));
+
+  return (
+    <Card className={`border-4 ${getElapsedStyle(elapsedMinutes)} flex flex-col`}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="text-2xl font-bold">#{order.id.slice(-6)}</div>
+            <div className="text-sm text-gray-600">
+              {channelLabels[order.channel]}
+              {order.restaurant_table && ` ${order.restaurant_table.table_number}`}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="flex items-center gap-1 text-2xl font-bold">
+              <Clock className="w-5 h-5" />
+              {elapsedMinutes} min
+            </div>
+            <Badge variant={isPreparing ? 'default' : 'outline'}>
+              {isPreparing ? 'Preparando' : 'Nuevo'}
+            </Badge>
+          </div>
+        </div>
+        <div className="text-sm font-semibold uppercase tracking-wide text-orange-700">
+          {getStationName(ticket.station_id)}
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex-1 flex flex-col gap-4">
+        <ul className="space-y-3 flex-1">
+          {stationItems.map((item) => (
+            <li key={item.id}>
+              <div className="text-xl font-semibold">
+                {item.quantity}x {item.menu_items?.name || item.composite_dishes?.name || 'Producto'}
+              </div>
+              {item.order_dish_customizations.length > 0 && (
+                <ul className="ml-6 mt-1 space-y-0.5">
+                  {item.order_dish_customizations.map((customization) => {
+                    const { text, className } = describeCustomization(customization);
+                    return (
+                      <li key={customization.id} className={`text-base ${className}`}>
+                        {text}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {order.notes && (
+          <div className="bg-yellow-100 border border-yellow-300 rounded p-2 text-base">
+            <strong>Nota:</strong> {order.notes}
+          </div>
+        )}
+
+        {otherStations.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {otherStations.map((other) => (
+              <Badge
+                key={other.id}
+                variant="outline"
+                className={other.status === 'ready' ? 'border-green-500 text-green-700' : 'text-gray-600'}
+              >
+                {getStationName(other.station_id)}: {stationStatusLabels[other.status]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <Button
+          size="lg"
+          className={`w-full h-14 text-lg ${
+            isPreparing ? 'bg-green-600 hover:bg-green-700' : 'bg-orange-600 hover:bg-orange-700'
+          }`}
+          onClick={() => onBump(ticket.id)}
+          disabled={isBumping}
+        >
+          {isPreparing ? (
+            <>
+              <CheckCircle className="w-5 h-5 mr-2" />
+              Listo
+            </>
+          ) : (
+            <>
+              <ChefHat className="w-5 h-5 mr-2" />
+              Empezar
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default KitchenTicket;
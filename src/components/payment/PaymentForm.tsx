@@ -9,13 +9,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Upload, CreditCard, AlertCircle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { usePaymentMethods } from '@/hooks/usePaymentMethods';
+import { formatVES, toVES, type PaymentCurrency } from '@/lib/currency';
+import { manualPaymentProvider } from '@/lib/paymentProviders';
 
 interface PaymentFormProps {
   orderId: string;
   orderAmount: number;
+  exchangeRate?: number | null;
   onPaymentSubmitted: () => void;
 }
 
@@ -24,10 +26,14 @@ interface PaymentFormData {
   origin_bank: string;
   phone_number_used?: string;
   amount_paid: number;
+  amount_currency: PaymentCurrency;
   reference_number: string;
 }
 
-const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormProps) => {
+// Bolívar methods default to an amount in Bs. when the order has a rate
+const VES_PAYMENT_TYPES = ['Pago Móvil', 'Transferencia Bancaria'];
+
+const PaymentForm = ({ orderId, orderAmount, exchangeRate, onPaymentSubmitted }: PaymentFormProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
@@ -36,11 +42,23 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
   
   const { register, handleSubmit, formState: { errors }, setValue, watch } = useForm<PaymentFormData>({
     defaultValues: {
-      amount_paid: orderAmount
+      amount_paid: orderAmount,
+      amount_currency: 'USD'
     }
   });
 
   const watchedPaymentType = watch('payment_method_type');
+  const watchedCurrency = watch('amount_currency');
+
+  const changeCurrency = (currency: PaymentCurrency) => {
+    setValue('amount_currency', currency);
+    setValue('amount_paid', currency === 'VES' && exchangeRate ? toVES(orderAmount, exchangeRate) : orderAmount);
+  };
+
+  const changePaymentType = (paymentType: string) => {
+    setValue('payment_method_type', paymentType);
+    changeCurrency(VES_PAYMENT_TYPES.includes(paymentType) && exchangeRate ? 'VES' : 'USD');
+  };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -62,25 +80,6 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
     }
   };
 
-  const uploadPaymentProof = async (file: File): Promise<string> => {
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${orderId}-${Date.now()}.${fileExt}`;
-    
-    const { data, error } = await supabase.storage
-      .from('payment-proofs')
-      .upload(fileName, file);
-
-    if (error) {
-      throw new Error('Error al subir el comprobante: ' + error.message);
-    }
-
-    const { data: { publicUrl } } = supabase.storage
-      .from('payment-proofs')
-      .getPublicUrl(data.path);
-
-    return publicUrl;
-  };
-
   const onSubmit = async (data: PaymentFormData) => {
     if (!selectedFile) {
       toast.error('Debes seleccionar un comprobante de pago');
@@ -90,25 +89,20 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
     setIsSubmitting(true);
 
     try {
-      // Upload payment proof
-      const proofUrl = await uploadPaymentProof(selectedFile);
-
-      // Create payment verification record
-      const { error } = await supabase
-        .from('manual_payment_verifications')
-        .insert({
-          order_id: orderId,
-          payment_method_type: data.payment_method_type,
-          origin_bank: data.origin_bank,
-          phone_number_used: data.phone_number_used,
-          amount_paid: data.amount_paid,
-          reference_number: data.reference_number,
-          payment_proof_url: proofUrl
-        });
+      const intent = await manualPaymentProvider.createIntent({
+        orderId,
+        amount: data.amount_paid,
+        currency: data.amount_currency
+      });
 
-      if (error) {
-        throw error;
-      }
+      await manualPaymentProvider.confirm(intent, {
+        paymentMethodId: selectedPaymentMethod,
+        paymentMethodType: data.payment_method_type,
+        originBank: data.origin_bank,
+        phoneNumberUsed: data.phone_number_used,
+        referenceNumber: data.reference_number,
+        proofFile: selectedFile
+      });
 
       toast.success('Comprobante enviado exitosamente. Pendiente de verificación.');
       onPaymentSubmitted();
@@ -140,6 +134,7 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
               Selecciona un método de pago y realiza la transferencia. Luego sube el comprobante para verificación.
+              Si pagas solo una parte, podrás enviar el resto con otro método.
             </AlertDescription>
           </Alert>
 
@@ -186,6 +181,9 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
                 )}
                 <div>
                   <strong>Monto a Pagar:</strong> ${orderAmount.toFixed(2)}
+                  {exchangeRate && (
+                    <span> ({formatVES(orderAmount, exchangeRate)} a tasa {exchangeRate})</span>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -204,7 +202,7 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
                 <Label>Tipo de Pago Realizado</Label>
                 <Select 
                   value={watchedPaymentType} 
-                  onValueChange={(value) => setValue('payment_method_type', value)}
+                  onValueChange={changePaymentType}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Selecciona el tipo de pago" />
@@ -246,15 +244,28 @@ const PaymentForm = ({ orderId, orderAmount, onPaymentSubmitted }: PaymentFormPr
 
               <div className="space-y-2">
                 <Label htmlFor="amount_paid">Monto Pagado</Label>
-                <Input
-                  id="amount_paid"
-                  type="number"
-                  step="0.01"
-                  {...register('amount_paid', { 
-                    required: 'El monto es requerido',
-                    min: { value: 0.01, message: 'El monto debe ser mayor a 0' }
-                  })}
-                />
+                <div className="flex gap-2">
+                  <Select value={watchedCurrency} onValueChange={(value) => changeCurrency(value as PaymentCurrency)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="USD">USD ($)</SelectItem>
+                      {!!exchangeRate && <SelectItem value="VES">Bs.</SelectItem>}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id="amount_paid"
+                    type="number"
+                    step="0.01"
+                    className="flex-1"
+                    {...register('amount_paid', { 
+                      required: 'El monto es requerido',
+                      valueAsNumber: true,
+                      min: { value: 0.01, message: 'El monto debe ser mayor a 0' }
+                    })}
+                  />
+                </div>
                 {errors.amount_paid && (
                   <span className="text-red-500 text-sm">{errors.amount_paid.message}</span>
                 )}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { usePaymentProofUrl } from '@/hooks/usePaymentProofUrl';
+
+interface PaymentProofLinkProps {
+  path: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const PaymentProofLink = ({ path, className, children }: PaymentProofLinkProps) => {
+  const { data: signedUrl, isLoading, isError } = usePaymentProofUrl(path);
+
+  if (isLoading) {
+    return <span className="text-sm text-gray-500">Generando enlace...</span>;
+  }
+
+  if (isError || !signedUrl) {
+    return <span className="text-sm text-red-600">Comprobante no disponible</span>;
+  }
+
+  return (
+    <a href={signedUrl} target="_blank" rel="noopener noreferrer" className={className}>
+      {children}
+    </a>
+  );
+};
+
+export default PaymentProofLink;
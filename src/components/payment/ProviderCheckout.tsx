@@ -0,0 +1,29 @@
+import React from 'react';
+import { getPaymentProvider } from '@/lib/paymentProviders';
+import PaymentForm from './PaymentForm';
+import SandboxCheckout from './SandboxCheckout';
+
+interface ProviderCheckoutProps {
+  providerId: string;
+  orderId: string;
+  orderAmount: number;
+  exchangeRate?: number | null;
+  onPaymentSubmitted: () => void;
+}
+
+// Renders the checkout step for a provider according to how it collects payments,
+// so pages never need to know which providers exist
+const ProviderCheckout = ({ providerId, ...props }: ProviderCheckoutProps) => {
+  const provider = getPaymentProvider(providerId);
+
+  switch (provider?.checkout) {
+    case 'proof_upload':
+      return <PaymentForm {...props} />;
+    case 'simulated':
+      return <SandboxCheckout {...props} />;
+    default:
+      return <div className="text-center py-4 text-gray-600">Método de pago no disponible</div>;
+  }
+};
+
+export default ProviderCheckout;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FlaskConical } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatUSD, formatVES } from '@/lib/currency';
+import { sandboxPaymentProvider, type SandboxOutcome } from '@/lib/paymentProviders';
+
+interface SandboxCheckoutProps {
+  orderId: string;
+  orderAmount: number;
+  exchangeRate?: number | null;
+  onPaymentSubmitted: () => void;
+}
+
+const outcomeLabels: Record<SandboxOutcome, string> = {
+  success: 'Pago aprobado',
+  failure: 'Pago rechazado',
+  delayed: 'Aprobado con demora'
+};
+
+const SandboxCheckout = ({ orderId, orderAmount, exchangeRate, onPaymentSubmitted }: SandboxCheckoutProps) => {
+  const [amount, setAmount] = useState(orderAmount.toFixed(2));
+  const [outcome, setOutcome] = useState<SandboxOutcome>('success');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedAmount = parseFloat(amount);
+  const isValidAmount = parsedAmount > 0 && parsedAmount <= orderAmount + 0.01;
+
+  const handlePay = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const intent = await sandboxPaymentProvider.createIntent({ orderId, amount: parsedAmount, currency: 'USD' });
+      await sandboxPaymentProvider.confirm(intent, { outcome });
+
+      toast.info('Procesando el pago...');
+      onPaymentSubmitted();
+    } catch (error) {
+      console.error('Error processing sandbox payment:', error);
+      toast.error('Error al procesar el pago: ' + (error instanceof Error ? error.message : 'Inténtalo de nuevo'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Pasarela de Pruebas
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Alert>
+          <AlertDescription>
+            No se cobra dinero real. Elige el resultado que quieres simular.
+          </AlertDescription>
+        </Alert>
+
+        <div className="space-y-2">
+          <Label htmlFor="sandbox_amount">Monto ($)</Label>
+          <Input
+            id="sandbox_amount"
+            type="number"
+            step="0.01"
+            min="0.01"
+            max={orderAmount.toFixed(2)}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          {exchangeRate && isValidAmount && (
+            <p className="text-sm text-gray-500">{formatVES(parsedAmount, exchangeRate)}</p>
+          )}
+          {!isValidAmount && (
+            <span className="text-red-500 text-sm">El monto debe ser mayor a 0 y no exceder {formatUSD(orderAmount)}</span>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Resultado</Label>
+          <Select value={outcome} onValueChange={(value) => setOutcome(value as SandboxOutcome)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(outcomeLabels) as SandboxOutcome[]).map((key) => (
+                <SelectItem key={key} value={key}>{outcomeLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button className="w-full" onClick={handlePay} disabled={isSubmitting || !isValidAmount}>
+          {isSubmitting ? 'Procesando...' : `Pagar ${isValidAmount ? formatUSD(parsedAmount) : ''}`}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SandboxCheckout;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAddWaitlistEntry, useWaitlistEstimate } from '@/hooks/useWaitlist';
+
+interface AddWaitlistEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AddWaitlistEntryDialog = ({ open, onOpenChange }: AddWaitlistEntryDialogProps) => {
+  const addEntry = useAddWaitlistEntry();
+  const [partyName, setPartyName] = useState('');
+  const [partySize, setPartySize] = useState('2');
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const size = parseInt(partySize) || 0;
+  const { data: estimate, error: estimateError, isFetching: isEstimating } = useWaitlistEstimate(open ? size : 0);
+
+  useEffect(() => {
+    if (!open) return;
+    setPartyName('');
+    setPartySize('2');
+    setPhone('');
+    setNotes('');
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await addEntry.mutateAsync({
+        partyName,
+        partySize: size,
+        phone: phone || undefined,
+        notes: notes || undefined
+      });
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Anotar en lista de espera</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="party_name">Nombre</Label>
+              <Input id="party_name" value={partyName} onChange={(e) => setPartyName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist_party_size">Personas</Label>
+              <Input
+                id="waitlist_party_size"
+                type="number"
+                min="1"
+                value={partySize}
+                onChange={(e) => setPartySize(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waitlist_phone">Teléfono (para avisarles)</Label>
+            <Input id="waitlist_phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waitlist_notes">Notas</Label>
+            <Input
+              id="waitlist_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Terraza, silla para bebé..."
+            />
+          </div>
+
+          <div className="p-3 bg-orange-50 border border-orange-200 rounded text-sm">
+            {size < 1
+              ? 'Indica cuántas personas vienen.'
+              : estimateError
+                ? estimateError.message
+                : isEstimating || estimate === undefined
+                  ? 'Calculando espera...'
+                  : estimate === 0
+                    ? 'Hay mesa libre: pueden sentarse ya.'
+                    : `Espera estimada: unos ${estimate} min`}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={addEntry.isPending || size < 1 || !!estimateError}>
+              {addEntry.isPending ? 'Anotando...' : 'Anotar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddWaitlistEntryDialog;
@@ -0,0 +1,39 @@
+import React, { forwardRef } from 'react';
+import { GRID_SIZE } from '@/lib/floorPlan';
+import type { FloorZone } from '@/types/table';
+
+interface FloorPlanCanvasProps {
+  zone: FloorZone;
+  // Shows the grid and keeps touch drags from scrolling the page
+  editable?: boolean;
+  children: React.ReactNode;
+  onPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
+}
+
+// A zone's plan at its aspect ratio; tables inside are positioned with tableBoxStyle
+const FloorPlanCanvas = forwardRef<HTMLDivElement, FloorPlanCanvasProps>(
+  ({ zone, editable = false, children, onPointerDown }, ref) => {
+    const gridStep = `${(GRID_SIZE * 5 / zone.width) * 100}% ${(GRID_SIZE * 5 / zone.height) * 100}%`;
+
+    return (
+      <div
+        ref={ref}
+        onPointerDown={onPointerDown}
+        className={`relative w-full border rounded-lg bg-gray-50 overflow-hidden select-none ${editable ? 'touch-none' : ''}`}
+        style={{
+          aspectRatio: `${zone.width} / ${zone.height}`,
+          backgroundImage: editable
+            ? 'linear-gradient(to right, #e5e7eb 1px, transparent 1px), linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)'
+            : undefined,
+          backgroundSize: editable ? gridStep : undefined
+        }}
+      >
+        {children}
+      </div>
+    );
+  }
+);
+
+FloorPlanCanvas.displayName = 'FloorPlanCanvas';
+
+export default FloorPlanCanvas;
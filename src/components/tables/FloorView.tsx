@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatUSD } from '@/lib/currency';
+import { seatPositions, tableBoxStyle, tableShapeClass } from '@/lib/floorPlan';
+import { useTables, type Table } from '@/hooks/useTables';
+import { useFloorZones } from '@/hooks/useFloorPlan';
+import { sessionTotal, useOpenTableSessions } from '@/hooks/useTableSessions';
+import type { TableSession, TableStatus } from '@/types/table';
+import FloorPlanCanvas from './FloorPlanCanvas';
+
+interface FloorViewProps {
+  selectedTableId?: string;
+  onTableSelect?: (table: Table, session?: TableSession) => void;
+  isTableSelectable?: (table: Table, session?: TableSession) => boolean;
+}
+
+const statusStyles: Record<TableStatus, string> = {
+  available: 'bg-green-100 border-green-500 text-green-900',
+  occupied: 'bg-red-100 border-red-500 text-red-900',
+  cleaning: 'bg-yellow-100 border-yellow-500 text-yellow-900'
+};
+
+const statusLabels: Record<TableStatus, string> = {
+  available: 'Disponible',
+  occupied: 'Ocupada',
+  cleaning: 'Limpieza'
+};
+
+const formatSeated = (openedAt: string, now: number) => {
+  const minutes = Math.max(0, Math.floor((now - new Date(openedAt).getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
+
+// Live dining room: tables coloured by status, with how long each has been seated and its tab so far
+const FloorView = ({ selectedTableId, onTableSelect, isTableSelectable = () => true }: FloorViewProps) => {
+  const { data: tables, isLoading: isLoadingTables } = useTables();
+  const { data: zones, isLoading: isLoadingZones } = useFloorZones();
+  const { sessionsByTable } = useOpenTableSessions();
+  const [zoneId, setZoneId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (isLoadingTables || isLoadingZones) {
+    return <div className="text-center py-4">Cargando plano...</div>;
+  }
+
+  const zone = zones?.find((candidate) => candidate.id === zoneId) || zones?.[0];
+  const zoneTables = tables?.filter((table) => zone && table.zone_id === zone.id) || [];
+  const unplacedTables = tables?.filter((table) => !table.zone_id) || [];
+
+  const renderTable = (table: Table, placed: boolean) => {
+    const session = sessionsByTable.get(table.id);
+    const isSelectable = !!onTableSelect && isTableSelectable(table, session);
+    const isSelected = selectedTableId === table.id;
+
+    return (
+      <button
+        key={table.id}
+        type="button"
+        style={placed && zone ? tableBoxStyle(table, zone) : undefined}
+        className={`border-2 ${tableShapeClass[table.shape]} ${statusStyles[table.status]} ${
+          isSelected ? 'ring-4 ring-blue-500' : ''
+        } ${isSelectable ? 'cursor-pointer hover:brightness-95' : 'cursor-default'} ${
+          onTableSelect && !isSelectable && table.status !== 'available' ? 'opacity-60' : ''
+        } ${placed ? '' : 'relative w-20 h-16'}`}
+        onClick={() => isSelectable && onTableSelect?.(table, session)}
+        disabled={!isSelectable}
+        title={`Mesa ${table.table_number} · ${statusLabels[table.status]}`}
+      >
+        {placed && seatPositions(table.shape, table.capacity).map((seat, index) => (
+          <span
+            key={index}
+            className="absolute w-2 h-2 rounded-full bg-gray-400 -translate-x-1/2 -translate-y-1/2"
+            style={{ left: `${seat.left}%`, top: `${seat.top}%` }}
+          />
+        ))}
+        <span
+          className="flex flex-col items-center justify-center h-full leading-tight text-[10px] sm:text-xs"
+          style={{ transform: table.rotation ? `rotate(${-table.rotation}deg)` : undefined }}
+        >
+          <span className="font-bold text-xs sm:text-sm">{table.table_number}</span>
+          {session ? (
+            <>
+              <span>{formatSeated(session.opened_at, now)}</span>
+              <span className="font-medium">{formatUSD(sessionTotal(session.orders))}</span>
+            </>
+          ) : (
+            <span>{table.capacity}p</span>
+          )}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {zones && zones.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {zones.map((candidate) => (
+            <Button
+              key={candidate.id}
+              size="sm"
+              variant={candidate.id === zone?.id ? 'default' : 'outline'}
+              onClick={() => setZoneId(candidate.id)}
+            >
+              {candidate.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {zone ? (
+        <FloorPlanCanvas zone={zone}>
+          {zoneTables.map((table) => renderTable(table, true))}
+        </FloorPlanCanvas>
+      ) : (
+        <p className="text-sm text-gray-500">Aún no hay zonas en el plano.</p>
+      )}
+
+      {unplacedTables.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">Sin zona</p>
+          <div className="flex flex-wrap gap-2">
+            {unplacedTables.map((table) => renderTable(table, false))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {(Object.keys(statusLabels) as TableStatus[]).map((status) => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={`w-3 h-3 rounded border-2 ${statusStyles[status]}`} />
+            {statusLabels[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FloorView;
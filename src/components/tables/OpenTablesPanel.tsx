@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Receipt } from 'lucide-react';
+import { formatUSD } from '@/lib/currency';
+import { useTables } from '@/hooks/useTables';
+import { sessionTotal, useOpenTableSessions } from '@/hooks/useTableSessions';
+import TableSessionDialog from './TableSessionDialog';
+import FloorView from './FloorView';
+
+// Live floor and open tabs for the waiter: review the bill, split it and collect each sub-check
+const OpenTablesPanel = () => {
+  const { data: tables } = useTables();
+  const { data: sessions, isLoading } = useOpenTableSessions();
+  const [viewingSessionId, setViewingSessionId] = useState<string | null>(null);
+
+  const tableNumbers = new Map((tables || []).map((table) => [table.id, table.table_number]));
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Cargando cuentas abiertas...</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <FloorView
+        onTableSelect={(_table, session) => session && setViewingSessionId(session.id)}
+        isTableSelectable={(_table, session) => !!session}
+      />
+
+      <h3 className="font-medium pt-2">Cuentas abiertas</h3>
+      {!sessions?.length && <p className="text-sm text-gray-500">No hay mesas con cuenta abierta.</p>}
+      {sessions?.map((session) => {
+        const paidChecks = session.table_session_checks.filter((check) => check.status === 'paid').length;
+
+        return (
+          <div key={session.id} className="flex items-center justify-between border rounded-lg p-2 text-sm">
+            <div>
+              <div className="font-medium">Mesa {tableNumbers.get(session.table_id)}</div>
+              <div className="text-gray-500">
+                {session.orders.length} {session.orders.length === 1 ? 'ronda' : 'rondas'} · {formatUSD(sessionTotal(session.orders))}
+                {session.table_session_checks.length > 0 &&
+                  ` · ${paidChecks}/${session.table_session_checks.length} subcuentas cobradas`}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setViewingSessionId(session.id)}>
+              <Receipt className="w-4 h-4 mr-1" />
+              Ver cuenta
+            </Button>
+          </div>
+        );
+      })}
+
+      {viewingSessionId && (
+        <TableSessionDialog
+          sessionId={viewingSessionId}
+          open={!!viewingSessionId}
+          onOpenChange={(open) => !open && setViewingSessionId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default OpenTablesPanel;
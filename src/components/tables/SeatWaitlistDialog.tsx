@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { Table } from '@/hooks/useTables';
+import { useSeatWaitlistEntry } from '@/hooks/useWaitlist';
+import type { WaitlistEntry } from '@/types/waitlist';
+import FloorView from './FloorView';
+
+interface SeatWaitlistDialogProps {
+  entry: WaitlistEntry | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pick a free table on the floor plan for the party at the head of the line (or any other)
+const SeatWaitlistDialog = ({ entry, onOpenChange }: SeatWaitlistDialogProps) => {
+  const seatEntry = useSeatWaitlistEntry();
+  const [table, setTable] = useState<Table | null>(null);
+
+  useEffect(() => {
+    setTable(null);
+  }, [entry?.id]);
+
+  if (!entry) return null;
+
+  const handleSeat = async () => {
+    if (!table) return;
+
+    try {
+      await seatEntry.mutateAsync({ entryId: entry.id, tableId: table.id });
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Sentar a {entry.party_name} ({entry.party_size} {entry.party_size === 1 ? 'persona' : 'personas'})
+          </DialogTitle>
+        </DialogHeader>
+
+        <FloorView
+          selectedTableId={table?.id}
+          onTableSelect={(selected) => setTable(selected)}
+          isTableSelectable={(candidate, session) =>
+            candidate.status === 'available' && !session && candidate.capacity >= entry.party_size
+          }
+        />
+
+        <p className="text-sm text-gray-500">
+          Solo se pueden elegir mesas libres de {entry.party_size} o más asientos, sin una reserva que empiece antes
+          de que el grupo termine.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSeat} disabled={!table || seatEntry.isPending}>
+            {seatEntry.isPending ? 'Sentando...' : table ? `Sentar en mesa ${table.table_number}` : 'Elige una mesa libre'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeatWaitlistDialog;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatUSD } from '@/lib/currency';
+import { useSettleTableCheck } from '@/hooks/useTableSessions';
+import { tableCheckPaymentMethodLabels, type TableCheck, type TableCheckPaymentMethod } from '@/types/table';
+
+interface SettleTableCheckDialogProps {
+  check: TableCheck;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SettleTableCheckDialog = ({ check, open, onOpenChange }: SettleTableCheckDialogProps) => {
+  const settleCheck = useSettleTableCheck();
+  const [paymentMethod, setPaymentMethod] = useState<TableCheckPaymentMethod>('cash');
+  const [amountReceived, setAmountReceived] = useState(check.total_amount.toFixed(2));
+  const [reference, setReference] = useState('');
+
+  const isCash = paymentMethod === 'cash';
+  const received = parseFloat(amountReceived);
+  const change = isCash && received > check.total_amount ? received - check.total_amount : 0;
+  const isValid = !isCash || received >= check.total_amount - 0.01;
+
+  const handleSettle = async () => {
+    try {
+      await settleCheck.mutateAsync({
+        checkId: check.id,
+        paymentMethod,
+        amountReceived: isCash ? received : undefined,
+        reference: isCash ? undefined : reference
+      });
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Cobrar {check.label}</DialogTitle>
+          <DialogDescription>Total a cobrar: {formatUSD(check.total_amount)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Método de pago</Label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as TableCheckPaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(tableCheckPaymentMethodLabels) as TableCheckPaymentMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>{tableCheckPaymentMethodLabels[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isCash ? (
+            <div className="space-y-2">
+              <Label htmlFor="check_received">Monto recibido ($)</Label>
+              <Input
+                id="check_received"
+                type="number"
+                step="0.01"
+                min={check.total_amount.toFixed(2)}
+                value={amountReceived}
+                onChange={(e) => setAmountReceived(e.target.value)}
+              />
+              {isValid ? (
+                <p className="text-sm text-gray-600">Vuelto: {formatUSD(change)}</p>
+              ) : (
+                <p className="text-sm text-red-500">El monto recibido no cubre la subcuenta</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="check_reference">Referencia (opcional)</Label>
+              <Input
+                id="check_reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+            <Button onClick={handleSettle} disabled={!isValid || settleCheck.isPending}>
+              Cobrar {formatUSD(check.total_amount)}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettleTableCheckDialog;
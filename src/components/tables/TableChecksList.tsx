@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { formatUSD } from '@/lib/currency';
+import { tableItemLabel } from '@/hooks/useTableSessions';
+import { tableCheckPaymentMethodLabels, type TableBillItem, type TableCheck } from '@/types/table';
+import SettleTableCheckDialog from './SettleTableCheckDialog';
+
+interface TableChecksListProps {
+  checks: TableCheck[];
+  itemsById: Map<string, TableBillItem>;
+  canSettle: boolean;
+}
+
+const TableChecksList = ({ checks, itemsById, canSettle }: TableChecksListProps) => {
+  const [settlingCheck, setSettlingCheck] = useState<TableCheck | null>(null);
+
+  return (
+    <div className="space-y-2">
+      {checks.map((check) => (
+        <div key={check.id} className="border rounded-lg p-3 space-y-1 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{check.label}</span>
+            {check.status === 'paid' ? (
+              <Badge className="bg-green-100 text-green-800">
+                Pagada · {check.payment_method && tableCheckPaymentMethodLabels[check.payment_method]}
+              </Badge>
+            ) : (
+              <Badge className="bg-yellow-100 text-yellow-800">Pendiente</Badge>
+            )}
+          </div>
+
+          {check.table_session_check_items.map((checkItem) => {
+            const item = itemsById.get(checkItem.order_item_id);
+            return (
+              <div key={checkItem.order_item_id} className="flex justify-between text-gray-600">
+                <span>{item ? tableItemLabel(item) : 'Producto'}</span>
+                <span>{formatUSD(checkItem.amount)}</span>
+              </div>
+            );
+          })}
+
+          <div className="flex justify-between text-gray-600">
+            <span>Subtotal</span>
+            <span>{formatUSD(check.subtotal)}</span>
+          </div>
+          {check.service_charge > 0 && (
+            <div className="flex justify-between text-gray-600">
+              <span>Servicio ({Math.round(check.service_charge_rate * 1000) / 10}%)</span>
+              <span>{formatUSD(check.service_charge)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-semibold">
+            <span>Total</span>
+            <span>{formatUSD(check.total_amount)}</span>
+          </div>
+
+          {check.status === 'paid' && !!check.change_given && (
+            <div className="text-xs text-gray-500">
+              Recibido {formatUSD(check.amount_received || 0)} · vuelto {formatUSD(check.change_given)}
+            </div>
+          )}
+
+          {check.status === 'open' && canSettle && (
+            <div className="flex justify-end pt-1">
+              <Button size="sm" onClick={() => setSettlingCheck(check)}>Cobrar</Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {settlingCheck && (
+        <SettleTableCheckDialog
+          check={settlingCheck}
+          open={!!settlingCheck}
+          onOpenChange={(open) => !open && setSettlingCheck(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TableChecksList;
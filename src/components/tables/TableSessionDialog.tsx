@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Receipt, Lock, Split } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatUSD, formatVES } from '@/lib/currency';
+import { printTableBill } from '@/lib/printing';
+import {
+  sessionTotal,
+  useClearTableSplit,
+  useCloseTableSession,
+  useTableChecks,
+  useTableSessionBill
+} from '@/hooks/useTableSessions';
+import { statusColors, statusLabels } from '@/components/admin/orders/types';
+import TableSplitEditor from './TableSplitEditor';
+import TableChecksList from './TableChecksList';
+
+interface TableSessionDialogProps {
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TableSessionDialog = ({ sessionId, open, onOpenChange }: TableSessionDialogProps) => {
+  const { data: bill, isLoading } = useTableSessionBill(open ? sessionId : undefined);
+  const { data: checks = [] } = useTableChecks(open ? sessionId : undefined);
+  const closeSession = useCloseTableSession();
+  const clearSplit = useClearTableSplit();
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  const billedRounds = bill?.orders.filter((round) => round.status !== 'cancelled') || [];
+  const total = sessionTotal(billedRounds);
+  const rate = billedRounds[billedRounds.length - 1]?.exchange_rate;
+  const hasOpenRounds = billedRounds.some((round) => ['pending', 'confirmed', 'preparing'].includes(round.status));
+
+  const billedItems = billedRounds.flatMap((round) => round.order_items);
+  const itemsById = new Map(billedItems.map((item) => [item.id, item]));
+  const paidChecks = checks.filter((check) => check.status === 'paid');
+  const pendingChecks = checks.filter((check) => check.status === 'open');
+  const paidItemIds = new Set(paidChecks.flatMap((check) => check.table_session_check_items.map((item) => item.order_item_id)));
+  const paidSubtotal = paidChecks.reduce((sum, check) => sum + check.subtotal, 0);
+  const isSplit = checks.length > 0;
+  // Rounds added or cancelled after splitting leave part of the tab outside the sub-checks
+  const isSplitOutdated = isSplit && Math.abs(total - checks.reduce((sum, check) => sum + check.subtotal, 0)) >= 0.01;
+  const canClose = !hasOpenRounds && (!isSplit || (pendingChecks.length === 0 && !isSplitOutdated));
+
+  const handlePrint = async () => {
+    if (!bill) return;
+
+    setIsPrinting(true);
+    try {
+      const method = await printTableBill({
+        id: bill.id,
+        table_number: bill.restaurant_tables?.table_number || '',
+        opened_at: bill.opened_at,
+        closed_at: bill.closed_at,
+        rounds: billedRounds
+      });
+      if (method === 'bridge') {
+        toast.success('Cuenta enviada a la impresora');
+      }
+    } catch (error) {
+      toast.error('Error al imprimir: ' + (error as Error).message);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!confirm('¿Cerrar la cuenta de esta mesa? Las rondas listas se marcarán como entregadas.')) return;
+
+    try {
+      await closeSession.mutateAsync(sessionId);
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  const handleClearSplit = () => {
+    if (!confirm('¿Quitar la división? La mesa volverá a tener una sola cuenta.')) return;
+    clearSplit.mutate(sessionId);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cuenta Mesa {bill?.restaurant_tables?.table_number}</DialogTitle>
+          <DialogDescription>
+            {bill && `Abierta desde ${new Date(bill.opened_at).toLocaleTimeString('es-VE', { hour: '2-digit', minute: '2-digit' })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !bill ? (
+          <div className="text-center py-8">Cargando cuenta...</div>
+        ) : (
+          <div className="space-y-4">
+            <Tabs defaultValue="bill">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="bill">Cuenta</TabsTrigger>
+                <TabsTrigger value="split">
+                  Dividir{isSplit && ` (${paidChecks.length}/${checks.length})`}
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="bill" className="space-y-4">
+                {bill.orders.map((round, index) => (
+                  <div key={round.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        Ronda {index + 1}
+                        <span className="text-sm text-gray-500 ml-2">
+                          {new Date(round.created_at).toLocaleTimeString('es-VE', { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      </span>
+                      <Badge className={statusColors[round.status]}>{statusLabels[round.status]}</Badge>
+                    </div>
+                    {round.order_items.map((item) => (
+                      <div key={item.id} className="flex justify-between text-sm">
+                        <span>{item.quantity}x {item.menu_items?.name || item.composite_dishes?.name}</span>
+                        <span className={round.status === 'cancelled' ? 'line-through text-gray-400' : ''}>
+                          {formatUSD(item.total_price)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+
+                <div className="border-t pt-3 space-y-1">
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Total</span>
+                    <span>{formatUSD(total)}</span>
+                  </div>
+                  {rate && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Total Bs.</span>
+                      <span>{formatVES(total, rate)}</span>
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="split" className="space-y-4">
+                {bill.status === 'open' && (isSplitting || !isSplit) ? (
+                  total - paidSubtotal >= 0.01 ? (
+                    <TableSplitEditor
+                      sessionId={sessionId}
+                      items={billedItems.filter((item) => !paidItemIds.has(item.id))}
+                      remaining={total - paidSubtotal}
+                      evenOnly={paidChecks.some((check) => check.split_mode === 'even')}
+                      onDone={() => setIsSplitting(false)}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-600 text-center py-4">No hay consumo por dividir.</p>
+                  )
+                ) : (
+                  <>
+                    {isSplitOutdated && (
+                      <p className="text-sm text-orange-600">
+                        La cuenta cambió después de dividirla. Divide de nuevo el saldo restante.
+                      </p>
+                    )}
+                    <TableChecksList checks={checks} itemsById={itemsById} canSettle={bill.status === 'open'} />
+                    {bill.status === 'open' && (
+                      <div className="flex justify-end gap-2">
+                        {paidChecks.length === 0 && (
+                          <Button variant="outline" size="sm" onClick={handleClearSplit} disabled={clearSplit.isPending}>
+                            Quitar división
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => setIsSplitting(true)}>
+                          <Split className="w-4 h-4 mr-1" />
+                          {paidChecks.length > 0 ? 'Dividir saldo pendiente' : 'Dividir de nuevo'}
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </TabsContent>
+            </Tabs>
+
+            {hasOpenRounds && (
+              <p className="text-sm text-orange-600">
+                Hay rondas en cocina. La cuenta se puede cerrar cuando estén listas o canceladas.
+              </p>
+            )}
+            {isSplit && pendingChecks.length > 0 && (
+              <p className="text-sm text-orange-600">
+                Faltan {pendingChecks.length} {pendingChecks.length === 1 ? 'subcuenta' : 'subcuentas'} por cobrar.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handlePrint} disabled={isPrinting || billedRounds.length === 0}>
+                <Receipt className="w-4 h-4 mr-2" />
+                Imprimir cuenta
+              </Button>
+              {bill.status === 'open' && (
+                <Button onClick={handleClose} disabled={closeSession.isPending || !canClose}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Cerrar cuenta
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TableSessionDialog;
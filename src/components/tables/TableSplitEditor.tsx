@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import { formatUSD } from '@/lib/currency';
+import { tableItemLabel, useSplitTableSession, type TableSplitRequest } from '@/hooks/useTableSessions';
+import type { TableBillItem, TableSplitMode } from '@/types/table';
+
+interface TableSplitEditorProps {
+  sessionId: string;
+  // Items not covered by a paid sub-check yet
+  items: TableBillItem[];
+  // What is left to pay, before service charge
+  remaining: number;
+  // Once equal shares have been paid, the rest can only be shared equally too
+  evenOnly?: boolean;
+  onDone: () => void;
+}
+
+const DEFAULT_SERVICE_CHARGE_PERCENT = 10;
+
+const TableSplitEditor = ({ sessionId, items, remaining, evenOnly = false, onDone }: TableSplitEditorProps) => {
+  const splitSession = useSplitTableSession();
+  const [mode, setMode] = useState<TableSplitMode>('even');
+  const [servicePercent, setServicePercent] = useState(String(DEFAULT_SERVICE_CHARGE_PERCENT));
+  const [guests, setGuests] = useState('2');
+  const [seatCount, setSeatCount] = useState(() =>
+    Math.max(2, ...items.map((item) => item.seat_number || 0))
+  );
+  const [seats, setSeats] = useState<Record<string, number>>(() =>
+    Object.fromEntries(items.map((item) => [item.id, item.seat_number || 1]))
+  );
+  const [checkCount, setCheckCount] = useState(2);
+  // Item id -> sub-check index; unassigned items are missing
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+
+  const serviceRate = parseFloat(servicePercent) / 100;
+  const isValidRate = serviceRate >= 0 && serviceRate <= 1;
+  const guestCount = parseInt(guests, 10);
+
+  const withService = (amount: number) => amount + (isValidRate ? Math.round(amount * serviceRate * 100) / 100 : 0);
+
+  const seatTotals = useMemo(() => {
+    const totals = new Map<number, number>();
+    for (const item of items) {
+      const seat = Math.min(seats[item.id] || 1, seatCount);
+      totals.set(seat, (totals.get(seat) || 0) + item.total_price);
+    }
+    return [...totals.entries()].sort(([a], [b]) => a - b);
+  }, [items, seats, seatCount]);
+
+  const seatOf = (item: TableBillItem) => Math.min(seats[item.id] || 1, seatCount);
+
+  const unassigned = items.filter((item) => assignments[item.id] === undefined);
+
+  const moveItem = (itemId: string, checkIndex: number | null) => {
+    setAssignments((current) => {
+      const next = { ...current };
+      if (checkIndex === null) {
+        delete next[itemId];
+      } else {
+        next[itemId] = checkIndex;
+      }
+      return next;
+    });
+    setSelectedItemId(null);
+  };
+
+  // Drag on desktop; on touch screens tap an item, then tap the sub-check it goes to
+  const dropTarget = (checkIndex: number | null) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      moveItem(e.dataTransfer.getData('text/plain'), checkIndex);
+    },
+    onClick: () => selectedItemId && moveItem(selectedItemId, checkIndex)
+  });
+
+  const renderItem = (item: TableBillItem) => (
+    <div
+      key={item.id}
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', item.id)}
+      onClick={(e) => {
+        e.stopPropagation();
+        setSelectedItemId(selectedItemId === item.id ? null : item.id);
+      }}
+      className={`flex justify-between gap-2 text-sm p-2 rounded border bg-white cursor-grab ${
+        selectedItemId === item.id ? 'border-blue-500 ring-1 ring-blue-500' : ''
+      }`}
+    >
+      <span>{tableItemLabel(item)}</span>
+      <span>{formatUSD(item.total_price)}</span>
+    </div>
+  );
+
+  const buildRequest = (): TableSplitRequest | null => {
+    const base = { sessionId, mode, serviceChargeRate: serviceRate };
+
+    if (mode === 'even') {
+      return guestCount >= 2 ? { ...base, guests: guestCount } : null;
+    }
+
+    if (mode === 'seat') {
+      return {
+        ...base,
+        checks: seatTotals.map(([seat]) => ({
+          label: `Asiento ${seat}`,
+          seat_number: seat,
+          order_item_ids: items.filter((item) => seatOf(item) === seat).map((item) => item.id)
+        }))
+      };
+    }
+
+    if (unassigned.length > 0) return null;
+
+    const checks = Array.from({ length: checkCount }, (_, index) => ({
+      label: `Subcuenta ${index + 1}`,
+      order_item_ids: items.filter((item) => assignments[item.id] === index).map((item) => item.id)
+    })).filter((check) => check.order_item_ids.length > 0);
+
+    return checks.length > 0 ? { ...base, checks } : null;
+  };
+
+  const request = isValidRate ? buildRequest() : null;
+
+  const handleSplit = async () => {
+    if (!request) return;
+
+    try {
+      await splitSession.mutateAsync(request);
+      onDone();
+    } catch {
+      // Reported by the mutation's onError
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={mode} onValueChange={(value) => setMode(value as TableSplitMode)}>
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="even">Partes iguales</TabsTrigger>
+          <TabsTrigger value="seat" disabled={evenOnly || items.length === 0}>Por asiento</TabsTrigger>
+          <TabsTrigger value="items" disabled={evenOnly || items.length === 0}>Por producto</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="even" className="space-y-2">
+          <Label htmlFor="split_guests">Comensales</Label>
+          <Input
+            id="split_guests"
+            type="number"
+            min="2"
+            max="50"
+            value={guests}
+            onChange={(e) => setGuests(e.target.value)}
+          />
+          {guestCount >= 2 && (
+            <p className="text-sm text-gray-600">
+              {guestCount} partes de {formatUSD(withService(remaining / guestCount))} aprox.
+            </p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="seat" className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label>Asientos</Label>
+            <Input
+              type="number"
+              min="1"
+              max="30"
+              className="w-20"
+              value={seatCount}
+              onChange={(e) => setSeatCount(Math.min(30, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            />
+          </div>
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex-1">{tableItemLabel(item)}</span>
+              <span>{formatUSD(item.total_price)}</span>
+              <Select
+                value={String(seatOf(item))}
+                onValueChange={(value) => setSeats({ ...seats, [item.id]: parseInt(value, 10) })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: seatCount }, (_, index) => (
+                    <SelectItem key={index + 1} value={String(index + 1)}>Asiento {index + 1}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div className="text-sm text-gray-600 space-y-1 border-t pt-2">
+            {seatTotals.map(([seat, total]) => (
+              <div key={seat} className="flex justify-between">
+                <span>Asiento {seat}</span>
+                <span>{formatUSD(withService(total))}</span>
+              </div>
+            ))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="items" className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Arrastra cada producto a una subcuenta, o tócalo y luego toca la subcuenta.
+          </p>
+          <div className="p-2 rounded-lg border border-dashed bg-gray-50 space-y-1 min-h-12" {...dropTarget(null)}>
+            <div className="text-xs font-medium text-gray-500">Sin asignar ({unassigned.length})</div>
+            {unassigned.map(renderItem)}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {Array.from({ length: checkCount }, (_, index) => {
+              const checkItems = items.filter((item) => assignments[item.id] === index);
+              const subtotal = checkItems.reduce((sum, item) => sum + item.total_price, 0);
+
+              return (
+                <div key={index} className="p-2 rounded-lg border space-y-1 min-h-20" {...dropTarget(index)}>
+                  <div className="flex justify-between text-xs font-medium text-gray-500">
+                    <span>Subcuenta {index + 1}</span>
+                    <span>{formatUSD(withService(subtotal))}</span>
+                  </div>
+                  {checkItems.map(renderItem)}
+                </div>
+              );
+            })}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setCheckCount(checkCount + 1)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Agregar subcuenta
+          </Button>
+        </TabsContent>
+      </Tabs>
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor="split_service">Cargo por servicio (%)</Label>
+        <Input
+          id="split_service"
+          type="number"
+          min="0"
+          max="100"
+          step="0.5"
+          className="w-24"
+          value={servicePercent}
+          onChange={(e) => setServicePercent(e.target.value)}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Los montos son aproximados; los descuentos y céntimos se reparten al dividir.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone}>Cancelar</Button>
+        <Button onClick={handleSplit} disabled={!request || splitSession.isPending}>
+          Dividir cuenta
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TableSplitEditor;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Phone, Plus, UserX } from 'lucide-react';
+import { useRemoveWaitlistEntry, useWaitlist } from '@/hooks/useWaitlist';
+import type { WaitlistEntry } from '@/types/waitlist';
+import AddWaitlistEntryDialog from './AddWaitlistEntryDialog';
+import SeatWaitlistDialog from './SeatWaitlistDialog';
+
+// Walk-ins waiting for a table, in order, with how long each has waited against what they were told
+const WaitlistPanel = () => {
+  const { data: entries, isLoading } = useWaitlist();
+  const removeEntry = useRemoveWaitlistEntry();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [seatingEntry, setSeatingEntry] = useState<WaitlistEntry | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Cargando lista de espera...</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">
+          Lista de espera
+          {entries && entries.length > 0 && (
+            <span className="ml-2 text-sm text-gray-500">
+              {entries.length} {entries.length === 1 ? 'grupo' : 'grupos'} ·{' '}
+              {entries.reduce((sum, entry) => sum + entry.party_size, 0)} personas
+            </span>
+          )}
+        </h3>
+        <Button size="sm" onClick={() => setIsAddOpen(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Anotar
+        </Button>
+      </div>
+
+      {!entries?.length && <p className="text-sm text-gray-500">Nadie está esperando.</p>}
+      {entries?.map((entry, index) => {
+        const waited = Math.max(0, Math.floor((now - new Date(entry.created_at).getTime()) / 60000));
+        const isOverdue = waited > entry.quoted_wait_minutes;
+
+        return (
+          <div
+            key={entry.id}
+            className={`flex items-center justify-between gap-2 border rounded-lg p-2 text-sm ${
+              isOverdue ? 'border-orange-400 bg-orange-50' : ''
+            }`}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="flex items-center justify-center w-7 h-7 shrink-0 rounded-full bg-gray-100 font-bold">
+                {index + 1}
+              </span>
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {entry.party_name} · {entry.party_size}p
+                </div>
+                <div className="text-gray-500">
+                  Esperando {waited} min · dijimos {entry.quoted_wait_minutes} min
+                  {isOverdue && (
+                    <Badge variant="outline" className="ml-2 border-orange-400 text-orange-700">
+                      Demorado
+                    </Badge>
+                  )}
+                </div>
+                {entry.notes && <div className="text-xs text-gray-500 truncate">{entry.notes}</div>}
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {entry.phone && (
+                <Button variant="ghost" size="icon" asChild>
+                  <a href={`tel:${entry.phone}`} title={entry.phone}>
+                    <Phone className="w-4 h-4" />
+                  </a>
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeEntry.mutate(entry.id)}
+                disabled={removeEntry.isPending}
+                title="Se fue"
+              >
+                <UserX className="w-4 h-4" />
+              </Button>
+              <Button size="sm" onClick={() => setSeatingEntry(entry)}>
+                Sentar
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      <AddWaitlistEntryDialog open={isAddOpen} onOpenChange={setIsAddOpen} />
+      <SeatWaitlistDialog entry={seatingEntry} onOpenChange={(open) => !open && setSeatingEntry(null)} />
+    </div>
+  );
+};
+
+export default WaitlistPanel;
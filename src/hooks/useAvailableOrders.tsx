@@ -2,6 +2,7 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 
 export const useAvailableOrders = (driverId?: string) => {
   const queryClient = useQueryClient();
@@ -40,7 +41,7 @@ export const useAvailableOrders = (driverId?: string) => {
           )
         `)
         .eq('status', 'pending')
-        .is('delivery_address_id', null) // Only delivery orders
+        .eq('channel', 'delivery')
         .not('order_assignments', 'cs', '{}') // No existing assignments
         .order('created_at', { ascending: true });
       
@@ -90,9 +91,9 @@ export const useAvailableOrders = (driverId?: string) => {
         (payload) => {
           console.log('New order detected:', payload.new);
           
-          // Only refetch if it's a delivery order (no table info in notes)
-          const order = payload.new as any;
-          if (order.status === 'pending' && !order.notes?.includes('Mesa:')) {
+          // Only refetch if it's a delivery order
+          const order = payload.new as Tables<'orders'>;
+          if (order.status === 'pending' && order.channel === 'delivery') {
             queryClient.invalidateQueries({ queryKey: ['available-orders'] });
           }
         }
@@ -0,0 +1,147 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { parseBankStatement } from '@/lib/bankStatements';
+import type { PaymentCurrency } from '@/lib/currency';
+
+export interface BankStatementMovement {
+  id: string;
+  movement_date: string;
+  reference: string;
+  amount: number;
+  description: string | null;
+  matched_verification_id: string | null;
+  manual_payment_verifications: {
+    id: string;
+    order_id: string;
+    reference_number: string;
+    status: 'pending' | 'approved' | 'rejected';
+    orders: {
+      profiles: {
+        full_name: string | null;
+      } | null;
+    } | null;
+  } | null;
+}
+
+// Result of approve_bank_statement_matches; each match is approved on its own, so one that
+// can't be approved is reported here instead of undoing the rest
+export interface BankStatementApproval {
+  approved: number;
+  failed: {
+    verification_id: string;
+    reference_number: string;
+    error: string;
+  }[];
+}
+
+// Parses a bank export in the browser and hands its credits to import_bank_statement,
+// which stores them and matches them against pending manual payments for that account
+export const useBankStatementImport = () => {
+  const queryClient = useQueryClient();
+
+  const importStatement = useMutation({
+    mutationFn: async ({
+      paymentMethodId,
+      currency,
+      file
+    }: {
+      paymentMethodId: string;
+      currency: PaymentCurrency;
+      file: File;
+    }) => {
+      const statement = await parseBankStatement(file);
+      const credits = statement.movements.filter(movement => movement.amount > 0);
+
+      if (credits.length === 0) {
+        throw new Error('El archivo no contiene créditos para conciliar');
+      }
+
+      const { data, error } = await supabase.rpc('import_bank_statement', {
+        _payment_method_id: paymentMethodId,
+        _file_name: file.name,
+        _file_format: statement.format,
+        _currency: currency,
+        _movements: credits.map(movement => ({ ...movement }))
+      });
+
+      if (error) throw error;
+      return { importId: data as string, credits: credits.length, skipped: statement.skipped };
+    },
+    onSuccess: ({ credits, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ['bank-statement-movements'] });
+      toast.success(
+        `Se leyeron ${credits} créditos` + (skipped > 0 ? `; ${skipped} líneas no se pudieron leer` : '')
+      );
+    },
+    onError: (error) => {
+      toast.error('Error al importar el estado de cuenta: ' + error.message);
+    }
+  });
+
+  const approveMatches = useMutation({
+    mutationFn: async (importId: string) => {
+      const { data, error } = await supabase.rpc('approve_bank_statement_matches', {
+        _import_id: importId
+      });
+
+      if (error) throw error;
+      return data as unknown as BankStatementApproval;
+    },
+    onSuccess: ({ approved, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['bank-statement-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-verifications'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      toast.success(`${approved} pagos aprobados`);
+      failed.forEach((payment) => {
+        toast.warning(`No se aprobó la referencia ${payment.reference_number}: ${payment.error}`);
+      });
+    },
+    onError: (error) => {
+      toast.error('Error al aprobar los pagos conciliados: ' + error.message);
+    }
+  });
+
+  return { importStatement, approveMatches };
+};
+
+export const useBankStatementMovements = (importId: string | null) => {
+  return useQuery({
+    queryKey: ['bank-statement-movements', importId],
+    queryFn: async () => {
+      if (!importId) return [];
+
+      const { data, error } = await supabase
+        .from('bank_statement_movements')
+        .select(`
+          id,
+          movement_date,
+          reference,
+          amount,
+          description,
+          matched_verification_id,
+          manual_payment_verifications (
+            id,
+            order_id,
+            reference_number,
+            status,
+            orders (
+              profiles (
+                full_name
+              )
+            )
+          )
+        `)
+        .eq('import_id', importId)
+        .order('movement_date');
+
+      if (error) {
+        console.error('Error fetching bank statement movements:', error);
+        throw error;
+      }
+
+      return data as BankStatementMovement[];
+    },
+    enabled: !!importId
+  });
+};
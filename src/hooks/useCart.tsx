@@ -1,19 +1,49 @@
-
 import { createContext, useContext, useState, useEffect } from 'react';
 import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import type { CompositeDish } from '@/hooks/useCompositeDishes';
 
 type MenuItem = Tables<'menu_items'>;
 
-interface CartItem extends MenuItem {
+export interface DishCustomization {
+  optionalElementId: string;
+  elementName: string;
+  isIncluded: boolean;
+  isIncludedByDefault: boolean;
+  replacementItemId: string | null;
+  replacementItemName: string | null;
+  priceAdjustment: number;
+}
+
+interface CartLineBase {
+  key: string;
+  name: string;
+  unitPrice: number;
   quantity: number;
+  imageUrl: string | null;
+}
+
+export interface MenuItemCartLine extends CartLineBase {
+  type: 'menu_item';
+  menuItemId: string;
+}
+
+export interface CompositeDishCartLine extends CartLineBase {
+  type: 'composite_dish';
+  dishId: string;
+  basePrice: number;
+  includedItems: string[];
+  customizations: DishCustomization[];
 }
 
+export type CartItem = MenuItemCartLine | CompositeDishCartLine;
+
 interface CartContextType {
   items: CartItem[];
   addItem: (item: MenuItem) => void;
-  removeItem: (itemId: string) => void;
-  updateQuantity: (itemId: string, quantity: number) => void;
+  addCompositeDish: (dish: CompositeDish, customizations: DishCustomization[]) => void;
+  removeItem: (key: string) => void;
+  updateQuantity: (key: string, quantity: number) => void;
   clearCart: () => void;
   totalItems: number;
   totalPrice: number;
@@ -21,6 +51,31 @@ interface CartContextType {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Identical customizations of the same dish produce the same key, so they merge into one line
+const getCompositeDishKey = (dishId: string, customizations: DishCustomization[]) => {
+  const signature = [...customizations]
+    .sort((a, b) => a.optionalElementId.localeCompare(b.optionalElementId))
+    .map(custom => `${custom.optionalElementId}:${custom.isIncluded ? 1 : 0}:${custom.replacementItemId ?? ''}`)
+    .join('|');
+  return `dish:${dishId}:${signature}`;
+};
+
+const getDishUnitPrice = (basePrice: number, customizations: DishCustomization[]) => {
+  return customizations.reduce(
+    (total, custom) => total + (custom.isIncluded ? custom.priceAdjustment : 0),
+    basePrice
+  );
+};
+
+// Drop entries saved by older versions of the cart that do not match the line model
+const loadStoredCart = (savedCart: string): CartItem[] => {
+  const parsed = JSON.parse(savedCart);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter(
+    (item: CartItem) => item && (item.type === 'menu_item' || item.type === 'composite_dish')
+  );
+};
+
 export const CartProvider = ({ children }: { children: React.ReactNode }) => {
   const [items, setItems] = useState<CartItem[]>([]);
   const { user } = useAuth();
@@ -39,7 +94,7 @@ export const CartProvider = ({ children }: { children: React.ReactNode }) => {
     const savedCart = localStorage.getItem(cartKey);
     if (savedCart) {
       try {
-        setItems(JSON.parse(savedCart));
+        setItems(loadStoredCart(savedCart));
       } catch (error) {
         console.error('Error loading cart:', error);
         setItems([]);
@@ -63,82 +118,81 @@ export const CartProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, [user]);
 
-  const addItem = (item: MenuItem) => {
-    console.log('useCart - Adding item to cart:', {
-      itemId: item.id,
-      itemName: item.name,
-      itemPrice: item.price,
-      currentCartItems: items.length
-    });
-    
+  const addLine = (line: CartItem) => {
     setItems(prev => {
-      const existingItem = prev.find(cartItem => cartItem.id === item.id);
+      const existingItem = prev.find(cartItem => cartItem.key === line.key);
       if (existingItem) {
-        console.log('useCart - Item already exists, updating quantity');
         return prev.map(cartItem =>
-          cartItem.id === item.id
-            ? { ...cartItem, quantity: cartItem.quantity + 1 }
+          cartItem.key === line.key
+            ? { ...cartItem, quantity: cartItem.quantity + line.quantity }
             : cartItem
         );
       }
-      
-      console.log('useCart - Adding new item to cart');
-      const newItems = [...prev, { ...item, quantity: 1 }];
-      console.log('useCart - Updated cart items:', newItems);
-      return newItems;
+
+      return [...prev, line];
     });
   };
 
-  const removeItem = (itemId: string) => {
-    console.log('useCart - Removing item:', itemId);
-    setItems(prev => prev.filter(item => item.id !== itemId));
+  const addItem = (item: MenuItem) => {
+    addLine({
+      type: 'menu_item',
+      key: `menu:${item.id}`,
+      menuItemId: item.id,
+      name: item.name,
+      unitPrice: item.price,
+      quantity: 1,
+      imageUrl: item.image_url
+    });
   };
 
-  const updateQuantity = (itemId: string, quantity: number) => {
-    console.log('useCart - Updating quantity:', { itemId, quantity });
+  const addCompositeDish = (dish: CompositeDish, customizations: DishCustomization[]) => {
+    addLine({
+      type: 'composite_dish',
+      key: getCompositeDishKey(dish.id, customizations),
+      dishId: dish.id,
+      name: dish.name,
+      basePrice: dish.base_price,
+      unitPrice: getDishUnitPrice(dish.base_price, customizations),
+      quantity: 1,
+      imageUrl: dish.image_url,
+      includedItems: dish.dish_base_products?.map(baseProduct =>
+        baseProduct.quantity > 1
+          ? `${baseProduct.quantity}x ${baseProduct.menu_items.name}`
+          : baseProduct.menu_items.name
+      ) || [],
+      customizations
+    });
+  };
+
+  const removeItem = (key: string) => {
+    setItems(prev => prev.filter(item => item.key !== key));
+  };
+
+  const updateQuantity = (key: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(itemId);
+      removeItem(key);
       return;
     }
-    
+
     setItems(prev =>
       prev.map(item =>
-        item.id === itemId ? { ...item, quantity } : item
+        item.key === key ? { ...item, quantity } : item
       )
     );
   };
 
   const clearCart = () => {
-    console.log('useCart - Clearing cart');
     setItems([]);
   };
 
   const totalItems = items.reduce((total, item) => total + item.quantity, 0);
-  const totalPrice = items.reduce((total, item) => {
-    console.log('useCart - Calculating price for item:', {
-      itemName: item.name,
-      itemPrice: item.price,
-      quantity: item.quantity,
-      itemTotal: item.price * item.quantity
-    });
-    return total + (item.price * item.quantity);
-  }, 0);
-
-  console.log('useCart - Current cart state:', {
-    totalItems,
-    totalPrice,
-    items: items.map(item => ({
-      id: item.id,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity
-    }))
-  });
+  const totalPrice = items.reduce((total, item) => total + (item.unitPrice * item.quantity), 0);
 
   return (
     <CartContext.Provider value={{
       items,
       addItem,
+      addCompositeDish,
       removeItem,
       updateQuantity,
       clearCart,
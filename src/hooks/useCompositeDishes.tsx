@@ -52,6 +52,7 @@ export const useCompositeDishes = () => {
       description: string;
       base_price: number;
       category_id: string;
+      station_id: string | null;
       preparation_time: string;
       image_url?: string;
       base_products: { menu_item_id: string; quantity: number }[];
@@ -74,6 +75,7 @@ export const useCompositeDishes = () => {
           description: dishData.description,
           base_price: dishData.base_price,
           category_id: dishData.category_id,
+          station_id: dishData.station_id,
           preparation_time: dishData.preparation_time,
           image_url: dishData.image_url
         }])
@@ -147,6 +149,7 @@ export const useCompositeDishes = () => {
       description: string;
       base_price: number;
       category_id: string;
+      station_id: string | null;
       preparation_time: string;
       image_url?: string;
       base_products: { menu_item_id: string; quantity: number }[];
@@ -171,6 +174,7 @@ export const useCompositeDishes = () => {
           description: dishData.description,
           base_price: dishData.base_price,
           category_id: dishData.category_id,
+          station_id: dishData.station_id,
           preparation_time: dishData.preparation_time,
           image_url: dishData.image_url,
           updated_at: new Date().toISOString()
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+// Unread notifications for the signed-in customer. New ones pop up as toasts and
+// trigger `onNotification`, so the caller can refresh whatever the notification is about.
+export const useCustomerNotifications = (userId?: string, onNotification?: () => void) => {
+  const queryClient = useQueryClient();
+  const onNotificationRef = useRef(onNotification);
+  onNotificationRef.current = onNotification;
+
+  const { data: notifications, isLoading } = useQuery({
+    queryKey: ['customer-notifications', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from('customer_notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_read', false)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscription = supabase
+      .channel(`customer-notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'customer_notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          toast.info(payload.new.title, { description: payload.new.message });
+          queryClient.invalidateQueries({ queryKey: ['customer-notifications', userId] });
+          onNotificationRef.current?.();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [userId, queryClient]);
+
+  const markAsRead = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const { error } = await supabase
+        .from('customer_notifications')
+        .update({ is_read: true })
+        .eq('id', notificationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-notifications', userId] });
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar la notificación: ' + error.message);
+    }
+  });
+
+  return { notifications, isLoading, markAsRead };
+};
@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+
+export type DeliveryAddress = Tables<'delivery_addresses'>;
+
+export interface NewDeliveryAddress {
+  street_address: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+  delivery_notes?: string;
+}
+
+export const useDeliveryAddresses = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['delivery-addresses', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('delivery_addresses')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching delivery addresses:', error);
+        throw error;
+      }
+
+      return data as DeliveryAddress[];
+    },
+    enabled: !!user
+  });
+};
+
+// Saves a pin dropped at checkout; the first address a customer saves becomes their default
+export const useCreateDeliveryAddress = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (address: NewDeliveryAddress) => {
+      if (!user) {
+        throw new Error('Usuario no autenticado');
+      }
+
+      const { count } = await supabase
+        .from('delivery_addresses')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id);
+
+      const { data, error } = await supabase
+        .from('delivery_addresses')
+        .insert([{
+          ...address,
+          delivery_notes: address.delivery_notes || null,
+          user_id: user.id,
+          is_default: !count
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as DeliveryAddress;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['delivery-addresses'] });
+    }
+  });
+};
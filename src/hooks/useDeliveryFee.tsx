@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { CartItem } from '@/hooks/useCart';
+import { buildOrderLines } from '@/lib/orders';
+
+// Quotes the delivery fee server-side with the same engine place_order uses,
+// so the cart shows exactly what will be charged. Free delivery is judged after the
+// promo discount, so the applied code is part of the quote.
+export const useDeliveryFee = (
+  items: CartItem[],
+  deliveryAddressId?: string | null,
+  enabled = true,
+  promoCode?: string | null
+) => {
+  const lines = buildOrderLines(items);
+
+  const { data: quote, error, isFetching } = useQuery({
+    queryKey: ['delivery-fee', deliveryAddressId ?? null, promoCode ?? null, lines],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('quote_delivery_fee', {
+        _items: lines as unknown as Json,
+        _delivery_address_id: deliveryAddressId ?? undefined,
+        _promo_code: promoCode ?? undefined
+      });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: enabled && items.length > 0,
+    retry: false
+  });
+
+  return {
+    deliveryFee: quote?.fee ?? 0,
+    distanceKm: quote?.distance_km ?? null,
+    zoneName: quote?.zone_name ?? null,
+    error: error ? error.message : null,
+    isQuoting: isFetching
+  };
+};
+
@@ -0,0 +1,153 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { CashCollection, DriverCashSettlement } from '@/types/driver';
+
+export interface UnsettledCashCollection extends CashCollection {
+  orders: {
+    id: string;
+    delivery_code: string | null;
+    status: string | null;
+  } | null;
+}
+
+// Net cash a collection leaves in the driver's hands
+export const netCash = (collection: Pick<CashCollection, 'amount_received' | 'change_given'>) =>
+  collection.amount_received - collection.change_given;
+
+const fetchUnsettledCollections = async (driverId?: string) => {
+  let query = supabase
+    .from('cash_collections')
+    .select(`
+      *,
+      orders (
+        id,
+        delivery_code,
+        status
+      )
+    `)
+    .is('settlement_id', null)
+    .order('collected_at');
+
+  if (driverId) {
+    query = query.eq('driver_id', driverId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching cash collections:', error);
+    throw error;
+  }
+
+  return data as UnsettledCashCollection[];
+};
+
+// Cash the driver has collected since their last settlement, and recording new collections
+export const useDriverCash = (driverId?: string) => {
+  const queryClient = useQueryClient();
+
+  const { data: collections, isLoading } = useQuery({
+    queryKey: ['driver-cash', driverId],
+    queryFn: () => fetchUnsettledCollections(driverId),
+    enabled: !!driverId
+  });
+
+  const cashOnHand = collections?.reduce((sum, collection) => sum + netCash(collection), 0) || 0;
+
+  const recordCollection = useMutation({
+    mutationFn: async ({
+      orderId,
+      amountReceived,
+      changeGiven
+    }: {
+      orderId: string;
+      amountReceived: number;
+      changeGiven: number;
+    }) => {
+      const { data, error } = await supabase.rpc('record_cash_collection', {
+        _order_id: orderId,
+        _amount_received: amountReceived,
+        _change_given: changeGiven
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['driver-cash'] });
+      queryClient.invalidateQueries({ queryKey: ['driver-orders'] });
+    },
+    onError: (error) => {
+      toast.error('Error al registrar el cobro: ' + error.message);
+    }
+  });
+
+  return { collections, cashOnHand, isLoading, recordCollection };
+};
+
+// Admin view: every driver's unsettled cash and the end-of-shift settlement
+export const useDriverCashSettlement = () => {
+  const queryClient = useQueryClient();
+
+  const { data: collections, isLoading } = useQuery({
+    queryKey: ['driver-cash', 'all'],
+    queryFn: () => fetchUnsettledCollections()
+  });
+
+  const collectionsByDriver = (collections || []).reduce<Record<string, UnsettledCashCollection[]>>(
+    (groups, collection) => {
+      (groups[collection.driver_id] ||= []).push(collection);
+      return groups;
+    },
+    {}
+  );
+
+  const settle = useMutation({
+    mutationFn: async ({
+      driverId,
+      handedInAmount,
+      notes
+    }: {
+      driverId: string;
+      handedInAmount: number;
+      notes?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('settle_driver_cash', {
+        _driver_id: driverId,
+        _handed_in_amount: handedInAmount,
+        _notes: notes
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['driver-cash'] });
+      queryClient.invalidateQueries({ queryKey: ['driver-cash-settlements'] });
+      toast.success('Cierre de caja registrado');
+    },
+    onError: (error) => {
+      toast.error('Error al cerrar la caja: ' + error.message);
+    }
+  });
+
+  return { collectionsByDriver, isLoading, settle };
+};
+
+export const useDriverCashSettlements = (driverId: string, limit = 5) => {
+  return useQuery({
+    queryKey: ['driver-cash-settlements', driverId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_cash_settlements')
+        .select('*')
+        .eq('driver_id', driverId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data as DriverCashSettlement[];
+    }
+  });
+};
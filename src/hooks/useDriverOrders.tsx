@@ -29,7 +29,10 @@ export const useDriverOrders = (driverId?: string) => {
           delivery_addresses (
             street_address,
             city,
-            postal_code
+            postal_code,
+            latitude,
+            longitude,
+            delivery_notes
           ),
           order_items (
             id,
@@ -67,7 +70,7 @@ export const useDriverOrders = (driverId?: string) => {
     retryDelay: 1000
   });
 
-  // Fetch available orders (orders with status "ready" that are NOT assigned to any driver)
+  // Fetch available orders (delivery orders with status "ready" that are NOT assigned to any driver)
   const { data: availableOrders, isLoading: isLoadingAvailable, error: availableError } = useQuery({
     queryKey: ['available-orders'],
     queryFn: async () => {
@@ -98,7 +101,10 @@ export const useDriverOrders = (driverId?: string) => {
           delivery_addresses (
             street_address,
             city,
-            postal_code
+            postal_code,
+            latitude,
+            longitude,
+            delivery_notes
           ),
           order_items (
             id,
@@ -111,6 +117,7 @@ export const useDriverOrders = (driverId?: string) => {
           )
         `)
         .eq('status', 'ready')
+        .eq('channel', 'delivery')
         .order('created_at', { ascending: false });
       
       // Only exclude if there are assigned orders
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// Latest USD -> VES rate recorded up to today. Orders keep their own frozen
+// exchange_rate, so this is only used for prices that are not yet ordered.
+export const useExchangeRate = () => {
+  return useQuery({
+    queryKey: ['exchange-rate'],
+    queryFn: async () => {
+      const today = new Date().toISOString().split('T')[0];
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .lte('date', today)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60 * 1000
+  });
+};
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Table } from '@/hooks/useTables';
+import type { FloorZone } from '@/types/table';
+
+export type TableLayout = Partial<Pick<Table, 'zone_id' | 'pos_x' | 'pos_y' | 'shape' | 'rotation' | 'width' | 'height' | 'capacity'>>;
+
+export const useFloorZones = () => {
+  return useQuery({
+    queryKey: ['floor-zones'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('floor_zones')
+        .select('*')
+        .order('sort_order')
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching floor zones:', error);
+        throw error;
+      }
+
+      return data as FloorZone[];
+    }
+  });
+};
+
+export const useManageFloorZones = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['floor-zones'] });
+    queryClient.invalidateQueries({ queryKey: ['tables'] });
+  };
+
+  const createZone = useMutation({
+    mutationFn: async (zone: Pick<FloorZone, 'name'> & Partial<Pick<FloorZone, 'sort_order'>>) => {
+      const { data, error } = await supabase
+        .from('floor_zones')
+        .insert([zone])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as FloorZone;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Zona creada');
+    },
+    onError: (error) => {
+      toast.error('Error al crear la zona: ' + error.message);
+    }
+  });
+
+  const updateZone = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Omit<FloorZone, 'id'>> }) => {
+      const { error } = await supabase
+        .from('floor_zones')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Error al actualizar la zona: ' + error.message);
+    }
+  });
+
+  const deleteZone = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('floor_zones')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Zona eliminada');
+    },
+    onError: (error) => {
+      toast.error('Error al eliminar la zona: ' + error.message);
+    }
+  });
+
+  return { createZone, updateZone, deleteZone };
+};
+
+// Moves and reshapes tables on the plan; the cached list updates right away so dragging feels instant
+export const useUpdateTableLayout = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, layout }: { id: string; layout: TableLayout }) => {
+      const { error } = await supabase
+        .from('restaurant_tables')
+        .update({ ...layout, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ id, layout }) => {
+      await queryClient.cancelQueries({ queryKey: ['tables'] });
+      const previous = queryClient.getQueryData<Table[]>(['tables']);
+
+      queryClient.setQueryData<Table[]>(['tables'], (tables) =>
+        tables?.map((table) => (table.id === id ? { ...table, ...layout } : table))
+      );
+
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['tables'], context.previous);
+      }
+      toast.error('Error al actualizar la mesa: ' + error.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+    }
+  });
+};
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// Stations the kitchen is split into, in display order. Inactive ones are kept so
+// items already assigned to them still show a name.
+export const useKitchenStations = () => {
+  const { data: stations, isLoading } = useQuery({
+    queryKey: ['kitchen-stations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('kitchen_stations')
+        .select('*')
+        .order('display_order')
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 10 * 60 * 1000
+  });
+
+  const activeStations = stations?.filter(station => station.is_active) || [];
+
+  const getStationName = (stationId: string | null) =>
+    stations?.find(station => station.id === stationId)?.name || 'General';
+
+  return { stations, activeStations, getStationName, isLoading };
+};
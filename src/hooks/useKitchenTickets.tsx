@@ -0,0 +1,111 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { KitchenStationTicket } from '@/types/kitchen';
+
+// Open station tickets of orders still in the kitchen, oldest first, kept live through realtime
+export const useKitchenTickets = () => {
+  const queryClient = useQueryClient();
+
+  const { data: tickets, isLoading, error } = useQuery({
+    queryKey: ['kitchen-tickets'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_station_tickets')
+        .select(`
+          id,
+          station_id,
+          status,
+          started_at,
+          created_at,
+          orders!inner (
+            id,
+            status,
+            channel,
+            notes,
+            created_at,
+            restaurant_table:restaurant_tables (
+              table_number
+            ),
+            order_items (
+              id,
+              quantity,
+              station_id,
+              menu_items (
+                name
+              ),
+              composite_dishes (
+                name
+              ),
+              order_dish_customizations (
+                id,
+                is_included,
+                replacement_item_id,
+                dish_optional_elements (
+                  menu_items (
+                    name
+                  )
+                ),
+                replacement_menu_items:replacement_item_id (
+                  name
+                )
+              )
+            ),
+            order_status_history (
+              to_status,
+              created_at
+            ),
+            order_station_tickets (
+              id,
+              station_id,
+              status
+            )
+          )
+        `)
+        .in('status', ['pending', 'preparing'])
+        .in('orders.status', ['confirmed', 'preparing'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as KitchenStationTicket[];
+    },
+    refetchInterval: 60000
+  });
+
+  useEffect(() => {
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['kitchen-tickets'] });
+
+    const subscription = supabase
+      .channel('kitchen-tickets')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_station_tickets' }, invalidate)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [queryClient]);
+
+  const bumpTicket = useMutation({
+    mutationFn: async (ticketId: string) => {
+      const { data, error } = await supabase.rpc('bump_station_ticket', { _ticket_id: ticketId });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-tickets'] });
+    },
+    onError: (error) => {
+      toast.error('Error al avanzar el ticket: ' + error.message);
+    }
+  });
+
+  return {
+    tickets,
+    isLoading,
+    error,
+    bumpTicket
+  };
+};
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums } from '@/integrations/supabase/types';
+
+type OrderStatus = Enums<'order_status'>;
+
+// Allowed next states per status, as defined in order_status_transitions.
+// The database trigger is the real gate; this only keeps the UI from offering invalid moves.
+export const useOrderStatusTransitions = () => {
+  const { data: transitions, isLoading } = useQuery({
+    queryKey: ['order-status-transitions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_status_transitions')
+        .select('from_status, to_status');
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 30 * 60 * 1000
+  });
+
+  const getNextStatuses = (status: OrderStatus): OrderStatus[] =>
+    transitions
+      ?.filter(transition => transition.from_status === status)
+      .map(transition => transition.to_status) || [];
+
+  return { getNextStatuses, isLoading };
+};
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// Payment proofs live in a private bucket; links are signed on demand and expire quickly
+const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+export const usePaymentProofUrl = (path: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['payment-proof-url', path],
+    queryFn: async () => {
+      if (!path) return null;
+
+      const { data, error } = await supabase.storage
+        .from('payment-proofs')
+        .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+      if (error) {
+        console.error('Error signing payment proof URL:', error);
+        throw error;
+      }
+
+      return data.signedUrl;
+    },
+    enabled: !!path,
+    // Re-sign a minute before the link expires
+    staleTime: (SIGNED_URL_TTL_SECONDS - 60) * 1000,
+    refetchInterval: (SIGNED_URL_TTL_SECONDS - 60) * 1000
+  });
+};
@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { getPaymentProvider, type PaymentIntent } from '@/lib/paymentProviders';
+import type { PaymentProviderConfig } from '@/types/payment';
+
+const fetchProviders = async () => {
+  const { data, error } = await supabase
+    .from('payment_providers')
+    .select('*')
+    .order('sort_order');
+
+  if (error) {
+    console.error('Error fetching payment providers:', error);
+    throw error;
+  }
+
+  return data as PaymentProviderConfig[];
+};
+
+// Providers offered at checkout; rows without code in this build are skipped
+export const usePaymentProviders = () => {
+  return useQuery({
+    queryKey: ['payment-providers'],
+    queryFn: fetchProviders,
+    select: (providers) => providers.filter((provider) => provider.is_active && getPaymentProvider(provider.id))
+  });
+};
+
+export const useManagePaymentProviders = () => {
+  const queryClient = useQueryClient();
+
+  const { data: providers, isLoading } = useQuery({
+    queryKey: ['admin-payment-providers'],
+    queryFn: fetchProviders
+  });
+
+  const updateProvider = useMutation({
+    mutationFn: async ({
+      id,
+      updates
+    }: {
+      id: string;
+      updates: Partial<Pick<PaymentProviderConfig, 'is_active' | 'settings'>>;
+    }) => {
+      const { error } = await supabase
+        .from('payment_providers')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-payment-providers'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-providers'] });
+      toast.success('Proveedor de pago actualizado');
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar el proveedor: ' + error.message);
+    }
+  });
+
+  return { providers, isLoading, updateProvider };
+};
+
+// Refunds go through the provider; the order balance updates when its webhook confirms
+export const useRefundPaymentIntent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ intent, amount }: { intent: PaymentIntent; amount: number }) => {
+      const provider = getPaymentProvider(intent.provider_id);
+      if (!provider?.supportsRefunds) {
+        throw new Error('Este proveedor no permite reembolsos');
+      }
+
+      await provider.refund(intent, amount);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      toast.success('Reembolso solicitado');
+    },
+    onError: (error) => {
+      toast.error('Error al reembolsar: ' + error.message);
+    }
+  });
+};
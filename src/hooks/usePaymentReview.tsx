@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { OrderPaymentStatus } from '@/types/payment';
+
+const approvalMessages: Record<OrderPaymentStatus, string> = {
+  unpaid: 'Pago aprobado',
+  partial: 'Pago aprobado. El pedido sigue esperando el saldo restante',
+  paid: 'Pago aprobado y pedido confirmado',
+  overpaid: 'Pago aprobado y pedido confirmado. El cliente pagó de más'
+};
+
+// Approves or rejects a manual payment through review_payment_verification, which also
+// updates the order's paid amount, confirms it when fully paid and notifies the customer
+export const usePaymentReview = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      verificationId,
+      approve,
+      rejectionReason
+    }: {
+      verificationId: string;
+      approve: boolean;
+      rejectionReason?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('review_payment_verification', {
+        _verification_id: verificationId,
+        _approve: approve,
+        _rejection_reason: rejectionReason
+      });
+
+      if (error) throw error;
+      return data as OrderPaymentStatus;
+    },
+    onSuccess: (paymentStatus, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['payment-verifications'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+
+      if (!approve) {
+        toast.success('Pago rechazado. Se notificó al cliente');
+      } else if (paymentStatus === 'overpaid') {
+        toast.warning(approvalMessages.overpaid);
+      } else {
+        toast.success(approvalMessages[paymentStatus]);
+      }
+    },
+    onError: (error) => {
+      toast.error('Error al revisar el pago: ' + error.message);
+    }
+  });
+};
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { CartItem } from '@/hooks/useCart';
+import { buildOrderLines } from '@/lib/orders';
+
+// Validates a promo code server-side against the current cart.
+// The code is re-validated whenever the cart changes; usage is only consumed by place_order.
+export const usePromoCode = (items: CartItem[]) => {
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const lines = buildOrderLines(items);
+
+  const { data: promotion, error, isFetching } = useQuery({
+    queryKey: ['promo-code', promoCode, lines],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('validate_promo_code', {
+        _code: promoCode as string,
+        _items: lines as unknown as Json
+      });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: !!promoCode && items.length > 0,
+    retry: false
+  });
+
+  const applyPromoCode = (code: string) => {
+    setPromoCode(code.trim() || null);
+  };
+
+  const clearPromoCode = () => {
+    setPromoCode(null);
+  };
+
+  const isValid = !!promoCode && !!promotion && !error;
+
+  return {
+    promoCode,
+    promotion: isValid ? promotion : null,
+    discount: isValid ? promotion.discount : 0,
+    error: promoCode && error ? error.message : null,
+    isValidating: isFetching,
+    applyPromoCode,
+    clearPromoCode
+  };
+};
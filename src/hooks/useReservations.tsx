@@ -0,0 +1,294 @@
+import { useEffect, useId } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  reservationStatusLabels,
+  type Reservation,
+  type ReservationSettings,
+  type ReservationSlot,
+  type ReservationStatus,
+  type ReservationTableSuggestion
+} from '@/types/reservation';
+
+// Minutes since midnight for a 'HH:MM[:SS]' time column
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const formatReservationTime = (value: string) =>
+  new Date(value).toLocaleTimeString('es-VE', { hour: '2-digit', minute: '2-digit' });
+
+export const useReservationSettings = () => {
+  return useQuery({
+    queryKey: ['reservation-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reservation_settings')
+        .select('*')
+        .order('created_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching reservation settings:', error);
+        throw error;
+      }
+
+      return data as ReservationSettings | null;
+    }
+  });
+};
+
+export const useUpdateReservationSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Omit<ReservationSettings, 'id'>> }) => {
+      const { error } = await supabase
+        .from('reservation_settings')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservation-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['reservation-slots'] });
+      toast.success('Horario de reservas actualizado');
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar el horario de reservas: ' + error.message);
+    }
+  });
+};
+
+// Bookings that overlap a given day (yyyy-MM-dd, local time), kept live for the staff timeline
+export const useReservations = (date: string) => {
+  const queryClient = useQueryClient();
+  const channelId = useId();
+
+  const query = useQuery({
+    queryKey: ['reservations', date],
+    queryFn: async () => {
+      const dayStart = new Date(`${date}T00:00:00`);
+      const dayEnd = new Date(dayStart);
+      dayEnd.setDate(dayEnd.getDate() + 1);
+
+      const { data, error } = await supabase
+        .from('reservations')
+        .select(`
+          *,
+          reservation_tables (
+            table_id
+          )
+        `)
+        .lt('starts_at', dayEnd.toISOString())
+        .gt('ends_at', dayStart.toISOString())
+        .order('starts_at');
+
+      if (error) {
+        console.error('Error fetching reservations:', error);
+        throw error;
+      }
+
+      return data as Reservation[];
+    }
+  });
+
+  useEffect(() => {
+    const subscription = supabase
+      .channel(`reservations-${channelId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'reservations' }, () => {
+        queryClient.invalidateQueries({ queryKey: ['reservations'] });
+        queryClient.invalidateQueries({ queryKey: ['reservation-suggestions'] });
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [queryClient, channelId]);
+
+  return query;
+};
+
+// Bookable start times for a day; the server applies opening hours and the booking horizon
+export const useReservationSlots = (date: string, partySize: number) => {
+  return useQuery({
+    queryKey: ['reservation-slots', date, partySize],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_reservation_slots', {
+        _date: date,
+        _party_size: partySize
+      });
+
+      if (error) {
+        console.error('Error fetching reservation slots:', error);
+        throw error;
+      }
+
+      return data as ReservationSlot[];
+    },
+    enabled: !!date && partySize > 0
+  });
+};
+
+export const useReservationTableSuggestions = ({
+  partySize,
+  startsAt,
+  durationMinutes,
+  excludeReservationId
+}: {
+  partySize: number;
+  startsAt?: string;
+  durationMinutes?: number;
+  excludeReservationId?: string;
+}) => {
+  return useQuery({
+    queryKey: ['reservation-suggestions', partySize, startsAt, durationMinutes, excludeReservationId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('suggest_reservation_tables', {
+        _party_size: partySize,
+        _starts_at: startsAt!,
+        _duration_minutes: durationMinutes,
+        _exclude_reservation_id: excludeReservationId
+      });
+
+      if (error) {
+        console.error('Error fetching table suggestions:', error);
+        throw error;
+      }
+
+      return data as ReservationTableSuggestion[];
+    },
+    enabled: partySize > 0 && !!startsAt
+  });
+};
+
+export interface NewReservation {
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  partySize: number;
+  startsAt: string;
+  durationMinutes?: number;
+  tableIds?: string[];
+  notes?: string;
+}
+
+export const useCreateReservation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reservation: NewReservation) => {
+      const { data, error } = await supabase.rpc('create_reservation', {
+        _customer_name: reservation.customerName,
+        _customer_phone: reservation.customerPhone,
+        _customer_email: reservation.customerEmail,
+        _party_size: reservation.partySize,
+        _starts_at: reservation.startsAt,
+        _duration_minutes: reservation.durationMinutes,
+        _table_ids: reservation.tableIds,
+        _notes: reservation.notes
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['reservation-suggestions'] });
+      toast.success('Reserva creada');
+    },
+    onError: (error) => {
+      toast.error('Error al crear la reserva: ' + error.message);
+    }
+  });
+};
+
+// Booking from the public page; tables are assigned on the server
+export const useRequestReservation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reservation: Omit<NewReservation, 'durationMinutes' | 'tableIds'>) => {
+      const { data, error } = await supabase.rpc('request_reservation', {
+        _customer_name: reservation.customerName,
+        _customer_phone: reservation.customerPhone,
+        _customer_email: reservation.customerEmail,
+        _party_size: reservation.partySize,
+        _starts_at: reservation.startsAt,
+        _notes: reservation.notes
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservation-slots'] });
+    },
+    onError: (error) => {
+      toast.error('Error al reservar: ' + error.message);
+    }
+  });
+};
+
+export const useUpdateReservation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      partySize,
+      startsAt,
+      durationMinutes,
+      tableIds,
+      notes
+    }: { id: string } & Required<Pick<NewReservation, 'partySize' | 'startsAt' | 'durationMinutes' | 'tableIds'>> &
+      Pick<NewReservation, 'notes'>) => {
+      const { error } = await supabase.rpc('update_reservation', {
+        _reservation_id: id,
+        _party_size: partySize,
+        _starts_at: startsAt,
+        _duration_minutes: durationMinutes,
+        _table_ids: tableIds,
+        _notes: notes
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['reservation-suggestions'] });
+      toast.success('Reserva actualizada');
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar la reserva: ' + error.message);
+    }
+  });
+};
+
+export const useUpdateReservationStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ReservationStatus }) => {
+      const { error } = await supabase.rpc('update_reservation_status', {
+        _reservation_id: id,
+        _status: status
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['reservation-suggestions'] });
+      toast.success(`Reserva: ${reservationStatusLabels[status]}`);
+    },
+    onError: (error) => {
+      toast.error('Error al actualizar la reserva: ' + error.message);
+    }
+  });
+};
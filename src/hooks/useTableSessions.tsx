@@ -0,0 +1,321 @@
+import { useEffect, useId } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type {
+  TableBillItem,
+  TableCheck,
+  TableCheckPaymentMethod,
+  TableSession,
+  TableSessionBill,
+  TableSessionRound,
+  TableSplitMode
+} from '@/types/table';
+
+// Running total of a tab; cancelled rounds are not billed
+export const sessionTotal = (rounds: Pick<TableSessionRound, 'status' | 'total_amount'>[]) =>
+  rounds
+    .filter((round) => round.status !== 'cancelled')
+    .reduce((sum, round) => sum + round.total_amount, 0);
+
+export const tableItemLabel = (item: TableBillItem) =>
+  `${item.quantity}x ${item.menu_items?.name || item.composite_dishes?.name || 'Producto'}`;
+
+// Open tabs keyed by table, kept live as rounds are added, tabs are closed or tables change status
+export const useOpenTableSessions = () => {
+  const queryClient = useQueryClient();
+  // Several screens watch tabs at once; each needs its own channel
+  const channelId = useId();
+
+  const query = useQuery({
+    queryKey: ['table-sessions', 'open'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('table_sessions')
+        .select(`
+          id,
+          table_id,
+          status,
+          opened_at,
+          closed_at,
+          total_amount,
+          orders (
+            id,
+            status,
+            total_amount,
+            discount_amount,
+            exchange_rate,
+            created_at
+          ),
+          table_session_checks (
+            id,
+            status,
+            total_amount
+          )
+        `)
+        .eq('status', 'open')
+        .order('opened_at');
+
+      if (error) {
+        console.error('Error fetching table sessions:', error);
+        throw error;
+      }
+
+      return data as TableSession[];
+    }
+  });
+
+  useEffect(() => {
+    const invalidate = () => {
+      queryClient.invalidateQueries({ queryKey: ['table-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+    };
+
+    const subscription = supabase
+      .channel(`table-sessions-${channelId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'table_sessions' }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'table_session_checks' }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'restaurant_tables' }, invalidate)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [queryClient, channelId]);
+
+  const sessionsByTable = new Map((query.data || []).map((session) => [session.table_id, session]));
+
+  return { ...query, sessionsByTable };
+};
+
+// Every round of a tab with its items, for the consolidated bill
+export const useTableSessionBill = (sessionId?: string) => {
+  return useQuery({
+    queryKey: ['table-sessions', 'bill', sessionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('table_sessions')
+        .select(`
+          id,
+          status,
+          opened_at,
+          closed_at,
+          restaurant_tables (
+            table_number
+          ),
+          orders (
+            id,
+            status,
+            channel,
+            created_at,
+            notes,
+            total_amount,
+            discount_amount,
+            exchange_rate,
+            order_items (
+              id,
+              quantity,
+              total_price,
+              seat_number,
+              menu_items (
+                name
+              ),
+              composite_dishes (
+                name
+              ),
+              order_dish_customizations (
+                id,
+                is_included,
+                replacement_item_id,
+                dish_optional_elements (
+                  menu_items (
+                    name
+                  )
+                ),
+                replacement_menu_items:replacement_item_id (
+                  name
+                )
+              )
+            )
+          )
+        `)
+        .eq('id', sessionId!)
+        .order('created_at', { referencedTable: 'orders' })
+        .single();
+
+      if (error) {
+        console.error('Error fetching table bill:', error);
+        throw error;
+      }
+
+      return data as unknown as TableSessionBill;
+    },
+    enabled: !!sessionId
+  });
+};
+
+// Sub-checks of a split tab, in the order they were created
+export const useTableChecks = (sessionId?: string) => {
+  return useQuery({
+    queryKey: ['table-sessions', 'checks', sessionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('table_session_checks')
+        .select(`
+          *,
+          table_session_check_items (
+            order_item_id,
+            amount
+          )
+        `)
+        .eq('session_id', sessionId!)
+        .order('position');
+
+      if (error) {
+        console.error('Error fetching table checks:', error);
+        throw error;
+      }
+
+      return data as TableCheck[];
+    },
+    enabled: !!sessionId
+  });
+};
+
+export interface TableSplitRequest {
+  sessionId: string;
+  mode: TableSplitMode;
+  serviceChargeRate: number;
+  guests?: number;
+  checks?: {
+    label: string;
+    seat_number?: number;
+    order_item_ids: string[];
+  }[];
+}
+
+export const useSplitTableSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, mode, serviceChargeRate, guests, checks }: TableSplitRequest) => {
+      const { data, error } = await supabase.rpc('split_table_session', {
+        _session_id: sessionId,
+        _mode: mode,
+        _guests: guests,
+        _checks: checks,
+        _service_charge_rate: serviceChargeRate
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['table-sessions'] });
+      toast.success('Cuenta dividida');
+    },
+    onError: (error) => {
+      toast.error('Error al dividir la cuenta: ' + error.message);
+    }
+  });
+};
+
+// Unpaid sub-checks go away and the tab is billed as one again
+export const useClearTableSplit = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { error } = await supabase
+        .from('table_session_checks')
+        .delete()
+        .eq('session_id', sessionId)
+        .eq('status', 'open');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['table-sessions'] });
+    },
+    onError: (error) => {
+      toast.error('Error al quitar la división: ' + error.message);
+    }
+  });
+};
+
+export const useSettleTableCheck = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      checkId,
+      paymentMethod,
+      amountReceived,
+      reference
+    }: {
+      checkId: string;
+      paymentMethod: TableCheckPaymentMethod;
+      amountReceived?: number;
+      reference?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('settle_table_check', {
+        _check_id: checkId,
+        _payment_method: paymentMethod,
+        _amount_received: amountReceived,
+        _payment_reference: reference
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['table-sessions'] });
+      toast.success('Subcuenta cobrada');
+    },
+    onError: (error) => {
+      toast.error('Error al cobrar la subcuenta: ' + error.message);
+    }
+  });
+};
+
+export const useCloseTableSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { data, error } = await supabase.rpc('close_table_session', { _session_id: sessionId });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['table-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      toast.success('Cuenta cerrada');
+    },
+    onError: (error) => {
+      toast.error('Error al cerrar la cuenta: ' + error.message);
+    }
+  });
+};
+
+export const useMarkTableAvailable = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tableId: string) => {
+      const { error } = await supabase.rpc('mark_table_available', { _table_id: tableId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+      toast.success('Mesa disponible');
+    },
+    onError: (error) => {
+      toast.error('Error al liberar la mesa: ' + error.message);
+    }
+  });
+};
@@ -0,0 +1,138 @@
+import { useEffect, useId } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { WaitlistEntry } from '@/types/waitlist';
+
+// Parties still waiting, first come first served, kept live across host devices
+export const useWaitlist = () => {
+  const queryClient = useQueryClient();
+  const channelId = useId();
+
+  const query = useQuery({
+    queryKey: ['waitlist'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select('*')
+        .eq('status', 'waiting')
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching waitlist:', error);
+        throw error;
+      }
+
+      return data as WaitlistEntry[];
+    }
+  });
+
+  useEffect(() => {
+    const invalidate = () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    };
+
+    // Estimates move as parties join or leave and as tables open and close
+    const subscription = supabase
+      .channel(`waitlist-${channelId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'waitlist_entries' }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'table_sessions' }, invalidate)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [queryClient, channelId]);
+
+  return query;
+};
+
+// What to quote a party of this size if they join the list now
+export const useWaitlistEstimate = (partySize: number) => {
+  return useQuery({
+    queryKey: ['waitlist', 'estimate', partySize],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('estimate_waitlist_wait', { _party_size: partySize });
+
+      if (error) {
+        console.error('Error estimating wait:', error);
+        throw error;
+      }
+
+      return data as number;
+    },
+    enabled: partySize > 0,
+    // A party too large for any table is a definite answer, not a failure worth retrying
+    retry: false
+  });
+};
+
+export const useAddWaitlistEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entry: { partyName: string; partySize: number; phone?: string; notes?: string }) => {
+      const { data, error } = await supabase.rpc('add_waitlist_entry', {
+        _party_name: entry.partyName,
+        _party_size: entry.partySize,
+        _phone: entry.phone,
+        _notes: entry.notes
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.success('Grupo anotado en la lista de espera');
+    },
+    onError: (error) => {
+      toast.error('Error al anotar al grupo: ' + error.message);
+    }
+  });
+};
+
+// Opens the table's tab and takes the party off the list
+export const useSeatWaitlistEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entryId, tableId }: { entryId: string; tableId: string }) => {
+      const { data, error } = await supabase.rpc('seat_waitlist_entry', {
+        _entry_id: entryId,
+        _table_id: tableId
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['table-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+      toast.success('Grupo sentado');
+    },
+    onError: (error) => {
+      toast.error('Error al sentar al grupo: ' + error.message);
+    }
+  });
+};
+
+export const useRemoveWaitlistEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entryId: string) => {
+      const { error } = await supabase.rpc('remove_waitlist_entry', { _entry_id: entryId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.success('Grupo quitado de la lista');
+    },
+    onError: (error) => {
+      toast.error('Error al quitar al grupo: ' + error.message);
+    }
+  });
+};
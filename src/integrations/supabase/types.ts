@@ -14,6 +14,157 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_statement_imports: {
+        Row: {
+          created_at: string
+          currency: string
+          file_format: string
+          file_name: string
+          id: string
+          imported_by: string | null
+          payment_method_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          file_format: string
+          file_name: string
+          id?: string
+          imported_by?: string | null
+          payment_method_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          file_format?: string
+          file_name?: string
+          id?: string
+          imported_by?: string | null
+          payment_method_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_imports_payment_method_id_fkey"
+            columns: ["payment_method_id"]
+            isOneToOne: false
+            referencedRelation: "payment_methods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          id: string
+          import_id: string
+          matched_verification_id: string | null
+          movement_date: string
+          payment_method_id: string
+          reference: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          import_id: string
+          matched_verification_id?: string | null
+          movement_date: string
+          payment_method_id: string
+          reference: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          import_id?: string
+          matched_verification_id?: string | null
+          movement_date?: string
+          payment_method_id?: string
+          reference?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_movements_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_movements_matched_verification_id_fkey"
+            columns: ["matched_verification_id"]
+            isOneToOne: true
+            referencedRelation: "manual_payment_verifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_movements_payment_method_id_fkey"
+            columns: ["payment_method_id"]
+            isOneToOne: false
+            referencedRelation: "payment_methods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_collections: {
+        Row: {
+          amount_due: number
+          amount_received: number
+          change_given: number
+          collected_at: string
+          driver_id: string
+          id: string
+          order_id: string
+          settlement_id: string | null
+        }
+        Insert: {
+          amount_due: number
+          amount_received: number
+          change_given?: number
+          collected_at?: string
+          driver_id: string
+          id?: string
+          order_id: string
+          settlement_id?: string | null
+        }
+        Update: {
+          amount_due?: number
+          amount_received?: number
+          change_given?: number
+          collected_at?: string
+          driver_id?: string
+          id?: string
+          order_id?: string
+          settlement_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_collections_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_collections_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_collections_settlement_id_fkey"
+            columns: ["settlement_id"]
+            isOneToOne: false
+            referencedRelation: "driver_cash_settlements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       composite_dishes: {
         Row: {
           base_price: number
@@ -25,6 +176,7 @@ export type Database = {
           is_available: boolean | null
           name: string
           preparation_time: string | null
+          station_id: string | null
           updated_at: string
         }
         Insert: {
@@ -37,6 +189,7 @@ export type Database = {
           is_available?: boolean | null
           name: string
           preparation_time?: string | null
+          station_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -49,6 +202,7 @@ export type Database = {
           is_available?: boolean | null
           name?: string
           preparation_time?: string | null
+          station_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -59,14 +213,65 @@ export type Database = {
             referencedRelation: "menu_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "composite_dishes_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "kitchen_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_notifications: {
+        Row: {
+          created_at: string
+          id: string
+          is_read: boolean
+          message: string
+          notification_type: string
+          order_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          message: string
+          notification_type: string
+          order_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          message?: string
+          notification_type?: string
+          order_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_notifications_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       delivery_addresses: {
         Row: {
           city: string
           created_at: string
+          delivery_notes: string | null
           id: string
           is_default: boolean | null
+          latitude: number | null
+          longitude: number | null
           postal_code: string | null
           street_address: string
           user_id: string
@@ -74,8 +279,11 @@ export type Database = {
         Insert: {
           city: string
           created_at?: string
+          delivery_notes?: string | null
           id?: string
           is_default?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
           postal_code?: string | null
           street_address: string
           user_id: string
@@ -83,8 +291,11 @@ export type Database = {
         Update: {
           city?: string
           created_at?: string
+          delivery_notes?: string | null
           id?: string
           is_default?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
           postal_code?: string | null
           street_address?: string
           user_id?: string
@@ -198,6 +409,111 @@ export type Database = {
         }
         Relationships: []
       }
+      delivery_fee_settings: {
+        Row: {
+          created_at: string
+          default_fee: number
+          free_delivery_threshold: number | null
+          id: string
+          max_distance_km: number | null
+          pricing_mode: string
+          restaurant_latitude: number | null
+          restaurant_longitude: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_fee?: number
+          free_delivery_threshold?: number | null
+          id?: string
+          max_distance_km?: number | null
+          pricing_mode?: string
+          restaurant_latitude?: number | null
+          restaurant_longitude?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_fee?: number
+          free_delivery_threshold?: number | null
+          id?: string
+          max_distance_km?: number | null
+          pricing_mode?: string
+          restaurant_latitude?: number | null
+          restaurant_longitude?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      delivery_fee_tiers: {
+        Row: {
+          created_at: string
+          fee: number
+          id: string
+          max_distance_km: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          fee: number
+          id?: string
+          max_distance_km: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          fee?: number
+          id?: string
+          max_distance_km?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      delivery_zones: {
+        Row: {
+          center_latitude: number
+          center_longitude: number
+          created_at: string
+          display_order: number | null
+          fee: number
+          free_delivery_threshold: number | null
+          id: string
+          is_active: boolean | null
+          min_order_amount: number
+          name: string
+          radius_km: number
+          updated_at: string
+        }
+        Insert: {
+          center_latitude: number
+          center_longitude: number
+          created_at?: string
+          display_order?: number | null
+          fee: number
+          free_delivery_threshold?: number | null
+          id?: string
+          is_active?: boolean | null
+          min_order_amount?: number
+          name: string
+          radius_km: number
+          updated_at?: string
+        }
+        Update: {
+          center_latitude?: number
+          center_longitude?: number
+          created_at?: string
+          display_order?: number | null
+          fee?: number
+          free_delivery_threshold?: number | null
+          id?: string
+          is_active?: boolean | null
+          min_order_amount?: number
+          name?: string
+          radius_km?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       dish_base_products: {
         Row: {
           created_at: string
@@ -321,6 +637,47 @@ export type Database = {
           },
         ]
       }
+      driver_cash_settlements: {
+        Row: {
+          created_at: string
+          discrepancy: number | null
+          driver_id: string
+          expected_amount: number
+          handed_in_amount: number
+          id: string
+          notes: string | null
+          settled_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          discrepancy?: number | null
+          driver_id: string
+          expected_amount: number
+          handed_in_amount: number
+          id?: string
+          notes?: string | null
+          settled_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          discrepancy?: number | null
+          driver_id?: string
+          expected_amount?: number
+          handed_in_amount?: number
+          id?: string
+          notes?: string | null
+          settled_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_cash_settlements_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       driver_locations: {
         Row: {
           accuracy: number | null
@@ -500,6 +857,36 @@ export type Database = {
         }
         Relationships: []
       }
+      floor_zones: {
+        Row: {
+          created_at: string
+          height: number
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          width: number
+        }
+        Insert: {
+          created_at?: string
+          height?: number
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          width?: number
+        }
+        Update: {
+          created_at?: string
+          height?: number
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          width?: number
+        }
+        Relationships: []
+      }
       inventory: {
         Row: {
           created_at: string
@@ -547,16 +934,47 @@ export type Database = {
           },
         ]
       }
+      kitchen_stations: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       manual_payment_verifications: {
         Row: {
+          amount_currency: string
           amount_paid: number
           created_at: string
           id: string
+          legacy_proof: boolean
           order_id: string
           origin_bank: string
+          payment_method_id: string | null
           payment_method_type: string
-          payment_proof_url: string
+          payment_proof_path: string
           phone_number_used: string | null
+          proof_file_hash: string | null
           reference_number: string
           rejection_reason: string | null
           reviewed_at: string | null
@@ -565,14 +983,18 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          amount_currency?: string
           amount_paid: number
           created_at?: string
           id?: string
+          legacy_proof?: boolean
           order_id: string
           origin_bank: string
+          payment_method_id?: string | null
           payment_method_type: string
-          payment_proof_url: string
+          payment_proof_path: string
           phone_number_used?: string | null
+          proof_file_hash?: string | null
           reference_number: string
           rejection_reason?: string | null
           reviewed_at?: string | null
@@ -581,14 +1003,18 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          amount_currency?: string
           amount_paid?: number
           created_at?: string
           id?: string
+          legacy_proof?: boolean
           order_id?: string
           origin_bank?: string
+          payment_method_id?: string | null
           payment_method_type?: string
-          payment_proof_url?: string
+          payment_proof_path?: string
           phone_number_used?: string | null
+          proof_file_hash?: string | null
           reference_number?: string
           rejection_reason?: string | null
           reviewed_at?: string | null
@@ -604,6 +1030,13 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "manual_payment_verifications_payment_method_id_fkey"
+            columns: ["payment_method_id"]
+            isOneToOne: false
+            referencedRelation: "payment_methods"
+            referencedColumns: ["id"]
+          },
         ]
       }
       menu_categories: {
@@ -648,6 +1081,7 @@ export type Database = {
           preparation_time: string | null
           price: number
           rating: number | null
+          station_id: string | null
           updated_at: string
         }
         Insert: {
@@ -661,6 +1095,7 @@ export type Database = {
           preparation_time?: string | null
           price: number
           rating?: number | null
+          station_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -674,6 +1109,7 @@ export type Database = {
           preparation_time?: string | null
           price?: number
           rating?: number | null
+          station_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -684,7 +1120,14 @@ export type Database = {
             referencedRelation: "menu_categories"
             referencedColumns: ["id"]
           },
-        ]
+          {
+            foreignKeyName: "menu_items_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "kitchen_stations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       order_assignments: {
         Row: {
@@ -806,6 +1249,8 @@ export type Database = {
           menu_item_id: string | null
           order_id: string
           quantity: number
+          seat_number: number | null
+          station_id: string | null
           total_price: number
           unit_price: number
         }
@@ -816,6 +1261,8 @@ export type Database = {
           menu_item_id?: string | null
           order_id: string
           quantity?: number
+          seat_number?: number | null
+          station_id?: string | null
           total_price: number
           unit_price: number
         }
@@ -826,6 +1273,8 @@ export type Database = {
           menu_item_id?: string | null
           order_id?: string
           quantity?: number
+          seat_number?: number | null
+          station_id?: string | null
           total_price?: number
           unit_price?: number
         }
@@ -851,6 +1300,13 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "kitchen_stations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       order_promotions: {
@@ -892,48 +1348,170 @@ export type Database = {
           },
         ]
       }
+      order_station_tickets: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          ready_at: string | null
+          started_at: string | null
+          station_id: string | null
+          status: Database["public"]["Enums"]["station_ticket_status"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          ready_at?: string | null
+          started_at?: string | null
+          station_id?: string | null
+          status?: Database["public"]["Enums"]["station_ticket_status"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          ready_at?: string | null
+          started_at?: string | null
+          station_id?: string | null
+          status?: Database["public"]["Enums"]["station_ticket_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_station_tickets_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_station_tickets_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "kitchen_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          order_id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["order_status"]
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["order_status"]
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["order_status"]
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
+          amount_paid: number
+          channel: Database["public"]["Enums"]["order_channel"]
           created_at: string
           delivery_address_id: string | null
           delivery_code: string | null
           delivery_fee: number | null
+          discount_amount: number
           driver_earnings: number | null
+          exchange_rate: number | null
           estimated_delivery_time: number | null
           id: string
           notes: string | null
+          payment_method: string
+          payment_status: string
           pickup_time: string | null
           status: Database["public"]["Enums"]["order_status"] | null
+          table_id: string | null
+          table_session_id: string | null
           total_amount: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          amount_paid?: number
+          channel?: Database["public"]["Enums"]["order_channel"]
           created_at?: string
           delivery_address_id?: string | null
           delivery_code?: string | null
           delivery_fee?: number | null
+          discount_amount?: number
           driver_earnings?: number | null
+          exchange_rate?: number | null
           estimated_delivery_time?: number | null
           id?: string
           notes?: string | null
+          payment_method?: string
+          payment_status?: string
           pickup_time?: string | null
           status?: Database["public"]["Enums"]["order_status"] | null
+          table_id?: string | null
+          table_session_id?: string | null
           total_amount: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          amount_paid?: number
+          channel?: Database["public"]["Enums"]["order_channel"]
           created_at?: string
           delivery_address_id?: string | null
           delivery_code?: string | null
           delivery_fee?: number | null
+          discount_amount?: number
           driver_earnings?: number | null
+          exchange_rate?: number | null
           estimated_delivery_time?: number | null
           id?: string
           notes?: string | null
+          payment_method?: string
+          payment_status?: string
           pickup_time?: string | null
           status?: Database["public"]["Enums"]["order_status"] | null
+          table_id?: string | null
+          table_session_id?: string | null
           total_amount?: number
           updated_at?: string
           user_id?: string
@@ -946,6 +1524,20 @@ export type Database = {
             referencedRelation: "delivery_addresses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_table_session_id_fkey"
+            columns: ["table_session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_user_id_fkey"
             columns: ["user_id"]
@@ -955,6 +1547,111 @@ export type Database = {
           },
         ]
       }
+      payment_intent_events: {
+        Row: {
+          created_at: string
+          event_id: string
+          event_type: string
+          id: string
+          intent_id: string | null
+          payload: Json
+          provider_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          event_type: string
+          id?: string
+          intent_id?: string | null
+          payload?: Json
+          provider_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          event_type?: string
+          id?: string
+          intent_id?: string | null
+          payload?: Json
+          provider_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_intent_events_intent_id_fkey"
+            columns: ["intent_id"]
+            isOneToOne: false
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intent_events_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "payment_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_intents: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string
+          failure_reason: string | null
+          id: string
+          order_id: string
+          provider_id: string
+          provider_reference: string | null
+          refunded_amount: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          provider_id: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          provider_id?: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_intents_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intents_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "payment_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payment_methods: {
         Row: {
           account_holder_name: string | null
@@ -997,6 +1694,81 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_providers: {
+        Row: {
+          created_at: string
+          description: string | null
+          display_name: string
+          id: string
+          is_active: boolean
+          settings: Json
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          display_name: string
+          id: string
+          is_active?: boolean
+          settings?: Json
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          display_name?: string
+          id?: string
+          is_active?: boolean
+          settings?: Json
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_verification_flags: {
+        Row: {
+          created_at: string
+          flag_type: string
+          id: string
+          message: string
+          related_verification_id: string | null
+          verification_id: string
+        }
+        Insert: {
+          created_at?: string
+          flag_type: string
+          id?: string
+          message: string
+          related_verification_id?: string | null
+          verification_id: string
+        }
+        Update: {
+          created_at?: string
+          flag_type?: string
+          id?: string
+          message?: string
+          related_verification_id?: string | null
+          verification_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_verification_flags_related_verification_id_fkey"
+            columns: ["related_verification_id"]
+            isOneToOne: false
+            referencedRelation: "manual_payment_verifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_verification_flags_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: false
+            referencedRelation: "manual_payment_verifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           address: string | null
@@ -1093,35 +1865,335 @@ export type Database = {
         }
         Relationships: []
       }
+      reservation_settings: {
+        Row: {
+          booking_horizon_days: number
+          created_at: string
+          default_duration_minutes: number
+          id: string
+          last_seating_time: string
+          max_party_size: number
+          opening_time: string
+          slot_minutes: number
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          booking_horizon_days?: number
+          created_at?: string
+          default_duration_minutes?: number
+          id?: string
+          last_seating_time?: string
+          max_party_size?: number
+          opening_time?: string
+          slot_minutes?: number
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          booking_horizon_days?: number
+          created_at?: string
+          default_duration_minutes?: number
+          id?: string
+          last_seating_time?: string
+          max_party_size?: number
+          opening_time?: string
+          slot_minutes?: number
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reservation_tables: {
+        Row: {
+          reservation_id: string
+          table_id: string
+        }
+        Insert: {
+          reservation_id: string
+          table_id: string
+        }
+        Update: {
+          reservation_id?: string
+          table_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_tables_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_tables_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string
+          duration_minutes: number
+          ends_at: string
+          id: string
+          notes: string | null
+          party_size: number
+          source: string
+          starts_at: string
+          status: string
+          status_changed_at: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_phone: string
+          duration_minutes: number
+          ends_at?: string
+          id?: string
+          notes?: string | null
+          party_size: number
+          source?: string
+          starts_at: string
+          status?: string
+          status_changed_at?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string
+          duration_minutes?: number
+          ends_at?: string
+          id?: string
+          notes?: string | null
+          party_size?: number
+          source?: string
+          starts_at?: string
+          status?: string
+          status_changed_at?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       restaurant_tables: {
         Row: {
           capacity: number
           created_at: string
+          height: number
           id: string
+          pos_x: number
+          pos_y: number
+          rotation: number
+          shape: string
           status: string
           table_number: string
           updated_at: string
+          width: number
           zone: string | null
+          zone_id: string | null
         }
         Insert: {
           capacity?: number
           created_at?: string
+          height?: number
           id?: string
+          pos_x?: number
+          pos_y?: number
+          rotation?: number
+          shape?: string
           status?: string
           table_number: string
           updated_at?: string
+          width?: number
           zone?: string | null
+          zone_id?: string | null
         }
         Update: {
           capacity?: number
           created_at?: string
+          height?: number
           id?: string
+          pos_x?: number
+          pos_y?: number
+          rotation?: number
+          shape?: string
           status?: string
           table_number?: string
           updated_at?: string
+          width?: number
           zone?: string | null
+          zone_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_tables_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "floor_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_session_check_items: {
+        Row: {
+          amount: number
+          check_id: string
+          order_item_id: string
+        }
+        Insert: {
+          amount: number
+          check_id: string
+          order_item_id: string
+        }
+        Update: {
+          amount?: number
+          check_id?: string
+          order_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_session_check_items_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "table_session_checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "table_session_check_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: true
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_session_checks: {
+        Row: {
+          amount_received: number | null
+          change_given: number | null
+          created_at: string
+          id: string
+          label: string
+          paid_at: string | null
+          paid_by: string | null
+          payment_method: string | null
+          payment_reference: string | null
+          position: number
+          seat_number: number | null
+          service_charge: number
+          service_charge_rate: number
+          session_id: string
+          split_mode: string
+          status: string
+          subtotal: number
+          total_amount: number
+        }
+        Insert: {
+          amount_received?: number | null
+          change_given?: number | null
+          created_at?: string
+          id?: string
+          label: string
+          paid_at?: string | null
+          paid_by?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          position: number
+          seat_number?: number | null
+          service_charge?: number
+          service_charge_rate?: number
+          session_id: string
+          split_mode: string
+          status?: string
+          subtotal?: number
+          total_amount?: number
+        }
+        Update: {
+          amount_received?: number | null
+          change_given?: number | null
+          created_at?: string
+          id?: string
+          label?: string
+          paid_at?: string | null
+          paid_by?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          position?: number
+          seat_number?: number | null
+          service_charge?: number
+          service_charge_rate?: number
+          session_id?: string
+          split_mode?: string
+          status?: string
+          subtotal?: number
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_session_checks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_sessions: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          id: string
+          opened_at: string
+          opened_by: string | null
+          status: string
+          table_id: string
+          total_amount: number | null
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          opened_at?: string
+          opened_by?: string | null
+          status?: string
+          table_id: string
+          total_amount?: number | null
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          opened_at?: string
+          opened_by?: string | null
+          status?: string
+          table_id?: string
+          total_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_sessions_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -1144,15 +2216,188 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_entries: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          party_name: string
+          party_size: number
+          phone: string | null
+          quoted_wait_minutes: number
+          seated_at: string | null
+          status: string
+          table_id: string | null
+          table_session_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          party_name: string
+          party_size: number
+          phone?: string | null
+          quoted_wait_minutes: number
+          seated_at?: string | null
+          status?: string
+          table_id?: string | null
+          table_session_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          party_name?: string
+          party_size?: number
+          phone?: string | null
+          quoted_wait_minutes?: number
+          seated_at?: string | null
+          status?: string
+          table_id?: string | null
+          table_session_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_table_session_id_fkey"
+            columns: ["table_session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_waitlist_entry: {
+        Args: {
+          _party_name: string
+          _party_size: number
+          _phone?: string
+          _notes?: string
+        }
+        Returns: string
+      }
+      approve_bank_statement_matches: {
+        Args: { _import_id: string }
+        Returns: Json
+      }
+      assert_reservation_tables_available: {
+        Args: {
+          _table_ids: string[]
+          _party_size: number
+          _starts_at: string
+          _duration_minutes: number
+          _exclude_reservation_id?: string
+        }
+        Returns: undefined
+      }
+      bump_station_ticket: {
+        Args: { _ticket_id: string }
+        Returns: Database["public"]["Enums"]["station_ticket_status"]
+      }
+      calculate_delivery_fee: {
+        Args: { _delivery_address_id: string; _subtotal: number }
+        Returns: {
+          fee: number
+          distance_km: number
+          zone_id: string
+          zone_name: string
+        }[]
+      }
+      cancel_payment_intent: {
+        Args: { _intent_id: string }
+        Returns: undefined
+      }
+      close_table_session: {
+        Args: { _session_id: string }
+        Returns: number
+      }
+      complete_payment_intent: {
+        Args: {
+          _intent_id: string
+          _succeeded: boolean
+          _provider_reference?: string
+          _failure_reason?: string
+        }
+        Returns: string
+      }
+      compute_promo_discount: {
+        Args: { _code: string; _quoted_lines: Json }
+        Returns: {
+          promotion_id: string
+          promotion_name: string
+          discount: number
+        }[]
+      }
+      create_payment_intent: {
+        Args: {
+          _order_id: string
+          _provider_id: string
+          _amount: number
+          _currency?: string
+        }
+        Returns: string
+      }
+      create_reservation: {
+        Args: {
+          _customer_name: string
+          _customer_phone: string
+          _party_size: number
+          _starts_at: string
+          _duration_minutes?: number
+          _table_ids?: string[]
+          _notes?: string
+          _customer_email?: string
+        }
+        Returns: string
+      }
+      create_station_tickets: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      distance_km: {
+        Args: { _lat1: number; _lng1: number; _lat2: number; _lng2: number }
+        Returns: number
+      }
+      estimate_waitlist_wait: {
+        Args: { _party_size: number }
+        Returns: number
+      }
+      exchange_rate_on: {
+        Args: { _date?: string }
+        Returns: number
+      }
+      flag_payment_verification: {
+        Args: { _verification_id: string }
+        Returns: undefined
+      }
       generate_delivery_code: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_reservation_slots: {
+        Args: { _date: string; _party_size: number }
+        Returns: {
+          starts_at: string
+          available: boolean
+        }[]
+      }
       get_sales_stats: {
         Args: { start_date?: string; end_date?: string }
         Returns: {
@@ -1162,6 +2407,7 @@ export type Database = {
           top_selling_items: Json
           peak_hours: Json
           daily_sales: Json
+          sales_by_channel: Json
         }[]
       }
       has_role: {
@@ -1171,9 +2417,185 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_bank_statement: {
+        Args: {
+          _currency: string
+          _file_format: string
+          _file_name: string
+          _movements: Json
+          _payment_method_id: string
+        }
+        Returns: string
+      }
+      mark_table_available: {
+        Args: { _table_id: string }
+        Returns: undefined
+      }
+      normalize_payment_reference: {
+        Args: { _reference: string }
+        Returns: string
+      }
+      open_table_session: {
+        Args: { _table_id: string }
+        Returns: string
+      }
+      payment_amount_usd: {
+        Args: { _amount: number; _currency: string; _exchange_rate: number }
+        Returns: number
+      }
+      place_order: {
+        Args: {
+          _items: Json
+          _table_id?: string
+          _notes?: string
+          _promo_code?: string
+          _delivery_address_id?: string
+          _channel?: Database["public"]["Enums"]["order_channel"]
+          _payment_method?: string
+        }
+        Returns: string
+      }
+      quote_delivery_fee: {
+        Args: { _delivery_address_id?: string; _items: Json; _promo_code?: string }
+        Returns: {
+          fee: number
+          distance_km: number
+          zone_id: string
+          zone_name: string
+        }[]
+      }
+      quote_order_lines: {
+        Args: { _items: Json }
+        Returns: Json
+      }
+      record_cash_collection: {
+        Args: {
+          _order_id: string
+          _amount_received: number
+          _change_given?: number
+        }
+        Returns: string
+      }
+      record_payment_intent_refund: {
+        Args: { _intent_id: string; _amount: number }
+        Returns: string
+      }
+      refresh_order_payment: {
+        Args: { _order_id: string }
+        Returns: string
+      }
+      remove_waitlist_entry: {
+        Args: { _entry_id: string }
+        Returns: undefined
+      }
+      request_reservation: {
+        Args: {
+          _customer_name: string
+          _customer_phone: string
+          _party_size: number
+          _starts_at: string
+          _notes?: string
+          _customer_email?: string
+        }
+        Returns: string
+      }
+      resolve_dish_customizations: {
+        Args: { _dish_id: string; _customizations: Json }
+        Returns: {
+          optional_element_id: string
+          is_included: boolean
+          replacement_item_id: string
+          price_adjustment: number
+          is_explicit: boolean
+        }[]
+      }
+      review_payment_verification: {
+        Args: {
+          _verification_id: string
+          _approve: boolean
+          _rejection_reason?: string
+        }
+        Returns: string
+      }
+      seat_waitlist_entry: {
+        Args: { _entry_id: string; _table_id: string }
+        Returns: string
+      }
+      settle_driver_cash: {
+        Args: {
+          _driver_id: string
+          _handed_in_amount: number
+          _notes?: string
+        }
+        Returns: string
+      }
+      settle_table_check: {
+        Args: {
+          _check_id: string
+          _payment_method: string
+          _amount_received?: number
+          _payment_reference?: string
+        }
+        Returns: number
+      }
+      split_table_session: {
+        Args: {
+          _session_id: string
+          _mode: string
+          _guests?: number
+          _checks?: Json
+          _service_charge_rate?: number
+        }
+        Returns: number
+      }
+      suggest_reservation_tables: {
+        Args: {
+          _party_size: number
+          _starts_at: string
+          _duration_minutes?: number
+          _exclude_reservation_id?: string
+        }
+        Returns: {
+          table_ids: string[]
+          table_numbers: string[]
+          total_capacity: number
+        }[]
+      }
+      update_order_status: {
+        Args: {
+          _order_id: string
+          _status: Database["public"]["Enums"]["order_status"]
+          _reason?: string
+        }
+        Returns: undefined
+      }
+      update_reservation: {
+        Args: {
+          _reservation_id: string
+          _party_size: number
+          _starts_at: string
+          _duration_minutes: number
+          _table_ids: string[]
+          _notes?: string
+        }
+        Returns: undefined
+      }
+      update_reservation_status: {
+        Args: { _reservation_id: string; _status: string }
+        Returns: undefined
+      }
+      validate_promo_code: {
+        Args: { _code: string; _items: Json }
+        Returns: {
+          promotion_id: string
+          promotion_name: string
+          discount: number
+        }[]
+      }
     }
     Enums: {
-      app_role: "restaurant" | "cliente" | "delivery" | "mesero"
+      app_role: "restaurant" | "cliente" | "delivery" | "mesero" | "kitchen"
+      order_channel: "dine_in" | "delivery" | "pickup"
       order_status:
         | "pending"
         | "confirmed"
@@ -1181,6 +2603,7 @@ export type Database = {
         | "ready"
         | "delivered"
         | "cancelled"
+      station_ticket_status: "pending" | "preparing" | "ready"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1308,7 +2731,8 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["restaurant", "cliente", "delivery", "mesero"],
+      app_role: ["restaurant", "cliente", "delivery", "mesero", "kitchen"],
+      order_channel: ["dine_in", "delivery", "pickup"],
       order_status: [
         "pending",
         "confirmed",
@@ -1317,6 +2741,7 @@ export const Constants = {
         "delivered",
         "cancelled",
       ],
+      station_ticket_status: ["pending", "preparing", "ready"],
     },
   },
 } as const
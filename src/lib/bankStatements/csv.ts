@@ -0,0 +1,136 @@
+import { parseAmount, parseDate } from './values';
+import type { ParsedStatement, StatementMovement } from './types';
+
+// Header names used by the banks we reconcile against, lowercased and without accents
+const COLUMN_ALIASES = {
+  date: ['fecha', 'fecha valor', 'fecha operacion', 'date', 'posted date', 'transaction date'],
+  reference: ['referencia', 'ref', 'nro referencia', 'numero de referencia', 'reference', 'confirmation', 'confirmation number'],
+  amount: ['monto', 'importe', 'amount'],
+  credit: ['credito', 'creditos', 'abono', 'abonos', 'haber', 'credit'],
+  debit: ['debito', 'debitos', 'cargo', 'cargos', 'debe', 'debit'],
+  description: ['descripcion', 'concepto', 'detalle', 'description', 'memo']
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const normalizeHeader = (header: string) =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+// Pick the delimiter that splits the opening lines into the most columns
+const detectDelimiter = (text: string) => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 10);
+  const columnCount = (delimiter: string) => Math.max(0, ...lines.map(line => line.split(delimiter).length));
+
+  return [';', ',', '\t'].reduce((best, candidate) =>
+    columnCount(candidate) > columnCount(best) ? candidate : best
+  );
+};
+
+// Minimal RFC 4180 reader: quoted fields may contain delimiters, newlines and doubled quotes
+const readRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const findColumns = (headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<Column, number>> = {};
+
+  (Object.keys(COLUMN_ALIASES) as Column[]).forEach(column => {
+    const index = normalized.findIndex(header => COLUMN_ALIASES[column].includes(header));
+    if (index >= 0) columns[column] = index;
+  });
+
+  return columns;
+};
+
+export const parseCsvStatement = (text: string): ParsedStatement => {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = readRows(content, detectDelimiter(content));
+
+  // Some banks put account details above the table; the header is the first row naming a date column
+  const headerIndex = rows.findIndex(row => findColumns(row).date !== undefined);
+  if (headerIndex < 0) {
+    throw new Error('No se encontró la fila de encabezados (Fecha, Referencia, Monto)');
+  }
+
+  const columns = findColumns(rows[headerIndex]);
+  if (columns.reference === undefined || (columns.amount === undefined && columns.credit === undefined)) {
+    throw new Error('El archivo debe tener columnas de referencia y de monto o crédito');
+  }
+
+  const movements: StatementMovement[] = [];
+  let skipped = 0;
+
+  rows.slice(headerIndex + 1).forEach(row => {
+    const cell = (column: Column) => {
+      const index = columns[column];
+      return index === undefined ? '' : (row[index] || '').trim();
+    };
+
+    const date = parseDate(cell('date'));
+    let amount = columns.amount !== undefined ? parseAmount(cell('amount')) : null;
+    if (amount === null) {
+      const credit = parseAmount(cell('credit'));
+      const debit = parseAmount(cell('debit'));
+      amount = credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+    }
+
+    if (!date || amount === null || !cell('reference')) {
+      skipped++;
+      return;
+    }
+
+    movements.push({
+      date,
+      reference: cell('reference'),
+      amount,
+      description: cell('description')
+    });
+  });
+
+  return { format: 'csv', movements, skipped };
+};
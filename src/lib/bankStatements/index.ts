@@ -0,0 +1,16 @@
+import { parseCsvStatement } from './csv';
+import { parseOfxStatement } from './ofx';
+import type { ParsedStatement } from './types';
+
+export { parseCsvStatement } from './csv';
+export { parseOfxStatement } from './ofx';
+export { parseAmount, parseDate } from './values';
+export type { ParsedStatement, StatementFormat, StatementMovement } from './types';
+
+// Read a statement export, telling OFX from CSV by extension or by its header
+export const parseBankStatement = async (file: File): Promise<ParsedStatement> => {
+  const text = await file.text();
+  const isOfx = /\.(ofx|qfx)$/i.test(file.name) || /OFXHEADER|<OFX>/i.test(text.slice(0, 1000));
+
+  return isOfx ? parseOfxStatement(text) : parseCsvStatement(text);
+};
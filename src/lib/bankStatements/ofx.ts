@@ -0,0 +1,35 @@
+import { parseAmount, parseDate } from './values';
+import type { ParsedStatement, StatementMovement } from './types';
+
+// OFX 1.x is SGML and often leaves elements unclosed, so read each value up to the next tag
+const readTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+export const parseOfxStatement = (text: string): ParsedStatement => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  if (blocks.length === 0) {
+    throw new Error('El archivo OFX no contiene movimientos');
+  }
+
+  const movements: StatementMovement[] = [];
+  let skipped = 0;
+
+  blocks.forEach(block => {
+    const date = parseDate(readTag(block, 'DTPOSTED'));
+    const amount = parseAmount(readTag(block, 'TRNAMT'));
+    // Zelle confirmation codes usually travel in REFNUM or CHECKNUM; FITID is the bank's own id
+    const reference = readTag(block, 'REFNUM') || readTag(block, 'CHECKNUM') || readTag(block, 'FITID');
+    const description = [readTag(block, 'NAME'), readTag(block, 'MEMO')].filter(Boolean).join(' - ');
+
+    if (!date || amount === null || !reference) {
+      skipped++;
+      return;
+    }
+
+    movements.push({ date, reference, amount, description });
+  });
+
+  return { format: 'ofx', movements, skipped };
+};
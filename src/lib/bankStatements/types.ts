@@ -0,0 +1,17 @@
+export type StatementFormat = 'csv' | 'ofx';
+
+// One credit or debit line from a bank export, normalised across formats.
+// Amounts are signed: credits are positive, debits negative.
+export interface StatementMovement {
+  date: string; // YYYY-MM-DD
+  reference: string;
+  amount: number;
+  description: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  movements: StatementMovement[];
+  // Lines that looked like movements but could not be read
+  skipped: number;
+}
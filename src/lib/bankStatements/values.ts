@@ -0,0 +1,43 @@
+// Parse amounts written either as 1.234,56 (Venezuelan banks) or 1,234.56 (US exports)
+export const parseAmount = (raw: string): number | null => {
+  let value = raw.trim().replace(/[^\d.,()-]/g, '');
+  if (!value) return null;
+
+  const negative = value.startsWith('-') || value.endsWith('-') || (value.startsWith('(') && value.endsWith(')'));
+  value = value.replace(/[()-]/g, '');
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = Number(value);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Accepts YYYY-MM-DD, YYYYMMDD and day-first DD/MM/YYYY (or DD-MM-YY), as local banks export them
+export const parseDate = (raw: string): string | null => {
+  const value = raw.trim();
+
+  let match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) {
+    return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (match) {
+    const day = Number(match[1]);
+    const month = Number(match[2]);
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  return null;
+};
@@ -0,0 +1,32 @@
+// Prices are stored in USD; bolívares are derived from the usd_to_ves_rate in exchange_rates.
+
+const vesFormatter = new Intl.NumberFormat('es-VE', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+});
+
+export const toVES = (amountUsd: number, rate: number) => {
+  return Math.round(amountUsd * rate * 100) / 100;
+};
+
+export const formatUSD = (amountUsd: number) => {
+  return `$${amountUsd.toFixed(2)}`;
+};
+
+export const formatVES = (amountUsd: number, rate: number) => {
+  return `Bs. ${vesFormatter.format(toVES(amountUsd, rate))}`;
+};
+
+export type PaymentCurrency = 'USD' | 'VES';
+
+// Amount reported by the customer, in whichever currency they paid
+export const formatPaymentAmount = (amount: number, currency: string) => {
+  return currency === 'VES' ? `Bs. ${vesFormatter.format(amount)}` : formatUSD(amount);
+};
+
+// Same conversion as payment_amount_usd() in the database: bolívares at the order's frozen rate,
+// or null when the order has no rate and the payment can't be valued
+export const paymentAmountUSD = (amount: number, currency: string, rate?: number | null) => {
+  if (currency !== 'VES') return amount;
+  return rate ? Math.round((amount / rate) * 100) / 100 : null;
+};
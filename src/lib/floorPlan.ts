@@ -0,0 +1,59 @@
+import type { CSSProperties } from 'react';
+import type { FloorZone, TableShape } from '@/types/table';
+
+// Table positions snap to this many plan units
+export const GRID_SIZE = 10;
+
+export interface FloorPlanTable {
+  pos_x: number;
+  pos_y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  shape: TableShape;
+}
+
+export const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+// Keep a table's center inside its zone
+export const clampToZone = (table: Pick<FloorPlanTable, 'width' | 'height'>, zone: FloorZone, x: number, y: number) => ({
+  x: Math.min(Math.max(x, table.width / 2), zone.width - table.width / 2),
+  y: Math.min(Math.max(y, table.height / 2), zone.height - table.height / 2)
+});
+
+// Positions are stored as the table's center in plan units; the plan scales with its container
+export const tableBoxStyle = (table: FloorPlanTable, zone: FloorZone): CSSProperties => ({
+  position: 'absolute',
+  left: `${((table.pos_x - table.width / 2) / zone.width) * 100}%`,
+  top: `${((table.pos_y - table.height / 2) / zone.height) * 100}%`,
+  width: `${(table.width / zone.width) * 100}%`,
+  height: `${(table.height / zone.height) * 100}%`,
+  transform: table.rotation ? `rotate(${table.rotation}deg)` : undefined
+});
+
+// Where the chairs go around a table, as percentages of its box
+export const seatPositions = (shape: TableShape, seats: number) => {
+  if (seats <= 0) return [];
+
+  if (shape === 'round') {
+    return Array.from({ length: seats }, (_, index) => {
+      const angle = (index / seats) * 2 * Math.PI - Math.PI / 2;
+      return { left: 50 + 62 * Math.cos(angle), top: 50 + 62 * Math.sin(angle) };
+    });
+  }
+
+  const top = Math.ceil(seats / 2);
+  const bottom = seats - top;
+  const along = (count: number, index: number) => ((index + 1) / (count + 1)) * 100;
+
+  return [
+    ...Array.from({ length: top }, (_, index) => ({ left: along(top, index), top: -14 })),
+    ...Array.from({ length: bottom }, (_, index) => ({ left: along(bottom, index), top: 114 }))
+  ];
+};
+
+export const tableShapeClass: Record<TableShape, string> = {
+  square: 'rounded-md',
+  rectangle: 'rounded-md',
+  round: 'rounded-full'
+};
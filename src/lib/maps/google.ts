@@ -0,0 +1,159 @@
+import type { GeocodeResult, LatLng, MapHandle, MapProvider, MarkerHandle, MarkerOptions } from './types';
+
+let loadPromise: Promise<void> | null = null;
+
+const toLiteral = (position: LatLng): google.maps.LatLngLiteral => ({
+  lat: position.latitude,
+  lng: position.longitude
+});
+
+const fromLatLng = (latLng: google.maps.LatLng): LatLng => ({
+  latitude: latLng.lat(),
+  longitude: latLng.lng()
+});
+
+const pinIcon = (color: string): google.maps.Icon => ({
+  url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="${color}" width="24" height="24">
+      <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
+    </svg>
+  `),
+  scaledSize: new google.maps.Size(30, 30)
+});
+
+const extractCity = (result: google.maps.GeocoderResult) => {
+  const components = result.address_components || [];
+  const component = ['locality', 'administrative_area_level_2', 'administrative_area_level_1']
+    .map(type => components.find(c => c.types.includes(type)))
+    .find(Boolean);
+  return component?.long_name || '';
+};
+
+const toGeocodeResult = (result: google.maps.GeocoderResult): GeocodeResult => ({
+  position: fromLatLng(result.geometry.location),
+  address: result.formatted_address,
+  city: extractCity(result)
+});
+
+export const createGoogleMapProvider = (apiKey: string): MapProvider => ({
+  name: 'google',
+
+  load: () => {
+    if (window.google?.maps) return Promise.resolve();
+
+    if (!loadPromise) {
+      loadPromise = new Promise((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = `https://maps.googleapis.com/maps/api/js?key=${encodeURIComponent(apiKey)}`;
+        script.async = true;
+        script.onload = () => resolve();
+        script.onerror = () => {
+          loadPromise = null;
+          reject(new Error('No se pudo cargar Google Maps'));
+        };
+        document.head.appendChild(script);
+      });
+    }
+
+    return loadPromise;
+  },
+
+  createMap: (container, options): MapHandle => {
+    const map = new google.maps.Map(container, {
+      center: toLiteral(options.center),
+      zoom: options.zoom ?? 15,
+      styles: [
+        {
+          featureType: 'poi',
+          elementType: 'labels',
+          stylers: [{ visibility: 'off' }]
+        }
+      ]
+    });
+    let routeLine: google.maps.Polyline | null = null;
+
+    return {
+      setCenter: (position) => map.setCenter(toLiteral(position)),
+
+      onClick: (handler) => {
+        map.addListener('click', (event: { latLng: google.maps.LatLng }) => handler(fromLatLng(event.latLng)));
+      },
+
+      addMarker: (markerOptions: MarkerOptions): MarkerHandle => {
+        const marker = new google.maps.Marker({
+          position: toLiteral(markerOptions.position),
+          map,
+          title: markerOptions.title,
+          draggable: markerOptions.draggable,
+          icon: markerOptions.color ? pinIcon(markerOptions.color) : undefined
+        });
+
+        return {
+          setPosition: (position) => marker.setPosition(toLiteral(position)),
+          onDragEnd: (handler) => {
+            marker.addListener('dragend', (event: { latLng: google.maps.LatLng }) => handler(fromLatLng(event.latLng)));
+          },
+          remove: () => marker.setMap(null)
+        };
+      },
+
+      showRoute: (route) => {
+        if (!route) {
+          routeLine?.setMap(null);
+          routeLine = null;
+          return;
+        }
+
+        const path = route.path.map(toLiteral);
+        if (routeLine) {
+          routeLine.setPath(path);
+        } else {
+          routeLine = new google.maps.Polyline({ path, map, strokeColor: '#4F46E5', strokeWeight: 4 });
+        }
+      },
+
+      fitBounds: (points) => {
+        if (points.length === 0) return;
+        const bounds = new google.maps.LatLngBounds();
+        points.forEach(point => bounds.extend(toLiteral(point)));
+        map.fitBounds(bounds);
+      },
+
+      destroy: () => {
+        routeLine?.setMap(null);
+      }
+    };
+  },
+
+  geocode: async (query) => {
+    const response = await new google.maps.Geocoder().geocode({ address: query });
+    return response.results[0] ? toGeocodeResult(response.results[0]) : null;
+  },
+
+  reverseGeocode: async (position) => {
+    const response = await new google.maps.Geocoder().geocode({ location: toLiteral(position) });
+    return response.results[0] ? toGeocodeResult(response.results[0]) : null;
+  },
+
+  route: (from, to) => new Promise((resolve) => {
+    new google.maps.DirectionsService().route({
+      origin: toLiteral(from),
+      destination: toLiteral(to),
+      travelMode: google.maps.TravelMode.DRIVING
+    }, (result, status) => {
+      const route = status === 'OK' ? result.routes[0] : undefined;
+      if (!route) {
+        resolve(null);
+        return;
+      }
+
+      const distance = route.legs.reduce((total, leg) => total + (leg.distance?.value ?? 0), 0);
+      const duration = route.legs.reduce((total, leg) => total + (leg.duration?.value ?? 0), 0);
+      resolve({
+        path: route.overview_path.map(fromLatLng),
+        distanceKm: distance / 1000,
+        durationMinutes: Math.round(duration / 60)
+      });
+    });
+  })
+});
@@ -0,0 +1,51 @@
+import { createGoogleMapProvider } from './google';
+import { createLeafletMapProvider } from './leaflet';
+import type { LatLng, MapProvider } from './types';
+
+export type {
+  GeocodeResult,
+  LatLng,
+  MapHandle,
+  MapOptions,
+  MapProvider,
+  MarkerHandle,
+  MarkerOptions,
+  RouteResult
+} from './types';
+
+const env = import.meta.env;
+
+// Caracas, unless the deployment sets its own default
+export const DEFAULT_MAP_CENTER: LatLng = {
+  latitude: parseFloat(env.VITE_MAP_DEFAULT_LAT || '10.4806'),
+  longitude: parseFloat(env.VITE_MAP_DEFAULT_LNG || '-66.9036')
+};
+
+let provider: MapProvider | null = null;
+
+// Google is used only when explicitly chosen or when a key is configured; otherwise Leaflet/OSM
+export const getMapProvider = (): MapProvider => {
+  if (provider) return provider;
+
+  const googleKey = env.VITE_GOOGLE_MAPS_API_KEY;
+  const useGoogle = env.VITE_MAP_PROVIDER
+    ? env.VITE_MAP_PROVIDER === 'google'
+    : Boolean(googleKey);
+
+  if (useGoogle && googleKey) {
+    provider = createGoogleMapProvider(googleKey);
+  } else {
+    if (useGoogle) {
+      console.warn('VITE_MAP_PROVIDER=google requires VITE_GOOGLE_MAPS_API_KEY; falling back to Leaflet');
+    }
+
+    provider = createLeafletMapProvider({
+      tileUrl: env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+      tileAttribution: env.VITE_MAP_TILE_ATTRIBUTION || '&copy; OpenStreetMap contributors',
+      geocoderUrl: (env.VITE_GEOCODER_URL || 'https://nominatim.openstreetmap.org').replace(/\/$/, ''),
+      routingUrl: (env.VITE_ROUTING_URL || 'https://router.project-osrm.org').replace(/\/$/, '')
+    });
+  }
+
+  return provider;
+};
@@ -0,0 +1,153 @@
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { GeocodeResult, LatLng, MapHandle, MapProvider, MarkerHandle, MarkerOptions } from './types';
+
+export interface LeafletProviderConfig {
+  tileUrl: string;
+  tileAttribution: string;
+  geocoderUrl: string;
+  routingUrl: string;
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: Record<string, string | undefined>;
+}
+
+interface OsrmResponse {
+  code: string;
+  routes?: Array<{
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+  }>;
+}
+
+const toLatLng = (position: LatLng): L.LatLngTuple => [position.latitude, position.longitude];
+
+const fromLatLng = (latLng: L.LatLng): LatLng => ({
+  latitude: latLng.lat,
+  longitude: latLng.lng
+});
+
+// Inline SVG pins avoid Leaflet's default icon images, which bundlers do not resolve
+const pinIcon = (color: string) => L.divIcon({
+  className: '',
+  iconSize: [30, 30],
+  iconAnchor: [15, 30],
+  html: `
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="${color}" width="30" height="30">
+      <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
+    </svg>
+  `
+});
+
+const toGeocodeResult = (result: NominatimResult): GeocodeResult => {
+  const address = result.address || {};
+  return {
+    position: { latitude: parseFloat(result.lat), longitude: parseFloat(result.lon) },
+    address: result.display_name,
+    city: address.city || address.town || address.village || address.county || address.state || ''
+  };
+};
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} al consultar ${url}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+export const createLeafletMapProvider = (config: LeafletProviderConfig): MapProvider => ({
+  name: 'leaflet',
+
+  // Leaflet is bundled with the app, so there is nothing to fetch
+  load: () => Promise.resolve(),
+
+  createMap: (container, options): MapHandle => {
+    const map = L.map(container).setView(toLatLng(options.center), options.zoom ?? 15);
+    L.tileLayer(config.tileUrl, { attribution: config.tileAttribution, maxZoom: 19 }).addTo(map);
+    let routeLine: L.Polyline | null = null;
+
+    return {
+      setCenter: (position) => map.setView(toLatLng(position), map.getZoom()),
+
+      onClick: (handler) => {
+        map.on('click', (event: L.LeafletMouseEvent) => handler(fromLatLng(event.latlng)));
+      },
+
+      addMarker: (markerOptions: MarkerOptions): MarkerHandle => {
+        const marker = L.marker(toLatLng(markerOptions.position), {
+          title: markerOptions.title,
+          draggable: markerOptions.draggable,
+          icon: pinIcon(markerOptions.color || '#DC2626')
+        }).addTo(map);
+
+        return {
+          setPosition: (position) => marker.setLatLng(toLatLng(position)),
+          onDragEnd: (handler) => {
+            marker.on('dragend', () => handler(fromLatLng(marker.getLatLng())));
+          },
+          remove: () => marker.remove()
+        };
+      },
+
+      showRoute: (route) => {
+        if (!route) {
+          routeLine?.remove();
+          routeLine = null;
+          return;
+        }
+
+        const path = route.path.map(toLatLng);
+        if (routeLine) {
+          routeLine.setLatLngs(path);
+        } else {
+          routeLine = L.polyline(path, { color: '#4F46E5', weight: 4 }).addTo(map);
+        }
+      },
+
+      fitBounds: (points) => {
+        if (points.length === 0) return;
+        map.fitBounds(L.latLngBounds(points.map(toLatLng)), { padding: [40, 40] });
+      },
+
+      destroy: () => map.remove()
+    };
+  },
+
+  geocode: async (query) => {
+    const params = new URLSearchParams({ format: 'jsonv2', addressdetails: '1', limit: '1', q: query });
+    const results = await fetchJson<NominatimResult[]>(`${config.geocoderUrl}/search?${params}`);
+    return results[0] ? toGeocodeResult(results[0]) : null;
+  },
+
+  reverseGeocode: async (position) => {
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      addressdetails: '1',
+      lat: String(position.latitude),
+      lon: String(position.longitude)
+    });
+    const result = await fetchJson<NominatimResult | { error: string }>(`${config.geocoderUrl}/reverse?${params}`);
+    return 'error' in result ? null : toGeocodeResult(result);
+  },
+
+  route: async (from, to) => {
+    const coordinates = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+    const response = await fetchJson<OsrmResponse>(
+      `${config.routingUrl}/route/v1/driving/${coordinates}?overview=full&geometries=geojson`
+    );
+    const route = response.code === 'Ok' ? response.routes?.[0] : undefined;
+    if (!route) return null;
+
+    return {
+      path: route.geometry.coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+      distanceKm: route.distance / 1000,
+      durationMinutes: Math.round(route.duration / 60)
+    };
+  }
+});
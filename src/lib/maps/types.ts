@@ -0,0 +1,53 @@
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeResult {
+  position: LatLng;
+  address: string;
+  city: string;
+}
+
+export interface RouteResult {
+  path: LatLng[];
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface MarkerOptions {
+  position: LatLng;
+  title?: string;
+  draggable?: boolean;
+  color?: string;
+}
+
+export interface MarkerHandle {
+  setPosition: (position: LatLng) => void;
+  onDragEnd: (handler: (position: LatLng) => void) => void;
+  remove: () => void;
+}
+
+export interface MapHandle {
+  setCenter: (position: LatLng) => void;
+  onClick: (handler: (position: LatLng) => void) => void;
+  addMarker: (options: MarkerOptions) => MarkerHandle;
+  showRoute: (route: RouteResult | null) => void;
+  fitBounds: (points: LatLng[]) => void;
+  destroy: () => void;
+}
+
+export interface MapOptions {
+  center: LatLng;
+  zoom?: number;
+}
+
+// A map backend: renders interactive maps and answers geocoding and routing queries
+export interface MapProvider {
+  name: 'google' | 'leaflet';
+  load: () => Promise<void>;
+  createMap: (container: HTMLElement, options: MapOptions) => MapHandle;
+  geocode: (query: string) => Promise<GeocodeResult | null>;
+  reverseGeocode: (position: LatLng) => Promise<GeocodeResult | null>;
+  route: (from: LatLng, to: LatLng) => Promise<RouteResult | null>;
+}
@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Json } from '@/integrations/supabase/types';
+import type { CartItem } from '@/hooks/useCart';
+import type { OrderPaymentMethod } from '@/types/payment';
+
+export type OrderChannel = Enums<'order_channel'>;
+
+export interface OrderLineCustomization {
+  optional_element_id: string;
+  is_included: boolean;
+  replacement_item_id: string | null;
+}
+
+export interface OrderLine {
+  menu_item_id?: string;
+  composite_dish_id?: string;
+  quantity: number;
+  customizations?: OrderLineCustomization[];
+}
+
+// Convert cart items into the payload expected by the place_order RPC.
+// Prices are intentionally left out: the server recomputes them.
+export const buildOrderLines = (items: CartItem[]): OrderLine[] => {
+  return items.map((item) => {
+    if (item.type === 'menu_item') {
+      return { menu_item_id: item.menuItemId, quantity: item.quantity };
+    }
+
+    return {
+      composite_dish_id: item.dishId,
+      quantity: item.quantity,
+      customizations: item.customizations.map((custom) => ({
+        optional_element_id: custom.optionalElementId,
+        is_included: custom.isIncluded,
+        replacement_item_id: custom.replacementItemId
+      }))
+    };
+  });
+};
+
+// Place an order through the atomic place_order RPC and return the new order ID.
+export const placeOrder = async ({
+  items,
+  tableId,
+  notes,
+  promoCode,
+  deliveryAddressId,
+  channel,
+  paymentMethod
+}: {
+  items: CartItem[];
+  tableId?: string;
+  notes?: string;
+  promoCode?: string | null;
+  deliveryAddressId?: string | null;
+  channel?: OrderChannel;
+  paymentMethod?: OrderPaymentMethod;
+}) => {
+  if (!items || items.length === 0) {
+    throw new Error('No hay items en el pedido');
+  }
+
+  const { data: orderId, error } = await supabase.rpc('place_order', {
+    _items: buildOrderLines(items) as unknown as Json,
+    _table_id: tableId,
+    _notes: notes,
+    _promo_code: promoCode ?? undefined,
+    _delivery_address_id: deliveryAddressId ?? undefined,
+    _channel: channel,
+    _payment_method: paymentMethod
+  });
+
+  if (error) throw error;
+  return orderId;
+};
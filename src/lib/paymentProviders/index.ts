@@ -0,0 +1,27 @@
+import { manualPaymentProvider } from './manual';
+import { sandboxPaymentProvider } from './sandbox';
+import type { PaymentProviderId } from './types';
+
+export type {
+  CheckoutKind,
+  CreateIntentInput,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentProviderId
+} from './types';
+export type { ManualPaymentDetails } from './manual';
+export type { SandboxConfirmDetails, SandboxOutcome } from './sandbox';
+export { manualPaymentProvider, sandboxPaymentProvider };
+
+// Which providers are offered is configured in payment_providers; this maps each row to its code
+const providers = {
+  manual: manualPaymentProvider,
+  sandbox: sandboxPaymentProvider
+};
+
+export const isPaymentProviderId = (id: string): id is PaymentProviderId => id in providers;
+
+export const getPaymentProvider = (id: string) => {
+  return isPaymentProviderId(id) ? providers[id] : null;
+};
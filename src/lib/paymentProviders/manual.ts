@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PaymentIntent, PaymentProvider } from './types';
+
+export interface ManualPaymentDetails {
+  // Receiving account the customer paid into, used to reconcile bank statements
+  paymentMethodId: string;
+  paymentMethodType: string;
+  originBank: string;
+  phoneNumberUsed?: string;
+  referenceNumber: string;
+  proofFile: File;
+}
+
+// Proofs go in a private bucket under the order's folder; staff open them through signed URLs
+const uploadPaymentProof = async (orderId: string, file: File): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${orderId}/${Date.now()}.${fileExt}`;
+
+  const { data, error } = await supabase.storage
+    .from('payment-proofs')
+    .upload(filePath, file);
+
+  if (error) {
+    throw new Error('Error al subir el comprobante: ' + error.message);
+  }
+
+  return data.path;
+};
+
+// Transfers and Pago Móvil made outside the app. There is no gateway intent: the draft only
+// carries the amount, and confirming it files a manual_payment_verification with the same id
+// that staff approve or reject.
+export const manualPaymentProvider: PaymentProvider<ManualPaymentDetails> = {
+  id: 'manual',
+  checkout: 'proof_upload',
+  supportsRefunds: false,
+
+  createIntent: async ({ orderId, amount, currency }) => {
+    const now = new Date().toISOString();
+
+    return {
+      id: crypto.randomUUID(),
+      order_id: orderId,
+      provider_id: 'manual',
+      amount,
+      currency,
+      status: 'requires_confirmation',
+      refunded_amount: 0,
+      provider_reference: null,
+      failure_reason: null,
+      created_at: now,
+      updated_at: now
+    };
+  },
+
+  confirm: async (intent, details): Promise<PaymentIntent> => {
+    const proofPath = await uploadPaymentProof(intent.order_id, details.proofFile);
+
+    // Filed by the function so the proof hash is taken from the stored file, not from the browser
+    const { error } = await supabase.functions.invoke('submit-payment-proof', {
+      body: {
+        id: intent.id,
+        order_id: intent.order_id,
+        payment_method_id: details.paymentMethodId,
+        payment_method_type: details.paymentMethodType,
+        origin_bank: details.originBank,
+        phone_number_used: details.phoneNumberUsed,
+        amount_paid: intent.amount,
+        amount_currency: intent.currency,
+        reference_number: details.referenceNumber,
+        payment_proof_path: proofPath
+      }
+    });
+
+    if (error) {
+      // The function answers { error } with the reason, e.g. the order was already paid
+      const reason = await error.context?.json?.().then((body: { error?: string }) => body.error).catch(() => null);
+      throw new Error(reason ?? error.message);
+    }
+
+    return {
+      ...intent,
+      status: 'processing',
+      provider_reference: details.referenceNumber,
+      updated_at: new Date().toISOString()
+    };
+  },
+
+  refund: async () => {
+    throw new Error('Los pagos manuales se devuelven por fuera de la app');
+  }
+};
@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PaymentIntent, PaymentProvider } from './types';
+
+// success and failure settle right away; delayed stays processing for the configured delay
+export type SandboxOutcome = 'success' | 'failure' | 'delayed';
+
+export interface SandboxConfirmDetails {
+  outcome: SandboxOutcome;
+}
+
+const fetchIntent = async (intentId: string) => {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select('*')
+    .eq('id', intentId)
+    .single();
+
+  if (error) throw error;
+  return data as PaymentIntent;
+};
+
+const invokeSandbox = async (body: Record<string, unknown>) => {
+  const { error } = await supabase.functions.invoke('sandbox-payments', { body });
+  if (error) throw error;
+};
+
+// Local stand-in for a card gateway. The sandbox-payments function plays the gateway and
+// reports back through payment-webhook, exactly like a real provider would.
+export const sandboxPaymentProvider: PaymentProvider<SandboxConfirmDetails> = {
+  id: 'sandbox',
+  checkout: 'simulated',
+  supportsRefunds: true,
+
+  createIntent: async ({ orderId, amount, currency }) => {
+    const { data: intentId, error } = await supabase.rpc('create_payment_intent', {
+      _order_id: orderId,
+      _provider_id: 'sandbox',
+      _amount: amount,
+      _currency: currency
+    });
+
+    if (error) throw error;
+    return fetchIntent(intentId);
+  },
+
+  confirm: async (intent, { outcome }) => {
+    await invokeSandbox({ action: 'confirm', intent_id: intent.id, outcome });
+    return fetchIntent(intent.id);
+  },
+
+  refund: async (intent, amount) => {
+    await invokeSandbox({ action: 'refund', intent_id: intent.id, amount });
+  }
+};
@@ -0,0 +1,40 @@
+import type { PaymentCurrency } from '@/lib/currency';
+
+export type PaymentProviderId = 'manual' | 'sandbox';
+
+export type PaymentIntentStatus = 'requires_confirmation' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+// A charge against one provider for part or all of an order's balance
+export interface PaymentIntent {
+  id: string;
+  order_id: string;
+  provider_id: PaymentProviderId;
+  amount: number;
+  currency: PaymentCurrency;
+  status: PaymentIntentStatus;
+  refunded_amount: number;
+  provider_reference: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateIntentInput {
+  orderId: string;
+  amount: number;
+  currency: PaymentCurrency;
+}
+
+// How checkout collects the payment: the customer uploads a proof, or picks a simulated outcome
+export type CheckoutKind = 'proof_upload' | 'simulated';
+
+// A payment backend. Settlement always happens server side: manual payments when staff
+// approve the proof, gateway payments when their webhook reaches payment-webhook.
+export interface PaymentProvider<TConfirmDetails = unknown> {
+  id: PaymentProviderId;
+  checkout: CheckoutKind;
+  supportsRefunds: boolean;
+  createIntent: (input: CreateIntentInput) => Promise<PaymentIntent>;
+  confirm: (intent: PaymentIntent, details: TConfirmDetails) => Promise<PaymentIntent>;
+  refund: (intent: PaymentIntent, amount: number) => Promise<void>;
+}
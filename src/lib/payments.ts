@@ -0,0 +1,65 @@
+import { paymentAmountUSD } from '@/lib/currency';
+
+export interface OrderBalanceSource {
+  total_amount: number;
+  amount_paid: number;
+  exchange_rate: number | null;
+}
+
+export interface SubmittedPayment {
+  amount_paid: number;
+  amount_currency: string;
+  status: string;
+}
+
+export interface SubmittedIntent {
+  amount: number;
+  currency: string;
+  status: string;
+  updated_at: string;
+}
+
+export interface OrderBalance {
+  approved: number;
+  pending: number;
+  remaining: number;
+  outstanding: number;
+}
+
+// A payment is considered covered within a cent, like the fraud checks in the database
+export const BALANCE_TOLERANCE = 0.01;
+
+// Same window as create_payment_intent: a charge the gateway hasn't settled by then is
+// marked failed on the next attempt, so it no longer holds part of the balance
+export const INTENT_EXPIRY_MINUTES = 15;
+
+export const isIntentInFlight = (intent: SubmittedIntent, now = Date.now()) =>
+  (intent.status === 'requires_confirmation' || intent.status === 'processing') &&
+  now - new Date(intent.updated_at).getTime() < INTENT_EXPIRY_MINUTES * 60 * 1000;
+
+// Running balance of an order paid in several parts, all in USD.
+// approved comes from orders.amount_paid (kept by refresh_order_payment), pending is what is
+// still under review or at a gateway, and outstanding is what nobody has sent yet.
+export const summarizeOrderBalance = (
+  order: OrderBalanceSource,
+  payments: SubmittedPayment[] = [],
+  intents: SubmittedIntent[] = []
+): OrderBalance => {
+  const pendingManual = payments
+    .filter((payment) => payment.status === 'pending')
+    .reduce((sum, payment) => sum + (paymentAmountUSD(payment.amount_paid, payment.amount_currency, order.exchange_rate) ?? 0), 0);
+  const pendingIntents = intents
+    .filter((intent) => isIntentInFlight(intent))
+    .reduce((sum, intent) => sum + (paymentAmountUSD(intent.amount, intent.currency, order.exchange_rate) ?? 0), 0);
+  const pending = pendingManual + pendingIntents;
+
+  const remaining = Math.max(0, order.total_amount - order.amount_paid);
+  const outstanding = Math.max(0, remaining - pending);
+
+  return {
+    approved: order.amount_paid,
+    pending,
+    remaining,
+    outstanding: outstanding < BALANCE_TOLERANCE ? 0 : Math.round(outstanding * 100) / 100
+  };
+};
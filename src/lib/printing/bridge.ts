@@ -0,0 +1,45 @@
+import type { PrintKind } from './types';
+
+// Send raw ESC/POS bytes to the local print bridge, which forwards them to the
+// printer configured for the given kind (kitchen or receipt)
+export const sendToPrintBridge = async (bridgeUrl: string, kind: PrintKind, bytes: Uint8Array) => {
+  const response = await fetch(`${bridgeUrl.replace(/\/$/, '')}/print?printer=${kind}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: bytes
+  });
+
+  if (!response.ok) {
+    throw new Error(`El puente de impresión respondió ${response.status}`);
+  }
+};
+
+// Print an HTML page through the browser dialog using a hidden iframe
+export const printHtml = (html: string) =>
+  new Promise<void>((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      reject(new Error('No se pudo abrir la vista de impresión'));
+      return;
+    }
+
+    frameWindow.document.open();
+    frameWindow.document.write(html);
+    frameWindow.document.close();
+
+    // print() blocks until the dialog closes in most browsers
+    setTimeout(() => {
+      frameWindow.focus();
+      frameWindow.print();
+      frame.remove();
+      resolve();
+    }, 100);
+  });
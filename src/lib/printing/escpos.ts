@@ -0,0 +1,93 @@
+import { LINE_WIDTH, formatColumns, wrapText } from './layout';
+import type { PaperWidth, PrintAlign, PrintDocument } from './types';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const COMMANDS = {
+  init: [ESC, 0x40],
+  // Code page 2 = PC850 (Multilingual Latin I), which covers Spanish
+  codePage: [ESC, 0x74, 2],
+  boldOn: [ESC, 0x45, 1],
+  boldOff: [ESC, 0x45, 0],
+  largeOn: [GS, 0x21, 0x11],
+  largeOff: [GS, 0x21, 0x00],
+  // Feed to the cutter and make a partial cut
+  cut: [GS, 0x56, 0x42, 0x00]
+};
+
+const ALIGN: Record<PrintAlign, number[]> = {
+  left: [ESC, 0x61, 0],
+  center: [ESC, 0x61, 1],
+  right: [ESC, 0x61, 2]
+};
+
+const PC850: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'ä': 0x84, 'à': 0x85, 'ç': 0x87,
+  'ê': 0x88, 'ë': 0x89, 'è': 0x8a, 'ï': 0x8b, 'î': 0x8c, 'ì': 0x8d, 'Ä': 0x8e,
+  'É': 0x90, 'ô': 0x93, 'ö': 0x94, 'ò': 0x95, 'û': 0x96, 'ù': 0x97, 'Ö': 0x99,
+  'Ü': 0x9a, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ñ': 0xa4, 'Ñ': 0xa5,
+  'ª': 0xa6, 'º': 0xa7, '¿': 0xa8, '¡': 0xad, 'Á': 0xb5, 'Â': 0xb6, 'À': 0xb7,
+  'Ê': 0xd2, 'Í': 0xd6, 'Ó': 0xe0, 'Ú': 0xe9, '°': 0xf8,
+  // PC850 has no printable arrow (0x1a is the SUB control code)
+  '→': 0x3e
+};
+
+// Encode text for the PC850 code page; anything it cannot print becomes '?'
+export const encodeText = (text: string): number[] => {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+    } else {
+      bytes.push(PC850[char] ?? 0x3f);
+    }
+  }
+
+  return bytes;
+};
+
+// Render a print document as an ESC/POS byte stream, ending with a cut
+export const renderEscPos = (document: PrintDocument, paperWidth: PaperWidth): Uint8Array => {
+  const width = LINE_WIDTH[paperWidth];
+  const bytes: number[] = [...COMMANDS.init, ...COMMANDS.codePage];
+
+  const pushLine = (text: string) => {
+    bytes.push(...encodeText(text), LF);
+  };
+
+  for (const line of document.lines) {
+    switch (line.type) {
+      case 'text': {
+        bytes.push(...ALIGN[line.align || 'left']);
+        if (line.bold) bytes.push(...COMMANDS.boldOn);
+        if (line.large) bytes.push(...COMMANDS.largeOn);
+        // Double-size characters take twice the width
+        wrapText(line.text, line.large ? Math.floor(width / 2) : width).forEach(pushLine);
+        if (line.large) bytes.push(...COMMANDS.largeOff);
+        if (line.bold) bytes.push(...COMMANDS.boldOff);
+        break;
+      }
+      case 'columns': {
+        bytes.push(...ALIGN.left);
+        if (line.bold) bytes.push(...COMMANDS.boldOn);
+        formatColumns(line.left, line.right, width).forEach(pushLine);
+        if (line.bold) bytes.push(...COMMANDS.boldOff);
+        break;
+      }
+      case 'divider':
+        bytes.push(...ALIGN.left);
+        pushLine('-'.repeat(width));
+        break;
+      case 'feed':
+        for (let i = 0; i < line.lines; i++) bytes.push(LF);
+        break;
+    }
+  }
+
+  bytes.push(LF, LF, LF, ...COMMANDS.cut);
+  return Uint8Array.from(bytes);
+};
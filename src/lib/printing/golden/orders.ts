@@ -0,0 +1,76 @@
+import type { PrintableOrder } from '../types';
+
+// Fixed orders rendered into the golden ESC/POS files; change them only together with the .bin files
+export const goldenDineInOrder: PrintableOrder = {
+  id: '5f3c2a10-7d4e-4b8a-9c61-0e2f4a7b9d3e',
+  channel: 'dine_in',
+  created_at: '2025-07-14T23:45:00.000Z',
+  notes: 'Alergia al maní, sin cebolla en nada',
+  total_amount: 27.5,
+  delivery_fee: 0,
+  discount_amount: 0,
+  exchange_rate: null,
+  restaurant_table: { table_number: '12' },
+  order_items: [
+    {
+      id: 'item-1',
+      quantity: 2,
+      total_price: 17,
+      composite_dishes: { name: 'Hamburguesa de la casa con papas rústicas' },
+      order_dish_customizations: [
+        {
+          id: 'custom-1',
+          is_included: false,
+          dish_optional_elements: { menu_items: { name: 'Cebolla caramelizada' } }
+        },
+        {
+          id: 'custom-2',
+          is_included: true,
+          replacement_item_id: 'menu-9',
+          dish_optional_elements: { menu_items: { name: 'Papas rústicas' } },
+          replacement_menu_items: { name: 'Ensalada' }
+        }
+      ]
+    },
+    {
+      id: 'item-2',
+      quantity: 1,
+      total_price: 10.5,
+      menu_items: { name: 'Jugo de parchita' }
+    }
+  ]
+};
+
+export const goldenDeliveryOrder: PrintableOrder = {
+  id: 'a81b4c77-2e90-4f1d-8b35-6c09d1e2f4a8',
+  channel: 'delivery',
+  created_at: '2025-07-15T16:05:00.000Z',
+  notes: null,
+  total_amount: 24,
+  delivery_fee: 3.5,
+  discount_amount: 2,
+  exchange_rate: 117.35,
+  profiles: { full_name: 'María José Peña' },
+  delivery_addresses: { street_address: 'Av. Francisco de Miranda, Edif. Ñaraulí, piso 4', city: 'Caracas' },
+  order_items: [
+    {
+      id: 'item-3',
+      quantity: 1,
+      total_price: 14.5,
+      composite_dishes: { name: 'Pabellón criollo' },
+      order_dish_customizations: [
+        {
+          id: 'custom-3',
+          is_included: true,
+          dish_optional_elements: { menu_items: { name: 'Tajadas' } }
+        }
+      ]
+    },
+    {
+      id: 'item-4',
+      quantity: 2,
+      total_price: 8,
+      menu_items: { name: 'Tequeños' }
+    }
+  ]
+};
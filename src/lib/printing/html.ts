@@ -0,0 +1,53 @@
+import { LINE_WIDTH, formatColumns, wrapText } from './layout';
+import type { PaperWidth, PrintDocument } from './types';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Render a print document as a standalone HTML page sized for the thermal roll,
+// laid out with the same monospace line widths as the ESC/POS output
+export const renderHtml = (document: PrintDocument, paperWidth: PaperWidth): string => {
+  const width = LINE_WIDTH[paperWidth];
+
+  const body = document.lines.map((line) => {
+    switch (line.type) {
+      case 'text': {
+        const lines = wrapText(line.text, line.large ? Math.floor(width / 2) : width);
+        const classes = [`align-${line.align || 'left'}`, line.bold ? 'bold' : '', line.large ? 'large' : '']
+          .filter(Boolean)
+          .join(' ');
+        return `<div class="${classes}">${lines.map(escapeHtml).join('<br>')}</div>`;
+      }
+      case 'columns':
+        return `<div class="${line.bold ? 'bold' : ''}">${formatColumns(line.left, line.right, width).map(escapeHtml).join('<br>')}</div>`;
+      case 'divider':
+        return `<div>${'-'.repeat(width)}</div>`;
+      case 'feed':
+        return '<br>'.repeat(line.lines);
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.title)}</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { margin: 0; padding: 2mm; width: ${paperWidth - 4}mm; font-family: 'Courier New', monospace; font-size: ${paperWidth === 58 ? 10 : 11}px; line-height: 1.3; }
+  div { white-space: pre; }
+  .align-center { text-align: center; }
+  .align-right { text-align: right; }
+  .bold { font-weight: bold; }
+  .large { font-size: 2em; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
@@ -0,0 +1,43 @@
+import { printHtml, sendToPrintBridge } from './bridge';
+import { renderEscPos } from './escpos';
+import { renderHtml } from './html';
+import { buildKitchenTicket, buildReceipt, buildTableBill } from './tickets';
+import type { PaperWidth, PrintDocument, PrintKind, PrintableOrder, PrintableTableSession } from './types';
+
+export { encodeText, renderEscPos } from './escpos';
+export { renderHtml } from './html';
+export { buildKitchenTicket, buildReceipt, buildTableBill } from './tickets';
+export type { TicketOptions } from './tickets';
+export type { PaperWidth, PrintDocument, PrintKind, PrintLine, PrintableOrder, PrintableTableSession } from './types';
+
+const env = import.meta.env;
+
+export const PAPER_WIDTH: PaperWidth = env.VITE_PRINTER_PAPER_WIDTH === '58' ? 58 : 80;
+
+const builders = {
+  kitchen: buildKitchenTicket,
+  receipt: buildReceipt
+};
+
+// Print through the local bridge when one is configured; if it is missing or
+// unreachable, fall back to the browser print dialog
+const printDocument = async (document: PrintDocument, kind: PrintKind): Promise<'bridge' | 'html'> => {
+  const bridgeUrl = env.VITE_PRINT_BRIDGE_URL;
+
+  if (bridgeUrl) {
+    try {
+      await sendToPrintBridge(bridgeUrl, kind, renderEscPos(document, PAPER_WIDTH));
+      return 'bridge';
+    } catch (error) {
+      console.warn('Print bridge unavailable, falling back to browser printing:', error);
+    }
+  }
+
+  await printHtml(renderHtml(document, PAPER_WIDTH));
+  return 'html';
+};
+
+export const printOrder = (order: PrintableOrder, kind: PrintKind) => printDocument(builders[kind](order), kind);
+
+// Table bills go to the receipt printer
+export const printTableBill = (session: PrintableTableSession) => printDocument(buildTableBill(session), 'receipt');
@@ -0,0 +1,56 @@
+import type { PaperWidth } from './types';
+
+// Characters per line in the printer's default font (font A)
+export const LINE_WIDTH: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48
+};
+
+// Break text into lines of at most `width` characters, splitting long words if needed.
+// Leading indentation is kept on every wrapped line.
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    const indent = paragraph.match(/^ */)?.[0] || '';
+    const lineWidth = Math.max(1, width - indent.length);
+    const paragraphLines: string[] = [];
+    let current = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let remaining = word;
+
+      while (remaining.length > lineWidth) {
+        if (current) {
+          paragraphLines.push(current);
+          current = '';
+        }
+        paragraphLines.push(remaining.slice(0, lineWidth));
+        remaining = remaining.slice(lineWidth);
+      }
+
+      if (!current) {
+        current = remaining;
+      } else if (current.length + 1 + remaining.length <= lineWidth) {
+        current += ' ' + remaining;
+      } else {
+        paragraphLines.push(current);
+        current = remaining;
+      }
+    }
+
+    paragraphLines.push(current);
+    lines.push(...paragraphLines.map(line => indent + line));
+  }
+
+  return lines;
+};
+
+// Left text and right text on one line; the left side wraps when both do not fit
+export const formatColumns = (left: string, right: string, width: number): string[] => {
+  const leftWidth = Math.max(1, width - right.length - 1);
+  const leftLines = wrapText(left, leftWidth);
+  const last = leftLines.pop() || '';
+
+  return [...leftLines, last + ' '.repeat(Math.max(1, width - last.length - right.length)) + right];
+};
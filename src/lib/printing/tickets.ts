@@ -0,0 +1,196 @@
+import { formatPaymentAmount, formatUSD, formatVES, toVES } from '@/lib/currency';
+import type { PrintDocument, PrintLine, PrintableOrder, PrintableTableSession } from './types';
+
+export interface TicketOptions {
+  businessName?: string;
+  timeZone?: string;
+}
+
+type PrintableItem = NonNullable<PrintableOrder['order_items']>[number];
+type PrintableCustomization = NonNullable<PrintableItem['order_dish_customizations']>[number];
+
+const channelLabels: Record<PrintableOrder['channel'], string> = {
+  dine_in: 'Mesa',
+  delivery: 'Delivery',
+  pickup: 'Para Retirar'
+};
+
+const DEFAULT_OPTIONS: Required<TicketOptions> = {
+  businessName: 'Flamas',
+  timeZone: 'America/Caracas'
+};
+
+const formatDateTime = (isoDate: string, timeZone: string) =>
+  new Intl.DateTimeFormat('es-VE', {
+    timeZone,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).format(new Date(isoDate));
+
+const shortId = (order: PrintableOrder) => order.id.slice(-6).toUpperCase();
+
+const channelLine = (order: PrintableOrder) =>
+  order.channel === 'dine_in' && order.restaurant_table
+    ? `${channelLabels.dine_in} ${order.restaurant_table.table_number}`
+    : channelLabels[order.channel];
+
+const itemName = (item: PrintableItem) =>
+  item.menu_items?.name || item.composite_dishes?.name || 'Producto';
+
+const describeCustomization = (customization: PrintableCustomization) => {
+  const elementName = customization.dish_optional_elements?.menu_items?.name || 'Elemento';
+
+  if (!customization.is_included) return `SIN ${elementName}`;
+  if (customization.replacement_item_id) {
+    return `${elementName} → ${customization.replacement_menu_items?.name || 'Reemplazo'}`;
+  }
+  return `CON ${elementName}`;
+};
+
+const customizationLines = (item: PrintableItem, bold: boolean): PrintLine[] =>
+  (item.order_dish_customizations || []).map((customization) => ({
+    type: 'text',
+    text: `   ${describeCustomization(customization)}`,
+    bold
+  }));
+
+// Ticket for the kitchen: large order number and channel, items with their
+// customizations and the order notes. No prices.
+export const buildKitchenTicket = (order: PrintableOrder, options: TicketOptions = {}): PrintDocument => {
+  const { timeZone } = { ...DEFAULT_OPTIONS, ...options };
+
+  const lines: PrintLine[] = [
+    { type: 'text', text: `#${shortId(order)}`, align: 'center', bold: true, large: true },
+    { type: 'text', text: channelLine(order), align: 'center', bold: true, large: true },
+    { type: 'text', text: formatDateTime(order.created_at, timeZone), align: 'center' },
+    { type: 'divider' }
+  ];
+
+  for (const item of order.order_items || []) {
+    lines.push({ type: 'text', text: `${item.quantity}x ${itemName(item)}`, bold: true });
+    lines.push(...customizationLines(item, true));
+  }
+
+  if (order.notes) {
+    lines.push({ type: 'divider' });
+    lines.push({ type: 'text', text: `NOTA: ${order.notes}`, bold: true });
+  }
+
+  return { title: `Cocina #${shortId(order)}`, lines };
+};
+
+// Customer receipt: items with prices, discount, delivery fee and the total
+// in USD and, when the order has a rate, in bolívares
+export const buildReceipt = (order: PrintableOrder, options: TicketOptions = {}): PrintDocument => {
+  const { businessName, timeZone } = { ...DEFAULT_OPTIONS, ...options };
+  const deliveryFee = order.delivery_fee || 0;
+  const discount = order.discount_amount || 0;
+  const subtotal = order.total_amount - deliveryFee + discount;
+
+  const lines: PrintLine[] = [
+    { type: 'text', text: businessName, align: 'center', bold: true, large: true },
+    { type: 'text', text: `Pedido #${shortId(order)}`, align: 'center' },
+    { type: 'text', text: formatDateTime(order.created_at, timeZone), align: 'center' },
+    { type: 'text', text: channelLine(order), align: 'center' }
+  ];
+
+  if (order.profiles?.full_name) {
+    lines.push({ type: 'text', text: `Cliente: ${order.profiles.full_name}` });
+  }
+  if (order.channel === 'delivery' && order.delivery_addresses) {
+    lines.push({
+      type: 'text',
+      text: `Dirección: ${order.delivery_addresses.street_address}, ${order.delivery_addresses.city}`
+    });
+  }
+
+  lines.push({ type: 'divider' });
+
+  for (const item of order.order_items || []) {
+    lines.push({ type: 'columns', left: `${item.quantity}x ${itemName(item)}`, right: formatUSD(item.total_price) });
+    lines.push(...customizationLines(item, false));
+  }
+
+  lines.push({ type: 'divider' });
+  lines.push({ type: 'columns', left: 'Subtotal', right: formatUSD(subtotal) });
+  if (discount > 0) {
+    lines.push({ type: 'columns', left: 'Descuento', right: `-${formatUSD(discount)}` });
+  }
+  if (deliveryFee > 0) {
+    lines.push({ type: 'columns', left: 'Envío', right: formatUSD(deliveryFee) });
+  }
+  lines.push({ type: 'columns', left: 'TOTAL', right: formatUSD(order.total_amount), bold: true });
+  if (order.exchange_rate) {
+    lines.push({ type: 'columns', left: 'Total Bs.', right: formatVES(order.total_amount, order.exchange_rate), bold: true });
+    lines.push({ type: 'text', text: `Tasa: ${order.exchange_rate.toFixed(2)} Bs/USD`, align: 'right' });
+  }
+
+  lines.push({ type: 'feed', lines: 1 });
+  lines.push({ type: 'text', text: '¡Gracias por su compra!', align: 'center' });
+
+  return { title: `Recibo #${shortId(order)}`, lines };
+};
+
+// Consolidated bill for a table's tab: identical lines across rounds are merged,
+// followed by the total of all rounds that were not cancelled
+export const buildTableBill = (session: PrintableTableSession, options: TicketOptions = {}): PrintDocument => {
+  const { businessName, timeZone } = { ...DEFAULT_OPTIONS, ...options };
+  const rounds = session.rounds;
+  const billId = session.id.slice(-6).toUpperCase();
+
+  const merged = new Map<string, { label: string; quantity: number; total: number; details: string[] }>();
+  for (const round of rounds) {
+    for (const item of round.order_items || []) {
+      const details = (item.order_dish_customizations || []).map(describeCustomization);
+      const key = [itemName(item), ...details].join('|');
+      const line = merged.get(key) || { label: itemName(item), quantity: 0, total: 0, details };
+      line.quantity += item.quantity;
+      line.total += item.total_price;
+      merged.set(key, line);
+    }
+  }
+
+  const discount = rounds.reduce((sum, round) => sum + (round.discount_amount || 0), 0);
+  const total = rounds.reduce((sum, round) => sum + round.total_amount, 0);
+  const totalVES = rounds.every((round) => round.exchange_rate)
+    ? rounds.reduce((sum, round) => sum + toVES(round.total_amount, round.exchange_rate || 0), 0)
+    : null;
+
+  const lines: PrintLine[] = [
+    { type: 'text', text: businessName, align: 'center', bold: true, large: true },
+    { type: 'text', text: `Cuenta ${channelLabels.dine_in} ${session.table_number}`, align: 'center', bold: true },
+    { type: 'text', text: `#${billId}`, align: 'center' },
+    { type: 'text', text: `Abierta: ${formatDateTime(session.opened_at, timeZone)}`, align: 'center' }
+  ];
+
+  if (session.closed_at) {
+    lines.push({ type: 'text', text: `Cerrada: ${formatDateTime(session.closed_at, timeZone)}`, align: 'center' });
+  }
+
+  lines.push({ type: 'text', text: `${rounds.length} ${rounds.length === 1 ? 'ronda' : 'rondas'}`, align: 'center' });
+  lines.push({ type: 'divider' });
+
+  for (const line of merged.values()) {
+    lines.push({ type: 'columns', left: `${line.quantity}x ${line.label}`, right: formatUSD(line.total) });
+    lines.push(...line.details.map((detail): PrintLine => ({ type: 'text', text: `   ${detail}` })));
+  }
+
+  lines.push({ type: 'divider' });
+  lines.push({ type: 'columns', left: 'Subtotal', right: formatUSD(total + discount) });
+  if (discount > 0) {
+    lines.push({ type: 'columns', left: 'Descuento', right: `-${formatUSD(discount)}` });
+  }
+  lines.push({ type: 'columns', left: 'TOTAL', right: formatUSD(total), bold: true });
+  if (totalVES !== null) {
+    lines.push({ type: 'columns', left: 'Total Bs.', right: formatPaymentAmount(totalVES, 'VES'), bold: true });
+  }
+
+  lines.push({ type: 'feed', lines: 1 });
+  lines.push({ type: 'text', text: '¡Gracias por su visita!', align: 'center' });
+
+  return { title: `Cuenta Mesa ${session.table_number}`, lines };
+};
@@ -0,0 +1,65 @@
+export type PaperWidth = 58 | 80;
+
+export type PrintAlign = 'left' | 'center' | 'right';
+
+// Printer-independent layout; rendered to ESC/POS bytes or to HTML
+export type PrintLine =
+  | { type: 'text'; text: string; align?: PrintAlign; bold?: boolean; large?: boolean }
+  | { type: 'columns'; left: string; right: string; bold?: boolean }
+  | { type: 'divider' }
+  | { type: 'feed'; lines: number };
+
+export interface PrintDocument {
+  title: string;
+  lines: PrintLine[];
+}
+
+export type PrintKind = 'kitchen' | 'receipt';
+
+// The subset of an order the formatters need; the admin order shape satisfies it
+export interface PrintableOrder {
+  id: string;
+  channel: 'dine_in' | 'delivery' | 'pickup';
+  created_at: string;
+  notes?: string | null;
+  total_amount: number;
+  delivery_fee?: number | null;
+  discount_amount?: number | null;
+  exchange_rate?: number | null;
+  restaurant_table?: {
+    table_number: string;
+  } | null;
+  profiles?: {
+    full_name?: string;
+    phone?: string;
+  } | null;
+  delivery_addresses?: {
+    street_address: string;
+    city: string;
+  } | null;
+  order_items?: {
+    id: string;
+    quantity: number;
+    total_price: number;
+    menu_items?: { name: string } | null;
+    composite_dishes?: { name: string } | null;
+    order_dish_customizations?: {
+      id: string;
+      is_included: boolean;
+      replacement_item_id?: string | null;
+      dish_optional_elements?: {
+        menu_items: { name: string } | null;
+      } | null;
+      replacement_menu_items?: { name: string } | null;
+    }[];
+  }[];
+}
+
+// A table's tab: every round ordered while the session was open, billed together
+export interface PrintableTableSession {
+  id: string;
+  table_number: string;
+  opened_at: string;
+  closed_at?: string | null;
+  rounds: PrintableOrder[];
+}
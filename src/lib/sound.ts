@@ -0,0 +1,36 @@
+// Alert chime generated with the Web Audio API, so no audio asset has to be shipped.
+// Browsers only allow audio after a user gesture: call unlockAlertSound from a click handler first.
+
+let audioContext: AudioContext | null = null;
+
+export const unlockAlertSound = async () => {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+};
+
+export const playAlertSound = () => {
+  const context = audioContext;
+  if (!context || context.state !== 'running') return;
+
+  const start = context.currentTime;
+  [880, 1320].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const toneStart = start + index * 0.2;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, toneStart);
+    gain.gain.exponentialRampToValueAtTime(0.4, toneStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, toneStart + 0.18);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + 0.2);
+  });
+};
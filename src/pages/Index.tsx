@@ -1,10 +1,12 @@
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
-import { ShoppingCart, User, Settings, LogOut, Menu, Utensils } from 'lucide-react';
+import { ShoppingCart, User, Settings, LogOut, Menu, Utensils, ChefHat, CalendarDays } from 'lucide-react';
 import RoleGuard from '@/components/RoleGuard';
 import PublicMenu from '@/components/PublicMenu';
 import { Cart } from '@/components/Cart';
+import OpenTablesPanel from '@/components/tables/OpenTablesPanel';
+import WaitlistPanel from '@/components/tables/WaitlistPanel';
 import { useState } from 'react';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 
@@ -22,6 +24,13 @@ const Index = () => {
 
   const MobileMenu = () => (
     <div className="flex flex-col space-y-4 p-4">
+      <Link to="/reservar" onClick={() => setMobileMenuOpen(false)}>
+        <Button variant="outline" className="w-full justify-start">
+          <CalendarDays className="h-4 w-4 mr-2" />
+          Reservar mesa
+        </Button>
+      </Link>
+
       {user ? (
         <>
           <div className="text-sm text-gray-600 border-b pb-2">
@@ -52,6 +61,15 @@ const Index = () => {
               </Button>
             </Link>
           )}
+
+          {userRole === 'kitchen' && (
+            <Link to="/kitchen" onClick={() => setMobileMenuOpen(false)}>
+              <Button variant="outline" className="w-full justify-start">
+                <ChefHat className="h-4 w-4 mr-2" />
+                Cocina
+              </Button>
+            </Link>
+          )}
           
           <Button 
             variant="outline" 
@@ -89,6 +107,13 @@ const Index = () => {
             {/* Desktop Navigation */}
             <div className="hidden md:flex items-center space-x-4">
               <Cart />
+
+              <Link to="/reservar">
+                <Button variant="outline" size="sm">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Reservar mesa
+                </Button>
+              </Link>
               
               {user ? (
                 <>
@@ -120,6 +145,15 @@ const Index = () => {
                       </Button>
                     </Link>
                   )}
+
+                  {userRole === 'kitchen' && (
+                    <Link to="/kitchen">
+                      <Button variant="outline" size="sm">
+                        <ChefHat className="h-4 w-4 mr-2" />
+                        Cocina
+                      </Button>
+                    </Link>
+                  )}
                   
                   <Button variant="outline" size="sm" onClick={signOut}>
                     <LogOut className="h-4 w-4 mr-2" />
@@ -204,6 +238,12 @@ const Index = () => {
                         Selecciona productos del menú y asígnalos a una mesa
                       </span>
                     </div>
+                    <div className="mt-4 border-t pt-4">
+                      <OpenTablesPanel />
+                    </div>
+                    <div className="mt-4 border-t pt-4">
+                      <WaitlistPanel />
+                    </div>
                   </div>
                 </RoleGuard>
 
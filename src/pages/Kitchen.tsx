@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChefHat, Home, Volume2, VolumeX } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useKitchenTickets } from '@/hooks/useKitchenTickets';
+import { useKitchenStations } from '@/hooks/useKitchenStations';
+import { playAlertSound, unlockAlertSound } from '@/lib/sound';
+import KitchenTicket from '@/components/kitchen/KitchenTicket';
+
+// Each screen remembers which station it shows
+const STATION_FILTER_KEY = 'bitebright-kitchen-station';
+const ALL_STATIONS = 'all';
+const GENERAL_STATION = 'general';
+
+const Kitchen = () => {
+  const { user, userRole, loading } = useAuth();
+  const hasKitchenAccess = userRole === 'kitchen' || userRole === 'restaurant';
+  const { tickets, isLoading, bumpTicket } = useKitchenTickets();
+  const { activeStations, getStationName } = useKitchenStations();
+  const [stationFilter, setStationFilter] = useState(
+    () => localStorage.getItem(STATION_FILTER_KEY) || ALL_STATIONS
+  );
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const knownTicketIds = useRef<Set<string> | null>(null);
+
+  const visibleTickets = useMemo(() => tickets?.filter((ticket) => {
+    if (stationFilter === ALL_STATIONS) return true;
+    if (stationFilter === GENERAL_STATION) return ticket.station_id === null;
+    return ticket.station_id === stationFilter;
+  }), [tickets, stationFilter]);
+
+  const changeStationFilter = (value: string) => {
+    localStorage.setItem(STATION_FILTER_KEY, value);
+    setStationFilter(value);
+    // Tickets already queued at the new station should not chime
+    knownTicketIds.current = null;
+  };
+
+  // Refresh elapsed times
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Chime when a ticket appears that was not on screen before (not on the first load)
+  useEffect(() => {
+    if (!visibleTickets) return;
+
+    const previousIds = knownTicketIds.current;
+    if (previousIds) {
+      const hasNewTicket = visibleTickets.some(ticket => !previousIds.has(ticket.id));
+      if (hasNewTicket && soundEnabled) {
+        playAlertSound();
+      }
+    }
+    knownTicketIds.current = new Set(visibleTickets.map(ticket => ticket.id));
+  }, [visibleTickets, soundEnabled]);
+
+  const toggleSound = async () => {
+    if (soundEnabled) {
+      setSoundEnabled(false);
+      return;
+    }
+
+    await unlockAlertSound();
+    setSoundEnabled(true);
+    playAlertSound();
+  };
+
+  if (loading) {
+    return <div className="container mx-auto px-4 py-8 text-center">Cargando...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!hasKitchenAccess) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Card className="max-w-md w-full mx-4">
+          <CardHeader>
+            <CardTitle className="text-center">Acceso Restringido</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <p className="text-gray-600">Solo el personal de cocina puede acceder a esta pantalla.</p>
+            <Link to="/">
+              <Button className="w-full">Ir al Inicio</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <ChefHat className="w-6 h-6 text-orange-600" />
+              Cocina
+              <span className="text-base font-normal text-gray-500">
+                ({visibleTickets?.length || 0} en cola)
+              </span>
+            </h1>
+            <div className="flex items-center gap-2">
+              <Select value={stationFilter} onValueChange={changeStationFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATIONS}>Todas las estaciones</SelectItem>
+                  <SelectItem value={GENERAL_STATION}>General</SelectItem>
+                  {activeStations.map((station) => (
+                    <SelectItem key={station.id} value={station.id}>
+                      {station.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant={soundEnabled ? 'default' : 'outline'} onClick={toggleSound}>
+                {soundEnabled ? (
+                  <Volume2 className="w-4 h-4 mr-2" />
+                ) : (
+                  <VolumeX className="w-4 h-4 mr-2" />
+                )}
+                {soundEnabled ? 'Sonido activo' : 'Activar sonido'}
+              </Button>
+              <Link to="/">
+                <Button variant="outline">
+                  <Home className="w-4 h-4 mr-2" />
+                  Inicio
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4">
+        {isLoading ? (
+          <div className="text-center py-8">Cargando pedidos...</div>
+        ) : visibleTickets && visibleTickets.length > 0 ? (
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
+            {visibleTickets.map((ticket) => (
+              <KitchenTicket
+                key={ticket.id}
+                ticket={ticket}
+                getStationName={getStationName}
+                now={now}
+                onBump={(ticketId) => bumpTicket.mutate(ticketId)}
+                isBumping={bumpTicket.isPending && bumpTicket.variables === ticket.id}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16 text-gray-500 text-lg">
+            No hay pedidos en cocina
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Kitchen;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useParams, useNavigate, Navigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import OrderTracking from '@/components/delivery/OrderTracking';
+
+const OrderTrackingPage = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return <div className="container mx-auto px-4 py-8 text-center">Cargando...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <Button variant="outline" onClick={() => navigate('/profile')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Volver al perfil
+        </Button>
+      </div>
+
+      <div className="max-w-2xl mx-auto">
+        {orderId && <OrderTracking orderId={orderId} />}
+      </div>
+    </div>
+  );
+};
+
+export default OrderTrackingPage;
@@ -1,18 +1,49 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import PaymentForm from '@/components/payment/PaymentForm';
+import { usePaymentProviders } from '@/hooks/usePaymentProviders';
+import ProviderCheckout from '@/components/payment/ProviderCheckout';
+import DualPrice from '@/components/DualPrice';
+import { formatPaymentAmount, formatUSD } from '@/lib/currency';
+import { isIntentInFlight, summarizeOrderBalance } from '@/lib/payments';
+
+const paymentStatus: Record<string, { label: string; className: string }> = {
+  pending: { label: 'En revisión', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Aprobado', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rechazado', className: 'bg-red-100 text-red-800' },
+  requires_confirmation: { label: 'Sin confirmar', className: 'bg-gray-100 text-gray-800' },
+  processing: { label: 'Procesando', className: 'bg-blue-100 text-blue-800' },
+  succeeded: { label: 'Aprobado', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Rechazado', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelado', className: 'bg-gray-100 text-gray-800' }
+};
+
+// Manual proofs and gateway charges listed together
+interface PaymentRow {
+  id: string;
+  title: string;
+  detail: string | null;
+  amount: number;
+  currency: string;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
 
 const PaymentPage = () => {
   const { orderId } = useParams<{ orderId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: providers } = usePaymentProviders();
+  const [selectedProviderId, setSelectedProviderId] = useState<string | null>(null);
 
   const { data: order, isLoading } = useQuery({
     queryKey: ['order', orderId],
@@ -21,7 +52,30 @@ const PaymentPage = () => {
 
       const { data, error } = await supabase
         .from('orders')
-        .select('*')
+        .select(`
+          *,
+          manual_payment_verifications (
+            id,
+            payment_method_type,
+            amount_paid,
+            amount_currency,
+            reference_number,
+            status,
+            rejection_reason,
+            created_at
+          ),
+          payment_intents (
+            id,
+            provider_id,
+            amount,
+            currency,
+            status,
+            provider_reference,
+            failure_reason,
+            created_at,
+            updated_at
+          )
+        `)
         .eq('id', orderId)
         .eq('user_id', user.id)
         .single();
@@ -33,18 +87,59 @@ const PaymentPage = () => {
 
       return data;
     },
-    enabled: !!orderId && !!user
+    enabled: !!orderId && !!user,
+    // Gateway results arrive by webhook; keep checking while a charge is in flight
+    refetchInterval: (query) =>
+      query.state.data?.payment_intents.some((intent) => intent.status === 'processing' && isIntentInFlight(intent)) ? 2000 : false
   });
 
+  // An order can be paid in parts; each new payment only needs to cover what nobody has sent yet
+  const balance = order
+    ? summarizeOrderBalance(order, order.manual_payment_verifications, order.payment_intents)
+    : null;
+
+  const providerName = (providerId: string) =>
+    providers?.find((provider) => provider.id === providerId)?.display_name || 'Pago en línea';
+
+  const payments: PaymentRow[] = order
+    ? [
+        ...order.manual_payment_verifications.map((verification) => ({
+          id: verification.id,
+          title: verification.payment_method_type,
+          detail: `Ref. ${verification.reference_number}`,
+          amount: verification.amount_paid,
+          currency: verification.amount_currency,
+          status: verification.status,
+          error: verification.status === 'rejected' ? verification.rejection_reason : null,
+          created_at: verification.created_at
+        })),
+        ...order.payment_intents
+          .filter((intent) => intent.status !== 'cancelled')
+          .map((intent) => ({
+            id: intent.id,
+            title: providerName(intent.provider_id),
+            detail: intent.provider_reference ? `Ref. ${intent.provider_reference}` : null,
+            amount: intent.amount,
+            currency: intent.currency,
+            status: intent.status,
+            error: intent.status === 'failed' ? intent.failure_reason : null,
+            created_at: intent.created_at
+          }))
+      ].sort((a, b) => a.created_at.localeCompare(b.created_at))
+    : [];
+
+  const checkoutProviderId = selectedProviderId || providers?.[0]?.id;
+
+  // Stay on the page so the customer can send the rest with another method
   const handlePaymentSubmitted = () => {
-    navigate('/profile');
+    queryClient.invalidateQueries({ queryKey: ['order', orderId] });
   };
 
   if (isLoading) {
     return <div className="container mx-auto px-4 py-8 text-center">Cargando...</div>;
   }
 
-  if (!order) {
+  if (!order || !balance) {
     return (
       <div className="container mx-auto px-4 py-8">
         <Card>
@@ -79,8 +174,38 @@ const PaymentPage = () => {
               </div>
               <div className="flex justify-between">
                 <span>Total a Pagar:</span>
-                <span className="font-bold text-lg">${order.total_amount.toFixed(2)}</span>
+                <DualPrice
+                  amount={order.total_amount}
+                  rate={order.exchange_rate}
+                  align="end"
+                  className="font-bold text-lg"
+                  vesClassName="font-semibold text-gray-700"
+                />
               </div>
+              {payments.length > 0 && (
+                <>
+                  <div className="flex justify-between">
+                    <span>Aprobado:</span>
+                    <DualPrice amount={balance.approved} rate={order.exchange_rate} align="end" />
+                  </div>
+                  {balance.pending > 0 && (
+                    <div className="flex justify-between">
+                      <span>En revisión:</span>
+                      <DualPrice amount={balance.pending} rate={order.exchange_rate} align="end" />
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Por pagar:</span>
+                    <DualPrice
+                      amount={balance.outstanding}
+                      rate={order.exchange_rate}
+                      align="end"
+                      className="font-bold text-lg"
+                      vesClassName="font-semibold text-gray-700"
+                    />
+                  </div>
+                </>
+              )}
               <div className="flex justify-between">
                 <span>Estado:</span>
                 <span className="capitalize">{order.status}</span>
@@ -89,11 +214,93 @@ const PaymentPage = () => {
           </CardContent>
         </Card>
 
-        <PaymentForm
-          orderId={order.id}
-          orderAmount={order.total_amount}
-          onPaymentSubmitted={handlePaymentSubmitted}
-        />
+        {payments.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Pagos Enviados</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {payments.map((payment) => {
+                const status = paymentStatus[payment.status] || paymentStatus.pending;
+
+                return (
+                  <div key={payment.id} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <div className="font-medium">{payment.title}</div>
+                      <div className="text-gray-500">
+                        {payment.detail && `${payment.detail} · `}{new Date(payment.created_at).toLocaleString('es-VE')}
+                      </div>
+                      {payment.error && <div className="text-red-700">{payment.error}</div>}
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <span className="font-medium">{formatPaymentAmount(payment.amount, payment.currency)}</span>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {order.payment_method === 'cash' ? (
+          <Card>
+            <CardContent className="text-center py-8 space-y-2">
+              <p className="font-medium">Este pedido se paga en efectivo al recibirlo.</p>
+              <p className="text-sm text-gray-600">El repartidor te cobrará {formatUSD(balance.remaining)} en la entrega.</p>
+            </CardContent>
+          </Card>
+        ) : balance.outstanding > 0 ? (
+          <>
+            {payments.length > 0 && (
+              <p className="text-sm text-gray-600 mb-4">
+                Puedes completar el pago con otro método; envía un comprobante por cada pago.
+              </p>
+            )}
+            {providers && providers.length > 1 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {providers.map((provider) => (
+                  <Button
+                    key={provider.id}
+                    variant={provider.id === checkoutProviderId ? 'default' : 'outline'}
+                    onClick={() => setSelectedProviderId(provider.id)}
+                  >
+                    {provider.display_name}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {checkoutProviderId ? (
+              // Remount after each submission so the amount defaults to the new balance
+              <ProviderCheckout
+                key={`${checkoutProviderId}-${payments.length}`}
+                providerId={checkoutProviderId}
+                orderId={order.id}
+                orderAmount={balance.outstanding}
+                exchangeRate={order.exchange_rate}
+                onPaymentSubmitted={handlePaymentSubmitted}
+              />
+            ) : (
+              <Card>
+                <CardContent className="text-center py-8 text-gray-600">
+                  No hay métodos de pago disponibles en este momento.
+                </CardContent>
+              </Card>
+            )}
+          </>
+        ) : (
+          <Card>
+            <CardContent className="text-center py-8 space-y-4">
+              <CheckCircle className="w-10 h-10 text-green-600 mx-auto" />
+              <p className="font-medium">
+                {balance.remaining > 0
+                  ? 'Ya enviaste pagos por el total del pedido. Te avisaremos cuando se verifiquen.'
+                  : 'Este pedido está pagado.'}
+              </p>
+              <Button onClick={() => navigate('/profile')}>Volver al perfil</Button>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
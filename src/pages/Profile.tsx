@@ -8,9 +8,12 @@ import { Label } from '@/components/ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Upload, User, MapPin, Phone, Mail, ShoppingBag, CreditCard } from 'lucide-react';
+import { ArrowLeft, Upload, User, MapPin, Phone, Mail, ShoppingBag, CreditCard, Navigation, Bell, X } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { formatUSD, formatVES } from '@/lib/currency';
+import { summarizeOrderBalance } from '@/lib/payments';
+import { useCustomerNotifications } from '@/hooks/useCustomerNotifications';
 
 interface ProfileData {
   id: string;
@@ -26,6 +29,10 @@ interface ProfileData {
 interface Order {
   id: string;
   total_amount: number;
+  exchange_rate: number | null;
+  amount_paid: number;
+  payment_status: string;
+  payment_method: string;
   status: string;
   created_at: string;
   order_items: {
@@ -36,7 +43,16 @@ interface Order {
   }[];
   manual_payment_verifications: {
     status: string;
+    amount_paid: number;
+    amount_currency: string;
     rejection_reason?: string;
+    created_at: string;
+  }[];
+  payment_intents: {
+    amount: number;
+    currency: string;
+    status: string;
+    updated_at: string;
   }[];
 }
 
@@ -64,6 +80,9 @@ const Profile = () => {
     }
   }, [user]);
 
+  // Payment reviews arrive as notifications; refresh the orders so their badges follow
+  const { notifications, markAsRead } = useCustomerNotifications(user?.id, () => fetchOrders());
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -109,7 +128,16 @@ const Profile = () => {
           ),
           manual_payment_verifications (
             status,
-            rejection_reason
+            amount_paid,
+            amount_currency,
+            rejection_reason,
+            created_at
+          ),
+          payment_intents (
+            amount,
+            currency,
+            status,
+            updated_at
           )
         `)
         .eq('user_id', user?.id)
@@ -229,6 +257,8 @@ const Profile = () => {
         return 'bg-blue-100 text-blue-800';
       case 'delivery':
         return 'bg-green-100 text-green-800';
+      case 'kitchen':
+        return 'bg-red-100 text-red-800';
       case 'cliente':
         return 'bg-orange-100 text-orange-800';
       default:
@@ -242,6 +272,8 @@ const Profile = () => {
         return 'Restaurante';
       case 'delivery':
         return 'Repartidor';
+      case 'kitchen':
+        return 'Cocina';
       case 'cliente':
         return 'Cliente';
       default:
@@ -264,21 +296,48 @@ const Profile = () => {
   };
 
   const getPaymentStatusBadge = (order: Order) => {
-    const verification = order.manual_payment_verifications?.[0];
-    if (!verification) {
-      return <Badge className="bg-gray-100 text-gray-800">Sin pago</Badge>;
+    if (order.payment_status === 'partial') {
+      return <Badge className="bg-yellow-100 text-yellow-800">Pago parcial</Badge>;
+    }
+    if (order.payment_status === 'paid' || order.payment_status === 'overpaid') {
+      return <Badge className="bg-green-100 text-green-800">Pago aprobado</Badge>;
+    }
+    if (order.payment_method === 'cash') {
+      return <Badge className="bg-amber-100 text-amber-800">Efectivo al recibir</Badge>;
     }
 
-    switch (verification.status) {
-      case 'pending':
-        return <Badge className="bg-yellow-100 text-yellow-800">Verificando pago</Badge>;
-      case 'approved':
-        return <Badge className="bg-green-100 text-green-800">Pago aprobado</Badge>;
-      case 'rejected':
-        return <Badge className="bg-red-100 text-red-800">Pago rechazado</Badge>;
-      default:
-        return <Badge className="bg-gray-100 text-gray-800">Sin estado</Badge>;
+    // Approved payments already show up as partial/paid above
+    const verifications = order.manual_payment_verifications || [];
+    if (verifications.some((verification) => verification.status === 'pending')) {
+      return <Badge className="bg-yellow-100 text-yellow-800">Verificando pago</Badge>;
     }
+    if (verifications.some((verification) => verification.status === 'rejected')) {
+      return <Badge className="bg-red-100 text-red-800">Pago rechazado</Badge>;
+    }
+    return <Badge className="bg-gray-100 text-gray-800">Sin pago</Badge>;
+  };
+
+  const latestRejection = (order: Order) => {
+    const latest = [...(order.manual_payment_verifications || [])]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    return latest?.status === 'rejected' ? latest : null;
+  };
+
+  // Orders can be paid in parts, so the button stays until submitted payments cover the total
+  const getPayButton = (order: Order) => {
+    if (order.status !== 'pending' || order.payment_method === 'cash') return null;
+
+    const { outstanding } = summarizeOrderBalance(order, order.manual_payment_verifications, order.payment_intents);
+    if (outstanding <= 0) return null;
+
+    return (
+      <Link to={`/payment/${order.id}`}>
+        <Button size="sm" className="bg-orange-600 hover:bg-orange-700">
+          <CreditCard className="h-4 w-4 mr-1" />
+          {order.manual_payment_verifications?.length || order.payment_intents?.length ? `Pagar Saldo (${formatUSD(outstanding)})` : 'Pagar Ahora'}
+        </Button>
+      </Link>
+    );
   };
 
   if (loading) {
@@ -458,7 +517,42 @@ const Profile = () => {
                 </Card>
               </TabsContent>
 
-              <TabsContent value="orders">
+              <TabsContent value="orders" className="space-y-4">
+                {notifications && notifications.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center">
+                        <Bell className="h-5 w-5 mr-2" />
+                        Notificaciones
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {notifications.map((notification) => (
+                        <div
+                          key={notification.id}
+                          className={`flex items-start justify-between gap-2 rounded border p-3 ${
+                            notification.notification_type === 'payment_rejected'
+                              ? 'bg-red-50 border-red-200'
+                              : 'bg-blue-50 border-blue-200'
+                          }`}
+                        >
+                          <div>
+                            <p className="font-medium text-sm">{notification.title}</p>
+                            <p className="text-sm text-gray-700">{notification.message}</p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => markAsRead.mutate(notification.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center">
@@ -483,6 +577,7 @@ const Profile = () => {
                                 <h4 className="font-medium">Pedido #{order.id.slice(-8)}</h4>
                                 <p className="text-sm text-gray-600">
                                   {new Date(order.created_at).toLocaleDateString()} - ${order.total_amount.toFixed(2)}
+                                  {order.exchange_rate && ` (${formatVES(order.total_amount, order.exchange_rate)})`}
                                 </p>
                               </div>
                               <div className="flex flex-col gap-2 items-end">
@@ -502,32 +597,23 @@ const Profile = () => {
                               </ul>
                             </div>
 
-                            {order.manual_payment_verifications?.[0]?.status === 'rejected' && (
+                            {latestRejection(order) && (
                               <div className="bg-red-50 border border-red-200 rounded p-3 mb-3">
                                 <p className="text-sm text-red-800">
-                                  <strong>Pago rechazado:</strong> {order.manual_payment_verifications[0].rejection_reason}
+                                  <strong>Pago rechazado:</strong> {latestRejection(order)?.rejection_reason}
                                 </p>
                               </div>
                             )}
 
                             <div className="flex gap-2">
-                              {order.status === 'pending' && !order.manual_payment_verifications?.length && (
-                                <Link to={`/payment/${order.id}`}>
-                                  <Button size="sm" className="bg-orange-600 hover:bg-orange-700">
-                                    <CreditCard className="h-4 w-4 mr-1" />
-                                    Pagar Ahora
-                                  </Button>
-                                </Link>
-                              )}
-                              
-                              {order.manual_payment_verifications?.[0]?.status === 'rejected' && (
-                                <Link to={`/payment/${order.id}`}>
-                                  <Button size="sm" variant="outline">
-                                    <CreditCard className="h-4 w-4 mr-1" />
-                                    Enviar Nuevo Pago
-                                  </Button>
-                                </Link>
-                              )}
+                              <Link to={`/orders/${order.id}`}>
+                                <Button size="sm" variant="outline">
+                                  <Navigation className="h-4 w-4 mr-1" />
+                                  Seguir Pedido
+                                </Button>
+                              </Link>
+
+                              {getPayButton(order)}
                             </div>
                           </div>
                         ))}
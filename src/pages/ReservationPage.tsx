@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CalendarCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  formatReservationTime,
+  useRequestReservation,
+  useReservationSettings,
+  useReservationSlots
+} from '@/hooks/useReservations';
+
+interface BookedReservation {
+  startsAt: string;
+  partySize: number;
+}
+
+const ReservationPage = () => {
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const { data: settings, isLoading: isLoadingSettings } = useReservationSettings();
+  const requestReservation = useRequestReservation();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [date, setDate] = useState(today);
+  const [partySize, setPartySize] = useState(2);
+  const [startsAt, setStartsAt] = useState<string | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [customerEmail, setCustomerEmail] = useState(user?.email ?? '');
+  const [notes, setNotes] = useState('');
+  const [booked, setBooked] = useState<BookedReservation | null>(null);
+
+  const { data: slots, isLoading: isLoadingSlots } = useReservationSlots(date, partySize);
+
+  const maxDate = settings
+    ? format(new Date(Date.now() + settings.booking_horizon_days * 86400000), 'yyyy-MM-dd')
+    : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startsAt) return;
+
+    try {
+      await requestReservation.mutateAsync({
+        customerName,
+        customerPhone,
+        customerEmail: customerEmail || undefined,
+        partySize,
+        startsAt,
+        notes: notes || undefined
+      });
+      setBooked({ startsAt, partySize });
+    } catch {
+      // Reported by the mutation's onError
+      setStartsAt(null);
+    }
+  };
+
+  if (loading || isLoadingSettings) {
+    return <div className="container mx-auto px-4 py-8 text-center">Cargando...</div>;
+  }
+
+  // Online bookings need an account so the server can cap how many each customer holds
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <Button variant="outline" onClick={() => navigate('/')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Volver al menú
+        </Button>
+      </div>
+
+      <div className="max-w-2xl mx-auto">
+        {booked ? (
+          <Card>
+            <CardContent className="py-10 text-center space-y-3">
+              <CalendarCheck className="w-12 h-12 mx-auto text-green-600" />
+              <h2 className="text-xl font-semibold">¡Reserva confirmada!</h2>
+              <p className="text-gray-600">
+                Te esperamos el {new Date(booked.startsAt).toLocaleDateString('es-VE', { weekday: 'long', day: 'numeric', month: 'long' })}{' '}
+                a las {formatReservationTime(booked.startsAt)} para {booked.partySize}{' '}
+                {booked.partySize === 1 ? 'persona' : 'personas'}.
+              </p>
+              <p className="text-sm text-gray-500">
+                Si no puedes venir, llámanos para liberar la mesa.
+              </p>
+              <Button variant="outline" onClick={() => navigate('/')}>
+                Volver al menú
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Reservar mesa</CardTitle>
+              <CardDescription>
+                Elige el día, cuántas personas vienen y la hora que prefieras
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="reservation-date">Fecha</Label>
+                    <Input
+                      id="reservation-date"
+                      type="date"
+                      value={date}
+                      min={today}
+                      max={maxDate}
+                      onChange={(e) => {
+                        setDate(e.target.value);
+                        setStartsAt(null);
+                      }}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Personas</Label>
+                    <Select
+                      value={partySize.toString()}
+                      onValueChange={(value) => {
+                        setPartySize(parseInt(value));
+                        setStartsAt(null);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: settings?.max_party_size ?? 12 }, (_, index) => index + 1).map((size) => (
+                          <SelectItem key={size} value={size.toString()}>
+                            {size} {size === 1 ? 'persona' : 'personas'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">
+                      Para grupos más grandes llámanos.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Hora</Label>
+                  {isLoadingSlots ? (
+                    <p className="text-sm text-gray-500">Buscando horarios...</p>
+                  ) : !slots || slots.length === 0 ? (
+                    <p className="text-sm text-gray-500">No hay horarios para este día.</p>
+                  ) : (
+                    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                      {slots.map((slot) => (
+                        <Button
+                          key={slot.starts_at}
+                          type="button"
+                          size="sm"
+                          variant={startsAt === slot.starts_at ? 'default' : 'outline'}
+                          disabled={!slot.available}
+                          onClick={() => setStartsAt(slot.starts_at)}
+                        >
+                          {formatReservationTime(slot.starts_at)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  {slots && slots.length > 0 && slots.every((slot) => !slot.available) && (
+                    <p className="text-sm text-orange-600">Este día está completo; prueba otra fecha.</p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="reservation-name">Nombre</Label>
+                    <Input
+                      id="reservation-name"
+                      value={customerName}
+                      onChange={(e) => setCustomerName(e.target.value)}
+                      maxLength={100}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reservation-phone">Teléfono</Label>
+                    <Input
+                      id="reservation-phone"
+                      type="tel"
+                      value={customerPhone}
+                      onChange={(e) => setCustomerPhone(e.target.value)}
+                      maxLength={30}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reservation-email">Correo (opcional)</Label>
+                  <Input
+                    id="reservation-email"
+                    type="email"
+                    value={customerEmail}
+                    onChange={(e) => setCustomerEmail(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reservation-notes">Notas (opcional)</Label>
+                  <Textarea
+                    id="reservation-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Cumpleaños, silla para bebé, alergias..."
+                    maxLength={500}
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full bg-orange-600 hover:bg-orange-700"
+                  disabled={!startsAt || requestReservation.isPending}
+                >
+                  {requestReservation.isPending
+                    ? 'Reservando...'
+                    : startsAt
+                      ? `Reservar a las ${formatReservationTime(startsAt)}`
+                      : 'Elige una hora'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReservationPage;
@@ -67,12 +67,15 @@ export interface DriverOrder {
   total_amount: number;
   delivery_fee: number;
   status: string;
+  channel: 'dine_in' | 'delivery' | 'pickup';
   notes?: string;
   estimated_delivery_time?: number;
   delivery_address_id?: string;
   pickup_time?: string;
   delivery_code?: string;
   driver_earnings?: number;
+  payment_method: 'transfer' | 'cash';
+  amount_paid: number;
   created_at: string;
   updated_at: string;
   
@@ -86,6 +89,9 @@ export interface DriverOrder {
     street_address: string;
     city: string;
     postal_code?: string;
+    latitude?: number | null;
+    longitude?: number | null;
+    delivery_notes?: string | null;
   };
   
   order_items?: Array<{
@@ -112,3 +118,26 @@ export interface DriverOrder {
     actual_distance?: number;
   }>;
 }
+
+// Cash a driver took at the door for a cash-on-delivery order, in USD
+export interface CashCollection {
+  id: string;
+  order_id: string;
+  driver_id: string;
+  amount_due: number;
+  amount_received: number;
+  change_given: number;
+  settlement_id: string | null;
+  collected_at: string;
+}
+
+// End-of-shift hand-in; discrepancy is handed_in_amount - expected_amount
+export interface DriverCashSettlement {
+  id: string;
+  driver_id: string;
+  expected_amount: number;
+  handed_in_amount: number;
+  discrepancy: number;
+  notes: string | null;
+  created_at: string;
+}
@@ -3,121 +3,155 @@ declare global {
   interface Window {
     google: typeof google;
   }
-}
-
-declare namespace google {
-  namespace maps {
-    class Map {
-      constructor(mapDiv: HTMLElement, opts?: MapOptions);
-      setCenter(latlng: LatLng | LatLngLiteral): void;
-      getCenter(): LatLng;
-      setZoom(zoom: number): void;
-      getZoom(): number;
-      addListener(eventName: string, handler: Function): void;
-    }
-
-    class Marker {
-      constructor(opts?: MarkerOptions);
-      setPosition(latlng: LatLng | LatLngLiteral): void;
-      setMap(map: Map | null): void;
-      addListener(eventName: string, handler: Function): void;
-    }
-
-    class Geocoder {
-      geocode(request: GeocoderRequest): Promise<GeocoderResponse>;
-    }
-
-    class DirectionsService {
-      route(request: DirectionsRequest, callback: (result: DirectionsResult, status: DirectionsStatus) => void): void;
-    }
-
-    class DirectionsRenderer {
-      constructor(opts?: DirectionsRendererOptions);
-      setMap(map: Map | null): void;
-      setDirections(directions: DirectionsResult): void;
-    }
-
-    class LatLng {
-      constructor(lat: number, lng: number);
-      lat(): number;
-      lng(): number;
-    }
-
-    class Size {
-      constructor(width: number, height: number);
-    }
-
-    interface MapOptions {
-      center?: LatLng | LatLngLiteral;
-      zoom?: number;
-      styles?: MapTypeStyle[];
-    }
-
-    interface MarkerOptions {
-      position?: LatLng | LatLngLiteral;
-      map?: Map;
-      title?: string;
-      draggable?: boolean;
-      icon?: string | Icon;
-    }
 
-    interface Icon {
-      url: string;
-      scaledSize?: Size;
-    }
-
-    interface LatLngLiteral {
-      lat: number;
-      lng: number;
-    }
-
-    interface GeocoderRequest {
-      location?: LatLng | LatLngLiteral;
-      address?: string;
-    }
-
-    interface GeocoderResponse {
-      results: GeocoderResult[];
-    }
-
-    interface GeocoderResult {
-      formatted_address: string;
-      geometry: {
-        location: LatLng;
-      };
-    }
-
-    interface DirectionsRequest {
-      origin: LatLng | LatLngLiteral | string;
-      destination: LatLng | LatLngLiteral | string;
-      travelMode: TravelMode;
-    }
-
-    interface DirectionsResult {
-      routes: any[];
-    }
-
-    interface DirectionsRendererOptions {
-      suppressMarkers?: boolean;
-      polylineOptions?: {
+  namespace google {
+    namespace maps {
+      class Map {
+        constructor(mapDiv: HTMLElement, opts?: MapOptions);
+        setCenter(latlng: LatLng | LatLngLiteral): void;
+        getCenter(): LatLng;
+        setZoom(zoom: number): void;
+        getZoom(): number;
+        addListener(eventName: string, handler: Function): void;
+        fitBounds(bounds: LatLngBounds): void;
+      }
+
+      class Marker {
+        constructor(opts?: MarkerOptions);
+        setPosition(latlng: LatLng | LatLngLiteral): void;
+        setMap(map: Map | null): void;
+        addListener(eventName: string, handler: Function): void;
+      }
+
+      class Geocoder {
+        geocode(request: GeocoderRequest): Promise<GeocoderResponse>;
+      }
+
+      class DirectionsService {
+        route(request: DirectionsRequest, callback: (result: DirectionsResult, status: DirectionsStatus) => void): void;
+      }
+
+      class DirectionsRenderer {
+        constructor(opts?: DirectionsRendererOptions);
+        setMap(map: Map | null): void;
+        setDirections(directions: DirectionsResult): void;
+      }
+
+      class Polyline {
+        constructor(opts?: PolylineOptions);
+        setPath(path: Array<LatLng | LatLngLiteral>): void;
+        setMap(map: Map | null): void;
+      }
+
+      class LatLngBounds {
+        constructor();
+        extend(point: LatLng | LatLngLiteral): LatLngBounds;
+      }
+
+      class LatLng {
+        constructor(lat: number, lng: number);
+        lat(): number;
+        lng(): number;
+      }
+
+      class Size {
+        constructor(width: number, height: number);
+      }
+
+      interface MapOptions {
+        center?: LatLng | LatLngLiteral;
+        zoom?: number;
+        styles?: MapTypeStyle[];
+      }
+
+      interface MarkerOptions {
+        position?: LatLng | LatLngLiteral;
+        map?: Map;
+        title?: string;
+        draggable?: boolean;
+        icon?: string | Icon;
+      }
+
+      interface Icon {
+        url: string;
+        scaledSize?: Size;
+      }
+
+      interface LatLngLiteral {
+        lat: number;
+        lng: number;
+      }
+
+      interface GeocoderRequest {
+        location?: LatLng | LatLngLiteral;
+        address?: string;
+      }
+
+      interface GeocoderResponse {
+        results: GeocoderResult[];
+      }
+
+      interface GeocoderResult {
+        formatted_address: string;
+        address_components?: GeocoderAddressComponent[];
+        geometry: {
+          location: LatLng;
+        };
+      }
+
+      interface GeocoderAddressComponent {
+        long_name: string;
+        short_name: string;
+        types: string[];
+      }
+
+      interface PolylineOptions {
+        path?: Array<LatLng | LatLngLiteral>;
+        map?: Map;
         strokeColor?: string;
         strokeWeight?: number;
-      };
+      }
+
+      interface DirectionsRequest {
+        origin: LatLng | LatLngLiteral | string;
+        destination: LatLng | LatLngLiteral | string;
+        travelMode: TravelMode;
+      }
+
+      interface DirectionsResult {
+        routes: DirectionsRoute[];
+      }
+
+      interface DirectionsRoute {
+        overview_path: LatLng[];
+        legs: Array<{
+          distance?: { value: number };
+          duration?: { value: number };
+        }>;
+      }
+
+      interface DirectionsRendererOptions {
+        suppressMarkers?: boolean;
+        polylineOptions?: {
+          strokeColor?: string;
+          strokeWeight?: number;
+        };
+      }
+
+      interface MapTypeStyle {
+        featureType?: string;
+        elementType?: string;
+        stylers: Array<{
+          visibility?: string;
+        }>;
+      }
+
+      enum TravelMode {
+        DRIVING = 'DRIVING'
+      }
+
+      type DirectionsStatus = 'OK' | 'ERROR';
     }
-
-    interface MapTypeStyle {
-      featureType?: string;
-      elementType?: string;
-      stylers: Array<{
-        visibility?: string;
-      }>;
-    }
-
-    enum TravelMode {
-      DRIVING = 'DRIVING'
-    }
-
-    type DirectionsStatus = 'OK' | 'ERROR';
   }
 }
 
@@ -0,0 +1,62 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type KitchenOrderStatus = Extract<Enums<'order_status'>, 'confirmed' | 'preparing'>;
+export type StationTicketStatus = Enums<'station_ticket_status'>;
+
+export interface KitchenDishCustomization {
+  id: string;
+  is_included: boolean;
+  replacement_item_id: string | null;
+  dish_optional_elements: {
+    menu_items: {
+      name: string;
+    } | null;
+  } | null;
+  replacement_menu_items: {
+    name: string;
+  } | null;
+}
+
+export interface KitchenOrderItem {
+  id: string;
+  quantity: number;
+  station_id: string | null;
+  menu_items: {
+    name: string;
+  } | null;
+  composite_dishes: {
+    name: string;
+  } | null;
+  order_dish_customizations: KitchenDishCustomization[];
+}
+
+export interface KitchenOrder {
+  id: string;
+  status: KitchenOrderStatus;
+  channel: Enums<'order_channel'>;
+  notes: string | null;
+  created_at: string;
+  restaurant_table: {
+    table_number: string;
+  } | null;
+  order_items: KitchenOrderItem[];
+  order_status_history: {
+    to_status: Enums<'order_status'>;
+    created_at: string;
+  }[];
+  order_station_tickets: {
+    id: string;
+    station_id: string | null;
+    status: StationTicketStatus;
+  }[];
+}
+
+// One station's share of an order; the order is ready once all of its tickets are
+export interface KitchenStationTicket {
+  id: string;
+  station_id: string | null;
+  status: Extract<StationTicketStatus, 'pending' | 'preparing'>;
+  started_at: string | null;
+  created_at: string;
+  orders: KitchenOrder;
+}
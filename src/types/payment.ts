@@ -1,3 +1,5 @@
+import type { Json } from '@/integrations/supabase/types';
+
 
 export interface PaymentMethod {
   id: string;
@@ -13,15 +15,58 @@ export interface PaymentMethod {
   updated_at: string;
 }
 
+// How the customer chose to pay at checkout
+export type OrderPaymentMethod = 'transfer' | 'cash';
+
+export const paymentMethodLabels: Record<OrderPaymentMethod, string> = {
+  transfer: 'Transferencia / Pago Móvil',
+  cash: 'Efectivo al recibir'
+};
+
+// How much of an order's total is covered by approved payments
+export type OrderPaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overpaid';
+
+export const paymentStatusLabels: Record<OrderPaymentStatus, string> = {
+  unpaid: 'Sin pago',
+  partial: 'Pago parcial',
+  paid: 'Pagado',
+  overpaid: 'Pago en exceso'
+};
+
+export const paymentStatusColors: Record<OrderPaymentStatus, string> = {
+  unpaid: 'bg-gray-100 text-gray-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  overpaid: 'bg-purple-100 text-purple-800'
+};
+
+// Warnings raised by the database when a payment is submitted
+export type PaymentFlagType = 'duplicate_reference' | 'amount_mismatch' | 'duplicate_proof';
+
+export const paymentFlagLabels: Record<PaymentFlagType, string> = {
+  duplicate_reference: 'Referencia repetida',
+  amount_mismatch: 'Monto no coincide',
+  duplicate_proof: 'Comprobante repetido'
+};
+
+export interface PaymentVerificationFlag {
+  id: string;
+  flag_type: PaymentFlagType;
+  message: string;
+}
+
 export interface ManualPaymentVerification {
   id: string;
   order_id: string;
+  payment_method_id?: string;
   payment_method_type: string;
   origin_bank: string;
   phone_number_used?: string;
   amount_paid: number;
+  amount_currency: 'USD' | 'VES';
+  proof_file_hash?: string;
   reference_number: string;
-  payment_proof_url: string;
+  payment_proof_path: string;
   status: 'pending' | 'approved' | 'rejected';
   rejection_reason?: string;
   reviewed_by?: string;
@@ -39,3 +84,15 @@ export interface ManualPaymentVerification {
     };
   };
 }
+
+// Row of payment_providers: which payment backends checkout offers
+export interface PaymentProviderConfig {
+  id: string;
+  display_name: string;
+  description: string | null;
+  is_active: boolean;
+  sort_order: number;
+  settings: { [key: string]: Json | undefined };
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,60 @@
+export type ReservationStatus = 'confirmed' | 'seated' | 'completed' | 'cancelled' | 'no_show';
+export type ReservationSource = 'staff' | 'online';
+
+export const reservationStatusLabels: Record<ReservationStatus, string> = {
+  confirmed: 'Confirmada',
+  seated: 'En mesa',
+  completed: 'Completada',
+  cancelled: 'Cancelada',
+  no_show: 'No se presentó'
+};
+
+export const reservationStatusColors: Record<ReservationStatus, string> = {
+  confirmed: 'bg-blue-100 border-blue-500 text-blue-900',
+  seated: 'bg-green-100 border-green-500 text-green-900',
+  completed: 'bg-gray-100 border-gray-400 text-gray-700',
+  cancelled: 'bg-gray-50 border-gray-300 text-gray-400 line-through',
+  no_show: 'bg-red-100 border-red-500 text-red-900'
+};
+
+// Opening hours and booking rules; times are wall-clock in the restaurant's time zone
+export interface ReservationSettings {
+  id: string;
+  time_zone: string;
+  opening_time: string;
+  last_seating_time: string;
+  slot_minutes: number;
+  default_duration_minutes: number;
+  max_party_size: number;
+  booking_horizon_days: number;
+}
+
+export interface Reservation {
+  id: string;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  party_size: number;
+  starts_at: string;
+  duration_minutes: number;
+  ends_at: string;
+  notes: string | null;
+  status: ReservationStatus;
+  source: ReservationSource;
+  created_at: string;
+  reservation_tables: {
+    table_id: string;
+  }[];
+}
+
+// A table, or group of nearby tables, that seats the party without clashing with other bookings
+export interface ReservationTableSuggestion {
+  table_ids: string[];
+  table_numbers: string[];
+  total_capacity: number;
+}
+
+export interface ReservationSlot {
+  starts_at: string;
+  available: boolean;
+}
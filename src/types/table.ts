@@ -0,0 +1,97 @@
+import type { Enums } from '@/integrations/supabase/types';
+import type { PrintableOrder } from '@/lib/printing';
+
+export type TableStatus = 'available' | 'occupied' | 'cleaning';
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+// An area of the dining room with its own floor plan, measured in grid units
+export interface FloorZone {
+  id: string;
+  name: string;
+  sort_order: number;
+  width: number;
+  height: number;
+}
+export type TableSessionStatus = 'open' | 'closed';
+
+// How a tab is divided into sub-checks: equal shares, one per seat, or items picked by hand
+export type TableSplitMode = 'even' | 'seat' | 'items';
+export type TableCheckStatus = 'open' | 'paid';
+export type TableCheckPaymentMethod = 'cash' | 'card' | 'transfer' | 'mobile_payment';
+
+export const tableCheckPaymentMethodLabels: Record<TableCheckPaymentMethod, string> = {
+  cash: 'Efectivo',
+  card: 'Tarjeta',
+  transfer: 'Transferencia',
+  mobile_payment: 'Pago Móvil'
+};
+
+// One order sent for the table while its session was open
+export interface TableSessionRound {
+  id: string;
+  status: Enums<'order_status'>;
+  total_amount: number;
+  discount_amount: number | null;
+  exchange_rate: number | null;
+  created_at: string;
+}
+
+export interface TableSession {
+  id: string;
+  table_id: string;
+  status: TableSessionStatus;
+  opened_at: string;
+  closed_at: string | null;
+  total_amount: number | null;
+  orders: TableSessionRound[];
+  table_session_checks: {
+    id: string;
+    status: TableCheckStatus;
+    total_amount: number;
+  }[];
+}
+
+// One guest's share of the tab, paid on its own
+export interface TableCheck {
+  id: string;
+  session_id: string;
+  position: number;
+  label: string;
+  split_mode: TableSplitMode;
+  seat_number: number | null;
+  subtotal: number;
+  service_charge_rate: number;
+  service_charge: number;
+  total_amount: number;
+  status: TableCheckStatus;
+  payment_method: TableCheckPaymentMethod | null;
+  amount_received: number | null;
+  change_given: number | null;
+  payment_reference: string | null;
+  paid_at: string | null;
+  table_session_check_items: {
+    order_item_id: string;
+    amount: number;
+  }[];
+}
+
+type PrintableItem = NonNullable<PrintableOrder['order_items']>[number];
+
+export type TableBillItem = PrintableItem & { seat_number: number | null };
+
+export interface TableBillRound extends PrintableOrder {
+  status: Enums<'order_status'>;
+  order_items: TableBillItem[];
+}
+
+// Rounds with their items, enough to show and print the consolidated bill
+export interface TableSessionBill {
+  id: string;
+  status: TableSessionStatus;
+  opened_at: string;
+  closed_at: string | null;
+  restaurant_tables: {
+    table_number: string;
+  } | null;
+  orders: TableBillRound[];
+}
@@ -0,0 +1,16 @@
+export type WaitlistStatus = 'waiting' | 'seated' | 'left';
+
+// A walk-in party waiting for a table; its place in line follows created_at
+export interface WaitlistEntry {
+  id: string;
+  party_name: string;
+  party_size: number;
+  phone: string | null;
+  notes: string | null;
+  quoted_wait_minutes: number;
+  status: WaitlistStatus;
+  table_id: string | null;
+  table_session_id: string | null;
+  seated_at: string | null;
+  created_at: string;
+}
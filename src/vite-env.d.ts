@@ -1,3 +1,19 @@
-
 /// <reference types="vite/client" />
 /// <reference types="./types/google-maps" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAP_PROVIDER?: 'google' | 'leaflet';
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  readonly VITE_GEOCODER_URL?: string;
+  readonly VITE_ROUTING_URL?: string;
+  readonly VITE_MAP_DEFAULT_LAT?: string;
+  readonly VITE_MAP_DEFAULT_LNG?: string;
+  readonly VITE_PRINT_BRIDGE_URL?: string;
+  readonly VITE_PRINTER_PAPER_WIDTH?: '58' | '80';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
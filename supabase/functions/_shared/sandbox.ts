@@ -0,0 +1,40 @@
+// Shared by the sandbox gateway and the webhook that receives its events.
+// Events are signed with HMAC-SHA256 over the raw body, like most card gateways do.
+
+export interface SandboxEvent {
+  id: string
+  type: 'payment.succeeded' | 'payment.failed' | 'refund.succeeded'
+  intent_id: string
+  reference?: string
+  amount?: number
+  reason?: string
+}
+
+export const SANDBOX_SIGNATURE_HEADER = 'x-sandbox-signature'
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((byte) => byte.toString(16).padStart(2, '0')).join('')
+
+export const signSandboxPayload = async (payload: string, secret: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)))
+}
+
+export const verifySandboxSignature = async (payload: string, signature: string, secret: string) => {
+  const expected = await signSandboxPayload(payload, secret)
+  if (expected.length !== signature.length) return false
+
+  // Constant-time comparison
+  let mismatch = 0
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  }
+  return mismatch === 0
+}
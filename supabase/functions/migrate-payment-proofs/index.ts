@@ -0,0 +1,124 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// One-off move of payment proofs uploaded before the bucket went private.
+// Those files sit at the bucket root as <order_id>-<timestamp>.<ext>; this moves each
+// one under <order_id>/ and updates payment_proof_path. Safe to run more than once.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: isRestaurant } = await supabaseAdmin.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'restaurant'
+    })
+
+    if (!isRestaurant) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient permissions' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Only rows flagged legacy_proof when the bucket went private can point at the root;
+    // anything else pointing there is not the order's own file
+    const { data: verifications, error: fetchError } = await supabaseAdmin
+      .from('manual_payment_verifications')
+      .select('id, order_id, payment_proof_path')
+      .not('payment_proof_path', 'like', '%/%')
+      .neq('payment_proof_path', '')
+      .eq('legacy_proof', true)
+
+    if (fetchError) {
+      console.error('Error fetching payment verifications:', fetchError)
+      return new Response(
+        JSON.stringify({ error: fetchError.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const failed: { id: string; error: string }[] = []
+    let moved = 0
+
+    for (const verification of verifications ?? []) {
+      const newPath = `${verification.order_id}/${verification.payment_proof_path}`
+
+      const { error: moveError } = await supabaseAdmin.storage
+        .from('payment-proofs')
+        .move(verification.payment_proof_path, newPath)
+
+      if (moveError) {
+        failed.push({ id: verification.id, error: moveError.message })
+        continue
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('manual_payment_verifications')
+        .update({ payment_proof_path: newPath })
+        .eq('id', verification.id)
+
+      if (updateError) {
+        // The file already moved; record it so the path can be fixed by hand
+        failed.push({ id: verification.id, error: `Moved to ${newPath} but not updated: ${updateError.message}` })
+        continue
+      }
+
+      moved++
+    }
+
+    return new Response(
+      JSON.stringify({ moved, failed }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
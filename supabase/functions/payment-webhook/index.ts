@@ -0,0 +1,127 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SANDBOX_SIGNATURE_HEADER, verifySandboxSignature, type SandboxEvent } from '../_shared/sandbox.ts'
+
+// Provider-neutral shape every webhook is translated into before touching the database
+interface PaymentEvent {
+  id: string
+  type: 'payment.succeeded' | 'payment.failed' | 'refund.succeeded'
+  intentId: string
+  reference?: string
+  amount?: number
+  reason?: string
+}
+
+// Verifies the request came from the provider and parses it; null means the signature is invalid.
+// New gateways add their handler here.
+type WebhookHandler = (req: Request, body: string) => Promise<PaymentEvent | null>
+
+const handlers: Record<string, WebhookHandler> = {
+  sandbox: async (req, body) => {
+    const signature = req.headers.get(SANDBOX_SIGNATURE_HEADER) ?? ''
+    const secret = Deno.env.get('SANDBOX_WEBHOOK_SECRET') ?? ''
+
+    if (!secret || !(await verifySandboxSignature(body, signature, secret))) {
+      return null
+    }
+
+    const event = JSON.parse(body) as SandboxEvent
+    return {
+      id: event.id,
+      type: event.type,
+      intentId: event.intent_id,
+      reference: event.reference,
+      amount: event.amount,
+      reason: event.reason
+    }
+  }
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+// Receives payment results from the gateways. Deployed without JWT verification:
+// each provider authenticates its own calls (see handlers above).
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  const providerId = new URL(req.url).searchParams.get('provider') ?? ''
+  const handler = handlers[providerId]
+
+  if (!handler) {
+    return json({ error: 'Unknown provider' }, 404)
+  }
+
+  try {
+    const body = await req.text()
+    const event = await handler(req, body)
+
+    if (!event) {
+      return json({ error: 'Invalid signature' }, 401)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Providers retry deliveries; the unique event id makes repeats a no-op
+    const { error: eventError } = await supabaseAdmin
+      .from('payment_intent_events')
+      .insert({
+        intent_id: event.intentId,
+        provider_id: providerId,
+        event_id: event.id,
+        event_type: event.type,
+        payload: JSON.parse(body)
+      })
+
+    if (eventError?.code === '23505') {
+      return json({ received: true, duplicate: true }, 200)
+    }
+
+    if (eventError) {
+      console.error('Error recording payment event:', eventError)
+      return json({ error: eventError.message }, 500)
+    }
+
+    const { data: result, error } = event.type === 'refund.succeeded'
+      ? await supabaseAdmin.rpc('record_payment_intent_refund', {
+          _intent_id: event.intentId,
+          _amount: event.amount
+        })
+      : await supabaseAdmin.rpc('complete_payment_intent', {
+          _intent_id: event.intentId,
+          _succeeded: event.type === 'payment.succeeded',
+          _provider_reference: event.reference ?? null,
+          _failure_reason: event.reason ?? null
+        })
+
+    if (error) {
+      console.error('Error applying payment event:', error)
+      // Let the provider retry once the problem is fixed
+      await supabaseAdmin
+        .from('payment_intent_events')
+        .delete()
+        .eq('provider_id', providerId)
+        .eq('event_id', event.id)
+
+      return json({ error: error.message }, 500)
+    }
+
+    return json({ received: true, result }, 200)
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return json({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,172 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SANDBOX_SIGNATURE_HEADER, signSandboxPayload, type SandboxEvent } from '../_shared/sandbox.ts'
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_DELAY_SECONDS = 60
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Sends the event to payment-webhook signed as the sandbox gateway
+const deliverEvent = async (event: SandboxEvent) => {
+  const payload = JSON.stringify(event)
+  const signature = await signSandboxPayload(payload, Deno.env.get('SANDBOX_WEBHOOK_SECRET') ?? '')
+
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-webhook?provider=sandbox`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [SANDBOX_SIGNATURE_HEADER]: signature
+    },
+    body: payload
+  })
+
+  if (!response.ok) {
+    throw new Error(`Webhook rejected the event: ${await response.text()}`)
+  }
+}
+
+// Simulated card gateway for testing checkout end to end without real money.
+// confirm: the customer pays an intent; the outcome (success, failure, delayed) comes back by webhook.
+// refund: restaurant staff return part or all of a succeeded payment.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'No authorization header' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: provider } = await supabaseAdmin
+      .from('payment_providers')
+      .select('is_active, settings')
+      .eq('id', 'sandbox')
+      .single()
+
+    if (!provider?.is_active) {
+      return json({ error: 'La pasarela de pruebas no está activa' }, 400)
+    }
+
+    const { action, intent_id, outcome, amount } = await req.json()
+
+    const { data: intent } = await supabaseAdmin
+      .from('payment_intents')
+      .select('*, orders (user_id)')
+      .eq('id', intent_id)
+      .eq('provider_id', 'sandbox')
+      .single()
+
+    if (!intent) {
+      return json({ error: 'Cobro no encontrado' }, 404)
+    }
+
+    if (action === 'confirm') {
+      if (intent.orders?.user_id !== user.id) {
+        return json({ error: 'Cobro no encontrado' }, 404)
+      }
+
+      if (intent.status !== 'requires_confirmation') {
+        return json({ error: 'Este cobro ya fue procesado' }, 409)
+      }
+
+      // Only one of two simultaneous confirms gets to move the intent and send the event
+      const { data: claimed } = await supabaseAdmin
+        .from('payment_intents')
+        .update({ status: 'processing', updated_at: new Date().toISOString() })
+        .eq('id', intent.id)
+        .eq('status', 'requires_confirmation')
+        .select('id')
+
+      if (!claimed?.length) {
+        return json({ error: 'Este cobro ya fue procesado' }, 409)
+      }
+
+      const delaySeconds = outcome === 'delayed'
+        ? Math.min(Math.max(Number(provider.settings?.delay_seconds) || 5, 0), MAX_DELAY_SECONDS)
+        : 0
+
+      const event: SandboxEvent = outcome === 'failure'
+        ? { id: crypto.randomUUID(), type: 'payment.failed', intent_id: intent.id, reason: 'Tarjeta rechazada (simulado)' }
+        : { id: crypto.randomUUID(), type: 'payment.succeeded', intent_id: intent.id, reference: `sbx_${intent.id.slice(0, 8)}` }
+
+      // Answer right away, like a gateway acknowledging the charge, and report the result later
+      EdgeRuntime.waitUntil(
+        sleep(delaySeconds * 1000)
+          .then(() => deliverEvent(event))
+          .catch(async (error) => {
+            console.error('Error delivering sandbox event:', error)
+            // Without the webhook the intent would stay processing; a resolved intent is left as is
+            await supabaseAdmin.rpc('complete_payment_intent', {
+              _intent_id: intent.id,
+              _succeeded: false,
+              _failure_reason: 'No se pudo confirmar el cobro con la pasarela'
+            })
+          })
+      )
+
+      return json({ status: 'processing' }, 200)
+    }
+
+    if (action === 'refund') {
+      const { data: isRestaurant } = await supabaseAdmin.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'restaurant'
+      })
+
+      if (!isRestaurant) {
+        return json({ error: 'Insufficient permissions' }, 403)
+      }
+
+      const refundable = intent.amount - intent.refunded_amount
+      if (intent.status !== 'succeeded' || !(amount > 0) || amount > refundable + 0.001) {
+        return json({ error: 'Monto de reembolso no válido' }, 400)
+      }
+
+      await deliverEvent({ id: crypto.randomUUID(), type: 'refund.succeeded', intent_id: intent.id, amount })
+      return json({ status: 'refunded' }, 200)
+    }
+
+    return json({ error: 'Acción no válida' }, 400)
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500)
+  }
+})
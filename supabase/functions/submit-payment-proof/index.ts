@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+const sha256Hex = async (file: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Files a manual payment once its proof is in the bucket. The proof hash that catches the
+// same file sent for another payment is computed here from the stored object, so the
+// customer can't choose it; customers no longer insert verifications directly.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'No authorization header' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized' }, 401)
+    }
+
+    const {
+      id,
+      order_id,
+      payment_method_id,
+      payment_method_type,
+      origin_bank,
+      phone_number_used,
+      amount_paid,
+      amount_currency,
+      reference_number,
+      payment_proof_path
+    } = await req.json()
+
+    const { data: order } = await supabaseAdmin
+      .from('orders')
+      .select('id, user_id')
+      .eq('id', order_id)
+      .single()
+
+    if (!order || order.user_id !== user.id) {
+      return json({ error: 'Pedido no encontrado' }, 404)
+    }
+
+    // The upload policy only lets customers write under their own order's folder
+    if (typeof payment_proof_path !== 'string' || !payment_proof_path.startsWith(`${order.id}/`)) {
+      return json({ error: 'Comprobante no válido' }, 400)
+    }
+
+    const { data: paymentMethod } = await supabaseAdmin
+      .from('payment_methods')
+      .select('id')
+      .eq('id', payment_method_id)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!paymentMethod) {
+      return json({ error: 'Cuenta receptora no disponible' }, 400)
+    }
+
+    const { data: proof, error: downloadError } = await supabaseAdmin.storage
+      .from('payment-proofs')
+      .download(payment_proof_path)
+
+    if (downloadError || !proof) {
+      return json({ error: 'No se encontró el comprobante subido' }, 400)
+    }
+
+    const { error: insertError } = await supabaseAdmin
+      .from('manual_payment_verifications')
+      .insert({
+        id,
+        order_id: order.id,
+        payment_method_id,
+        payment_method_type,
+        origin_bank,
+        phone_number_used,
+        amount_paid,
+        amount_currency,
+        reference_number,
+        payment_proof_path,
+        proof_file_hash: await sha256Hex(proof)
+      })
+
+    // The database triggers reject payments for cancelled or already paid orders
+    if (insertError) {
+      return json({ error: insertError.message }, 400)
+    }
+
+    return json({ id }, 200)
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return json({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,171 @@
+
+-- Función para crear pedidos de forma atómica.
+-- Recalcula todos los precios en el servidor a partir de menu_items, composite_dishes,
+-- dish_optional_elements y dish_replacement_options, e inserta el pedido, sus items
+-- y sus personalizaciones en una sola transacción.
+--
+-- _items es un arreglo JSON de líneas:
+--   { "menu_item_id": uuid, "quantity": int }
+--   { "composite_dish_id": uuid, "quantity": int,
+--     "customizations": [{ "optional_element_id": uuid, "is_included": bool, "replacement_item_id": uuid | null }] }
+-- Los elementos opcionales que no aparecen en "customizations" usan su valor por defecto.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _order_item_id UUID;
+  _item JSONB;
+  _custom JSONB;
+  _element RECORD;
+  _menu_item_id UUID;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _is_included BOOLEAN;
+  _replacement_item_id UUID;
+  _price_difference NUMERIC;
+  _price_adjustment NUMERIC;
+  _subtotal NUMERIC := 0;
+  _delivery_fee NUMERIC := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuario no autenticado';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'No hay items en el pedido';
+  END IF;
+
+  IF _table_id IS NOT NULL THEN
+    IF NOT has_role(_user_id, 'mesero'::app_role) THEN
+      RAISE EXCEPTION 'Solo los meseros pueden crear pedidos de mesa';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE id = _table_id) THEN
+      RAISE EXCEPTION 'Mesa no encontrada';
+    END IF;
+  ELSE
+    _delivery_fee := 3.50;
+  END IF;
+
+  INSERT INTO orders (user_id, total_amount, delivery_fee, status, notes)
+  VALUES (
+    _user_id,
+    0,
+    _delivery_fee,
+    'pending',
+    CASE WHEN _table_id IS NOT NULL THEN 'Mesa: ' || _table_id::TEXT ELSE _notes END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    _quantity := COALESCE((_item ->> 'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Cantidad inválida en el pedido';
+    END IF;
+
+    _dish_id := NULLIF(_item ->> 'composite_dish_id', '')::UUID;
+    _menu_item_id := NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF _dish_id IS NOT NULL THEN
+      SELECT base_price INTO _unit_price
+      FROM composite_dishes
+      WHERE id = _dish_id AND is_available = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Plato no disponible: %', _dish_id;
+      END IF;
+
+      -- Validar que todas las personalizaciones pertenecen al plato
+      IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(_item -> 'customizations', '[]'::jsonb)) c
+        WHERE NOT EXISTS (
+          SELECT 1 FROM dish_optional_elements doe
+          WHERE doe.id = (c.value ->> 'optional_element_id')::UUID
+            AND doe.dish_id = _dish_id
+        )
+      ) THEN
+        RAISE EXCEPTION 'Personalización no válida para el plato %', _dish_id;
+      END IF;
+
+      INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+      VALUES (_order_id, NULL, _dish_id, _quantity, 0, 0)
+      RETURNING id INTO _order_item_id;
+
+      FOR _element IN
+        SELECT * FROM dish_optional_elements WHERE dish_id = _dish_id
+      LOOP
+        SELECT c.value INTO _custom
+        FROM jsonb_array_elements(COALESCE(_item -> 'customizations', '[]'::jsonb)) c
+        WHERE (c.value ->> 'optional_element_id')::UUID = _element.id
+        LIMIT 1;
+
+        _is_included := COALESCE((_custom ->> 'is_included')::BOOLEAN, _element.is_included_by_default, false);
+        _replacement_item_id := NULLIF(_custom ->> 'replacement_item_id', '')::UUID;
+        _price_difference := 0;
+
+        IF _is_included AND _replacement_item_id IS NOT NULL THEN
+          SELECT COALESCE(price_difference, 0) INTO _price_difference
+          FROM dish_replacement_options
+          WHERE optional_element_id = _element.id
+            AND replacement_item_id = _replacement_item_id;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Reemplazo no válido para el plato %', _dish_id;
+          END IF;
+        ELSE
+          _replacement_item_id := NULL;
+        END IF;
+
+        _price_adjustment := CASE
+          WHEN _is_included THEN COALESCE(_element.additional_price, 0) + _price_difference
+          ELSE 0
+        END;
+        _unit_price := _unit_price + _price_adjustment;
+
+        IF _custom IS NOT NULL THEN
+          INSERT INTO order_dish_customizations (order_item_id, optional_element_id, is_included, replacement_item_id, price_adjustment)
+          VALUES (_order_item_id, _element.id, _is_included, _replacement_item_id, _price_adjustment);
+        END IF;
+      END LOOP;
+
+      UPDATE order_items
+      SET unit_price = _unit_price,
+          total_price = _unit_price * _quantity
+      WHERE id = _order_item_id;
+    ELSIF _menu_item_id IS NOT NULL THEN
+      SELECT price INTO _unit_price
+      FROM menu_items
+      WHERE id = _menu_item_id AND is_available = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Producto no disponible: %', _menu_item_id;
+      END IF;
+
+      INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+      VALUES (_order_id, _menu_item_id, NULL, _quantity, _unit_price, _unit_price * _quantity);
+    ELSE
+      RAISE EXCEPTION 'Item inválido: falta información requerida';
+    END IF;
+
+    _subtotal := _subtotal + _unit_price * _quantity;
+  END LOOP;
+
+  UPDATE orders
+  SET total_amount = _subtotal + _delivery_fee
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, TEXT) TO authenticated;
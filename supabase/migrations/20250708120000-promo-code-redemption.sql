@@ -0,0 +1,335 @@
+
+-- Guardar el descuento aplicado en el pedido
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Resolver las personalizaciones de un plato compuesto con precios del servidor.
+-- Los elementos opcionales que no aparecen en _customizations usan su valor por defecto;
+-- is_explicit indica si el cliente envió la personalización.
+CREATE OR REPLACE FUNCTION public.resolve_dish_customizations(_dish_id UUID, _customizations JSONB)
+RETURNS TABLE (
+  optional_element_id UUID,
+  is_included BOOLEAN,
+  replacement_item_id UUID,
+  price_adjustment NUMERIC,
+  is_explicit BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _element RECORD;
+  _custom JSONB;
+  _is_included BOOLEAN;
+  _replacement_item_id UUID;
+  _price_difference NUMERIC;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(_customizations, '[]'::jsonb)) c
+    WHERE NOT EXISTS (
+      SELECT 1 FROM dish_optional_elements doe
+      WHERE doe.id = (c.value ->> 'optional_element_id')::UUID
+        AND doe.dish_id = _dish_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Personalización no válida para el plato %', _dish_id;
+  END IF;
+
+  FOR _element IN
+    SELECT doe.* FROM dish_optional_elements doe WHERE doe.dish_id = _dish_id
+  LOOP
+    SELECT c.value INTO _custom
+    FROM jsonb_array_elements(COALESCE(_customizations, '[]'::jsonb)) c
+    WHERE (c.value ->> 'optional_element_id')::UUID = _element.id
+    LIMIT 1;
+
+    _is_included := COALESCE((_custom ->> 'is_included')::BOOLEAN, _element.is_included_by_default, false);
+    _replacement_item_id := NULLIF(_custom ->> 'replacement_item_id', '')::UUID;
+    _price_difference := 0;
+
+    IF _is_included AND _replacement_item_id IS NOT NULL THEN
+      SELECT COALESCE(dro.price_difference, 0) INTO _price_difference
+      FROM dish_replacement_options dro
+      WHERE dro.optional_element_id = _element.id
+        AND dro.replacement_item_id = _replacement_item_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reemplazo no válido para el plato %', _dish_id;
+      END IF;
+    ELSE
+      _replacement_item_id := NULL;
+    END IF;
+
+    optional_element_id := _element.id;
+    is_included := _is_included;
+    replacement_item_id := _replacement_item_id;
+    price_adjustment := CASE
+      WHEN _is_included THEN COALESCE(_element.additional_price, 0) + _price_difference
+      ELSE 0
+    END;
+    is_explicit := _custom IS NOT NULL;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Validar las líneas de un pedido y devolverlas con su precio unitario calculado en el servidor
+CREATE OR REPLACE FUNCTION public.quote_order_lines(_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _menu_item_id UUID;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _result JSONB := '[]'::jsonb;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'No hay items en el pedido';
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    _quantity := COALESCE((_item ->> 'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Cantidad inválida en el pedido';
+    END IF;
+
+    _dish_id := NULLIF(_item ->> 'composite_dish_id', '')::UUID;
+    _menu_item_id := NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF _dish_id IS NOT NULL THEN
+      SELECT base_price INTO _unit_price
+      FROM composite_dishes
+      WHERE id = _dish_id AND is_available = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Plato no disponible: %', _dish_id;
+      END IF;
+
+      _unit_price := _unit_price + COALESCE((
+        SELECT SUM(r.price_adjustment)
+        FROM resolve_dish_customizations(_dish_id, _item -> 'customizations') r
+      ), 0);
+    ELSIF _menu_item_id IS NOT NULL THEN
+      SELECT price INTO _unit_price
+      FROM menu_items
+      WHERE id = _menu_item_id AND is_available = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Producto no disponible: %', _menu_item_id;
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Item inválido: falta información requerida';
+    END IF;
+
+    _result := _result || jsonb_build_array(_item || jsonb_build_object('unit_price', _unit_price));
+  END LOOP;
+
+  RETURN _result;
+END;
+$$;
+
+-- Calcular el descuento de un código promocional sobre líneas ya cotizadas.
+-- Valida vigencia, estado, límite de usos, pedido mínimo y productos aplicables.
+-- Para 'buy_x_get_y', discount_value es X: por cada X unidades se regala una más.
+CREATE OR REPLACE FUNCTION public.compute_promo_discount(_code TEXT, _quoted_lines JSONB)
+RETURNS TABLE (promotion_id UUID, promotion_name TEXT, discount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions%ROWTYPE;
+  _subtotal NUMERIC;
+  _eligible_subtotal NUMERIC;
+  _discount NUMERIC := 0;
+BEGIN
+  SELECT * INTO _promotion
+  FROM promotions p
+  WHERE upper(p.promo_code) = upper(trim(_code));
+
+  IF NOT FOUND OR NOT COALESCE(_promotion.is_active, false) THEN
+    RAISE EXCEPTION 'Código promocional no válido';
+  END IF;
+
+  IF now() < _promotion.start_date OR now() > _promotion.end_date THEN
+    RAISE EXCEPTION 'El código promocional no está vigente';
+  END IF;
+
+  IF _promotion.usage_limit IS NOT NULL AND COALESCE(_promotion.usage_count, 0) >= _promotion.usage_limit THEN
+    RAISE EXCEPTION 'El código promocional alcanzó su límite de usos';
+  END IF;
+
+  SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+  INTO _subtotal
+  FROM jsonb_array_elements(_quoted_lines) l;
+
+  IF _subtotal < COALESCE(_promotion.min_order_amount, 0) THEN
+    RAISE EXCEPTION 'El pedido mínimo para este código es $%', _promotion.min_order_amount;
+  END IF;
+
+  SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+  INTO _eligible_subtotal
+  FROM jsonb_array_elements(_quoted_lines) l
+  WHERE COALESCE(array_length(_promotion.applicable_items, 1), 0) = 0
+     OR NULLIF(l.value ->> 'menu_item_id', '')::UUID = ANY(_promotion.applicable_items);
+
+  IF _eligible_subtotal <= 0 THEN
+    RAISE EXCEPTION 'El código promocional no aplica a los productos del carrito';
+  END IF;
+
+  IF _promotion.discount_type = 'percentage' THEN
+    _discount := ROUND(_eligible_subtotal * _promotion.discount_value / 100, 2);
+  ELSIF _promotion.discount_type = 'fixed_amount' THEN
+    _discount := LEAST(_promotion.discount_value, _eligible_subtotal);
+  ELSIF _promotion.discount_type = 'buy_x_get_y' AND _promotion.discount_value >= 1 THEN
+    SELECT COALESCE(SUM(
+      FLOOR((l.value ->> 'quantity')::INTEGER / (_promotion.discount_value + 1)) * (l.value ->> 'unit_price')::NUMERIC
+    ), 0)
+    INTO _discount
+    FROM jsonb_array_elements(_quoted_lines) l
+    WHERE COALESCE(array_length(_promotion.applicable_items, 1), 0) = 0
+       OR NULLIF(l.value ->> 'menu_item_id', '')::UUID = ANY(_promotion.applicable_items);
+  END IF;
+
+  IF _promotion.max_discount_amount IS NOT NULL THEN
+    _discount := LEAST(_discount, _promotion.max_discount_amount);
+  END IF;
+
+  promotion_id := _promotion.id;
+  promotion_name := _promotion.name;
+  discount := LEAST(_discount, _subtotal);
+  RETURN NEXT;
+END;
+$$;
+
+-- Validar un código promocional desde el carrito (no consume usos)
+CREATE OR REPLACE FUNCTION public.validate_promo_code(_code TEXT, _items JSONB)
+RETURNS TABLE (promotion_id UUID, promotion_name TEXT, discount NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT * FROM public.compute_promo_discount(_code, public.quote_order_lines(_items));
+$$;
+
+-- Reemplazar place_order para usar el cálculo de precios compartido y canjear códigos promocionales
+DROP FUNCTION IF EXISTS public.place_order(JSONB, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _order_item_id UUID;
+  _quoted_lines JSONB;
+  _line JSONB;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _subtotal NUMERIC := 0;
+  _delivery_fee NUMERIC := 0;
+  _promotion_id UUID;
+  _discount NUMERIC := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuario no autenticado';
+  END IF;
+
+  IF _table_id IS NOT NULL THEN
+    IF NOT has_role(_user_id, 'mesero'::app_role) THEN
+      RAISE EXCEPTION 'Solo los meseros pueden crear pedidos de mesa';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE id = _table_id) THEN
+      RAISE EXCEPTION 'Mesa no encontrada';
+    END IF;
+  ELSE
+    _delivery_fee := 3.50;
+  END IF;
+
+  _quoted_lines := quote_order_lines(_items);
+
+  INSERT INTO orders (user_id, total_amount, delivery_fee, status, notes)
+  VALUES (
+    _user_id,
+    0,
+    _delivery_fee,
+    'pending',
+    CASE WHEN _table_id IS NOT NULL THEN 'Mesa: ' || _table_id::TEXT ELSE _notes END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT value FROM jsonb_array_elements(_quoted_lines) LOOP
+    _quantity := (_line ->> 'quantity')::INTEGER;
+    _unit_price := (_line ->> 'unit_price')::NUMERIC;
+    _dish_id := NULLIF(_line ->> 'composite_dish_id', '')::UUID;
+
+    INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      CASE WHEN _dish_id IS NULL THEN (_line ->> 'menu_item_id')::UUID END,
+      _dish_id,
+      _quantity,
+      _unit_price,
+      _unit_price * _quantity
+    )
+    RETURNING id INTO _order_item_id;
+
+    IF _dish_id IS NOT NULL THEN
+      INSERT INTO order_dish_customizations (order_item_id, optional_element_id, is_included, replacement_item_id, price_adjustment)
+      SELECT _order_item_id, r.optional_element_id, r.is_included, r.replacement_item_id, r.price_adjustment
+      FROM resolve_dish_customizations(_dish_id, _line -> 'customizations') r
+      WHERE r.is_explicit;
+    END IF;
+
+    _subtotal := _subtotal + _unit_price * _quantity;
+  END LOOP;
+
+  IF NULLIF(trim(_promo_code), '') IS NOT NULL THEN
+    -- Bloquear la promoción para que pedidos concurrentes no superen el límite de usos
+    PERFORM 1 FROM promotions
+    WHERE upper(promo_code) = upper(trim(_promo_code))
+    FOR UPDATE;
+
+    SELECT d.promotion_id, d.discount INTO _promotion_id, _discount
+    FROM compute_promo_discount(_promo_code, _quoted_lines) d;
+
+    UPDATE promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _promotion_id
+      AND (usage_limit IS NULL OR COALESCE(usage_count, 0) < usage_limit);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'El código promocional alcanzó su límite de usos';
+    END IF;
+
+    INSERT INTO order_promotions (order_id, promotion_id, discount_applied)
+    VALUES (_order_id, _promotion_id, _discount);
+  END IF;
+
+  UPDATE orders
+  SET total_amount = _subtotal - _discount + _delivery_fee,
+      discount_amount = _discount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.validate_promo_code(TEXT, JSONB) TO authenticated;
@@ -0,0 +1,323 @@
+
+-- Coordenadas de las direcciones de entrega
+ALTER TABLE public.delivery_addresses
+ADD COLUMN IF NOT EXISTS latitude DECIMAL(10, 8),
+ADD COLUMN IF NOT EXISTS longitude DECIMAL(11, 8);
+
+-- Configuración general de tarifas de envío (una sola fila)
+CREATE TABLE public.delivery_fee_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pricing_mode TEXT NOT NULL DEFAULT 'distance' CHECK (pricing_mode IN ('distance', 'zone')),
+  restaurant_latitude DECIMAL(10, 8),
+  restaurant_longitude DECIMAL(11, 8),
+  default_fee NUMERIC(10,2) NOT NULL DEFAULT 3.50,
+  free_delivery_threshold NUMERIC(10,2),
+  max_distance_km NUMERIC(6,2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Tramos de tarifa por distancia
+CREATE TABLE public.delivery_fee_tiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  max_distance_km NUMERIC(6,2) NOT NULL CHECK (max_distance_km > 0),
+  fee NUMERIC(10,2) NOT NULL CHECK (fee >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Zonas de entrega (círculos alrededor de un punto central)
+CREATE TABLE public.delivery_zones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  center_latitude DECIMAL(10, 8) NOT NULL,
+  center_longitude DECIMAL(11, 8) NOT NULL,
+  radius_km NUMERIC(6,2) NOT NULL CHECK (radius_km > 0),
+  fee NUMERIC(10,2) NOT NULL CHECK (fee >= 0),
+  min_order_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  free_delivery_threshold NUMERIC(10,2),
+  display_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.delivery_fee_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.delivery_fee_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view delivery fee settings"
+  ON public.delivery_fee_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant users can manage delivery fee settings"
+  ON public.delivery_fee_settings
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Anyone can view delivery fee tiers"
+  ON public.delivery_fee_tiers
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant users can manage delivery fee tiers"
+  ON public.delivery_fee_tiers
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Anyone can view active delivery zones"
+  ON public.delivery_zones
+  FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Restaurant users can manage delivery zones"
+  ON public.delivery_zones
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Configuración inicial equivalente a la tarifa fija anterior
+INSERT INTO public.delivery_fee_settings (pricing_mode, default_fee) VALUES ('distance', 3.50);
+
+-- Distancia en kilómetros entre dos coordenadas (fórmula de Haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(_lat1 NUMERIC, _lng1 NUMERIC, _lat2 NUMERIC, _lng2 NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (6371 * 2 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2) +
+    cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  )))::NUMERIC;
+$$;
+
+-- Calcular la tarifa de envío para una dirección y un subtotal.
+-- Sin coordenadas se aplica la tarifa por defecto; el umbral de envío gratis se aplica siempre.
+CREATE OR REPLACE FUNCTION public.calculate_delivery_fee(_delivery_address_id UUID, _subtotal NUMERIC)
+RETURNS TABLE (fee NUMERIC, distance_km NUMERIC, zone_id UUID, zone_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _settings public.delivery_fee_settings%ROWTYPE;
+  _address public.delivery_addresses%ROWTYPE;
+  _zone public.delivery_zones%ROWTYPE;
+  _fee NUMERIC;
+  _distance NUMERIC;
+  _threshold NUMERIC;
+BEGIN
+  SELECT * INTO _settings FROM delivery_fee_settings ORDER BY created_at LIMIT 1;
+
+  IF NOT FOUND THEN
+    fee := 3.50;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  _fee := _settings.default_fee;
+  _threshold := _settings.free_delivery_threshold;
+
+  IF _delivery_address_id IS NOT NULL THEN
+    SELECT * INTO _address FROM delivery_addresses WHERE id = _delivery_address_id;
+  END IF;
+
+  IF _address.latitude IS NOT NULL AND _address.longitude IS NOT NULL THEN
+    IF _settings.pricing_mode = 'zone' THEN
+      SELECT z.* INTO _zone
+      FROM delivery_zones z
+      WHERE z.is_active = true
+        AND public.distance_km(z.center_latitude, z.center_longitude, _address.latitude, _address.longitude) <= z.radius_km
+      ORDER BY z.display_order, z.radius_km
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'La dirección está fuera de nuestras zonas de entrega';
+      END IF;
+
+      IF _subtotal < _zone.min_order_amount THEN
+        RAISE EXCEPTION 'El pedido mínimo para la zona % es $%', _zone.name, _zone.min_order_amount;
+      END IF;
+
+      _fee := _zone.fee;
+      _threshold := COALESCE(_zone.free_delivery_threshold, _settings.free_delivery_threshold);
+      _distance := public.distance_km(_zone.center_latitude, _zone.center_longitude, _address.latitude, _address.longitude);
+      zone_id := _zone.id;
+      zone_name := _zone.name;
+    ELSIF _settings.restaurant_latitude IS NOT NULL AND _settings.restaurant_longitude IS NOT NULL THEN
+      _distance := public.distance_km(
+        _settings.restaurant_latitude, _settings.restaurant_longitude,
+        _address.latitude, _address.longitude
+      );
+
+      IF _settings.max_distance_km IS NOT NULL AND _distance > _settings.max_distance_km THEN
+        RAISE EXCEPTION 'La dirección está a % km, fuera del radio de entrega', ROUND(_distance, 1);
+      END IF;
+
+      IF EXISTS (SELECT 1 FROM delivery_fee_tiers) THEN
+        SELECT t.fee INTO _fee
+        FROM delivery_fee_tiers t
+        WHERE t.max_distance_km >= _distance
+        ORDER BY t.max_distance_km
+        LIMIT 1;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'La dirección está a % km, fuera del radio de entrega', ROUND(_distance, 1);
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  IF _threshold IS NOT NULL AND _subtotal >= _threshold THEN
+    _fee := 0;
+  END IF;
+
+  fee := _fee;
+  distance_km := ROUND(_distance, 2);
+  RETURN NEXT;
+END;
+$$;
+
+-- Cotizar la tarifa de envío desde el carrito
+CREATE OR REPLACE FUNCTION public.quote_delivery_fee(_items JSONB, _delivery_address_id UUID DEFAULT NULL)
+RETURNS TABLE (fee NUMERIC, distance_km NUMERIC, zone_id UUID, zone_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT f.*
+  FROM public.calculate_delivery_fee(
+    _delivery_address_id,
+    (
+      SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+      FROM jsonb_array_elements(public.quote_order_lines(_items)) l
+    )
+  ) f;
+$$;
+
+-- Reemplazar place_order para calcular la tarifa de envío con el motor de tarifas
+DROP FUNCTION IF EXISTS public.place_order(JSONB, UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_address_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _order_item_id UUID;
+  _quoted_lines JSONB;
+  _line JSONB;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _subtotal NUMERIC;
+  _delivery_fee NUMERIC := 0;
+  _promotion_id UUID;
+  _discount NUMERIC := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuario no autenticado';
+  END IF;
+
+  _quoted_lines := quote_order_lines(_items);
+
+  SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+  INTO _subtotal
+  FROM jsonb_array_elements(_quoted_lines) l;
+
+  IF _table_id IS NOT NULL THEN
+    IF NOT has_role(_user_id, 'mesero'::app_role) THEN
+      RAISE EXCEPTION 'Solo los meseros pueden crear pedidos de mesa';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE id = _table_id) THEN
+      RAISE EXCEPTION 'Mesa no encontrada';
+    END IF;
+  ELSE
+    IF _delivery_address_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM delivery_addresses WHERE id = _delivery_address_id AND user_id = _user_id
+    ) THEN
+      RAISE EXCEPTION 'Dirección de entrega no válida';
+    END IF;
+
+    SELECT f.fee INTO _delivery_fee
+    FROM calculate_delivery_fee(_delivery_address_id, _subtotal) f;
+  END IF;
+
+  INSERT INTO orders (user_id, total_amount, delivery_fee, delivery_address_id, status, notes)
+  VALUES (
+    _user_id,
+    0,
+    _delivery_fee,
+    CASE WHEN _table_id IS NULL THEN _delivery_address_id END,
+    'pending',
+    CASE WHEN _table_id IS NOT NULL THEN 'Mesa: ' || _table_id::TEXT ELSE _notes END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT value FROM jsonb_array_elements(_quoted_lines) LOOP
+    _quantity := (_line ->> 'quantity')::INTEGER;
+    _unit_price := (_line ->> 'unit_price')::NUMERIC;
+    _dish_id := NULLIF(_line ->> 'composite_dish_id', '')::UUID;
+
+    INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      CASE WHEN _dish_id IS NULL THEN (_line ->> 'menu_item_id')::UUID END,
+      _dish_id,
+      _quantity,
+      _unit_price,
+      _unit_price * _quantity
+    )
+    RETURNING id INTO _order_item_id;
+
+    IF _dish_id IS NOT NULL THEN
+      INSERT INTO order_dish_customizations (order_item_id, optional_element_id, is_included, replacement_item_id, price_adjustment)
+      SELECT _order_item_id, r.optional_element_id, r.is_included, r.replacement_item_id, r.price_adjustment
+      FROM resolve_dish_customizations(_dish_id, _line -> 'customizations') r
+      WHERE r.is_explicit;
+    END IF;
+  END LOOP;
+
+  IF NULLIF(trim(_promo_code), '') IS NOT NULL THEN
+    -- Bloquear la promoción para que pedidos concurrentes no superen el límite de usos
+    PERFORM 1 FROM promotions
+    WHERE upper(promo_code) = upper(trim(_promo_code))
+    FOR UPDATE;
+
+    SELECT d.promotion_id, d.discount INTO _promotion_id, _discount
+    FROM compute_promo_discount(_promo_code, _quoted_lines) d;
+
+    UPDATE promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _promotion_id
+      AND (usage_limit IS NULL OR COALESCE(usage_count, 0) < usage_limit);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'El código promocional alcanzó su límite de usos';
+    END IF;
+
+    INSERT INTO order_promotions (order_id, promotion_id, discount_applied)
+    VALUES (_order_id, _promotion_id, _discount);
+  END IF;
+
+  UPDATE orders
+  SET total_amount = _subtotal - _discount + _delivery_fee,
+      discount_amount = _discount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.quote_delivery_fee(JSONB, UUID) TO authenticated;
@@ -0,0 +1,67 @@
+
+-- Tasa de cambio diaria USD -> VES
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  date DATE NOT NULL,
+  usd_to_ves_rate NUMERIC(14,4) NOT NULL CHECK (usd_to_ves_rate > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS exchange_rates_date_key ON public.exchange_rates (date);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view exchange rates" ON public.exchange_rates;
+CREATE POLICY "Anyone can view exchange rates"
+  ON public.exchange_rates
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Restaurant users can manage exchange rates" ON public.exchange_rates;
+CREATE POLICY "Restaurant users can manage exchange rates"
+  ON public.exchange_rates
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Tasa congelada en cada pedido para que los montos históricos no cambien
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(14,4);
+
+-- Tasa vigente en una fecha (la más reciente registrada hasta ese día)
+CREATE OR REPLACE FUNCTION public.exchange_rate_on(_date DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT usd_to_ves_rate
+  FROM exchange_rates
+  WHERE date <= _date
+  ORDER BY date DESC
+  LIMIT 1;
+$$;
+
+-- Trigger para congelar la tasa de cambio al crear el pedido
+CREATE OR REPLACE FUNCTION public.set_order_exchange_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.exchange_rate IS NULL THEN
+    NEW.exchange_rate := exchange_rate_on(CURRENT_DATE);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_exchange_rate_trigger
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_order_exchange_rate();
+
+-- Asignar a los pedidos existentes la tasa vigente el día en que se crearon
+UPDATE public.orders
+SET exchange_rate = public.exchange_rate_on(created_at::DATE)
+WHERE exchange_rate IS NULL;
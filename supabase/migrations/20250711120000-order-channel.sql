@@ -0,0 +1,279 @@
+
+-- Canal explícito del pedido (en mesa, a domicilio o para retirar)
+CREATE TYPE public.order_channel AS ENUM ('dine_in', 'delivery', 'pickup');
+
+ALTER TABLE public.orders
+ADD COLUMN channel public.order_channel NOT NULL DEFAULT 'delivery',
+ADD COLUMN table_id UUID REFERENCES public.restaurant_tables(id) ON DELETE SET NULL;
+
+-- Migrar los pedidos de mesa identificados por la convención "Mesa: <id>" en las notas
+UPDATE public.orders o
+SET channel = 'dine_in',
+    table_id = (
+      SELECT rt.id
+      FROM public.restaurant_tables rt
+      WHERE rt.id::TEXT = trim(substring(o.notes FROM 'Mesa:\s*(.*)$'))
+    ),
+    notes = NULL
+WHERE o.notes LIKE 'Mesa:%';
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_table_id_channel_check CHECK (table_id IS NULL OR channel = 'dine_in');
+
+CREATE INDEX idx_orders_channel_status ON public.orders (channel, status);
+CREATE INDEX idx_orders_table_id ON public.orders (table_id);
+
+-- Reemplazar place_order para registrar el canal y la mesa en columnas propias
+DROP FUNCTION IF EXISTS public.place_order(JSONB, UUID, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_address_id UUID DEFAULT NULL,
+  _channel public.order_channel DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _order_item_id UUID;
+  _quoted_lines JSONB;
+  _line JSONB;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _subtotal NUMERIC;
+  _delivery_fee NUMERIC := 0;
+  _order_channel public.order_channel;
+  _promotion_id UUID;
+  _discount NUMERIC := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuario no autenticado';
+  END IF;
+
+  _quoted_lines := quote_order_lines(_items);
+
+  SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+  INTO _subtotal
+  FROM jsonb_array_elements(_quoted_lines) l;
+
+  _order_channel := CASE
+    WHEN _table_id IS NOT NULL THEN 'dine_in'::order_channel
+    ELSE COALESCE(_channel, 'delivery'::order_channel)
+  END;
+
+  IF _order_channel = 'dine_in' THEN
+    IF _table_id IS NULL THEN
+      RAISE EXCEPTION 'Los pedidos en mesa requieren una mesa';
+    END IF;
+
+    IF NOT has_role(_user_id, 'mesero'::app_role) THEN
+      RAISE EXCEPTION 'Solo los meseros pueden crear pedidos de mesa';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE id = _table_id) THEN
+      RAISE EXCEPTION 'Mesa no encontrada';
+    END IF;
+  ELSIF _order_channel = 'delivery' THEN
+    IF _delivery_address_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM delivery_addresses WHERE id = _delivery_address_id AND user_id = _user_id
+    ) THEN
+      RAISE EXCEPTION 'Dirección de entrega no válida';
+    END IF;
+
+    SELECT f.fee INTO _delivery_fee
+    FROM calculate_delivery_fee(_delivery_address_id, _subtotal) f;
+  END IF;
+
+  INSERT INTO orders (user_id, total_amount, delivery_fee, delivery_address_id, channel, table_id, status, notes)
+  VALUES (
+    _user_id,
+    0,
+    _delivery_fee,
+    CASE WHEN _order_channel = 'delivery' THEN _delivery_address_id END,
+    _order_channel,
+    CASE WHEN _order_channel = 'dine_in' THEN _table_id END,
+    'pending',
+    _notes
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT value FROM jsonb_array_elements(_quoted_lines) LOOP
+    _quantity := (_line ->> 'quantity')::INTEGER;
+    _unit_price := (_line ->> 'unit_price')::NUMERIC;
+    _dish_id := NULLIF(_line ->> 'composite_dish_id', '')::UUID;
+
+    INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      CASE WHEN _dish_id IS NULL THEN (_line ->> 'menu_item_id')::UUID END,
+      _dish_id,
+      _quantity,
+      _unit_price,
+      _unit_price * _quantity
+    )
+    RETURNING id INTO _order_item_id;
+
+    IF _dish_id IS NOT NULL THEN
+      INSERT INTO order_dish_customizations (order_item_id, optional_element_id, is_included, replacement_item_id, price_adjustment)
+      SELECT _order_item_id, r.optional_element_id, r.is_included, r.replacement_item_id, r.price_adjustment
+      FROM resolve_dish_customizations(_dish_id, _line -> 'customizations') r
+      WHERE r.is_explicit;
+    END IF;
+  END LOOP;
+
+  IF NULLIF(trim(_promo_code), '') IS NOT NULL THEN
+    -- Bloquear la promoción para que pedidos concurrentes no superen el límite de usos
+    PERFORM 1 FROM promotions
+    WHERE upper(promo_code) = upper(trim(_promo_code))
+    FOR UPDATE;
+
+    SELECT d.promotion_id, d.discount INTO _promotion_id, _discount
+    FROM compute_promo_discount(_promo_code, _quoted_lines) d;
+
+    UPDATE promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _promotion_id
+      AND (usage_limit IS NULL OR COALESCE(usage_count, 0) < usage_limit);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'El código promocional alcanzó su límite de usos';
+    END IF;
+
+    INSERT INTO order_promotions (order_id, promotion_id, discount_applied)
+    VALUES (_order_id, _promotion_id, _discount);
+  END IF;
+
+  UPDATE orders
+  SET total_amount = _subtotal - _discount + _delivery_fee,
+      discount_amount = _discount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, TEXT, TEXT, UUID, public.order_channel) TO authenticated;
+
+-- Estadísticas de ventas con desglose por canal
+DROP FUNCTION IF EXISTS public.get_sales_stats(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.get_sales_stats(
+  start_date TIMESTAMP WITH TIME ZONE DEFAULT (CURRENT_DATE - INTERVAL '30 days'),
+  end_date TIMESTAMP WITH TIME ZONE DEFAULT (CURRENT_DATE + INTERVAL '1 day')
+)
+RETURNS TABLE (
+  total_orders INTEGER,
+  total_revenue NUMERIC,
+  avg_order_value NUMERIC,
+  top_selling_items JSONB,
+  peak_hours JSONB,
+  daily_sales JSONB,
+  sales_by_channel JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH order_stats AS (
+    SELECT 
+      COUNT(*)::INTEGER as total_orders,
+      COALESCE(SUM(total_amount), 0) as total_revenue,
+      COALESCE(AVG(total_amount), 0) as avg_order_value
+    FROM public.orders 
+    WHERE created_at BETWEEN start_date AND end_date
+      AND status NOT IN ('cancelled')
+  ),
+  top_items AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'item_name', mi.name,
+        'total_quantity', SUM(oi.quantity),
+        'total_revenue', SUM(oi.total_price)
+      ) ORDER BY SUM(oi.quantity) DESC
+    ) as items
+    FROM public.order_items oi
+    JOIN public.orders o ON oi.order_id = o.id
+    JOIN public.menu_items mi ON oi.menu_item_id = mi.id
+    WHERE o.created_at BETWEEN start_date AND end_date
+      AND o.status NOT IN ('cancelled')
+    LIMIT 10
+  ),
+  peak_times AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'hour', hour_of_day,
+        'order_count', order_count
+      ) ORDER BY order_count DESC
+    ) as hours
+    FROM (
+      SELECT 
+        EXTRACT(HOUR FROM created_at) as hour_of_day,
+        COUNT(*) as order_count
+      FROM public.orders
+      WHERE created_at BETWEEN start_date AND end_date
+        AND status NOT IN ('cancelled')
+      GROUP BY EXTRACT(HOUR FROM created_at)
+    ) hourly_stats
+  ),
+  daily_revenue AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'date', date_day,
+        'revenue', daily_total,
+        'orders', daily_orders
+      ) ORDER BY date_day
+    ) as daily_data
+    FROM (
+      SELECT 
+        DATE(created_at) as date_day,
+        SUM(total_amount) as daily_total,
+        COUNT(*) as daily_orders
+      FROM public.orders
+      WHERE created_at BETWEEN start_date AND end_date
+        AND status NOT IN ('cancelled')
+      GROUP BY DATE(created_at)
+    ) daily_stats
+  ),
+  channel_stats AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'channel', channel,
+        'orders', channel_orders,
+        'revenue', channel_total
+      ) ORDER BY channel_total DESC
+    ) as channels
+    FROM (
+      SELECT 
+        channel,
+        COUNT(*) as channel_orders,
+        SUM(total_amount) as channel_total
+      FROM public.orders
+      WHERE created_at BETWEEN start_date AND end_date
+        AND status NOT IN ('cancelled')
+      GROUP BY channel
+    ) channel_totals
+  )
+  SELECT 
+    os.total_orders,
+    os.total_revenue,
+    os.avg_order_value,
+    COALESCE(ti.items, '[]'::jsonb) as top_selling_items,
+    COALESCE(pt.hours, '[]'::jsonb) as peak_hours,
+    COALESCE(dr.daily_data, '[]'::jsonb) as daily_sales,
+    COALESCE(cs.channels, '[]'::jsonb) as sales_by_channel
+  FROM order_stats os
+  CROSS JOIN top_items ti
+  CROSS JOIN peak_times pt
+  CROSS JOIN daily_revenue dr
+  CROSS JOIN channel_stats cs;
+END;
+$$;
@@ -0,0 +1,23 @@
+
+-- Notas para el repartidor en cada dirección de entrega
+ALTER TABLE public.delivery_addresses
+ADD COLUMN IF NOT EXISTS delivery_notes TEXT;
+
+-- Los repartidores necesitan las coordenadas de los pedidos a domicilio en curso
+CREATE POLICY "Drivers can view addresses of active delivery orders"
+  ON public.delivery_addresses
+  FOR SELECT
+  USING (
+    has_role(auth.uid(), 'delivery'::app_role)
+    AND EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.delivery_address_id = delivery_addresses.id
+        AND o.channel = 'delivery'
+        AND o.status IN ('pending', 'confirmed', 'preparing', 'ready')
+    )
+  );
+
+-- Los pedidos a domicilio nuevos deben indicar la dirección de entrega
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_delivery_address_required
+CHECK (channel <> 'delivery' OR delivery_address_id IS NOT NULL) NOT VALID;
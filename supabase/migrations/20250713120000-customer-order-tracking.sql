@@ -0,0 +1,20 @@
+
+-- Los clientes pueden ver la ubicación del repartidor asignado a sus pedidos en curso
+DROP POLICY IF EXISTS "Customers can view the driver of their active orders" ON public.driver_locations;
+CREATE POLICY "Customers can view the driver of their active orders"
+  ON public.driver_locations
+  FOR SELECT
+  USING (
+    driver_id IN (
+      SELECT oa.driver_id
+      FROM public.order_assignments oa
+      JOIN public.orders o ON o.id = oa.order_id
+      WHERE o.user_id = auth.uid()
+        AND oa.delivered_at IS NULL
+        AND o.status NOT IN ('delivered', 'cancelled')
+    )
+  );
+
+-- Habilitar realtime para el seguimiento en vivo del repartidor
+ALTER TABLE public.driver_locations REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.driver_locations;
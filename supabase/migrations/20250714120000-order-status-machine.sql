@@ -0,0 +1,157 @@
+
+-- Transiciones de estado permitidas para los pedidos
+CREATE TABLE public.order_status_transitions (
+  from_status public.order_status NOT NULL,
+  to_status public.order_status NOT NULL,
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'confirmed'),
+  ('pending', 'cancelled'),
+  ('confirmed', 'preparing'),
+  ('confirmed', 'cancelled'),
+  ('preparing', 'ready'),
+  ('preparing', 'cancelled'),
+  ('ready', 'delivered'),
+  ('ready', 'cancelled');
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order status transitions"
+  ON public.order_status_transitions
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant users can manage order status transitions"
+  ON public.order_status_transitions
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Historial de cambios de estado con autor, fecha y motivo
+CREATE TABLE public.order_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status public.order_status,
+  to_status public.order_status NOT NULL,
+  changed_by UUID,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_history_order ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view order status history"
+  ON public.order_status_history
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Users can view the status history of their orders"
+  ON public.order_status_history
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+  ));
+
+-- Validar cada cambio de estado contra la tabla de transiciones
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = COALESCE(OLD.status, 'pending')
+      AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Transición de estado no permitida: % → %', OLD.status, NEW.status;
+  END IF;
+
+  -- Un pedido ya recogido por el repartidor no se puede cancelar
+  IF NEW.status = 'cancelled' AND EXISTS (
+    SELECT 1 FROM order_assignments
+    WHERE order_id = NEW.id AND picked_up_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'No se puede cancelar un pedido que ya fue recogido por el repartidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_order_status_transition_trigger
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_order_status_transition();
+
+-- Registrar el estado inicial y cada cambio posterior
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    COALESCE(NEW.status, 'pending'),
+    auth.uid(),
+    NULLIF(current_setting('app.order_status_reason', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_status_change_trigger
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_status_change();
+
+-- Cambiar el estado de un pedido indicando el motivo (respeta las políticas RLS de orders)
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  _order_id UUID,
+  _status public.order_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.order_status_reason', COALESCE(_reason, ''), true);
+
+  UPDATE orders
+  SET status = _status,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT) TO authenticated;
+
+-- Estado actual de los pedidos existentes como punto de partida del historial
+INSERT INTO public.order_status_history (order_id, from_status, to_status, reason, created_at)
+SELECT id, NULL, COALESCE(status, 'pending'), 'Estado al activar el historial', updated_at
+FROM public.orders;
@@ -0,0 +1,2 @@
+-- Rol de cocina para la pantalla de pedidos (KDS)
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'kitchen';
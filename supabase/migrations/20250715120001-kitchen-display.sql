@@ -0,0 +1,82 @@
+
+-- La cocina puede leer los pedidos y sus productos para mostrar los tickets
+CREATE POLICY "Kitchen users can view orders"
+  ON public.orders
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
+
+CREATE POLICY "Kitchen users can view order items"
+  ON public.order_items
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
+
+CREATE POLICY "Kitchen users can view dish customizations"
+  ON public.order_dish_customizations
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
+
+-- Los productos o platos desactivados siguen apareciendo en los tickets ya pedidos
+CREATE POLICY "Kitchen users can view all menu items"
+  ON public.menu_items
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
+
+CREATE POLICY "Kitchen users can view all composite dishes"
+  ON public.composite_dishes
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
+
+DROP POLICY IF EXISTS "Kitchen users can view tables" ON public.restaurant_tables;
+CREATE POLICY "Kitchen users can view tables"
+  ON public.restaurant_tables
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
+
+-- Avanzar un ticket al siguiente estado de cocina: confirmado → preparando → listo
+CREATE OR REPLACE FUNCTION public.bump_kitchen_order(_order_id UUID)
+RETURNS public.order_status
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _current public.order_status;
+  _next public.order_status;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'kitchen'::app_role) OR has_role(auth.uid(), 'restaurant'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT status INTO _current
+  FROM orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  _next := CASE _current
+    WHEN 'confirmed' THEN 'preparing'::public.order_status
+    WHEN 'preparing' THEN 'ready'::public.order_status
+  END;
+
+  IF _next IS NULL THEN
+    RAISE EXCEPTION 'El pedido no está en cocina (estado actual: %)', _current;
+  END IF;
+
+  UPDATE orders
+  SET status = _next,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  RETURN _next;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bump_kitchen_order(UUID) TO authenticated;
+
+-- El tiempo en cocina se mide desde que el pedido fue confirmado
+CREATE POLICY "Kitchen users can view order status history"
+  ON public.order_status_history
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role));
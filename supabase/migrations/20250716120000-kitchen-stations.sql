@@ -0,0 +1,212 @@
+
+-- Estaciones de preparación (parrilla, cocina fría, bar...)
+CREATE TABLE public.kitchen_stations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.kitchen_stations (name, display_order) VALUES
+  ('Parrilla', 1),
+  ('Cocina Fría', 2),
+  ('Bar', 3);
+
+ALTER TABLE public.kitchen_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view kitchen stations"
+  ON public.kitchen_stations
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant users can manage kitchen stations"
+  ON public.kitchen_stations
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Estación donde se prepara cada producto o plato (NULL = cocina general)
+ALTER TABLE public.menu_items
+ADD COLUMN station_id UUID REFERENCES public.kitchen_stations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.composite_dishes
+ADD COLUMN station_id UUID REFERENCES public.kitchen_stations(id) ON DELETE SET NULL;
+
+-- Estación asignada a cada línea al entrar a cocina, para que cambios posteriores del menú no muevan tickets
+ALTER TABLE public.order_items
+ADD COLUMN station_id UUID REFERENCES public.kitchen_stations(id) ON DELETE SET NULL;
+
+-- Un ticket por estación y pedido, con su propio estado
+CREATE TYPE public.station_ticket_status AS ENUM ('pending', 'preparing', 'ready');
+
+CREATE TABLE public.order_station_tickets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  station_id UUID REFERENCES public.kitchen_stations(id) ON DELETE SET NULL,
+  status public.station_ticket_status NOT NULL DEFAULT 'pending',
+  started_at TIMESTAMP WITH TIME ZONE,
+  ready_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (order_id, station_id)
+);
+
+CREATE INDEX idx_order_station_tickets_station_status ON public.order_station_tickets (station_id, status);
+
+ALTER TABLE public.order_station_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Kitchen users can view station tickets"
+  ON public.order_station_tickets
+  FOR SELECT
+  USING (has_role(auth.uid(), 'kitchen'::app_role) OR has_role(auth.uid(), 'restaurant'::app_role));
+
+ALTER TABLE public.order_station_tickets REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.order_station_tickets;
+
+-- Repartir las líneas del pedido en tickets por estación
+CREATE OR REPLACE FUNCTION public.create_station_tickets(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE order_items oi
+  SET station_id = COALESCE(
+    (SELECT mi.station_id FROM menu_items mi WHERE mi.id = oi.menu_item_id),
+    (SELECT cd.station_id FROM composite_dishes cd WHERE cd.id = oi.composite_dish_id)
+  )
+  WHERE oi.order_id = _order_id
+    AND oi.station_id IS NULL;
+
+  INSERT INTO order_station_tickets (order_id, station_id)
+  SELECT DISTINCT _order_id, oi.station_id
+  FROM order_items oi
+  WHERE oi.order_id = _order_id
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.route_confirmed_order_to_stations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND OLD.status IS DISTINCT FROM 'confirmed' THEN
+    PERFORM create_station_tickets(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_confirmed_order_to_stations_trigger
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_confirmed_order_to_stations();
+
+-- Un pedido solo pasa a "listo" cuando todas sus estaciones terminaron
+CREATE OR REPLACE FUNCTION public.ensure_station_tickets_ready()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'ready' AND OLD.status IS DISTINCT FROM 'ready' AND EXISTS (
+    SELECT 1 FROM order_station_tickets
+    WHERE order_id = NEW.id AND status <> 'ready'
+  ) THEN
+    RAISE EXCEPTION 'Hay estaciones que aún no terminan su parte del pedido';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_station_tickets_ready_trigger
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_station_tickets_ready();
+
+-- El avance de cocina ahora es por ticket de estación
+DROP FUNCTION IF EXISTS public.bump_kitchen_order(UUID);
+
+CREATE OR REPLACE FUNCTION public.bump_station_ticket(_ticket_id UUID)
+RETURNS public.station_ticket_status
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _ticket order_station_tickets%ROWTYPE;
+  _order_status public.order_status;
+  _next public.station_ticket_status;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'kitchen'::app_role) OR has_role(auth.uid(), 'restaurant'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _ticket
+  FROM order_station_tickets
+  WHERE id = _ticket_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket no encontrado';
+  END IF;
+
+  SELECT status INTO _order_status
+  FROM orders
+  WHERE id = _ticket.order_id
+  FOR UPDATE;
+
+  IF _order_status NOT IN ('confirmed', 'preparing') THEN
+    RAISE EXCEPTION 'El pedido no está en cocina (estado actual: %)', _order_status;
+  END IF;
+
+  _next := CASE _ticket.status
+    WHEN 'pending' THEN 'preparing'::public.station_ticket_status
+    WHEN 'preparing' THEN 'ready'::public.station_ticket_status
+  END;
+
+  IF _next IS NULL THEN
+    RAISE EXCEPTION 'El ticket ya está listo';
+  END IF;
+
+  UPDATE order_station_tickets
+  SET status = _next,
+      started_at = COALESCE(started_at, now()),
+      ready_at = CASE WHEN _next = 'ready' THEN now() END
+  WHERE id = _ticket_id;
+
+  -- La primera estación que empieza pone el pedido en preparación
+  IF _order_status = 'confirmed' THEN
+    UPDATE orders SET status = 'preparing', updated_at = now() WHERE id = _ticket.order_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_station_tickets
+    WHERE order_id = _ticket.order_id AND status <> 'ready'
+  ) THEN
+    UPDATE orders SET status = 'ready', updated_at = now() WHERE id = _ticket.order_id;
+  END IF;
+
+  RETURN _next;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bump_station_ticket(UUID) TO authenticated;
+
+-- Tickets para los pedidos que ya están en cocina
+DO $$
+DECLARE
+  _order RECORD;
+BEGIN
+  FOR _order IN SELECT id, status FROM public.orders WHERE status IN ('confirmed', 'preparing') LOOP
+    PERFORM public.create_station_tickets(_order.id);
+
+    IF _order.status = 'preparing' THEN
+      UPDATE public.order_station_tickets
+      SET status = 'preparing', started_at = now()
+      WHERE order_id = _order.id;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,173 @@
+
+-- Saldo pagado de cada pedido según los pagos aprobados
+ALTER TABLE public.orders
+ADD COLUMN amount_paid NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN payment_status TEXT NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'partial', 'paid', 'overpaid'));
+
+UPDATE public.orders o
+SET amount_paid = p.total,
+    payment_status = CASE
+      WHEN p.total > o.total_amount + 0.01 THEN 'overpaid'
+      WHEN p.total >= o.total_amount - 0.01 THEN 'paid'
+      ELSE 'partial'
+    END
+FROM (
+  SELECT order_id, SUM(amount_paid) AS total
+  FROM public.manual_payment_verifications
+  WHERE status = 'approved'
+  GROUP BY order_id
+) p
+WHERE p.order_id = o.id;
+
+-- Notificaciones para clientes (pagos aprobados, rechazados, saldos pendientes)
+CREATE TABLE public.customer_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_customer_notifications_user ON public.customer_notifications (user_id, created_at DESC);
+
+ALTER TABLE public.customer_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.customer_notifications
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own notifications as read"
+  ON public.customer_notifications
+  FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Restaurant users can manage customer notifications"
+  ON public.customer_notifications
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+ALTER TABLE public.customer_notifications REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.customer_notifications;
+
+-- La revisión de pagos solo se hace a través de review_payment_verification,
+-- para que la aprobación y el estado del pedido no puedan quedar desalineados
+DROP POLICY IF EXISTS "Restaurant admins can update payment verifications" ON public.manual_payment_verifications;
+
+CREATE OR REPLACE FUNCTION public.review_payment_verification(
+  _verification_id UUID,
+  _approve BOOLEAN,
+  _rejection_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _verification
+  FROM manual_payment_verifications
+  WHERE id = _verification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verificación de pago no encontrada';
+  END IF;
+
+  IF _verification.status <> 'pending' THEN
+    RAISE EXCEPTION 'Este pago ya fue revisado';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _verification.order_id
+  FOR UPDATE;
+
+  IF NOT _approve THEN
+    IF COALESCE(trim(_rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'Debes indicar el motivo del rechazo';
+    END IF;
+
+    UPDATE manual_payment_verifications
+    SET status = 'rejected',
+        rejection_reason = trim(_rejection_reason),
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        updated_at = now()
+    WHERE id = _verification_id;
+
+    INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'payment_rejected',
+      'Pago rechazado',
+      'Tu pago con referencia ' || _verification.reference_number || ' fue rechazado: ' || trim(_rejection_reason)
+    );
+
+    RETURN _order.payment_status;
+  END IF;
+
+  UPDATE manual_payment_verifications
+  SET status = 'approved',
+      rejection_reason = NULL,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _verification_id;
+
+  SELECT COALESCE(SUM(amount_paid), 0) INTO _paid
+  FROM manual_payment_verifications
+  WHERE order_id = _order.id AND status = 'approved';
+
+  -- Un centavo de tolerancia por redondeo
+  _payment_status := CASE
+    WHEN _paid > _order.total_amount + 0.01 THEN 'overpaid'
+    WHEN _paid >= _order.total_amount - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+
+  UPDATE orders
+  SET amount_paid = _paid,
+      payment_status = _payment_status,
+      updated_at = now()
+  WHERE id = _order.id;
+
+  IF _payment_status IN ('paid', 'overpaid') AND _order.status = 'pending' THEN
+    PERFORM set_config('app.order_status_reason', 'Pago aprobado', true);
+    UPDATE orders SET status = 'confirmed', updated_at = now() WHERE id = _order.id;
+    PERFORM set_config('app.order_status_reason', '', true);
+  END IF;
+
+  INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    CASE WHEN _payment_status = 'partial' THEN 'payment_partial' ELSE 'payment_approved' END,
+    CASE WHEN _payment_status = 'partial' THEN 'Pago parcial recibido' ELSE 'Pago aprobado' END,
+    CASE
+      WHEN _payment_status = 'partial' THEN
+        'Recibimos $' || to_char(_verification.amount_paid, 'FM999999990.00')
+        || '. Falta $' || to_char(_order.total_amount - _paid, 'FM999999990.00')
+        || ' para confirmar tu pedido.'
+      ELSE 'Tu pago fue aprobado y tu pedido está confirmado.'
+    END
+  );
+
+  RETURN _payment_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_payment_verification(UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,276 @@
+
+-- Moneda del monto reportado (Pago Móvil y transferencias en bolívares, Zelle en dólares)
+-- y huella del comprobante para detectar reenvíos
+ALTER TABLE public.manual_payment_verifications
+ADD COLUMN amount_currency TEXT NOT NULL DEFAULT 'USD' CHECK (amount_currency IN ('USD', 'VES')),
+ADD COLUMN proof_file_hash TEXT;
+
+CREATE INDEX idx_manual_payment_verifications_reference
+  ON public.manual_payment_verifications (lower(trim(origin_bank)), upper(regexp_replace(reference_number, '[^0-9A-Za-z]', '', 'g')));
+
+CREATE INDEX idx_manual_payment_verifications_proof_hash
+  ON public.manual_payment_verifications (proof_file_hash)
+  WHERE proof_file_hash IS NOT NULL;
+
+-- Alertas generadas al recibir un pago, para que el revisor las vea antes de aprobar
+CREATE TABLE public.payment_verification_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  verification_id UUID NOT NULL REFERENCES public.manual_payment_verifications(id) ON DELETE CASCADE,
+  flag_type TEXT NOT NULL CHECK (flag_type IN ('duplicate_reference', 'amount_mismatch', 'duplicate_proof')),
+  message TEXT NOT NULL,
+  related_verification_id UUID REFERENCES public.manual_payment_verifications(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_verification_flags_verification ON public.payment_verification_flags (verification_id);
+
+ALTER TABLE public.payment_verification_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view payment verification flags"
+  ON public.payment_verification_flags
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Monto de un pago expresado en dólares a la tasa congelada del pedido
+CREATE OR REPLACE FUNCTION public.payment_amount_usd(_amount NUMERIC, _currency TEXT, _exchange_rate NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _currency = 'VES' AND COALESCE(_exchange_rate, 0) > 0 THEN round(_amount / _exchange_rate, 2)
+    ELSE _amount
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_payment_verification(_verification_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _other RECORD;
+  _due_usd NUMERIC;
+  _expected NUMERIC;
+BEGIN
+  SELECT * INTO _verification FROM manual_payment_verifications WHERE id = _verification_id;
+  SELECT * INTO _order FROM orders WHERE id = _verification.order_id;
+
+  DELETE FROM payment_verification_flags WHERE verification_id = _verification_id;
+
+  -- La misma referencia del mismo banco ya se reportó en otro pago
+  FOR _other IN
+    SELECT id, order_id, status
+    FROM manual_payment_verifications
+    WHERE id <> _verification.id
+      AND lower(trim(origin_bank)) = lower(trim(_verification.origin_bank))
+      AND upper(regexp_replace(reference_number, '[^0-9A-Za-z]', '', 'g'))
+        = upper(regexp_replace(_verification.reference_number, '[^0-9A-Za-z]', '', 'g'))
+  LOOP
+    INSERT INTO payment_verification_flags (verification_id, flag_type, message, related_verification_id)
+    VALUES (
+      _verification.id,
+      'duplicate_reference',
+      'La referencia ' || _verification.reference_number || ' de ' || _verification.origin_bank
+        || ' ya se usó en el pedido #' || right(_other.order_id::text, 8)
+        || CASE _other.status
+             WHEN 'approved' THEN ' (pago aprobado)'
+             WHEN 'rejected' THEN ' (pago rechazado)'
+             ELSE ' (pago pendiente)'
+           END,
+      _other.id
+    );
+  END LOOP;
+
+  -- El mismo archivo de comprobante ya se envió antes
+  IF _verification.proof_file_hash IS NOT NULL THEN
+    FOR _other IN
+      SELECT id, order_id
+      FROM manual_payment_verifications
+      WHERE id <> _verification.id
+        AND proof_file_hash = _verification.proof_file_hash
+    LOOP
+      INSERT INTO payment_verification_flags (verification_id, flag_type, message, related_verification_id)
+      VALUES (
+        _verification.id,
+        'duplicate_proof',
+        'El comprobante es el mismo archivo enviado para el pedido #' || right(_other.order_id::text, 8),
+        _other.id
+      );
+    END LOOP;
+  END IF;
+
+  -- El monto no coincide con el saldo del pedido a su tasa de cambio
+  _due_usd := greatest(_order.total_amount - _order.amount_paid, 0);
+  _expected := CASE
+    WHEN _verification.amount_currency = 'VES' THEN round(_due_usd * COALESCE(_order.exchange_rate, 0), 2)
+    ELSE _due_usd
+  END;
+
+  IF _verification.amount_currency = 'VES' AND COALESCE(_order.exchange_rate, 0) = 0 THEN
+    INSERT INTO payment_verification_flags (verification_id, flag_type, message)
+    VALUES (
+      _verification.id,
+      'amount_mismatch',
+      'Pago en bolívares para un pedido sin tasa de cambio registrada; verifica el monto manualmente'
+    );
+  -- Hasta 1% de diferencia se acepta por redondeo de la tasa
+  ELSIF abs(_verification.amount_paid - _expected) > greatest(0.01, _expected * 0.01) THEN
+    INSERT INTO payment_verification_flags (verification_id, flag_type, message)
+    VALUES (
+      _verification.id,
+      'amount_mismatch',
+      'Monto reportado ' || CASE WHEN _verification.amount_currency = 'VES' THEN 'Bs. ' ELSE '$' END
+        || to_char(_verification.amount_paid, 'FM999999990.00')
+        || '; el saldo del pedido es ' || CASE WHEN _verification.amount_currency = 'VES' THEN 'Bs. ' ELSE '$' END
+        || to_char(_expected, 'FM999999990.00')
+        || CASE WHEN _verification.amount_currency = 'VES'
+             THEN ' a tasa ' || to_char(_order.exchange_rate, 'FM999999990.00')
+             ELSE ''
+           END
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_new_payment_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM flag_payment_verification(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_new_payment_verification_trigger
+  AFTER INSERT ON public.manual_payment_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_new_payment_verification();
+
+-- Los pagos en bolívares cuentan por su equivalente en dólares a la tasa del pedido
+CREATE OR REPLACE FUNCTION public.review_payment_verification(
+  _verification_id UUID,
+  _approve BOOLEAN,
+  _rejection_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _verification
+  FROM manual_payment_verifications
+  WHERE id = _verification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verificación de pago no encontrada';
+  END IF;
+
+  IF _verification.status <> 'pending' THEN
+    RAISE EXCEPTION 'Este pago ya fue revisado';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _verification.order_id
+  FOR UPDATE;
+
+  IF NOT _approve THEN
+    IF COALESCE(trim(_rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'Debes indicar el motivo del rechazo';
+    END IF;
+
+    UPDATE manual_payment_verifications
+    SET status = 'rejected',
+        rejection_reason = trim(_rejection_reason),
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        updated_at = now()
+    WHERE id = _verification_id;
+
+    INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'payment_rejected',
+      'Pago rechazado',
+      'Tu pago con referencia ' || _verification.reference_number || ' fue rechazado: ' || trim(_rejection_reason)
+    );
+
+    RETURN _order.payment_status;
+  END IF;
+
+  UPDATE manual_payment_verifications
+  SET status = 'approved',
+      rejection_reason = NULL,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _verification_id;
+
+  SELECT COALESCE(SUM(payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate)), 0) INTO _paid
+  FROM manual_payment_verifications
+  WHERE order_id = _order.id AND status = 'approved';
+
+  -- Un centavo de tolerancia por redondeo
+  _payment_status := CASE
+    WHEN _paid > _order.total_amount + 0.01 THEN 'overpaid'
+    WHEN _paid >= _order.total_amount - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+
+  UPDATE orders
+  SET amount_paid = _paid,
+      payment_status = _payment_status,
+      updated_at = now()
+  WHERE id = _order.id;
+
+  IF _payment_status IN ('paid', 'overpaid') AND _order.status = 'pending' THEN
+    PERFORM set_config('app.order_status_reason', 'Pago aprobado', true);
+    UPDATE orders SET status = 'confirmed', updated_at = now() WHERE id = _order.id;
+    PERFORM set_config('app.order_status_reason', '', true);
+  END IF;
+
+  INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    CASE WHEN _payment_status = 'partial' THEN 'payment_partial' ELSE 'payment_approved' END,
+    CASE WHEN _payment_status = 'partial' THEN 'Pago parcial recibido' ELSE 'Pago aprobado' END,
+    CASE
+      WHEN _payment_status = 'partial' THEN
+        'Recibimos $' || to_char(payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate), 'FM999999990.00')
+        || '. Falta $' || to_char(_order.total_amount - _paid, 'FM999999990.00')
+        || ' para confirmar tu pedido.'
+      ELSE 'Tu pago fue aprobado y tu pedido está confirmado.'
+    END
+  );
+
+  RETURN _payment_status;
+END;
+$$;
+
+-- Revisar los pagos que aún esperan aprobación
+DO $$
+DECLARE
+  _verification RECORD;
+BEGIN
+  FOR _verification IN SELECT id FROM public.manual_payment_verifications WHERE status = 'pending' LOOP
+    PERFORM public.flag_payment_verification(_verification.id);
+  END LOOP;
+END;
+$$;
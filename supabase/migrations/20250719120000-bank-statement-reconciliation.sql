@@ -0,0 +1,181 @@
+
+-- Estados de cuenta importados por cuenta receptora (payment_methods)
+CREATE TABLE public.bank_statement_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_method_id UUID NOT NULL REFERENCES public.payment_methods(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_format TEXT NOT NULL CHECK (file_format IN ('csv', 'ofx')),
+  currency TEXT NOT NULL CHECK (currency IN ('USD', 'VES')),
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Movimientos de crédito del estado de cuenta; cada uno puede conciliar a lo sumo un pago
+CREATE TABLE public.bank_statement_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  import_id UUID NOT NULL REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE,
+  payment_method_id UUID NOT NULL REFERENCES public.payment_methods(id) ON DELETE CASCADE,
+  movement_date DATE NOT NULL,
+  reference TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  description TEXT,
+  matched_verification_id UUID UNIQUE REFERENCES public.manual_payment_verifications(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Un mismo movimiento puede aparecer en estados de cuenta que se solapan
+  UNIQUE (payment_method_id, movement_date, reference, amount)
+);
+
+CREATE INDEX idx_bank_statement_movements_import ON public.bank_statement_movements (import_id);
+
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view bank statement imports"
+  ON public.bank_statement_imports
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Restaurant users can view bank statement movements"
+  ON public.bank_statement_movements
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Referencia sin espacios, guiones ni signos, en mayúsculas
+CREATE OR REPLACE FUNCTION public.normalize_payment_reference(_reference TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT upper(regexp_replace(COALESCE(_reference, ''), '[^0-9A-Za-z]', '', 'g'));
+$$;
+
+-- Guarda los créditos del archivo y los concilia con los pagos pendientes de esa cuenta.
+-- _movements: [{ "date": "2025-07-19", "reference": "...", "amount": 12.5, "description": "..." }]
+CREATE OR REPLACE FUNCTION public.import_bank_statement(
+  _payment_method_id UUID,
+  _file_name TEXT,
+  _file_format TEXT,
+  _currency TEXT,
+  _movements JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _import_id UUID;
+  _payment_type TEXT;
+  _movement bank_statement_movements%ROWTYPE;
+  _match UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT payment_type INTO _payment_type FROM payment_methods WHERE id = _payment_method_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cuenta receptora no encontrada';
+  END IF;
+
+  INSERT INTO bank_statement_imports (payment_method_id, file_name, file_format, currency, imported_by)
+  VALUES (_payment_method_id, _file_name, _file_format, _currency, auth.uid())
+  RETURNING id INTO _import_id;
+
+  -- Los movimientos ya importados que siguen sin conciliar pasan a esta importación para reintentarlos
+  INSERT INTO bank_statement_movements (import_id, payment_method_id, movement_date, reference, amount, description)
+  SELECT DISTINCT ON (movement_date, reference, amount)
+    _import_id, _payment_method_id, movement_date, reference, amount, description
+  FROM (
+    SELECT (m->>'date')::date AS movement_date,
+           trim(m->>'reference') AS reference,
+           (m->>'amount')::numeric AS amount,
+           NULLIF(trim(m->>'description'), '') AS description
+    FROM jsonb_array_elements(_movements) AS m
+  ) parsed
+  WHERE amount > 0
+    AND COALESCE(reference, '') <> ''
+  ON CONFLICT (payment_method_id, movement_date, reference, amount) DO UPDATE
+    SET import_id = EXCLUDED.import_id
+    WHERE bank_statement_movements.matched_verification_id IS NULL;
+
+  FOR _movement IN
+    SELECT *
+    FROM bank_statement_movements
+    WHERE import_id = _import_id
+      AND matched_verification_id IS NULL
+    ORDER BY movement_date
+  LOOP
+    SELECT v.id INTO _match
+    FROM manual_payment_verifications v
+    WHERE v.status = 'pending'
+      AND v.payment_method_type = _payment_type
+      AND v.amount_currency = _currency
+      AND abs(v.amount_paid - _movement.amount) <= 0.01
+      -- El cliente reporta el pago el mismo día o poco después de hacerlo
+      AND _movement.movement_date BETWEEN (v.created_at::date - 3) AND (v.created_at::date + 1)
+      AND length(normalize_payment_reference(v.reference_number)) >= 4
+      -- Los bancos suelen mostrar la referencia completa y el cliente solo los últimos dígitos
+      AND (
+        normalize_payment_reference(_movement.reference) LIKE '%' || normalize_payment_reference(v.reference_number)
+        OR normalize_payment_reference(v.reference_number) LIKE '%' || normalize_payment_reference(_movement.reference)
+        OR (
+          length(normalize_payment_reference(v.reference_number)) >= 6
+          AND normalize_payment_reference(_movement.description) LIKE '%' || normalize_payment_reference(v.reference_number) || '%'
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM bank_statement_movements bm WHERE bm.matched_verification_id = v.id
+      )
+      -- Referencias o comprobantes repetidos siempre pasan por revisión manual
+      AND NOT EXISTS (
+        SELECT 1 FROM payment_verification_flags f
+        WHERE f.verification_id = v.id
+          AND f.flag_type IN ('duplicate_reference', 'duplicate_proof')
+      )
+    ORDER BY
+      (normalize_payment_reference(_movement.reference) = normalize_payment_reference(v.reference_number)) DESC,
+      abs(_movement.movement_date - v.created_at::date),
+      v.created_at
+    LIMIT 1;
+
+    IF _match IS NOT NULL THEN
+      UPDATE bank_statement_movements SET matched_verification_id = _match WHERE id = _movement.id;
+    END IF;
+  END LOOP;
+
+  RETURN _import_id;
+END;
+$$;
+
+-- Aprueba en bloque los pagos pendientes conciliados con un estado de cuenta
+CREATE OR REPLACE FUNCTION public.approve_bank_statement_matches(_import_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification_id UUID;
+  _approved INTEGER := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  FOR _verification_id IN
+    SELECT v.id
+    FROM bank_statement_movements bm
+    JOIN manual_payment_verifications v ON v.id = bm.matched_verification_id
+    WHERE bm.import_id = _import_id
+      AND v.status = 'pending'
+    ORDER BY v.created_at
+  LOOP
+    PERFORM review_payment_verification(_verification_id, true);
+    _approved := _approved + 1;
+  END LOOP;
+
+  RETURN _approved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_bank_statement(UUID, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_bank_statement_matches(UUID) TO authenticated;
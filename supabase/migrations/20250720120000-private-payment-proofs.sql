@@ -0,0 +1,63 @@
+
+-- Los comprobantes se guardan como ruta dentro del bucket privado; los enlaces se firman al mostrarlos
+ALTER TABLE public.manual_payment_verifications
+ADD COLUMN payment_proof_path TEXT;
+
+-- Comprobantes anteriores: la ruta sale de la URL pública (…/object/public/payment-proofs/<ruta>).
+-- Siguen en la raíz del bucket hasta que la función migrate-payment-proofs los mueva a <pedido>/
+-- legacy_proof marca esos pagos: son los únicos a los que se les permite una ruta en la raíz
+ALTER TABLE public.manual_payment_verifications
+ADD COLUMN legacy_proof BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.manual_payment_verifications
+SET payment_proof_path = split_part(split_part(payment_proof_url, '/payment-proofs/', 2), '?', 1),
+    legacy_proof = true;
+
+ALTER TABLE public.manual_payment_verifications
+ALTER COLUMN payment_proof_path SET NOT NULL,
+DROP COLUMN payment_proof_url;
+
+UPDATE storage.buckets SET public = false WHERE id = 'payment-proofs';
+
+DROP POLICY IF EXISTS "Users can upload payment proofs" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view payment proofs" ON storage.objects;
+
+-- Ruta: <order_id>/<archivo>; solo el dueño del pedido puede subir en su carpeta
+CREATE POLICY "Customers can upload payment proofs for their orders"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'payment-proofs'
+    AND EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id::text = (storage.foldername(objects.name))[1]
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Lectura (y por lo tanto URLs firmadas) solo para el dueño del pedido y el personal del restaurante
+CREATE POLICY "Order owners and restaurant staff can view payment proofs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'payment-proofs'
+    AND (
+      public.has_role(auth.uid(), 'restaurant'::public.app_role)
+      OR EXISTS (
+        SELECT 1 FROM public.orders
+        WHERE orders.id::text = (storage.foldername(objects.name))[1]
+        AND orders.user_id = auth.uid()
+      )
+      -- Comprobantes anteriores que aún están en la raíz del bucket
+      OR EXISTS (
+        SELECT 1
+        FROM public.manual_payment_verifications v
+        JOIN public.orders o ON o.id = v.order_id
+        WHERE v.payment_proof_path = objects.name
+        AND v.legacy_proof
+        AND o.user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,339 @@
+
+-- Forma de pago elegida en el checkout: transferencia/pago móvil (con comprobante) o efectivo contra entrega
+ALTER TABLE public.orders
+ADD COLUMN payment_method TEXT NOT NULL DEFAULT 'transfer' CHECK (payment_method IN ('transfer', 'cash'));
+
+DROP FUNCTION IF EXISTS public.place_order(JSONB, UUID, TEXT, TEXT, UUID, public.order_channel);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_address_id UUID DEFAULT NULL,
+  _channel public.order_channel DEFAULT NULL,
+  _payment_method TEXT DEFAULT 'transfer'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _order_item_id UUID;
+  _quoted_lines JSONB;
+  _line JSONB;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _subtotal NUMERIC;
+  _delivery_fee NUMERIC := 0;
+  _order_channel public.order_channel;
+  _promotion_id UUID;
+  _discount NUMERIC := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuario no autenticado';
+  END IF;
+
+  _quoted_lines := quote_order_lines(_items);
+
+  SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+  INTO _subtotal
+  FROM jsonb_array_elements(_quoted_lines) l;
+
+  _order_channel := CASE
+    WHEN _table_id IS NOT NULL THEN 'dine_in'::order_channel
+    ELSE COALESCE(_channel, 'delivery'::order_channel)
+  END;
+
+  IF _order_channel = 'dine_in' THEN
+    IF _table_id IS NULL THEN
+      RAISE EXCEPTION 'Los pedidos en mesa requieren una mesa';
+    END IF;
+
+    IF NOT has_role(_user_id, 'mesero'::app_role) THEN
+      RAISE EXCEPTION 'Solo los meseros pueden crear pedidos de mesa';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE id = _table_id) THEN
+      RAISE EXCEPTION 'Mesa no encontrada';
+    END IF;
+  ELSIF _order_channel = 'delivery' THEN
+    IF _delivery_address_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM delivery_addresses WHERE id = _delivery_address_id AND user_id = _user_id
+    ) THEN
+      RAISE EXCEPTION 'Dirección de entrega no válida';
+    END IF;
+
+    SELECT f.fee INTO _delivery_fee
+    FROM calculate_delivery_fee(_delivery_address_id, _subtotal) f;
+  END IF;
+
+  -- El efectivo lo cobra el repartidor, así que solo aplica a domicilio
+  IF COALESCE(_payment_method, 'transfer') = 'cash' AND _order_channel <> 'delivery' THEN
+    RAISE EXCEPTION 'El pago en efectivo solo está disponible para pedidos a domicilio';
+  END IF;
+
+  INSERT INTO orders (user_id, total_amount, delivery_fee, delivery_address_id, channel, table_id, status, notes, payment_method)
+  VALUES (
+    _user_id,
+    0,
+    _delivery_fee,
+    CASE WHEN _order_channel = 'delivery' THEN _delivery_address_id END,
+    _order_channel,
+    CASE WHEN _order_channel = 'dine_in' THEN _table_id END,
+    'pending',
+    _notes,
+    COALESCE(_payment_method, 'transfer')
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT value FROM jsonb_array_elements(_quoted_lines) LOOP
+    _quantity := (_line ->> 'quantity')::INTEGER;
+    _unit_price := (_line ->> 'unit_price')::NUMERIC;
+    _dish_id := NULLIF(_line ->> 'composite_dish_id', '')::UUID;
+
+    INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      CASE WHEN _dish_id IS NULL THEN (_line ->> 'menu_item_id')::UUID END,
+      _dish_id,
+      _quantity,
+      _unit_price,
+      _unit_price * _quantity
+    )
+    RETURNING id INTO _order_item_id;
+
+    IF _dish_id IS NOT NULL THEN
+      INSERT INTO order_dish_customizations (order_item_id, optional_element_id, is_included, replacement_item_id, price_adjustment)
+      SELECT _order_item_id, r.optional_element_id, r.is_included, r.replacement_item_id, r.price_adjustment
+      FROM resolve_dish_customizations(_dish_id, _line -> 'customizations') r
+      WHERE r.is_explicit;
+    END IF;
+  END LOOP;
+
+  IF NULLIF(trim(_promo_code), '') IS NOT NULL THEN
+    -- Bloquear la promoción para que pedidos concurrentes no superen el límite de usos
+    PERFORM 1 FROM promotions
+    WHERE upper(promo_code) = upper(trim(_promo_code))
+    FOR UPDATE;
+
+    SELECT d.promotion_id, d.discount INTO _promotion_id, _discount
+    FROM compute_promo_discount(_promo_code, _quoted_lines) d;
+
+    UPDATE promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _promotion_id
+      AND (usage_limit IS NULL OR COALESCE(usage_count, 0) < usage_limit);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'El código promocional alcanzó su límite de usos';
+    END IF;
+
+    INSERT INTO order_promotions (order_id, promotion_id, discount_applied)
+    VALUES (_order_id, _promotion_id, _discount);
+  END IF;
+
+  UPDATE orders
+  SET total_amount = _subtotal - _discount + _delivery_fee,
+      discount_amount = _discount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, TEXT, TEXT, UUID, public.order_channel, TEXT) TO authenticated;
+
+-- Cierres de caja de cada repartidor al terminar su turno
+CREATE TABLE public.driver_cash_settlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  driver_id UUID NOT NULL REFERENCES public.delivery_drivers(id) ON DELETE CASCADE,
+  expected_amount NUMERIC NOT NULL,
+  handed_in_amount NUMERIC NOT NULL CHECK (handed_in_amount >= 0),
+  discrepancy NUMERIC GENERATED ALWAYS AS (handed_in_amount - expected_amount) STORED,
+  notes TEXT,
+  settled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Efectivo cobrado por el repartidor en cada pedido (en dólares)
+CREATE TABLE public.cash_collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.delivery_drivers(id) ON DELETE CASCADE,
+  amount_due NUMERIC NOT NULL,
+  amount_received NUMERIC NOT NULL CHECK (amount_received >= 0),
+  change_given NUMERIC NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+  settlement_id UUID REFERENCES public.driver_cash_settlements(id) ON DELETE SET NULL,
+  collected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (change_given <= amount_received)
+);
+
+CREATE INDEX idx_cash_collections_unsettled ON public.cash_collections (driver_id) WHERE settlement_id IS NULL;
+CREATE INDEX idx_driver_cash_settlements_driver ON public.driver_cash_settlements (driver_id, created_at DESC);
+
+ALTER TABLE public.cash_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_cash_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view cash collections"
+  ON public.cash_collections
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Drivers can view their own cash collections"
+  ON public.cash_collections
+  FOR SELECT
+  USING (driver_id IN (SELECT id FROM public.delivery_drivers WHERE email = auth.jwt() ->> 'email'));
+
+CREATE POLICY "Restaurant users can view cash settlements"
+  ON public.driver_cash_settlements
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Drivers can view their own cash settlements"
+  ON public.driver_cash_settlements
+  FOR SELECT
+  USING (driver_id IN (SELECT id FROM public.delivery_drivers WHERE email = auth.jwt() ->> 'email'));
+
+-- El repartidor asignado registra lo que recibió y el vuelto que dio al entregar
+CREATE OR REPLACE FUNCTION public.record_cash_collection(
+  _order_id UUID,
+  _amount_received NUMERIC,
+  _change_given NUMERIC DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _driver_id UUID;
+  _amount_due NUMERIC;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  SELECT oa.driver_id INTO _driver_id
+  FROM order_assignments oa
+  JOIN delivery_drivers d ON d.id = oa.driver_id
+  WHERE oa.order_id = _order_id
+    AND d.email = auth.jwt() ->> 'email';
+
+  IF _driver_id IS NULL THEN
+    RAISE EXCEPTION 'Solo el repartidor asignado puede registrar el cobro';
+  END IF;
+
+  IF _order.payment_method <> 'cash' THEN
+    RAISE EXCEPTION 'Este pedido no se paga en efectivo';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cash_collections WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'El cobro de este pedido ya fue registrado';
+  END IF;
+
+  IF COALESCE(_change_given, 0) < 0 OR _amount_received < COALESCE(_change_given, 0) THEN
+    RAISE EXCEPTION 'El vuelto no puede ser mayor que el monto recibido';
+  END IF;
+
+  _amount_due := greatest(_order.total_amount - _order.amount_paid, 0);
+
+  INSERT INTO cash_collections (order_id, driver_id, amount_due, amount_received, change_given)
+  VALUES (_order_id, _driver_id, _amount_due, _amount_received, COALESCE(_change_given, 0));
+
+  _paid := _order.amount_paid + _amount_received - COALESCE(_change_given, 0);
+
+  -- Un centavo de tolerancia por redondeo
+  _payment_status := CASE
+    WHEN _paid > _order.total_amount + 0.01 THEN 'overpaid'
+    WHEN _paid >= _order.total_amount - 0.01 THEN 'paid'
+    WHEN _paid > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END;
+
+  UPDATE orders
+  SET amount_paid = _paid,
+      payment_status = _payment_status,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  RETURN _payment_status;
+END;
+$$;
+
+-- Un pedido en efectivo no se puede marcar entregado sin registrar el cobro
+CREATE OR REPLACE FUNCTION public.ensure_cash_collected()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered'
+    AND OLD.status IS DISTINCT FROM 'delivered'
+    AND NEW.payment_method = 'cash'
+    AND NOT EXISTS (SELECT 1 FROM cash_collections WHERE order_id = NEW.id)
+  THEN
+    RAISE EXCEPTION 'Registra el efectivo cobrado antes de marcar el pedido como entregado';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_cash_collected_trigger
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_cash_collected();
+
+-- Cierre de turno: compara el efectivo entregado con lo cobrado desde el último cierre
+CREATE OR REPLACE FUNCTION public.settle_driver_cash(
+  _driver_id UUID,
+  _handed_in_amount NUMERIC,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _expected NUMERIC;
+  _settlement_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  -- Bloquear los cobros pendientes para que un cobro concurrente no quede fuera del cierre
+  PERFORM 1 FROM cash_collections
+  WHERE driver_id = _driver_id AND settlement_id IS NULL
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount_received - change_given), 0) INTO _expected
+  FROM cash_collections
+  WHERE driver_id = _driver_id AND settlement_id IS NULL;
+
+  INSERT INTO driver_cash_settlements (driver_id, expected_amount, handed_in_amount, notes, settled_by)
+  VALUES (_driver_id, _expected, _handed_in_amount, NULLIF(trim(_notes), ''), auth.uid())
+  RETURNING id INTO _settlement_id;
+
+  UPDATE cash_collections
+  SET settlement_id = _settlement_id
+  WHERE driver_id = _driver_id AND settlement_id IS NULL;
+
+  RETURN _settlement_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_cash_collection(UUID, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_driver_cash(UUID, NUMERIC, TEXT) TO authenticated;
+
+ALTER TABLE public.cash_collections REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.cash_collections;
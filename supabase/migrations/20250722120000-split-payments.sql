@@ -0,0 +1,136 @@
+
+-- Un pedido puede pagarse con varios pagos (por ejemplo parte en Zelle y el resto por Pago Móvil).
+-- Un pago menor al saldo ya no es sospechoso: solo se marca el que supera lo que falta por cubrir
+-- contando los pagos aprobados y los que siguen en revisión.
+CREATE OR REPLACE FUNCTION public.flag_payment_verification(_verification_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _other RECORD;
+  _pending_usd NUMERIC;
+  _outstanding_usd NUMERIC;
+  _amount_usd NUMERIC;
+BEGIN
+  SELECT * INTO _verification FROM manual_payment_verifications WHERE id = _verification_id;
+  SELECT * INTO _order FROM orders WHERE id = _verification.order_id;
+
+  DELETE FROM payment_verification_flags WHERE verification_id = _verification_id;
+
+  -- La misma referencia del mismo banco ya se reportó en otro pago
+  FOR _other IN
+    SELECT id, order_id, status
+    FROM manual_payment_verifications
+    WHERE id <> _verification.id
+      AND lower(trim(origin_bank)) = lower(trim(_verification.origin_bank))
+      AND normalize_payment_reference(reference_number) = normalize_payment_reference(_verification.reference_number)
+  LOOP
+    INSERT INTO payment_verification_flags (verification_id, flag_type, message, related_verification_id)
+    VALUES (
+      _verification.id,
+      'duplicate_reference',
+      'La referencia ' || _verification.reference_number || ' de ' || _verification.origin_bank
+        || ' ya se usó en el pedido #' || right(_other.order_id::text, 8)
+        || CASE _other.status
+             WHEN 'approved' THEN ' (pago aprobado)'
+             WHEN 'rejected' THEN ' (pago rechazado)'
+             ELSE ' (pago pendiente)'
+           END,
+      _other.id
+    );
+  END LOOP;
+
+  -- El mismo archivo de comprobante ya se envió antes
+  IF _verification.proof_file_hash IS NOT NULL THEN
+    FOR _other IN
+      SELECT id, order_id
+      FROM manual_payment_verifications
+      WHERE id <> _verification.id
+        AND proof_file_hash = _verification.proof_file_hash
+    LOOP
+      INSERT INTO payment_verification_flags (verification_id, flag_type, message, related_verification_id)
+      VALUES (
+        _verification.id,
+        'duplicate_proof',
+        'El comprobante es el mismo archivo enviado para el pedido #' || right(_other.order_id::text, 8),
+        _other.id
+      );
+    END LOOP;
+  END IF;
+
+  IF _verification.amount_currency = 'VES' AND COALESCE(_order.exchange_rate, 0) = 0 THEN
+    INSERT INTO payment_verification_flags (verification_id, flag_type, message)
+    VALUES (
+      _verification.id,
+      'amount_mismatch',
+      'Pago en bolívares para un pedido sin tasa de cambio registrada; verifica el monto manualmente'
+    );
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate)), 0) INTO _pending_usd
+  FROM manual_payment_verifications
+  WHERE order_id = _order.id
+    AND status = 'pending'
+    AND id <> _verification.id;
+
+  _outstanding_usd := greatest(_order.total_amount - _order.amount_paid - _pending_usd, 0);
+  _amount_usd := payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate);
+
+  -- Hasta 1% de diferencia se acepta por redondeo de la tasa
+  IF _amount_usd > _outstanding_usd + greatest(0.01, _outstanding_usd * 0.01) THEN
+    INSERT INTO payment_verification_flags (verification_id, flag_type, message)
+    VALUES (
+      _verification.id,
+      'amount_mismatch',
+      'Monto reportado ' || CASE WHEN _verification.amount_currency = 'VES' THEN 'Bs. ' ELSE '$' END
+        || to_char(_verification.amount_paid, 'FM999999990.00')
+        || ' ($' || to_char(_amount_usd, 'FM999999990.00') || ')'
+        || '; solo faltaban $' || to_char(_outstanding_usd, 'FM999999990.00')
+        || ' contando los pagos en revisión'
+    );
+  END IF;
+END;
+$$;
+
+-- No se aceptan más pagos para pedidos ya cubiertos o cancelados
+CREATE OR REPLACE FUNCTION public.ensure_order_accepts_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = NEW.order_id;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'El pedido fue cancelado';
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'overpaid') THEN
+    RAISE EXCEPTION 'Este pedido ya está pagado';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_order_accepts_payments_trigger
+  BEFORE INSERT ON public.manual_payment_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_order_accepts_payments();
+
+-- Reevaluar los pagos que siguen en revisión con la nueva regla
+DO $$
+DECLARE
+  _verification RECORD;
+BEGIN
+  FOR _verification IN SELECT id FROM public.manual_payment_verifications WHERE status = 'pending' LOOP
+    PERFORM public.flag_payment_verification(_verification.id);
+  END LOOP;
+END;
+$$;
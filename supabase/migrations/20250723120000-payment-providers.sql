@@ -0,0 +1,443 @@
+
+-- Proveedores de pago: el flujo manual (comprobante + verificación) es uno más,
+-- y las pasarelas (tarjeta, billeteras) se agregan como nuevos proveedores
+CREATE TABLE public.payment_providers (
+  id TEXT NOT NULL PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.payment_providers (id, display_name, description, is_active, sort_order, settings) VALUES
+  ('manual', 'Transferencia / Pago Móvil', 'El cliente paga por su cuenta y sube el comprobante para verificación', true, 0, '{}'::jsonb),
+  ('sandbox', 'Pasarela de pruebas', 'Simula pagos aprobados, rechazados y con demora para probar la integración', false, 100, '{"delay_seconds": 5}'::jsonb);
+
+ALTER TABLE public.payment_providers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active payment providers"
+  ON public.payment_providers
+  FOR SELECT
+  USING (is_active OR has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Restaurant users can update payment providers"
+  ON public.payment_providers
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Intento de cobro en una pasarela; solo cambia de estado por las funciones de abajo
+CREATE TABLE public.payment_intents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider_id TEXT NOT NULL REFERENCES public.payment_providers(id),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'VES')),
+  status TEXT NOT NULL DEFAULT 'requires_confirmation'
+    CHECK (status IN ('requires_confirmation', 'processing', 'succeeded', 'failed', 'cancelled')),
+  refunded_amount NUMERIC NOT NULL DEFAULT 0,
+  provider_reference TEXT,
+  failure_reason TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
+  UNIQUE (provider_id, provider_reference)
+);
+
+-- Eventos recibidos por webhook; el id del evento evita procesarlo dos veces
+CREATE TABLE public.payment_intent_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  intent_id UUID REFERENCES public.payment_intents(id) ON DELETE CASCADE,
+  provider_id TEXT NOT NULL REFERENCES public.payment_providers(id),
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider_id, event_id)
+);
+
+CREATE INDEX idx_payment_intents_order ON public.payment_intents (order_id);
+
+ALTER TABLE public.payment_intents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_intent_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view payment intents"
+  ON public.payment_intents
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Users can view payment intents of their orders"
+  ON public.payment_intents
+  FOR SELECT
+  USING (order_id IN (SELECT id FROM public.orders WHERE user_id = auth.uid()));
+
+CREATE POLICY "Restaurant users can view payment intent events"
+  ON public.payment_intent_events
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Recalcula lo pagado de un pedido sumando todas las fuentes de pago (en dólares)
+-- y lo confirma cuando queda cubierto
+CREATE OR REPLACE FUNCTION public.refresh_order_payment(_order_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  SELECT
+    COALESCE((
+      SELECT SUM(payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate))
+      FROM manual_payment_verifications
+      WHERE order_id = _order.id AND status = 'approved'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(payment_amount_usd(amount - refunded_amount, currency, _order.exchange_rate))
+      FROM payment_intents
+      WHERE order_id = _order.id AND status = 'succeeded'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(amount_received - change_given)
+      FROM cash_collections
+      WHERE order_id = _order.id
+    ), 0)
+  INTO _paid;
+
+  -- Un centavo de tolerancia por redondeo
+  _payment_status := CASE
+    WHEN _paid <= 0.01 THEN 'unpaid'
+    WHEN _paid > _order.total_amount + 0.01 THEN 'overpaid'
+    WHEN _paid >= _order.total_amount - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+
+  UPDATE orders
+  SET amount_paid = _paid,
+      payment_status = _payment_status,
+      updated_at = now()
+  WHERE id = _order.id;
+
+  IF _payment_status IN ('paid', 'overpaid') AND _order.status = 'pending' THEN
+    PERFORM set_config('app.order_status_reason', 'Pago aprobado', true);
+    UPDATE orders SET status = 'confirmed', updated_at = now() WHERE id = _order.id;
+    PERFORM set_config('app.order_status_reason', '', true);
+  END IF;
+
+  RETURN _payment_status;
+END;
+$$;
+
+-- Lo pagado ahora incluye también los cobros de las pasarelas
+CREATE OR REPLACE FUNCTION public.review_payment_verification(
+  _verification_id UUID,
+  _approve BOOLEAN,
+  _rejection_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _verification
+  FROM manual_payment_verifications
+  WHERE id = _verification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verificación de pago no encontrada';
+  END IF;
+
+  IF _verification.status <> 'pending' THEN
+    RAISE EXCEPTION 'Este pago ya fue revisado';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _verification.order_id
+  FOR UPDATE;
+
+  IF NOT _approve THEN
+    IF COALESCE(trim(_rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'Debes indicar el motivo del rechazo';
+    END IF;
+
+    UPDATE manual_payment_verifications
+    SET status = 'rejected',
+        rejection_reason = trim(_rejection_reason),
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        updated_at = now()
+    WHERE id = _verification_id;
+
+    INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'payment_rejected',
+      'Pago rechazado',
+      'Tu pago con referencia ' || _verification.reference_number || ' fue rechazado: ' || trim(_rejection_reason)
+    );
+
+    RETURN _order.payment_status;
+  END IF;
+
+  UPDATE manual_payment_verifications
+  SET status = 'approved',
+      rejection_reason = NULL,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _verification_id;
+
+  _payment_status := refresh_order_payment(_order.id);
+  SELECT amount_paid INTO _paid FROM orders WHERE id = _order.id;
+
+  INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    CASE WHEN _payment_status = 'partial' THEN 'payment_partial' ELSE 'payment_approved' END,
+    CASE WHEN _payment_status = 'partial' THEN 'Pago parcial recibido' ELSE 'Pago aprobado' END,
+    CASE
+      WHEN _payment_status = 'partial' THEN
+        'Recibimos $' || to_char(payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate), 'FM999999990.00')
+        || '. Falta $' || to_char(_order.total_amount - _paid, 'FM999999990.00')
+        || ' para confirmar tu pedido.'
+      ELSE 'Tu pago fue aprobado y tu pedido está confirmado.'
+    END
+  );
+
+  RETURN _payment_status;
+END;
+$$;
+
+-- El cliente inicia un cobro en una pasarela por una parte o todo el saldo del pedido
+CREATE OR REPLACE FUNCTION public.create_payment_intent(
+  _order_id UUID,
+  _provider_id TEXT,
+  _amount NUMERIC,
+  _currency TEXT DEFAULT 'USD'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _provider payment_providers%ROWTYPE;
+  _in_flight NUMERIC;
+  _outstanding NUMERIC;
+  _amount_usd NUMERIC;
+  _intent_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'El pedido fue cancelado';
+  END IF;
+
+  IF _order.payment_method = 'cash' THEN
+    RAISE EXCEPTION 'Este pedido se paga en efectivo al recibirlo';
+  END IF;
+
+  SELECT * INTO _provider FROM payment_providers WHERE id = _provider_id;
+
+  IF NOT FOUND OR NOT _provider.is_active THEN
+    RAISE EXCEPTION 'Proveedor de pago no disponible';
+  END IF;
+
+  -- Los pagos manuales se registran como verificaciones con su comprobante
+  IF _provider.id = 'manual' THEN
+    RAISE EXCEPTION 'Los pagos manuales se envían con su comprobante';
+  END IF;
+
+  IF _currency NOT IN ('USD', 'VES') OR (_currency = 'VES' AND COALESCE(_order.exchange_rate, 0) = 0) THEN
+    RAISE EXCEPTION 'Moneda no disponible para este pedido';
+  END IF;
+
+  -- Lo que ya está en revisión o en proceso también cuenta contra el saldo
+  SELECT
+    COALESCE((
+      SELECT SUM(payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate))
+      FROM manual_payment_verifications
+      WHERE order_id = _order.id AND status = 'pending'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(payment_amount_usd(amount, currency, _order.exchange_rate))
+      FROM payment_intents
+      WHERE order_id = _order.id AND status IN ('requires_confirmation', 'processing')
+    ), 0)
+  INTO _in_flight;
+
+  _outstanding := greatest(_order.total_amount - _order.amount_paid - _in_flight, 0);
+  _amount_usd := payment_amount_usd(_amount, _currency, _order.exchange_rate);
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  IF _amount_usd > _outstanding + 0.01 THEN
+    RAISE EXCEPTION 'El monto excede el saldo pendiente de $%', to_char(_outstanding, 'FM999999990.00');
+  END IF;
+
+  INSERT INTO payment_intents (order_id, provider_id, amount, currency, created_by)
+  VALUES (_order.id, _provider.id, round(_amount, 2), _currency, auth.uid())
+  RETURNING id INTO _intent_id;
+
+  RETURN _intent_id;
+END;
+$$;
+
+-- El cliente abandona un cobro que aún no confirmó, liberando ese monto del saldo
+CREATE OR REPLACE FUNCTION public.cancel_payment_intent(_intent_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE payment_intents
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = _intent_id
+    AND status = 'requires_confirmation'
+    AND order_id IN (SELECT id FROM orders WHERE user_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Este cobro ya no se puede cancelar';
+  END IF;
+END;
+$$;
+
+-- Resultado informado por la pasarela (webhook). Solo lo llaman las funciones del servidor.
+-- Es idempotente: un intento ya resuelto no cambia.
+CREATE OR REPLACE FUNCTION public.complete_payment_intent(
+  _intent_id UUID,
+  _succeeded BOOLEAN,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _intent payment_intents%ROWTYPE;
+  _order orders%ROWTYPE;
+  _payment_status TEXT;
+BEGIN
+  SELECT * INTO _intent FROM payment_intents WHERE id = _intent_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cobro no encontrado';
+  END IF;
+
+  IF _intent.status NOT IN ('requires_confirmation', 'processing') THEN
+    RETURN _intent.status;
+  END IF;
+
+  UPDATE payment_intents
+  SET status = CASE WHEN _succeeded THEN 'succeeded' ELSE 'failed' END,
+      provider_reference = COALESCE(_provider_reference, provider_reference),
+      failure_reason = CASE WHEN _succeeded THEN NULL ELSE COALESCE(_failure_reason, 'Pago rechazado') END,
+      updated_at = now()
+  WHERE id = _intent_id;
+
+  SELECT * INTO _order FROM orders WHERE id = _intent.order_id;
+
+  IF NOT _succeeded THEN
+    INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'payment_rejected',
+      'Pago rechazado',
+      'Tu pago de ' || CASE WHEN _intent.currency = 'VES' THEN 'Bs. ' ELSE '$' END
+        || to_char(_intent.amount, 'FM999999990.00') || ' no se completó: '
+        || COALESCE(_failure_reason, 'Pago rechazado')
+    );
+
+    RETURN 'failed';
+  END IF;
+
+  _payment_status := refresh_order_payment(_order.id);
+
+  INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    CASE WHEN _payment_status = 'partial' THEN 'payment_partial' ELSE 'payment_approved' END,
+    CASE WHEN _payment_status = 'partial' THEN 'Pago parcial recibido' ELSE 'Pago aprobado' END,
+    CASE
+      WHEN _payment_status = 'partial' THEN 'Recibimos tu pago. Aún falta parte del saldo para confirmar tu pedido.'
+      ELSE 'Tu pago fue aprobado y tu pedido está confirmado.'
+    END
+  );
+
+  RETURN 'succeeded';
+END;
+$$;
+
+-- Reembolso confirmado por la pasarela. Solo lo llaman las funciones del servidor.
+CREATE OR REPLACE FUNCTION public.record_payment_intent_refund(_intent_id UUID, _amount NUMERIC)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _intent payment_intents%ROWTYPE;
+BEGIN
+  SELECT * INTO _intent FROM payment_intents WHERE id = _intent_id FOR UPDATE;
+
+  IF NOT FOUND OR _intent.status <> 'succeeded' THEN
+    RAISE EXCEPTION 'Solo se pueden reembolsar cobros aprobados';
+  END IF;
+
+  IF _amount <= 0 OR _intent.refunded_amount + _amount > _intent.amount + 0.001 THEN
+    RAISE EXCEPTION 'El reembolso excede lo cobrado';
+  END IF;
+
+  UPDATE payment_intents
+  SET refunded_amount = least(refunded_amount + _amount, amount),
+      updated_at = now()
+  WHERE id = _intent_id;
+
+  RETURN refresh_order_payment(_intent.order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_payment_intent(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_payment_intent(UUID) TO authenticated;
+
+-- Los resultados de las pasarelas solo entran por los webhooks verificados
+REVOKE EXECUTE ON FUNCTION public.refresh_order_payment(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_payment_intent(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_payment_intent_refund(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment_intent(UUID, BOOLEAN, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_payment_intent_refund(UUID, NUMERIC) TO service_role;
+
+-- Un pedido ya cubierto tampoco acepta nuevos cobros en pasarela
+CREATE TRIGGER ensure_order_accepts_payment_intents_trigger
+  BEFORE INSERT ON public.payment_intents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_order_accepts_payments();
@@ -0,0 +1,205 @@
+
+-- Cuenta abierta de una mesa: agrupa todas las rondas que se piden mientras los clientes están sentados
+CREATE TABLE public.table_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_id UUID NOT NULL REFERENCES public.restaurant_tables(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  -- Total de la cuenta consolidada, fijado al cerrarla
+  total_amount NUMERIC
+);
+
+-- Una sola cuenta abierta por mesa
+CREATE UNIQUE INDEX idx_table_sessions_open_table ON public.table_sessions (table_id) WHERE status = 'open';
+
+ALTER TABLE public.orders
+ADD COLUMN table_session_id UUID REFERENCES public.table_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_table_session ON public.orders (table_session_id);
+
+ALTER TABLE public.table_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view table sessions"
+  ON public.table_sessions
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+CREATE POLICY "Waiters can view table sessions"
+  ON public.table_sessions
+  FOR SELECT
+  USING (has_role(auth.uid(), 'mesero'::app_role));
+
+-- Los meseros ven todas las rondas de mesa, no solo las que ellos tomaron
+CREATE POLICY "Waiters can view dine-in orders"
+  ON public.orders
+  FOR SELECT
+  USING (channel = 'dine_in' AND has_role(auth.uid(), 'mesero'::app_role));
+
+-- El primer pedido de una mesa abre su cuenta y la marca ocupada; los siguientes se suman como rondas
+CREATE OR REPLACE FUNCTION public.attach_order_to_table_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _table restaurant_tables%ROWTYPE;
+  _session_id UUID;
+BEGIN
+  IF NEW.channel <> 'dine_in' OR NEW.table_id IS NULL OR NEW.table_session_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _table FROM restaurant_tables WHERE id = NEW.table_id FOR UPDATE;
+
+  SELECT id INTO _session_id
+  FROM table_sessions
+  WHERE table_id = NEW.table_id AND status = 'open';
+
+  IF _session_id IS NULL THEN
+    IF _table.status = 'cleaning' THEN
+      RAISE EXCEPTION 'La mesa % está en limpieza', _table.table_number;
+    END IF;
+
+    INSERT INTO table_sessions (table_id, opened_by)
+    VALUES (NEW.table_id, auth.uid())
+    RETURNING id INTO _session_id;
+  END IF;
+
+  IF _table.status <> 'occupied' THEN
+    UPDATE restaurant_tables SET status = 'occupied', updated_at = now() WHERE id = NEW.table_id;
+  END IF;
+
+  NEW.table_session_id := _session_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attach_order_to_table_session_trigger
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.attach_order_to_table_session();
+
+-- Cierra la cuenta: fija el total consolidado y pasa la mesa a limpieza.
+-- Las rondas listas se dan por servidas; las que siguen en cocina impiden cerrar.
+CREATE OR REPLACE FUNCTION public.close_table_session(_session_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _session table_sessions%ROWTYPE;
+  _order RECORD;
+  _total NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _session FROM table_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Esta cuenta ya fue cerrada';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE table_session_id = _session_id
+      AND status IN ('pending', 'confirmed', 'preparing')
+  ) THEN
+    RAISE EXCEPTION 'Hay rondas que aún no salen de cocina; sírvelas o cancélalas antes de cerrar la cuenta';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', 'Cuenta de mesa cerrada', true);
+  FOR _order IN
+    SELECT id FROM orders WHERE table_session_id = _session_id AND status = 'ready'
+  LOOP
+    UPDATE orders SET status = 'delivered', updated_at = now() WHERE id = _order.id;
+  END LOOP;
+  PERFORM set_config('app.order_status_reason', '', true);
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO _total
+  FROM orders
+  WHERE table_session_id = _session_id AND status <> 'cancelled';
+
+  UPDATE table_sessions
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = now(),
+      total_amount = _total
+  WHERE id = _session_id;
+
+  -- Sin consumo no hay nada que limpiar
+  UPDATE restaurant_tables
+  SET status = CASE WHEN _total > 0 THEN 'cleaning' ELSE 'available' END,
+      updated_at = now()
+  WHERE id = _session.table_id;
+
+  RETURN _total;
+END;
+$$;
+
+-- Mesa limpia y lista para los próximos clientes
+CREATE OR REPLACE FUNCTION public.mark_table_available(_table_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM table_sessions WHERE table_id = _table_id AND status = 'open') THEN
+    RAISE EXCEPTION 'La mesa tiene una cuenta abierta';
+  END IF;
+
+  UPDATE restaurant_tables
+  SET status = 'available',
+      updated_at = now()
+  WHERE id = _table_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mesa no encontrada';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_table_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_table_available(UUID) TO authenticated;
+
+-- Agrupar en cuentas los pedidos de mesas que hoy siguen en servicio
+DO $$
+DECLARE
+  _table RECORD;
+  _session_id UUID;
+BEGIN
+  FOR _table IN
+    SELECT DISTINCT table_id
+    FROM public.orders
+    WHERE channel = 'dine_in'
+      AND table_id IS NOT NULL
+      AND status IN ('pending', 'confirmed', 'preparing', 'ready')
+  LOOP
+    INSERT INTO public.table_sessions (table_id, opened_at)
+    SELECT _table.table_id, min(created_at)
+    FROM public.orders
+    WHERE table_id = _table.table_id AND status IN ('pending', 'confirmed', 'preparing', 'ready')
+    RETURNING id INTO _session_id;
+
+    UPDATE public.orders
+    SET table_session_id = _session_id
+    WHERE table_id = _table.table_id AND status IN ('pending', 'confirmed', 'preparing', 'ready');
+
+    UPDATE public.restaurant_tables SET status = 'occupied', updated_at = now() WHERE id = _table.table_id;
+  END LOOP;
+END;
+$$;
+
+ALTER publication supabase_realtime ADD TABLE public.table_sessions;
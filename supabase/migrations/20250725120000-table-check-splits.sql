@@ -0,0 +1,385 @@
+
+-- Asiento de cada producto pedido en mesa, para dividir la cuenta por asiento
+ALTER TABLE public.order_items
+ADD COLUMN seat_number INTEGER CHECK (seat_number > 0);
+
+-- Subcuentas de una mesa: cada una con su total, cargo por servicio y pago
+CREATE TABLE public.table_session_checks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.table_sessions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  split_mode TEXT NOT NULL CHECK (split_mode IN ('even', 'seat', 'items')),
+  seat_number INTEGER,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  service_charge_rate NUMERIC NOT NULL DEFAULT 0 CHECK (service_charge_rate >= 0 AND service_charge_rate <= 1),
+  service_charge NUMERIC NOT NULL DEFAULT 0,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid')),
+  payment_method TEXT CHECK (payment_method IN ('cash', 'card', 'transfer', 'mobile_payment')),
+  amount_received NUMERIC,
+  change_given NUMERIC,
+  payment_reference TEXT,
+  paid_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_table_session_checks_session ON public.table_session_checks (session_id, position);
+
+-- Productos asignados a una subcuenta; cada producto va a una sola
+CREATE TABLE public.table_session_check_items (
+  order_item_id UUID NOT NULL PRIMARY KEY REFERENCES public.order_items(id) ON DELETE CASCADE,
+  check_id UUID NOT NULL REFERENCES public.table_session_checks(id) ON DELETE CASCADE,
+  -- Parte del total del producto tras descuentos
+  amount NUMERIC NOT NULL
+);
+
+CREATE INDEX idx_table_session_check_items_check ON public.table_session_check_items (check_id);
+
+ALTER TABLE public.table_session_checks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.table_session_check_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view table checks"
+  ON public.table_session_checks
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+-- Deshacer la división solo borra las subcuentas que aún no se cobraron
+CREATE POLICY "Staff can delete unpaid table checks"
+  ON public.table_session_checks
+  FOR DELETE
+  USING (status = 'open' AND (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)));
+
+CREATE POLICY "Staff can view table check items"
+  ON public.table_session_check_items
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+-- Divide lo que queda por cobrar de la cuenta. Las subcuentas ya pagadas se conservan;
+-- las pendientes se reemplazan por la nueva división.
+-- _checks, para 'seat' e 'items': [{"label": "...", "seat_number": 1, "order_item_ids": ["..."]}]
+CREATE OR REPLACE FUNCTION public.split_table_session(
+  _session_id UUID,
+  _mode TEXT,
+  _guests INTEGER DEFAULT NULL,
+  _checks JSONB DEFAULT NULL,
+  _service_charge_rate NUMERIC DEFAULT 0
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _session table_sessions%ROWTYPE;
+  _remaining NUMERIC;
+  _position INTEGER;
+  _share NUMERIC;
+  _check JSONB;
+  _check_id UUID;
+  _item_ids UUID[];
+  _count INTEGER := 0;
+  _assigned NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _session FROM table_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Esta cuenta ya fue cerrada';
+  END IF;
+
+  IF _mode NOT IN ('even', 'seat', 'items') THEN
+    RAISE EXCEPTION 'Modo de división no válido';
+  END IF;
+
+  IF _service_charge_rate IS NULL OR _service_charge_rate < 0 OR _service_charge_rate > 1 THEN
+    RAISE EXCEPTION 'El cargo por servicio debe estar entre 0%% y 100%%';
+  END IF;
+
+  DELETE FROM table_session_checks WHERE session_id = _session_id AND status = 'open';
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO _remaining
+  FROM orders
+  WHERE table_session_id = _session_id AND status <> 'cancelled';
+
+  _remaining := _remaining - COALESCE((
+    SELECT SUM(subtotal) FROM table_session_checks WHERE session_id = _session_id
+  ), 0);
+
+  IF _remaining < 0.01 THEN
+    RAISE EXCEPTION 'No queda saldo por dividir en esta cuenta';
+  END IF;
+
+  SELECT COALESCE(MAX(position), 0) INTO _position
+  FROM table_session_checks
+  WHERE session_id = _session_id;
+
+  IF _mode = 'even' THEN
+    IF _guests IS NULL OR _guests < 2 OR _guests > 50 THEN
+      RAISE EXCEPTION 'Indica entre 2 y 50 comensales';
+    END IF;
+
+    _share := round(_remaining / _guests, 2);
+
+    FOR _i IN 1.._guests LOOP
+      INSERT INTO table_session_checks (session_id, position, label, split_mode, subtotal)
+      VALUES (
+        _session_id,
+        _position + _i,
+        'Comensal ' || _i,
+        'even',
+        -- El último absorbe los céntimos del redondeo
+        CASE WHEN _i = _guests THEN _remaining - _share * (_guests - 1) ELSE _share END
+      );
+    END LOOP;
+
+    _count := _guests;
+  ELSE
+    -- Las partes iguales ya cobradas no dicen qué productos cubrieron
+    IF EXISTS (SELECT 1 FROM table_session_checks WHERE session_id = _session_id AND split_mode = 'even') THEN
+      RAISE EXCEPTION 'Ya se cobraron partes iguales de esta cuenta; divide el saldo en partes iguales';
+    END IF;
+
+    IF _checks IS NULL OR jsonb_typeof(_checks) <> 'array' OR jsonb_array_length(_checks) = 0 THEN
+      RAISE EXCEPTION 'Indica al menos una subcuenta';
+    END IF;
+
+    FOR _check IN SELECT value FROM jsonb_array_elements(_checks) LOOP
+      _count := _count + 1;
+
+      SELECT COALESCE(array_agg(value::uuid), '{}') INTO _item_ids
+      FROM jsonb_array_elements_text(COALESCE(_check -> 'order_item_ids', '[]'::jsonb));
+
+      IF cardinality(_item_ids) = 0 THEN
+        RAISE EXCEPTION 'La subcuenta % no tiene productos', _count;
+      END IF;
+
+      IF EXISTS (SELECT 1 FROM table_session_check_items WHERE order_item_id = ANY(_item_ids)) THEN
+        RAISE EXCEPTION 'Un producto está en más de una subcuenta o ya fue cobrado';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1
+        FROM unnest(_item_ids) AS requested(id)
+        WHERE NOT EXISTS (
+          SELECT 1
+          FROM order_items oi
+          JOIN orders o ON o.id = oi.order_id
+          WHERE oi.id = requested.id
+            AND o.table_session_id = _session_id
+            AND o.status <> 'cancelled'
+        )
+      ) THEN
+        RAISE EXCEPTION 'Un producto no pertenece a esta cuenta';
+      END IF;
+
+      INSERT INTO table_session_checks (session_id, position, label, split_mode, seat_number)
+      VALUES (
+        _session_id,
+        _position + _count,
+        COALESCE(NULLIF(trim(_check ->> 'label'), ''), 'Subcuenta ' || _count),
+        _mode,
+        (_check ->> 'seat_number')::INTEGER
+      )
+      RETURNING id INTO _check_id;
+
+      -- Los descuentos de la ronda se reparten en proporción al precio de cada producto
+      INSERT INTO table_session_check_items (order_item_id, check_id, amount)
+      SELECT
+        oi.id,
+        _check_id,
+        round(oi.total_price * o.total_amount / NULLIF(round_items.items_total, 0), 2)
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      JOIN LATERAL (
+        SELECT SUM(total_price) AS items_total FROM order_items WHERE order_id = o.id
+      ) round_items ON true
+      WHERE oi.id = ANY(_item_ids);
+
+      IF _mode = 'seat' THEN
+        UPDATE order_items
+        SET seat_number = (_check ->> 'seat_number')::INTEGER
+        WHERE id = ANY(_item_ids);
+      END IF;
+
+      UPDATE table_session_checks
+      SET subtotal = (SELECT COALESCE(SUM(amount), 0) FROM table_session_check_items WHERE check_id = _check_id)
+      WHERE id = _check_id;
+    END LOOP;
+
+    IF EXISTS (
+      SELECT 1
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.table_session_id = _session_id
+        AND o.status <> 'cancelled'
+        AND NOT EXISTS (SELECT 1 FROM table_session_check_items ci WHERE ci.order_item_id = oi.id)
+    ) THEN
+      RAISE EXCEPTION 'Todos los productos deben asignarse a una subcuenta';
+    END IF;
+
+    -- Los céntimos del redondeo van a la última subcuenta
+    SELECT COALESCE(SUM(subtotal), 0) INTO _assigned
+    FROM table_session_checks
+    WHERE session_id = _session_id AND status = 'open';
+
+    UPDATE table_session_checks
+    SET subtotal = subtotal + (_remaining - _assigned)
+    WHERE id = _check_id;
+  END IF;
+
+  UPDATE table_session_checks
+  SET service_charge_rate = _service_charge_rate,
+      service_charge = round(subtotal * _service_charge_rate, 2),
+      total_amount = subtotal + round(subtotal * _service_charge_rate, 2)
+  WHERE session_id = _session_id AND status = 'open';
+
+  RETURN _count;
+END;
+$$;
+
+-- Cobra una subcuenta. En efectivo se registra lo recibido y el vuelto
+CREATE OR REPLACE FUNCTION public.settle_table_check(
+  _check_id UUID,
+  _payment_method TEXT,
+  _amount_received NUMERIC DEFAULT NULL,
+  _payment_reference TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _check table_session_checks%ROWTYPE;
+  _received NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _check FROM table_session_checks WHERE id = _check_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subcuenta no encontrada';
+  END IF;
+
+  IF _check.status <> 'open' THEN
+    RAISE EXCEPTION 'Esta subcuenta ya fue cobrada';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM table_sessions WHERE id = _check.session_id AND status = 'open') THEN
+    RAISE EXCEPTION 'Esta cuenta ya fue cerrada';
+  END IF;
+
+  IF _payment_method NOT IN ('cash', 'card', 'transfer', 'mobile_payment') THEN
+    RAISE EXCEPTION 'Método de pago no válido';
+  END IF;
+
+  IF _payment_method = 'cash' THEN
+    _received := COALESCE(_amount_received, _check.total_amount);
+
+    IF _received < _check.total_amount - 0.01 THEN
+      RAISE EXCEPTION 'El monto recibido no cubre la subcuenta';
+    END IF;
+  ELSE
+    _received := _check.total_amount;
+  END IF;
+
+  UPDATE table_session_checks
+  SET status = 'paid',
+      payment_method = _payment_method,
+      amount_received = _received,
+      change_given = greatest(_received - _check.total_amount, 0),
+      payment_reference = NULLIF(trim(_payment_reference), ''),
+      paid_by = auth.uid(),
+      paid_at = now()
+  WHERE id = _check_id;
+
+  RETURN greatest(_received - _check.total_amount, 0);
+END;
+$$;
+
+-- Una cuenta dividida solo se cierra cuando todas sus subcuentas están cobradas
+-- y cubren todas las rondas, incluidas las que llegaron después de dividir
+CREATE OR REPLACE FUNCTION public.close_table_session(_session_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _session table_sessions%ROWTYPE;
+  _order RECORD;
+  _total NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _session FROM table_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Esta cuenta ya fue cerrada';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE table_session_id = _session_id
+      AND status IN ('pending', 'confirmed', 'preparing')
+  ) THEN
+    RAISE EXCEPTION 'Hay rondas que aún no salen de cocina; sírvelas o cancélalas antes de cerrar la cuenta';
+  END IF;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO _total
+  FROM orders
+  WHERE table_session_id = _session_id AND status <> 'cancelled';
+
+  IF EXISTS (SELECT 1 FROM table_session_checks WHERE session_id = _session_id) THEN
+    IF EXISTS (SELECT 1 FROM table_session_checks WHERE session_id = _session_id AND status = 'open') THEN
+      RAISE EXCEPTION 'Hay subcuentas pendientes de cobro';
+    END IF;
+
+    IF abs(_total - (SELECT SUM(subtotal) FROM table_session_checks WHERE session_id = _session_id)) >= 0.01 THEN
+      RAISE EXCEPTION 'La cuenta cambió después de dividirla; divide el saldo restante antes de cerrar';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', 'Cuenta de mesa cerrada', true);
+  FOR _order IN
+    SELECT id FROM orders WHERE table_session_id = _session_id AND status = 'ready'
+  LOOP
+    UPDATE orders SET status = 'delivered', updated_at = now() WHERE id = _order.id;
+  END LOOP;
+  PERFORM set_config('app.order_status_reason', '', true);
+
+  UPDATE table_sessions
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = now(),
+      total_amount = _total
+  WHERE id = _session_id;
+
+  -- Sin consumo no hay nada que limpiar
+  UPDATE restaurant_tables
+  SET status = CASE WHEN _total > 0 THEN 'cleaning' ELSE 'available' END,
+      updated_at = now()
+  WHERE id = _session.table_id;
+
+  RETURN _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.split_table_session(UUID, TEXT, INTEGER, JSONB, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_table_check(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+
+ALTER publication supabase_realtime ADD TABLE public.table_session_checks;
@@ -0,0 +1,131 @@
+
+-- Zonas del salón, cada una con su propio plano
+CREATE TABLE public.floor_zones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Tamaño del plano en unidades de la cuadrícula
+  width INTEGER NOT NULL DEFAULT 1000 CHECK (width BETWEEN 200 AND 4000),
+  height INTEGER NOT NULL DEFAULT 600 CHECK (height BETWEEN 200 AND 4000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.floor_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view floor zones"
+  ON public.floor_zones
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+CREATE POLICY "Restaurant users can manage floor zones"
+  ON public.floor_zones
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'restaurant'::app_role));
+
+-- Posición de cada mesa en el plano de su zona. pos_x/pos_y son el centro de la mesa
+ALTER TABLE public.restaurant_tables
+ADD COLUMN zone_id UUID REFERENCES public.floor_zones(id) ON DELETE SET NULL,
+ADD COLUMN pos_x INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN pos_y INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN shape TEXT NOT NULL DEFAULT 'square' CHECK (shape IN ('square', 'round', 'rectangle')),
+ADD COLUMN rotation INTEGER NOT NULL DEFAULT 0 CHECK (rotation >= 0 AND rotation < 360),
+ADD COLUMN width INTEGER NOT NULL DEFAULT 80 CHECK (width BETWEEN 30 AND 400),
+ADD COLUMN height INTEGER NOT NULL DEFAULT 80 CHECK (height BETWEEN 30 AND 400);
+
+CREATE INDEX idx_restaurant_tables_zone ON public.restaurant_tables (zone_id);
+
+-- El nombre de la zona se mantiene en restaurant_tables.zone para las pantallas que lo leen
+CREATE OR REPLACE FUNCTION public.sync_table_zone_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.zone_id IS NULL THEN
+    NEW.zone := NULL;
+  ELSE
+    SELECT name INTO NEW.zone FROM floor_zones WHERE id = NEW.zone_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_table_zone_name_trigger
+  BEFORE INSERT OR UPDATE OF zone_id ON public.restaurant_tables
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_table_zone_name();
+
+CREATE OR REPLACE FUNCTION public.rename_floor_zone_tables()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE restaurant_tables SET zone = NEW.name, updated_at = now() WHERE zone_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_floor_zone_tables_trigger
+  AFTER UPDATE OF name ON public.floor_zones
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.rename_floor_zone_tables();
+
+-- Convertir las zonas de texto libre en zonas del plano y repartir sus mesas en cuadrícula
+DO $$
+DECLARE
+  _zone RECORD;
+  _zone_id UUID;
+  _table RECORD;
+  _index INTEGER;
+BEGIN
+  FOR _zone IN
+    SELECT COALESCE(NULLIF(trim(zone), ''), 'Salón') AS name, row_number() OVER (ORDER BY COALESCE(NULLIF(trim(zone), ''), 'Salón')) AS position
+    FROM public.restaurant_tables
+    GROUP BY COALESCE(NULLIF(trim(zone), ''), 'Salón')
+  LOOP
+    INSERT INTO public.floor_zones (name, sort_order)
+    VALUES (_zone.name, _zone.position)
+    RETURNING id INTO _zone_id;
+
+    _index := 0;
+    FOR _table IN
+      SELECT id FROM public.restaurant_tables
+      WHERE COALESCE(NULLIF(trim(zone), ''), 'Salón') = _zone.name
+      ORDER BY table_number
+    LOOP
+      UPDATE public.restaurant_tables
+      SET zone_id = _zone_id,
+          pos_x = 100 + (_index % 8) * 110,
+          pos_y = 100 + (_index / 8) * 130
+      WHERE id = _table.id;
+
+      _index := _index + 1;
+    END LOOP;
+
+    UPDATE public.floor_zones
+    SET height = greatest(600, 100 + ((_index + 7) / 8) * 130)
+    WHERE id = _zone_id;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.floor_zones) THEN
+    INSERT INTO public.floor_zones (name) VALUES ('Salón');
+  END IF;
+END;
+$$;
+
+-- El plano en vivo sigue los cambios de estado de las mesas
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'restaurant_tables'
+  ) THEN
+    ALTER publication supabase_realtime ADD TABLE public.restaurant_tables;
+  END IF;
+END;
+$$;
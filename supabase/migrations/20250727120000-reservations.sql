@@ -0,0 +1,482 @@
+
+-- Horario y reglas de reservas (una sola fila)
+CREATE TABLE public.reservation_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  time_zone TEXT NOT NULL DEFAULT 'America/Caracas',
+  opening_time TIME NOT NULL DEFAULT '12:00',
+  -- Última hora a la que se puede sentar una reserva
+  last_seating_time TIME NOT NULL DEFAULT '21:30',
+  slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes IN (15, 30, 60)),
+  default_duration_minutes INTEGER NOT NULL DEFAULT 90 CHECK (default_duration_minutes BETWEEN 30 AND 360),
+  max_party_size INTEGER NOT NULL DEFAULT 12 CHECK (max_party_size > 0),
+  booking_horizon_days INTEGER NOT NULL DEFAULT 60 CHECK (booking_horizon_days > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.reservation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reservation settings"
+  ON public.reservation_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant users can manage reservation settings"
+  ON public.reservation_settings
+  FOR ALL
+  USING (has_role(auth.uid(), 'restaurant'::app_role));
+
+INSERT INTO public.reservation_settings DEFAULT VALUES;
+
+CREATE TABLE public.reservations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT NOT NULL,
+  customer_email TEXT,
+  party_size INTEGER NOT NULL CHECK (party_size > 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 15 AND 720),
+  -- Calculado a partir de starts_at y duration_minutes
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'seated', 'completed', 'cancelled', 'no_show')),
+  source TEXT NOT NULL DEFAULT 'staff' CHECK (source IN ('staff', 'online')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status_changed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reservations_starts_at ON public.reservations (starts_at);
+
+-- Mesas asignadas; una reserva grande puede ocupar varias mesas juntas
+CREATE TABLE public.reservation_tables (
+  reservation_id UUID NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+  table_id UUID NOT NULL REFERENCES public.restaurant_tables(id) ON DELETE CASCADE,
+  PRIMARY KEY (reservation_id, table_id)
+);
+
+CREATE INDEX idx_reservation_tables_table ON public.reservation_tables (table_id);
+
+ALTER TABLE public.reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reservation_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view reservations"
+  ON public.reservations
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+CREATE POLICY "Customers can view their reservations"
+  ON public.reservations
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Staff can view reservation tables"
+  ON public.reservation_tables
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+CREATE OR REPLACE FUNCTION public.set_reservation_ends_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.ends_at := NEW.starts_at + make_interval(mins => NEW.duration_minutes);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reservation_ends_at_trigger
+  BEFORE INSERT OR UPDATE OF starts_at, duration_minutes ON public.reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_reservation_ends_at();
+
+-- Mesas (o combinaciones de mesas cercanas de la misma zona) libres para un grupo en un horario.
+-- Primero las mesas solas más ajustadas al grupo, luego pares y tríos con menos asientos de sobra
+CREATE OR REPLACE FUNCTION public.suggest_reservation_tables(
+  _party_size INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _duration_minutes INTEGER DEFAULT NULL,
+  _exclude_reservation_id UUID DEFAULT NULL
+)
+RETURNS TABLE (table_ids UUID[], table_numbers TEXT[], total_capacity INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT default_duration_minutes FROM reservation_settings ORDER BY created_at LIMIT 1
+  ),
+  requested AS (
+    SELECT tstzrange(
+      _starts_at,
+      _starts_at + make_interval(mins => COALESCE(_duration_minutes, (SELECT default_duration_minutes FROM settings), 90))
+    ) AS period
+  ),
+  free AS (
+    SELECT t.id, t.table_number, t.capacity, t.zone_id, t.pos_x, t.pos_y
+    FROM restaurant_tables t
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM reservation_tables rt
+      JOIN reservations r ON r.id = rt.reservation_id
+      WHERE rt.table_id = t.id
+        AND r.status IN ('confirmed', 'seated')
+        AND r.id IS DISTINCT FROM _exclude_reservation_id
+        AND tstzrange(r.starts_at, r.ends_at) && (SELECT period FROM requested)
+    )
+  ),
+  options AS (
+    SELECT ARRAY[a.id] AS ids, ARRAY[a.table_number] AS numbers, a.capacity AS capacity, 1 AS table_count, 0::DOUBLE PRECISION AS spread
+    FROM free a
+    WHERE a.capacity >= _party_size
+
+    UNION ALL
+
+    SELECT ARRAY[a.id, b.id], ARRAY[a.table_number, b.table_number], a.capacity + b.capacity, 2,
+      sqrt(power(a.pos_x - b.pos_x, 2) + power(a.pos_y - b.pos_y, 2))
+    FROM free a
+    JOIN free b ON a.id < b.id AND a.zone_id = b.zone_id
+    WHERE a.capacity < _party_size
+      AND b.capacity < _party_size
+      AND a.capacity + b.capacity >= _party_size
+      -- Solo mesas lo bastante cerca para juntarlas
+      AND sqrt(power(a.pos_x - b.pos_x, 2) + power(a.pos_y - b.pos_y, 2)) <= 300
+
+    UNION ALL
+
+    SELECT ARRAY[a.id, b.id, c.id], ARRAY[a.table_number, b.table_number, c.table_number], a.capacity + b.capacity + c.capacity, 3,
+      greatest(
+        sqrt(power(a.pos_x - b.pos_x, 2) + power(a.pos_y - b.pos_y, 2)),
+        sqrt(power(b.pos_x - c.pos_x, 2) + power(b.pos_y - c.pos_y, 2)),
+        sqrt(power(a.pos_x - c.pos_x, 2) + power(a.pos_y - c.pos_y, 2))
+      )
+    FROM free a
+    JOIN free b ON a.id < b.id AND a.zone_id = b.zone_id
+    JOIN free c ON b.id < c.id AND b.zone_id = c.zone_id
+    WHERE a.capacity + b.capacity < _party_size
+      AND a.capacity + c.capacity < _party_size
+      AND b.capacity + c.capacity < _party_size
+      AND a.capacity + b.capacity + c.capacity >= _party_size
+      AND greatest(
+        sqrt(power(a.pos_x - b.pos_x, 2) + power(a.pos_y - b.pos_y, 2)),
+        sqrt(power(b.pos_x - c.pos_x, 2) + power(b.pos_y - c.pos_y, 2)),
+        sqrt(power(a.pos_x - c.pos_x, 2) + power(a.pos_y - c.pos_y, 2))
+      ) <= 450
+  )
+  SELECT ids, numbers, capacity
+  FROM options
+  ORDER BY table_count, capacity, spread
+  LIMIT 5;
+$$;
+
+-- Comprueba que las mesas elegidas existen, están libres y alcanzan para el grupo
+CREATE OR REPLACE FUNCTION public.assert_reservation_tables_available(
+  _table_ids UUID[],
+  _party_size INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _duration_minutes INTEGER,
+  _exclude_reservation_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _capacity INTEGER;
+  _found INTEGER;
+  _conflict TEXT;
+BEGIN
+  IF _table_ids IS NULL OR cardinality(_table_ids) = 0 THEN
+    RAISE EXCEPTION 'Elige al menos una mesa';
+  END IF;
+
+  SELECT count(*), COALESCE(SUM(capacity), 0) INTO _found, _capacity
+  FROM restaurant_tables
+  WHERE id = ANY(_table_ids);
+
+  IF _found <> cardinality(_table_ids) THEN
+    RAISE EXCEPTION 'Mesa no encontrada';
+  END IF;
+
+  IF _capacity < _party_size THEN
+    RAISE EXCEPTION 'Las mesas elegidas tienen % asientos para un grupo de %', _capacity, _party_size;
+  END IF;
+
+  SELECT t.table_number INTO _conflict
+  FROM reservation_tables rt
+  JOIN reservations r ON r.id = rt.reservation_id
+  JOIN restaurant_tables t ON t.id = rt.table_id
+  WHERE rt.table_id = ANY(_table_ids)
+    AND r.status IN ('confirmed', 'seated')
+    AND r.id IS DISTINCT FROM _exclude_reservation_id
+    AND tstzrange(r.starts_at, r.ends_at) && tstzrange(_starts_at, _starts_at + make_interval(mins => _duration_minutes))
+  LIMIT 1;
+
+  IF _conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'La mesa % ya está reservada en ese horario', _conflict;
+  END IF;
+END;
+$$;
+
+-- Reserva tomada por el personal (por teléfono o en el local). Sin mesas elegidas se usa la mejor sugerencia
+CREATE OR REPLACE FUNCTION public.create_reservation(
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _party_size INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _duration_minutes INTEGER DEFAULT NULL,
+  _table_ids UUID[] DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _customer_email TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _duration INTEGER;
+  _tables UUID[] := _table_ids;
+  _reservation_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  IF NULLIF(trim(_customer_name), '') IS NULL OR NULLIF(trim(_customer_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Indica el nombre y el teléfono del cliente';
+  END IF;
+
+  IF _party_size IS NULL OR _party_size < 1 THEN
+    RAISE EXCEPTION 'Indica cuántas personas vienen';
+  END IF;
+
+  SELECT COALESCE(_duration_minutes, default_duration_minutes) INTO _duration
+  FROM reservation_settings ORDER BY created_at LIMIT 1;
+
+  -- Una reserva a la vez, para que dos personas no tomen la misma mesa
+  PERFORM pg_advisory_xact_lock(hashtext('reservations'));
+
+  IF _tables IS NULL OR cardinality(_tables) = 0 THEN
+    SELECT s.table_ids INTO _tables
+    FROM suggest_reservation_tables(_party_size, _starts_at, _duration) s
+    LIMIT 1;
+
+    IF _tables IS NULL THEN
+      RAISE EXCEPTION 'No hay mesas libres para % personas a esa hora', _party_size;
+    END IF;
+  END IF;
+
+  PERFORM assert_reservation_tables_available(_tables, _party_size, _starts_at, _duration);
+
+  INSERT INTO reservations (customer_name, customer_phone, customer_email, party_size, starts_at, duration_minutes, notes, source, created_by)
+  VALUES (trim(_customer_name), trim(_customer_phone), NULLIF(trim(_customer_email), ''), _party_size, _starts_at, _duration, NULLIF(trim(_notes), ''), 'staff', auth.uid())
+  RETURNING id INTO _reservation_id;
+
+  INSERT INTO reservation_tables (reservation_id, table_id)
+  SELECT _reservation_id, unnest(_tables);
+
+  RETURN _reservation_id;
+END;
+$$;
+
+-- Cambia horario, grupo o mesas de una reserva que aún no llega
+CREATE OR REPLACE FUNCTION public.update_reservation(
+  _reservation_id UUID,
+  _party_size INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _duration_minutes INTEGER,
+  _table_ids UUID[],
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _reservation reservations%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _reservation FROM reservations WHERE id = _reservation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reserva no encontrada';
+  END IF;
+
+  IF _reservation.status NOT IN ('confirmed', 'seated') THEN
+    RAISE EXCEPTION 'Esta reserva ya no se puede modificar';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('reservations'));
+  PERFORM assert_reservation_tables_available(_table_ids, _party_size, _starts_at, _duration_minutes, _reservation_id);
+
+  UPDATE reservations
+  SET party_size = _party_size,
+      starts_at = _starts_at,
+      duration_minutes = _duration_minutes,
+      notes = NULLIF(trim(_notes), ''),
+      updated_at = now()
+  WHERE id = _reservation_id;
+
+  DELETE FROM reservation_tables WHERE reservation_id = _reservation_id;
+
+  INSERT INTO reservation_tables (reservation_id, table_id)
+  SELECT _reservation_id, unnest(_table_ids);
+END;
+$$;
+
+-- Llegada, cierre, cancelación o no presentación. No-show solo una vez pasada la hora de la reserva
+CREATE OR REPLACE FUNCTION public.update_reservation_status(_reservation_id UUID, _status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _reservation reservations%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _reservation FROM reservations WHERE id = _reservation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reserva no encontrada';
+  END IF;
+
+  IF NOT (
+    (_reservation.status = 'confirmed' AND _status IN ('seated', 'cancelled', 'no_show'))
+    OR (_reservation.status = 'seated' AND _status = 'completed')
+    -- Marcado por error: el cliente sí llegó
+    OR (_reservation.status = 'no_show' AND _status IN ('confirmed', 'seated'))
+  ) THEN
+    RAISE EXCEPTION 'No se puede pasar la reserva de % a %', _reservation.status, _status;
+  END IF;
+
+  IF _status = 'no_show' AND _reservation.starts_at > now() THEN
+    RAISE EXCEPTION 'La reserva aún no ha comenzado';
+  END IF;
+
+  UPDATE reservations
+  SET status = _status,
+      status_changed_at = now(),
+      updated_at = now()
+  WHERE id = _reservation_id;
+END;
+$$;
+
+-- Horarios del día para la página pública, con disponibilidad para el tamaño del grupo
+CREATE OR REPLACE FUNCTION public.get_reservation_slots(_date DATE, _party_size INTEGER)
+RETURNS TABLE (starts_at TIMESTAMP WITH TIME ZONE, available BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _settings reservation_settings%ROWTYPE;
+  _slot TIMESTAMP WITH TIME ZONE;
+  _last TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _settings FROM reservation_settings ORDER BY created_at LIMIT 1;
+
+  IF _party_size IS NULL OR _party_size < 1 OR _party_size > _settings.max_party_size THEN
+    RETURN;
+  END IF;
+
+  _slot := (_date + _settings.opening_time) AT TIME ZONE _settings.time_zone;
+  _last := (_date + _settings.last_seating_time) AT TIME ZONE _settings.time_zone;
+
+  WHILE _slot <= _last LOOP
+    IF _slot > now() AND _slot <= now() + make_interval(days => _settings.booking_horizon_days) THEN
+      starts_at := _slot;
+      available := EXISTS (
+        SELECT 1 FROM suggest_reservation_tables(_party_size, _slot, _settings.default_duration_minutes)
+      );
+      RETURN NEXT;
+    END IF;
+
+    _slot := _slot + make_interval(mins => _settings.slot_minutes);
+  END LOOP;
+END;
+$$;
+
+-- Reserva hecha por el cliente desde la página pública; las mesas se asignan solas
+CREATE OR REPLACE FUNCTION public.request_reservation(
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _party_size INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _notes TEXT DEFAULT NULL,
+  _customer_email TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _settings reservation_settings%ROWTYPE;
+  _local_time TIME;
+  _tables UUID[];
+  _reservation_id UUID;
+BEGIN
+  SELECT * INTO _settings FROM reservation_settings ORDER BY created_at LIMIT 1;
+
+  IF NULLIF(trim(_customer_name), '') IS NULL OR NULLIF(trim(_customer_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Indica tu nombre y teléfono';
+  END IF;
+
+  IF length(_customer_name) > 100 OR length(_customer_phone) > 30 OR length(COALESCE(_notes, '')) > 500 THEN
+    RAISE EXCEPTION 'Los datos de la reserva son demasiado largos';
+  END IF;
+
+  IF _party_size IS NULL OR _party_size < 1 OR _party_size > _settings.max_party_size THEN
+    RAISE EXCEPTION 'Para grupos de más de % personas llámanos', _settings.max_party_size;
+  END IF;
+
+  IF _starts_at <= now() OR _starts_at > now() + make_interval(days => _settings.booking_horizon_days) THEN
+    RAISE EXCEPTION 'Elige una fecha dentro de los próximos % días', _settings.booking_horizon_days;
+  END IF;
+
+  _local_time := (_starts_at AT TIME ZONE _settings.time_zone)::TIME;
+
+  IF _local_time < _settings.opening_time
+    OR _local_time > _settings.last_seating_time
+    OR (EXTRACT(EPOCH FROM _local_time - _settings.opening_time)::INTEGER / 60) % _settings.slot_minutes <> 0 THEN
+    RAISE EXCEPTION 'Ese horario no está disponible';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('reservations'));
+
+  SELECT s.table_ids INTO _tables
+  FROM suggest_reservation_tables(_party_size, _starts_at, _settings.default_duration_minutes) s
+  LIMIT 1;
+
+  IF _tables IS NULL THEN
+    RAISE EXCEPTION 'Ya no quedan mesas para % personas a esa hora; elige otro horario', _party_size;
+  END IF;
+
+  INSERT INTO reservations (customer_name, customer_phone, customer_email, party_size, starts_at, duration_minutes, notes, source, user_id)
+  VALUES (trim(_customer_name), trim(_customer_phone), NULLIF(trim(_customer_email), ''), _party_size, _starts_at, _settings.default_duration_minutes, NULLIF(trim(_notes), ''), 'online', auth.uid())
+  RETURNING id INTO _reservation_id;
+
+  INSERT INTO reservation_tables (reservation_id, table_id)
+  SELECT _reservation_id, unnest(_tables);
+
+  RETURN _reservation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_reservation_tables_available(UUID[], INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.suggest_reservation_tables(INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_reservation(TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID[], TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_reservation(UUID, INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_reservation_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_reservation_slots(DATE, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_reservation(TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO anon, authenticated;
+
+ALTER publication supabase_realtime ADD TABLE public.reservations;
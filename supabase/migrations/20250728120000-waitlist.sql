@@ -0,0 +1,229 @@
+
+-- Lista de espera de clientes sin reserva cuando el local está lleno
+CREATE TABLE public.waitlist_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  party_name TEXT NOT NULL,
+  party_size INTEGER NOT NULL CHECK (party_size > 0),
+  phone TEXT,
+  notes TEXT,
+  -- Espera prometida al anotarlos, en minutos
+  quoted_wait_minutes INTEGER NOT NULL CHECK (quoted_wait_minutes >= 0),
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'seated', 'left')),
+  table_id UUID REFERENCES public.restaurant_tables(id) ON DELETE SET NULL,
+  table_session_id UUID REFERENCES public.table_sessions(id) ON DELETE SET NULL,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  seated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_waitlist_entries_waiting ON public.waitlist_entries (created_at) WHERE status = 'waiting';
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view the waitlist"
+  ON public.waitlist_entries
+  FOR SELECT
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+-- Quitar a quien se fue; anotar y sentar pasan por las funciones de abajo
+CREATE POLICY "Staff can update the waitlist"
+  ON public.waitlist_entries
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role));
+
+-- Espera estimada para un grupo que llega ahora, en minutos redondeados a 5.
+-- Cada mesa donde cabe el grupo se libera cuando su cuenta abierta alcanza la duración habitual,
+-- o después de la reserva que empiece antes de que el grupo termine. Los grupos anotados antes
+-- que necesitan esas mismas mesas se sientan primero, una mesa cada uno
+CREATE OR REPLACE FUNCTION public.estimate_waitlist_wait(_party_size INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _needed INTEGER;
+  _smaller INTEGER;
+  _avg_minutes NUMERIC;
+  _free_at TIMESTAMP WITH TIME ZONE[];
+  _ahead INTEGER;
+  _tables INTEGER;
+  _wait NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  IF _party_size IS NULL OR _party_size < 1 THEN
+    RAISE EXCEPTION 'Indica cuántas personas vienen';
+  END IF;
+
+  -- Un grupo más grande que cualquier mesa espera por las mesas más grandes, que se juntan
+  SELECT least(_party_size, max(capacity)) INTO _needed FROM restaurant_tables;
+
+  IF _needed IS NULL THEN
+    RAISE EXCEPTION 'Aún no hay mesas registradas';
+  END IF;
+
+  SELECT COALESCE(max(capacity), 0) INTO _smaller FROM restaurant_tables WHERE capacity < _needed;
+
+  -- Cuánto suele durar una cuenta en estas mesas, según los últimos 30 días
+  SELECT EXTRACT(EPOCH FROM avg(s.closed_at - s.opened_at)) / 60 INTO _avg_minutes
+  FROM table_sessions s
+  JOIN restaurant_tables t ON t.id = s.table_id
+  WHERE s.status = 'closed'
+    AND s.closed_at > now() - interval '30 days'
+    AND t.capacity >= _needed;
+
+  _avg_minutes := greatest(COALESCE(_avg_minutes, 60), 15);
+
+  WITH candidates AS (
+    SELECT t.id,
+      CASE
+        WHEN s.id IS NOT NULL THEN greatest(now() + interval '5 minutes', s.opened_at + _avg_minutes * interval '1 minute')
+        WHEN t.status <> 'available' THEN now() + interval '5 minutes'
+        ELSE now()
+      END AS free_at
+    FROM restaurant_tables t
+    LEFT JOIN table_sessions s ON s.table_id = t.id AND s.status = 'open'
+    WHERE t.capacity >= _needed
+  )
+  SELECT array_agg(free_at ORDER BY free_at) INTO _free_at
+  FROM (
+    SELECT greatest(c.free_at, COALESCE((
+      SELECT max(r.ends_at)
+      FROM reservation_tables rt
+      JOIN reservations r ON r.id = rt.reservation_id
+      WHERE rt.table_id = c.id
+        AND r.status IN ('confirmed', 'seated')
+        AND tstzrange(r.starts_at, r.ends_at) && tstzrange(c.free_at, c.free_at + _avg_minutes * interval '1 minute')
+    ), c.free_at)) AS free_at
+    FROM candidates c
+  ) tables_free;
+
+  -- Solo compiten los grupos que no caben en una mesa más pequeña
+  SELECT count(*) INTO _ahead
+  FROM waitlist_entries
+  WHERE status = 'waiting' AND party_size > _smaller;
+
+  _tables := cardinality(_free_at);
+  -- Con más grupos que mesas, a los siguientes les toca otra vuelta
+  _wait := EXTRACT(EPOCH FROM _free_at[(_ahead % _tables) + 1] - now()) / 60
+    + (_ahead / _tables) * _avg_minutes;
+
+  RETURN (ceil(greatest(_wait, 0) / 5) * 5)::INTEGER;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_waitlist_entry(
+  _party_name TEXT,
+  _party_size INTEGER,
+  _phone TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  IF NULLIF(trim(_party_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Indica a nombre de quién anotar al grupo';
+  END IF;
+
+  INSERT INTO waitlist_entries (party_name, party_size, phone, notes, quoted_wait_minutes, added_by)
+  VALUES (trim(_party_name), _party_size, NULLIF(trim(_phone), ''), NULLIF(trim(_notes), ''), estimate_waitlist_wait(_party_size), auth.uid())
+  RETURNING id INTO _entry_id;
+
+  RETURN _entry_id;
+END;
+$$;
+
+-- Abre la cuenta de una mesa libre al sentar clientes, antes de que pidan la primera ronda
+CREATE OR REPLACE FUNCTION public.open_table_session(_table_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _table restaurant_tables%ROWTYPE;
+  _session_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _table FROM restaurant_tables WHERE id = _table_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mesa no encontrada';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM table_sessions WHERE table_id = _table_id AND status = 'open') THEN
+    RAISE EXCEPTION 'La mesa % ya tiene una cuenta abierta', _table.table_number;
+  END IF;
+
+  IF _table.status = 'cleaning' THEN
+    RAISE EXCEPTION 'La mesa % está en limpieza', _table.table_number;
+  END IF;
+
+  INSERT INTO table_sessions (table_id, opened_by)
+  VALUES (_table_id, auth.uid())
+  RETURNING id INTO _session_id;
+
+  UPDATE restaurant_tables SET status = 'occupied', updated_at = now() WHERE id = _table_id;
+
+  RETURN _session_id;
+END;
+$$;
+
+-- Sienta al grupo: abre la cuenta de la mesa y lo saca de la lista
+CREATE OR REPLACE FUNCTION public.seat_waitlist_entry(_entry_id UUID, _table_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _entry waitlist_entries%ROWTYPE;
+  _session_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _entry FROM waitlist_entries WHERE id = _entry_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Grupo no encontrado en la lista de espera';
+  END IF;
+
+  IF _entry.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Este grupo ya no está en la lista de espera';
+  END IF;
+
+  _session_id := open_table_session(_table_id);
+
+  UPDATE waitlist_entries
+  SET status = 'seated',
+      table_id = _table_id,
+      table_session_id = _session_id,
+      seated_at = now(),
+      updated_at = now()
+  WHERE id = _entry_id;
+
+  RETURN _session_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.estimate_waitlist_wait(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_waitlist_entry(TEXT, INTEGER, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.open_table_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.seat_waitlist_entry(UUID, UUID) TO authenticated;
+
+ALTER publication supabase_realtime ADD TABLE public.waitlist_entries;
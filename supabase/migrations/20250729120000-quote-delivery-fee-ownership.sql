@@ -0,0 +1,30 @@
+
+-- La cotización solo acepta direcciones del propio cliente, igual que place_order;
+-- antes cualquier usuario podía averiguar la zona y la distancia de direcciones ajenas
+CREATE OR REPLACE FUNCTION public.quote_delivery_fee(_items JSONB, _delivery_address_id UUID DEFAULT NULL)
+RETURNS TABLE (fee NUMERIC, distance_km NUMERIC, zone_id UUID, zone_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF _delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM delivery_addresses WHERE id = _delivery_address_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Dirección de entrega no válida';
+  END IF;
+
+  RETURN QUERY
+  SELECT f.*
+  FROM calculate_delivery_fee(
+    _delivery_address_id,
+    (
+      SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+      FROM jsonb_array_elements(quote_order_lines(_items)) l
+    )
+  ) f;
+END;
+$$;
+
+-- calculate_delivery_fee no valida al dueño de la dirección: solo la usan quote_delivery_fee y place_order
+REVOKE EXECUTE ON FUNCTION public.calculate_delivery_fee(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+
+-- Los clientes solo pueden enviar pagos pendientes de revisión. La política de inserción
+-- únicamente comprueba que el pedido sea suyo, así que sin esto podían crear un pago ya
+-- aprobado que luego se suma al saldo y confirma el pedido
+CREATE OR REPLACE FUNCTION public.guard_payment_verification_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_payment_verification_insert_trigger
+  BEFORE INSERT ON public.manual_payment_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_payment_verification_insert();
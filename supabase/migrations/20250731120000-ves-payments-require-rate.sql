@@ -0,0 +1,181 @@
+
+-- Un pago en bolívares sin tasa de cambio no tiene equivalente en dólares: antes se contaba
+-- 1:1 y un pago de Bs. 30 cubría un pedido de $30. Ahora la conversión devuelve NULL y
+-- ni la aprobación ni la confirmación automática lo aceptan
+CREATE OR REPLACE FUNCTION public.payment_amount_usd(_amount NUMERIC, _currency TEXT, _exchange_rate NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _currency <> 'VES' THEN _amount
+    WHEN COALESCE(_exchange_rate, 0) > 0 THEN round(_amount / _exchange_rate, 2)
+    ELSE NULL
+  END;
+$$;
+
+-- Recalcula lo pagado de un pedido sumando todas las fuentes de pago (en dólares)
+-- y lo confirma cuando queda cubierto
+CREATE OR REPLACE FUNCTION public.refresh_order_payment(_order_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  -- Sin tasa no se puede saber cuánto cubre un pago en bolívares
+  IF EXISTS (
+    SELECT 1 FROM manual_payment_verifications
+    WHERE order_id = _order.id AND status = 'approved'
+      AND payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate) IS NULL
+  ) OR EXISTS (
+    SELECT 1 FROM payment_intents
+    WHERE order_id = _order.id AND status = 'succeeded'
+      AND payment_amount_usd(amount - refunded_amount, currency, _order.exchange_rate) IS NULL
+  ) THEN
+    RAISE EXCEPTION 'El pedido no tiene tasa de cambio para convertir los pagos en bolívares';
+  END IF;
+
+  SELECT
+    COALESCE((
+      SELECT SUM(payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate))
+      FROM manual_payment_verifications
+      WHERE order_id = _order.id AND status = 'approved'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(payment_amount_usd(amount - refunded_amount, currency, _order.exchange_rate))
+      FROM payment_intents
+      WHERE order_id = _order.id AND status = 'succeeded'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(amount_received - change_given)
+      FROM cash_collections
+      WHERE order_id = _order.id
+    ), 0)
+  INTO _paid;
+
+  -- Un centavo de tolerancia por redondeo
+  _payment_status := CASE
+    WHEN _paid <= 0.01 THEN 'unpaid'
+    WHEN _paid > _order.total_amount + 0.01 THEN 'overpaid'
+    WHEN _paid >= _order.total_amount - 0.01 THEN 'paid'
+    ELSE 'partial'
+  END;
+
+  UPDATE orders
+  SET amount_paid = _paid,
+      payment_status = _payment_status,
+      updated_at = now()
+  WHERE id = _order.id;
+
+  IF _payment_status IN ('paid', 'overpaid') AND _order.status = 'pending' THEN
+    PERFORM set_config('app.order_status_reason', 'Pago aprobado', true);
+    UPDATE orders SET status = 'confirmed', updated_at = now() WHERE id = _order.id;
+    PERFORM set_config('app.order_status_reason', '', true);
+  END IF;
+
+  RETURN _payment_status;
+END;
+$$;
+
+-- Los pagos en bolívares solo se aprueban si el pedido tiene tasa de cambio
+CREATE OR REPLACE FUNCTION public.review_payment_verification(
+  _verification_id UUID,
+  _approve BOOLEAN,
+  _rejection_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _verification
+  FROM manual_payment_verifications
+  WHERE id = _verification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verificación de pago no encontrada';
+  END IF;
+
+  IF _verification.status <> 'pending' THEN
+    RAISE EXCEPTION 'Este pago ya fue revisado';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _verification.order_id
+  FOR UPDATE;
+
+  IF NOT _approve THEN
+    IF COALESCE(trim(_rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'Debes indicar el motivo del rechazo';
+    END IF;
+
+    UPDATE manual_payment_verifications
+    SET status = 'rejected',
+        rejection_reason = trim(_rejection_reason),
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        updated_at = now()
+    WHERE id = _verification_id;
+
+    INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'payment_rejected',
+      'Pago rechazado',
+      'Tu pago con referencia ' || _verification.reference_number || ' fue rechazado: ' || trim(_rejection_reason)
+    );
+
+    RETURN _order.payment_status;
+  END IF;
+
+  IF payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate) IS NULL THEN
+    RAISE EXCEPTION 'No se puede aprobar un pago en bolívares: el pedido no tiene tasa de cambio';
+  END IF;
+
+  UPDATE manual_payment_verifications
+  SET status = 'approved',
+      rejection_reason = NULL,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _verification_id;
+
+  _payment_status := refresh_order_payment(_order.id);
+  SELECT amount_paid INTO _paid FROM orders WHERE id = _order.id;
+
+  INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    CASE WHEN _payment_status = 'partial' THEN 'payment_partial' ELSE 'payment_approved' END,
+    CASE WHEN _payment_status = 'partial' THEN 'Pago parcial recibido' ELSE 'Pago aprobado' END,
+    CASE
+      WHEN _payment_status = 'partial' THEN
+        'Recibimos $' || to_char(payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate), 'FM999999990.00')
+        || '. Falta $' || to_char(_order.total_amount - _paid, 'FM999999990.00')
+        || ' para confirmar tu pedido.'
+      ELSE 'Tu pago fue aprobado y tu pedido está confirmado.'
+    END
+  );
+
+  RETURN _payment_status;
+END;
+$$;
@@ -0,0 +1,5 @@
+
+-- El hash del comprobante lo calculaba el navegador y el cliente podía enviar cualquier valor
+-- para esquivar la detección de comprobantes repetidos. Ahora los pagos manuales se registran
+-- con la función submit-payment-proof, que calcula el hash a partir del archivo guardado
+DROP POLICY IF EXISTS "Users can create payment verifications for their orders" ON public.manual_payment_verifications;
@@ -0,0 +1,104 @@
+
+-- Cuenta receptora que el cliente eligió al pagar. La conciliación solo compara un estado
+-- de cuenta con los pagos hechos a esa misma cuenta, no a cualquiera del mismo tipo
+ALTER TABLE public.manual_payment_verifications
+ADD COLUMN payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL;
+
+-- Las referencias muy cortas del banco ya no concilian (un "1" calzaba con toda referencia
+-- terminada en 1), y solo se buscan pagos enviados a la cuenta del estado de cuenta.
+-- Los pagos anteriores a la columna no tienen cuenta y se revisan a mano
+CREATE OR REPLACE FUNCTION public.import_bank_statement(
+  _payment_method_id UUID,
+  _file_name TEXT,
+  _file_format TEXT,
+  _currency TEXT,
+  _movements JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _import_id UUID;
+  _movement bank_statement_movements%ROWTYPE;
+  _match UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM payment_methods WHERE id = _payment_method_id) THEN
+    RAISE EXCEPTION 'Cuenta receptora no encontrada';
+  END IF;
+
+  INSERT INTO bank_statement_imports (payment_method_id, file_name, file_format, currency, imported_by)
+  VALUES (_payment_method_id, _file_name, _file_format, _currency, auth.uid())
+  RETURNING id INTO _import_id;
+
+  -- Los movimientos ya importados que siguen sin conciliar pasan a esta importación para reintentarlos
+  INSERT INTO bank_statement_movements (import_id, payment_method_id, movement_date, reference, amount, description)
+  SELECT DISTINCT ON (movement_date, reference, amount)
+    _import_id, _payment_method_id, movement_date, reference, amount, description
+  FROM (
+    SELECT (m->>'date')::date AS movement_date,
+           trim(m->>'reference') AS reference,
+           (m->>'amount')::numeric AS amount,
+           NULLIF(trim(m->>'description'), '') AS description
+    FROM jsonb_array_elements(_movements) AS m
+  ) parsed
+  WHERE amount > 0
+    AND COALESCE(reference, '') <> ''
+  ON CONFLICT (payment_method_id, movement_date, reference, amount) DO UPDATE
+    SET import_id = EXCLUDED.import_id
+    WHERE bank_statement_movements.matched_verification_id IS NULL;
+
+  FOR _movement IN
+    SELECT *
+    FROM bank_statement_movements
+    WHERE import_id = _import_id
+      AND matched_verification_id IS NULL
+      -- Con menos de 4 caracteres la referencia del banco coincide con casi cualquier pago
+      AND length(normalize_payment_reference(reference)) >= 4
+    ORDER BY movement_date
+  LOOP
+    SELECT v.id INTO _match
+    FROM manual_payment_verifications v
+    WHERE v.status = 'pending'
+      AND v.payment_method_id = _payment_method_id
+      AND v.amount_currency = _currency
+      AND abs(v.amount_paid - _movement.amount) <= 0.01
+      -- El cliente reporta el pago el mismo día o poco después de hacerlo
+      AND _movement.movement_date BETWEEN (v.created_at::date - 3) AND (v.created_at::date + 1)
+      AND length(normalize_payment_reference(v.reference_number)) >= 4
+      -- Los bancos suelen mostrar la referencia completa y el cliente solo los últimos dígitos
+      AND (
+        normalize_payment_reference(_movement.reference) LIKE '%' || normalize_payment_reference(v.reference_number)
+        OR normalize_payment_reference(v.reference_number) LIKE '%' || normalize_payment_reference(_movement.reference)
+        OR (
+          length(normalize_payment_reference(v.reference_number)) >= 6
+          AND normalize_payment_reference(_movement.description) LIKE '%' || normalize_payment_reference(v.reference_number) || '%'
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM bank_statement_movements bm WHERE bm.matched_verification_id = v.id
+      )
+      -- Referencias o comprobantes repetidos siempre pasan por revisión manual
+      AND NOT EXISTS (
+        SELECT 1 FROM payment_verification_flags f
+        WHERE f.verification_id = v.id
+          AND f.flag_type IN ('duplicate_reference', 'duplicate_proof')
+      )
+    ORDER BY
+      (normalize_payment_reference(_movement.reference) = normalize_payment_reference(v.reference_number)) DESC,
+      abs(_movement.movement_date - v.created_at::date),
+      v.created_at
+    LIMIT 1;
+
+    IF _match IS NOT NULL THEN
+      UPDATE bank_statement_movements SET matched_verification_id = _match WHERE id = _movement.id;
+    END IF;
+  END LOOP;
+
+  RETURN _import_id;
+END;
+$$;
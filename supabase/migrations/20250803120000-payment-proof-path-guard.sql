@@ -0,0 +1,53 @@
+
+-- El comprobante de un pago tiene que estar en la carpeta de su pedido. Antes se podía
+-- registrar la ruta de un archivo ajeno de la raíz del bucket y la política de lectura de
+-- comprobantes anteriores daba acceso a él
+CREATE OR REPLACE FUNCTION public.guard_payment_verification_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+  END IF;
+
+  IF NOT starts_with(COALESCE(NEW.payment_proof_path, ''), NEW.order_id::text || '/') THEN
+    RAISE EXCEPTION 'El comprobante no pertenece a este pedido';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Order owners and restaurant staff can view payment proofs" ON storage.objects;
+
+-- La excepción para comprobantes en la raíz del bucket solo cubre los pagos marcados como
+-- legacy_proof al pasar el bucket a privado y que todavía no se movieron a su carpeta
+CREATE POLICY "Order owners and restaurant staff can view payment proofs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'payment-proofs'
+    AND (
+      public.has_role(auth.uid(), 'restaurant'::public.app_role)
+      OR EXISTS (
+        SELECT 1 FROM public.orders
+        WHERE orders.id::text = (storage.foldername(objects.name))[1]
+        AND orders.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM public.manual_payment_verifications v
+        JOIN public.orders o ON o.id = v.order_id
+        WHERE v.payment_proof_path = objects.name
+        AND v.legacy_proof
+        AND position('/' IN v.payment_proof_path) = 0
+        AND o.user_id = auth.uid()
+      )
+    )
+  );
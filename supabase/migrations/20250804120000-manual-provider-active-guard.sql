@@ -0,0 +1,27 @@
+
+-- Los pagos manuales también respetan el interruptor de payment_providers: con el proveedor
+-- desactivado no se aceptan comprobantes nuevos aunque se envíen sin pasar por el checkout
+CREATE OR REPLACE FUNCTION public.guard_payment_verification_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM payment_providers WHERE id = 'manual' AND is_active) THEN
+    RAISE EXCEPTION 'Proveedor de pago no disponible';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+  END IF;
+
+  IF NOT starts_with(COALESCE(NEW.payment_proof_path, ''), NEW.order_id::text || '/') THEN
+    RAISE EXCEPTION 'El comprobante no pertenece a este pedido';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,56 @@
+
+-- Deshacer un no-show vuelve a ocupar las mesas, así que se comprueba que sigan libres
+-- con el mismo bloqueo que usan las demás funciones de reservas
+CREATE OR REPLACE FUNCTION public.update_reservation_status(_reservation_id UUID, _status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _reservation reservations%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _reservation FROM reservations WHERE id = _reservation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reserva no encontrada';
+  END IF;
+
+  IF NOT (
+    (_reservation.status = 'confirmed' AND _status IN ('seated', 'cancelled', 'no_show'))
+    OR (_reservation.status = 'seated' AND _status = 'completed')
+    -- Marcado por error: el cliente sí llegó
+    OR (_reservation.status = 'no_show' AND _status IN ('confirmed', 'seated'))
+  ) THEN
+    RAISE EXCEPTION 'No se puede pasar la reserva de % a %', _reservation.status, _status;
+  END IF;
+
+  IF _status = 'no_show' AND _reservation.starts_at > now() THEN
+    RAISE EXCEPTION 'La reserva aún no ha comenzado';
+  END IF;
+
+  -- Mientras fue no-show sus mesas quedaron libres y pudieron reservarse de nuevo
+  IF _reservation.status = 'no_show' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('reservations'));
+    PERFORM assert_reservation_tables_available(
+      ARRAY(SELECT table_id FROM reservation_tables WHERE reservation_id = _reservation_id),
+      _reservation.party_size,
+      _reservation.starts_at,
+      _reservation.duration_minutes,
+      _reservation_id
+    );
+  END IF;
+
+  UPDATE reservations
+  SET status = _status,
+      status_changed_at = now(),
+      updated_at = now()
+  WHERE id = _reservation_id;
+END;
+$$;
+
+-- assert_reservation_tables_available es interna: solo la llaman las funciones de reservas
+REVOKE EXECUTE ON FUNCTION public.assert_reservation_tables_available(UUID[], INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,99 @@
+
+-- Quitar a quien se fue pasa por una función: la política de actualización dejaba al personal
+-- cambiar cualquier columna, incluso marcar a un grupo como sentado sin abrir la cuenta
+DROP POLICY IF EXISTS "Staff can update the waitlist" ON public.waitlist_entries;
+
+CREATE OR REPLACE FUNCTION public.remove_waitlist_entry(_entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  UPDATE waitlist_entries
+  SET status = 'left',
+      updated_at = now()
+  WHERE id = _entry_id AND status = 'waiting';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Este grupo ya no está en la lista de espera';
+  END IF;
+END;
+$$;
+
+-- Sentar a un grupo exige una mesa donde quepa y que no tenga una reserva que empiece
+-- mientras el grupo todavía estaría comiendo
+CREATE OR REPLACE FUNCTION public.seat_waitlist_entry(_entry_id UUID, _table_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _entry waitlist_entries%ROWTYPE;
+  _table restaurant_tables%ROWTYPE;
+  _avg_minutes NUMERIC;
+  _session_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _entry FROM waitlist_entries WHERE id = _entry_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Grupo no encontrado en la lista de espera';
+  END IF;
+
+  IF _entry.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Este grupo ya no está en la lista de espera';
+  END IF;
+
+  SELECT * INTO _table FROM restaurant_tables WHERE id = _table_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mesa no encontrada';
+  END IF;
+
+  IF _table.capacity < _entry.party_size THEN
+    RAISE EXCEPTION 'La mesa % es para % personas y el grupo es de %', _table.table_number, _table.capacity, _entry.party_size;
+  END IF;
+
+  -- Misma duración habitual que usa la espera estimada
+  SELECT EXTRACT(EPOCH FROM avg(s.closed_at - s.opened_at)) / 60 INTO _avg_minutes
+  FROM table_sessions s
+  JOIN restaurant_tables t ON t.id = s.table_id
+  WHERE s.status = 'closed'
+    AND s.closed_at > now() - interval '30 days'
+    AND t.capacity >= _entry.party_size;
+
+  _avg_minutes := greatest(COALESCE(_avg_minutes, 60), 15);
+
+  IF EXISTS (
+    SELECT 1
+    FROM reservation_tables rt
+    JOIN reservations r ON r.id = rt.reservation_id
+    WHERE rt.table_id = _table_id
+      AND r.status = 'confirmed'
+      AND tstzrange(r.starts_at, r.ends_at) && tstzrange(now(), now() + _avg_minutes * interval '1 minute')
+  ) THEN
+    RAISE EXCEPTION 'La mesa % tiene una reserva antes de que este grupo termine', _table.table_number;
+  END IF;
+
+  _session_id := open_table_session(_table_id);
+
+  UPDATE waitlist_entries
+  SET status = 'seated',
+      table_id = _table_id,
+      table_session_id = _session_id,
+      seated_at = now(),
+      updated_at = now()
+  WHERE id = _entry_id;
+
+  RETURN _session_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.remove_waitlist_entry(UUID) TO authenticated;
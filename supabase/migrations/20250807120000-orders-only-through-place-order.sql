@@ -0,0 +1,43 @@
+
+-- Los pedidos y sus líneas solo se crean con place_order, que recalcula los precios en el
+-- servidor. Las políticas anteriores seguían dejando insertar pedidos, items y
+-- personalizaciones directamente y que el cliente editara sus propios pedidos
+DROP POLICY IF EXISTS "Users can create their own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can update their own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can create order items for their orders" ON public.order_items;
+DROP POLICY IF EXISTS "Waiters can create order items" ON public.order_items;
+DROP POLICY IF EXISTS "Users can create dish customizations for their orders" ON public.order_dish_customizations;
+
+-- El personal conserva su política de actualización, pero los importes y el dueño del pedido
+-- solo los cambian las funciones del servidor. Sin SECURITY DEFINER a propósito: current_user
+-- es el rol de la sesión (authenticated) cuando el cambio llega directo desde la app, y el
+-- dueño de la función cuando lo hace otra función SECURITY DEFINER
+CREATE OR REPLACE FUNCTION public.guard_order_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.total_amount IS DISTINCT FROM OLD.total_amount
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.delivery_fee IS DISTINCT FROM OLD.delivery_fee
+    OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate
+    OR NEW.delivery_address_id IS DISTINCT FROM OLD.delivery_address_id
+    OR NEW.channel IS DISTINCT FROM OLD.channel
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  THEN
+    RAISE EXCEPTION 'Los importes del pedido no se pueden modificar directamente';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_order_columns_trigger
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_order_columns();
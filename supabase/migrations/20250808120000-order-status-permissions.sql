@@ -0,0 +1,107 @@
+
+-- Los cambios de estado pasan por update_order_status, que ahora corre con permisos propios
+-- y decide quién puede hacer qué: el personal del restaurante cualquier transición válida y
+-- el cliente solo cancelar su pedido pendiente. Actualizar status directamente desde la app
+-- ya no está permitido
+CREATE OR REPLACE FUNCTION public.guard_order_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'El estado del pedido se cambia con update_order_status';
+  END IF;
+
+  IF NEW.total_amount IS DISTINCT FROM OLD.total_amount
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.delivery_fee IS DISTINCT FROM OLD.delivery_fee
+    OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate
+    OR NEW.delivery_address_id IS DISTINCT FROM OLD.delivery_address_id
+    OR NEW.channel IS DISTINCT FROM OLD.channel
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  THEN
+    RAISE EXCEPTION 'Los importes del pedido no se pueden modificar directamente';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = COALESCE(OLD.status, 'pending')
+      AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Transición de estado no permitida: % → %', OLD.status, NEW.status;
+  END IF;
+
+  -- El cliente solo puede cancelar su pedido mientras sigue pendiente; el resto de los cambios
+  -- los hacen el personal o las funciones de pago, cocina y mesas
+  IF auth.uid() = NEW.user_id
+    AND NOT EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role <> 'cliente')
+    AND NOT (COALESCE(OLD.status, 'pending') = 'pending' AND NEW.status = 'cancelled')
+  THEN
+    RAISE EXCEPTION 'Solo puedes cancelar tu pedido mientras está pendiente';
+  END IF;
+
+  -- Un pedido ya recogido por el repartidor no se puede cancelar
+  IF NEW.status = 'cancelled' AND EXISTS (
+    SELECT 1 FROM order_assignments
+    WHERE order_id = NEW.id AND picked_up_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'No se puede cancelar un pedido que ya fue recogido por el repartidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Ya no depende de las políticas de orders: valida al usuario por su cuenta
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  _order_id UUID,
+  _status public.order_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM orders WHERE id = _order_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', COALESCE(_reason, ''), true);
+
+  UPDATE orders
+  SET status = _status,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT) TO authenticated;
@@ -0,0 +1,137 @@
+
+-- Lo pagado y el estado del pago solo los calcula refresh_order_payment. El personal podía
+-- escribirlos con su política de actualización (y el cliente con la suya, ya eliminada)
+CREATE OR REPLACE FUNCTION public.guard_order_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'El estado del pedido se cambia con update_order_status';
+  END IF;
+
+  IF NEW.amount_paid IS DISTINCT FROM OLD.amount_paid
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+  THEN
+    RAISE EXCEPTION 'Lo pagado se calcula a partir de los pagos registrados';
+  END IF;
+
+  IF NEW.total_amount IS DISTINCT FROM OLD.total_amount
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.delivery_fee IS DISTINCT FROM OLD.delivery_fee
+    OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate
+    OR NEW.delivery_address_id IS DISTINCT FROM OLD.delivery_address_id
+    OR NEW.channel IS DISTINCT FROM OLD.channel
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  THEN
+    RAISE EXCEPTION 'Los importes del pedido no se pueden modificar directamente';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- "Tu pedido está confirmado" solo cuando el pago de verdad lo confirmó: un pedido que ya
+-- estaba en preparación o que fue cancelado recibe solo el aviso del pago
+CREATE OR REPLACE FUNCTION public.review_payment_verification(
+  _verification_id UUID,
+  _approve BOOLEAN,
+  _rejection_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification manual_payment_verifications%ROWTYPE;
+  _order orders%ROWTYPE;
+  _paid NUMERIC;
+  _payment_status TEXT;
+  _order_status order_status;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  SELECT * INTO _verification
+  FROM manual_payment_verifications
+  WHERE id = _verification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verificación de pago no encontrada';
+  END IF;
+
+  IF _verification.status <> 'pending' THEN
+    RAISE EXCEPTION 'Este pago ya fue revisado';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _verification.order_id
+  FOR UPDATE;
+
+  IF NOT _approve THEN
+    IF COALESCE(trim(_rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'Debes indicar el motivo del rechazo';
+    END IF;
+
+    UPDATE manual_payment_verifications
+    SET status = 'rejected',
+        rejection_reason = trim(_rejection_reason),
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        updated_at = now()
+    WHERE id = _verification_id;
+
+    INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'payment_rejected',
+      'Pago rechazado',
+      'Tu pago con referencia ' || _verification.reference_number || ' fue rechazado: ' || trim(_rejection_reason)
+    );
+
+    RETURN _order.payment_status;
+  END IF;
+
+  IF payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate) IS NULL THEN
+    RAISE EXCEPTION 'No se puede aprobar un pago en bolívares: el pedido no tiene tasa de cambio';
+  END IF;
+
+  UPDATE manual_payment_verifications
+  SET status = 'approved',
+      rejection_reason = NULL,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _verification_id;
+
+  _payment_status := refresh_order_payment(_order.id);
+  SELECT amount_paid, status INTO _paid, _order_status FROM orders WHERE id = _order.id;
+
+  INSERT INTO customer_notifications (user_id, order_id, notification_type, title, message)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    CASE WHEN _payment_status = 'partial' THEN 'payment_partial' ELSE 'payment_approved' END,
+    CASE WHEN _payment_status = 'partial' THEN 'Pago parcial recibido' ELSE 'Pago aprobado' END,
+    CASE
+      WHEN _payment_status = 'partial' THEN
+        'Recibimos $' || to_char(payment_amount_usd(_verification.amount_paid, _verification.amount_currency, _order.exchange_rate), 'FM999999990.00')
+        || '. Falta $' || to_char(_order.total_amount - _paid, 'FM999999990.00')
+        || ' para confirmar tu pedido.'
+      WHEN _order.status = 'pending' AND _order_status = 'confirmed' THEN 'Tu pago fue aprobado y tu pedido está confirmado.'
+      ELSE 'Tu pago fue aprobado.'
+    END
+  );
+
+  RETURN _payment_status;
+END;
+$$;
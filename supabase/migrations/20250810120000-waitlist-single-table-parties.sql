@@ -0,0 +1,92 @@
+
+-- seat_waitlist_entry solo sienta en una mesa donde quepa todo el grupo, pero la espera se
+-- calculaba como si las mesas grandes se juntaran: esos grupos quedaban anotados sin poder
+-- sentarse nunca. Ahora la estimación (y con ella add_waitlist_entry) los rechaza
+--
+-- Espera estimada para un grupo que llega ahora, en minutos redondeados a 5.
+-- Cada mesa donde cabe el grupo se libera cuando su cuenta abierta alcanza la duración habitual,
+-- o después de la reserva que empiece antes de que el grupo termine. Los grupos anotados antes
+-- que necesitan esas mismas mesas se sientan primero, una mesa cada uno
+CREATE OR REPLACE FUNCTION public.estimate_waitlist_wait(_party_size INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _needed INTEGER;
+  _smaller INTEGER;
+  _avg_minutes NUMERIC;
+  _free_at TIMESTAMP WITH TIME ZONE[];
+  _ahead INTEGER;
+  _tables INTEGER;
+  _wait NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'restaurant'::app_role) OR has_role(auth.uid(), 'mesero'::app_role)) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  IF _party_size IS NULL OR _party_size < 1 THEN
+    RAISE EXCEPTION 'Indica cuántas personas vienen';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurant_tables) THEN
+    RAISE EXCEPTION 'Aún no hay mesas registradas';
+  END IF;
+
+  -- Al sentarlos se usa una sola mesa: un grupo que no cabe en ninguna se atiende con una reserva
+  IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE capacity >= _party_size) THEN
+    RAISE EXCEPTION 'Ninguna mesa es para % personas; haz una reserva para juntar mesas', _party_size;
+  END IF;
+
+  _needed := _party_size;
+
+  SELECT COALESCE(max(capacity), 0) INTO _smaller FROM restaurant_tables WHERE capacity < _needed;
+
+  -- Cuánto suele durar una cuenta en estas mesas, según los últimos 30 días
+  SELECT EXTRACT(EPOCH FROM avg(s.closed_at - s.opened_at)) / 60 INTO _avg_minutes
+  FROM table_sessions s
+  JOIN restaurant_tables t ON t.id = s.table_id
+  WHERE s.status = 'closed'
+    AND s.closed_at > now() - interval '30 days'
+    AND t.capacity >= _needed;
+
+  _avg_minutes := greatest(COALESCE(_avg_minutes, 60), 15);
+
+  WITH candidates AS (
+    SELECT t.id,
+      CASE
+        WHEN s.id IS NOT NULL THEN greatest(now() + interval '5 minutes', s.opened_at + _avg_minutes * interval '1 minute')
+        WHEN t.status <> 'available' THEN now() + interval '5 minutes'
+        ELSE now()
+      END AS free_at
+    FROM restaurant_tables t
+    LEFT JOIN table_sessions s ON s.table_id = t.id AND s.status = 'open'
+    WHERE t.capacity >= _needed
+  )
+  SELECT array_agg(free_at ORDER BY free_at) INTO _free_at
+  FROM (
+    SELECT greatest(c.free_at, COALESCE((
+      SELECT max(r.ends_at)
+      FROM reservation_tables rt
+      JOIN reservations r ON r.id = rt.reservation_id
+      WHERE rt.table_id = c.id
+        AND r.status IN ('confirmed', 'seated')
+        AND tstzrange(r.starts_at, r.ends_at) && tstzrange(c.free_at, c.free_at + _avg_minutes * interval '1 minute')
+    ), c.free_at)) AS free_at
+    FROM candidates c
+  ) tables_free;
+
+  -- Solo compiten los grupos que no caben en una mesa más pequeña
+  SELECT count(*) INTO _ahead
+  FROM waitlist_entries
+  WHERE status = 'waiting' AND party_size > _smaller;
+
+  _tables := cardinality(_free_at);
+  -- Con más grupos que mesas, a los siguientes les toca otra vuelta
+  _wait := EXTRACT(EPOCH FROM _free_at[(_ahead % _tables) + 1] - now()) / 60
+    + (_ahead / _tables) * _avg_minutes;
+
+  RETURN (ceil(greatest(_wait, 0) / 5) * 5)::INTEGER;
+END;
+$$;
@@ -0,0 +1,92 @@
+
+-- Los cobros sin respuesta de la pasarela quedaban en processing para siempre, contando como
+-- saldo en curso sin poder cancelarse, y el pedido nunca terminaba de pagarse
+CREATE OR REPLACE FUNCTION public.create_payment_intent(
+  _order_id UUID,
+  _provider_id TEXT,
+  _amount NUMERIC,
+  _currency TEXT DEFAULT 'USD'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _provider payment_providers%ROWTYPE;
+  _in_flight NUMERIC;
+  _outstanding NUMERIC;
+  _amount_usd NUMERIC;
+  _intent_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'El pedido fue cancelado';
+  END IF;
+
+  -- Un cobro que la pasarela no resolvió a tiempo (por ejemplo, el webhook nunca llegó) deja
+  -- de contar contra el saldo; la app tampoco lo cuenta pasado el mismo plazo
+  UPDATE payment_intents
+  SET status = 'failed',
+      failure_reason = 'La pasarela no confirmó el cobro a tiempo',
+      updated_at = now()
+  WHERE order_id = _order.id
+    AND status IN ('requires_confirmation', 'processing')
+    AND updated_at < now() - interval '15 minutes';
+
+  IF _order.payment_method = 'cash' THEN
+    RAISE EXCEPTION 'Este pedido se paga en efectivo al recibirlo';
+  END IF;
+
+  SELECT * INTO _provider FROM payment_providers WHERE id = _provider_id;
+
+  IF NOT FOUND OR NOT _provider.is_active THEN
+    RAISE EXCEPTION 'Proveedor de pago no disponible';
+  END IF;
+
+  -- Los pagos manuales se registran como verificaciones con su comprobante
+  IF _provider.id = 'manual' THEN
+    RAISE EXCEPTION 'Los pagos manuales se envían con su comprobante';
+  END IF;
+
+  IF _currency NOT IN ('USD', 'VES') OR (_currency = 'VES' AND COALESCE(_order.exchange_rate, 0) = 0) THEN
+    RAISE EXCEPTION 'Moneda no disponible para este pedido';
+  END IF;
+
+  -- Lo que ya está en revisión o en proceso también cuenta contra el saldo
+  SELECT
+    COALESCE((
+      SELECT SUM(payment_amount_usd(amount_paid, amount_currency, _order.exchange_rate))
+      FROM manual_payment_verifications
+      WHERE order_id = _order.id AND status = 'pending'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(payment_amount_usd(amount, currency, _order.exchange_rate))
+      FROM payment_intents
+      WHERE order_id = _order.id AND status IN ('requires_confirmation', 'processing')
+    ), 0)
+  INTO _in_flight;
+
+  _outstanding := greatest(_order.total_amount - _order.amount_paid - _in_flight, 0);
+  _amount_usd := payment_amount_usd(_amount, _currency, _order.exchange_rate);
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  IF _amount_usd > _outstanding + 0.01 THEN
+    RAISE EXCEPTION 'El monto excede el saldo pendiente de $%', to_char(_outstanding, 'FM999999990.00');
+  END IF;
+
+  INSERT INTO payment_intents (order_id, provider_id, amount, currency, created_by)
+  VALUES (_order.id, _provider.id, round(_amount, 2), _currency, auth.uid())
+  RETURNING id INTO _intent_id;
+
+  RETURN _intent_id;
+END;
+$$;
@@ -0,0 +1,91 @@
+
+-- request_reservation se podía llamar sin sesión y sin límite, así que cualquiera podía
+-- ocupar todas las mesas con nombres y teléfonos inventados
+CREATE OR REPLACE FUNCTION public.request_reservation(
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _party_size INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _notes TEXT DEFAULT NULL,
+  _customer_email TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _settings reservation_settings%ROWTYPE;
+  _local_time TIME;
+  _tables UUID[];
+  _reservation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Inicia sesión para reservar';
+  END IF;
+
+  SELECT * INTO _settings FROM reservation_settings ORDER BY created_at LIMIT 1;
+
+  IF NULLIF(trim(_customer_name), '') IS NULL OR NULLIF(trim(_customer_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Indica tu nombre y teléfono';
+  END IF;
+
+  IF length(_customer_name) > 100 OR length(_customer_phone) > 30 OR length(COALESCE(_notes, '')) > 500 THEN
+    RAISE EXCEPTION 'Los datos de la reserva son demasiado largos';
+  END IF;
+
+  IF _party_size IS NULL OR _party_size < 1 OR _party_size > _settings.max_party_size THEN
+    RAISE EXCEPTION 'Para grupos de más de % personas llámanos', _settings.max_party_size;
+  END IF;
+
+  IF _starts_at <= now() OR _starts_at > now() + make_interval(days => _settings.booking_horizon_days) THEN
+    RAISE EXCEPTION 'Elige una fecha dentro de los próximos % días', _settings.booking_horizon_days;
+  END IF;
+
+  _local_time := (_starts_at AT TIME ZONE _settings.time_zone)::TIME;
+
+  IF _local_time < _settings.opening_time
+    OR _local_time > _settings.last_seating_time
+    OR (EXTRACT(EPOCH FROM _local_time - _settings.opening_time)::INTEGER / 60) % _settings.slot_minutes <> 0 THEN
+    RAISE EXCEPTION 'Ese horario no está disponible';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('reservations'));
+
+  -- Pocas reservas por delante por cuenta o teléfono, para que nadie acapare las mesas
+  IF (
+    SELECT count(*)
+    FROM reservations
+    WHERE source = 'online'
+      AND status = 'confirmed'
+      AND starts_at > now()
+      AND (user_id = auth.uid() OR customer_phone = trim(_customer_phone))
+  ) >= 3 THEN
+    RAISE EXCEPTION 'Ya tienes 3 reservas por delante; llámanos si necesitas otra';
+  END IF;
+
+  SELECT s.table_ids INTO _tables
+  FROM suggest_reservation_tables(_party_size, _starts_at, _settings.default_duration_minutes) s
+  LIMIT 1;
+
+  IF _tables IS NULL THEN
+    RAISE EXCEPTION 'Ya no quedan mesas para % personas a esa hora; elige otro horario', _party_size;
+  END IF;
+
+  INSERT INTO reservations (customer_name, customer_phone, customer_email, party_size, starts_at, duration_minutes, notes, source, user_id)
+  VALUES (trim(_customer_name), trim(_customer_phone), NULLIF(trim(_customer_email), ''), _party_size, _starts_at, _settings.default_duration_minutes, NULLIF(trim(_notes), ''), 'online', auth.uid())
+  RETURNING id INTO _reservation_id;
+
+  INSERT INTO reservation_tables (reservation_id, table_id)
+  SELECT _reservation_id, unnest(_tables);
+
+  RETURN _reservation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_reservation(TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon;
+
+-- Las sugerencias de mesas son para el personal: con los permisos de quien llama solo ven la
+-- ocupación quienes ya pueden ver las reservas, y las funciones de reservas la siguen usando
+ALTER FUNCTION public.suggest_reservation_tables(INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) SECURITY INVOKER;
+REVOKE EXECUTE ON FUNCTION public.suggest_reservation_tables(INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.assert_reservation_tables_available(UUID[], INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
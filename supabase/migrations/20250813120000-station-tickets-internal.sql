@@ -0,0 +1,4 @@
+
+-- create_station_tickets solo la llaman el trigger de pedidos confirmados y la migración que
+-- repartió los pedidos abiertos; nadie debe poder generar tickets a mano
+REVOKE EXECUTE ON FUNCTION public.create_station_tickets(UUID) FROM PUBLIC, anon, authenticated;
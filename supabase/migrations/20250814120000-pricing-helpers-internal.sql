@@ -0,0 +1,7 @@
+
+-- Las funciones de precios son internas: place_order, validate_promo_code y quote_delivery_fee
+-- las usan con sus propios permisos. Llamadas directas permitían probar códigos promocionales
+-- sin límite y leer precios de platos no disponibles
+REVOKE EXECUTE ON FUNCTION public.resolve_dish_customizations(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.quote_order_lines(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_promo_discount(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
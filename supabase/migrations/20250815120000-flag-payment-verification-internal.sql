@@ -0,0 +1,4 @@
+
+-- flag_payment_verification solo la llaman el trigger de pagos nuevos y la revisión del pago;
+-- llamada a mano permitía recalcular o borrar las alertas de cualquier pago
+REVOKE EXECUTE ON FUNCTION public.flag_payment_verification(UUID) FROM PUBLIC, anon, authenticated;
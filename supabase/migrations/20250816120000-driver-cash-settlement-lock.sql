@@ -0,0 +1,111 @@
+
+-- El cierre de caja y el registro de cobros toman el mismo candado por repartidor, para que un
+-- cobro registrado durante el cierre no se marque como cerrado sin contarse en lo esperado
+CREATE OR REPLACE FUNCTION public.record_cash_collection(
+  _order_id UUID,
+  _amount_received NUMERIC,
+  _change_given NUMERIC DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _driver_id UUID;
+  _amount_due NUMERIC;
+  _paid NUMERIC;
+  _payment_status TEXT;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido no encontrado';
+  END IF;
+
+  SELECT oa.driver_id INTO _driver_id
+  FROM order_assignments oa
+  JOIN delivery_drivers d ON d.id = oa.driver_id
+  WHERE oa.order_id = _order_id
+    AND d.email = auth.jwt() ->> 'email';
+
+  IF _driver_id IS NULL THEN
+    RAISE EXCEPTION 'Solo el repartidor asignado puede registrar el cobro';
+  END IF;
+
+  -- Mismo candado que settle_driver_cash: el cobro entra antes o después del cierre, nunca a medias
+  PERFORM pg_advisory_xact_lock(hashtext('driver_cash:' || _driver_id));
+
+  IF _order.payment_method <> 'cash' THEN
+    RAISE EXCEPTION 'Este pedido no se paga en efectivo';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cash_collections WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'El cobro de este pedido ya fue registrado';
+  END IF;
+
+  IF COALESCE(_change_given, 0) < 0 OR _amount_received < COALESCE(_change_given, 0) THEN
+    RAISE EXCEPTION 'El vuelto no puede ser mayor que el monto recibido';
+  END IF;
+
+  _amount_due := greatest(_order.total_amount - _order.amount_paid, 0);
+
+  INSERT INTO cash_collections (order_id, driver_id, amount_due, amount_received, change_given)
+  VALUES (_order_id, _driver_id, _amount_due, _amount_received, COALESCE(_change_given, 0));
+
+  _paid := _order.amount_paid + _amount_received - COALESCE(_change_given, 0);
+
+  -- Un centavo de tolerancia por redondeo
+  _payment_status := CASE
+    WHEN _paid > _order.total_amount + 0.01 THEN 'overpaid'
+    WHEN _paid >= _order.total_amount - 0.01 THEN 'paid'
+    WHEN _paid > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END;
+
+  UPDATE orders
+  SET amount_paid = _paid,
+      payment_status = _payment_status,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  RETURN _payment_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_driver_cash(
+  _driver_id UUID,
+  _handed_in_amount NUMERIC,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _expected NUMERIC;
+  _settlement_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  -- Bloquear al repartidor: FOR UPDATE sobre los cobros existentes no frenaba los cobros nuevos,
+  -- que quedaban marcados con este cierre sin estar sumados en el monto esperado
+  PERFORM pg_advisory_xact_lock(hashtext('driver_cash:' || _driver_id));
+
+  SELECT COALESCE(SUM(amount_received - change_given), 0) INTO _expected
+  FROM cash_collections
+  WHERE driver_id = _driver_id AND settlement_id IS NULL;
+
+  INSERT INTO driver_cash_settlements (driver_id, expected_amount, handed_in_amount, notes, settled_by)
+  VALUES (_driver_id, _expected, _handed_in_amount, NULLIF(trim(_notes), ''), auth.uid())
+  RETURNING id INTO _settlement_id;
+
+  UPDATE cash_collections
+  SET settlement_id = _settlement_id
+  WHERE driver_id = _driver_id AND settlement_id IS NULL;
+
+  RETURN _settlement_id;
+END;
+$$;
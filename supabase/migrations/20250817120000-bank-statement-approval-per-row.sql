@@ -0,0 +1,44 @@
+
+-- Un pago conciliado que no se podía aprobar (pedido cancelado, monto fuera de tolerancia...)
+-- hacía fallar todo el lote; ahora cada pago se aprueba por separado y se informan los que fallaron
+DROP FUNCTION IF EXISTS public.approve_bank_statement_matches(UUID);
+
+CREATE OR REPLACE FUNCTION public.approve_bank_statement_matches(_import_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _verification RECORD;
+  _approved INTEGER := 0;
+  _failed JSONB := '[]'::JSONB;
+BEGIN
+  IF NOT has_role(auth.uid(), 'restaurant'::app_role) THEN
+    RAISE EXCEPTION 'No autorizado';
+  END IF;
+
+  FOR _verification IN
+    SELECT v.id, v.reference_number
+    FROM bank_statement_movements bm
+    JOIN manual_payment_verifications v ON v.id = bm.matched_verification_id
+    WHERE bm.import_id = _import_id
+      AND v.status = 'pending'
+    ORDER BY v.created_at
+  LOOP
+    BEGIN
+      PERFORM review_payment_verification(_verification.id, true);
+      _approved := _approved + 1;
+    EXCEPTION WHEN OTHERS THEN
+      _failed := _failed || jsonb_build_object(
+        'verification_id', _verification.id,
+        'reference_number', _verification.reference_number,
+        'error', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('approved', _approved, 'failed', _failed);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_bank_statement_matches(UUID) TO authenticated;
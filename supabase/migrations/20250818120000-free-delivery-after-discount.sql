@@ -0,0 +1,191 @@
+
+-- El envío gratis se comparaba con el subtotal antes del descuento: un código promocional podía
+-- dejar el pedido por debajo del mínimo y aun así no pagar envío
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_address_id UUID DEFAULT NULL,
+  _channel public.order_channel DEFAULT NULL,
+  _payment_method TEXT DEFAULT 'transfer'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _order_item_id UUID;
+  _quoted_lines JSONB;
+  _line JSONB;
+  _dish_id UUID;
+  _quantity INTEGER;
+  _unit_price NUMERIC;
+  _subtotal NUMERIC;
+  _delivery_fee NUMERIC := 0;
+  _order_channel public.order_channel;
+  _promotion_id UUID;
+  _discount NUMERIC := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuario no autenticado';
+  END IF;
+
+  _quoted_lines := quote_order_lines(_items);
+
+  SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+  INTO _subtotal
+  FROM jsonb_array_elements(_quoted_lines) l;
+
+  _order_channel := CASE
+    WHEN _table_id IS NOT NULL THEN 'dine_in'::order_channel
+    ELSE COALESCE(_channel, 'delivery'::order_channel)
+  END;
+
+  IF _order_channel = 'dine_in' THEN
+    IF _table_id IS NULL THEN
+      RAISE EXCEPTION 'Los pedidos en mesa requieren una mesa';
+    END IF;
+
+    IF NOT has_role(_user_id, 'mesero'::app_role) THEN
+      RAISE EXCEPTION 'Solo los meseros pueden crear pedidos de mesa';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM restaurant_tables WHERE id = _table_id) THEN
+      RAISE EXCEPTION 'Mesa no encontrada';
+    END IF;
+  ELSIF _order_channel = 'delivery' THEN
+    IF _delivery_address_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM delivery_addresses WHERE id = _delivery_address_id AND user_id = _user_id
+    ) THEN
+      RAISE EXCEPTION 'Dirección de entrega no válida';
+    END IF;
+  END IF;
+
+  -- El efectivo lo cobra el repartidor, así que solo aplica a domicilio
+  IF COALESCE(_payment_method, 'transfer') = 'cash' AND _order_channel <> 'delivery' THEN
+    RAISE EXCEPTION 'El pago en efectivo solo está disponible para pedidos a domicilio';
+  END IF;
+
+  INSERT INTO orders (user_id, total_amount, delivery_fee, delivery_address_id, channel, table_id, status, notes, payment_method)
+  VALUES (
+    _user_id,
+    0,
+    _delivery_fee,
+    CASE WHEN _order_channel = 'delivery' THEN _delivery_address_id END,
+    _order_channel,
+    CASE WHEN _order_channel = 'dine_in' THEN _table_id END,
+    'pending',
+    _notes,
+    COALESCE(_payment_method, 'transfer')
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT value FROM jsonb_array_elements(_quoted_lines) LOOP
+    _quantity := (_line ->> 'quantity')::INTEGER;
+    _unit_price := (_line ->> 'unit_price')::NUMERIC;
+    _dish_id := NULLIF(_line ->> 'composite_dish_id', '')::UUID;
+
+    INSERT INTO order_items (order_id, menu_item_id, composite_dish_id, quantity, unit_price, total_price)
+    VALUES (
+      _order_id,
+      CASE WHEN _dish_id IS NULL THEN (_line ->> 'menu_item_id')::UUID END,
+      _dish_id,
+      _quantity,
+      _unit_price,
+      _unit_price * _quantity
+    )
+    RETURNING id INTO _order_item_id;
+
+    IF _dish_id IS NOT NULL THEN
+      INSERT INTO order_dish_customizations (order_item_id, optional_element_id, is_included, replacement_item_id, price_adjustment)
+      SELECT _order_item_id, r.optional_element_id, r.is_included, r.replacement_item_id, r.price_adjustment
+      FROM resolve_dish_customizations(_dish_id, _line -> 'customizations') r
+      WHERE r.is_explicit;
+    END IF;
+  END LOOP;
+
+  IF NULLIF(trim(_promo_code), '') IS NOT NULL THEN
+    -- Bloquear la promoción para que pedidos concurrentes no superen el límite de usos
+    PERFORM 1 FROM promotions
+    WHERE upper(promo_code) = upper(trim(_promo_code))
+    FOR UPDATE;
+
+    SELECT d.promotion_id, d.discount INTO _promotion_id, _discount
+    FROM compute_promo_discount(_promo_code, _quoted_lines) d;
+
+    UPDATE promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _promotion_id
+      AND (usage_limit IS NULL OR COALESCE(usage_count, 0) < usage_limit);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'El código promocional alcanzó su límite de usos';
+    END IF;
+
+    INSERT INTO order_promotions (order_id, promotion_id, discount_applied)
+    VALUES (_order_id, _promotion_id, _discount);
+  END IF;
+
+  -- El envío gratis se decide con lo que el cliente paga por los platos, ya con el descuento
+  IF _order_channel = 'delivery' THEN
+    SELECT f.fee INTO _delivery_fee
+    FROM calculate_delivery_fee(_delivery_address_id, _subtotal - _discount) f;
+  END IF;
+
+  UPDATE orders
+  SET total_amount = _subtotal - _discount + _delivery_fee,
+      discount_amount = _discount,
+      delivery_fee = _delivery_fee
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- La cotización del carrito recibe el código aplicado para dar la misma tarifa que place_order
+DROP FUNCTION IF EXISTS public.quote_delivery_fee(JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.quote_delivery_fee(
+  _items JSONB,
+  _delivery_address_id UUID DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (fee NUMERIC, distance_km NUMERIC, zone_id UUID, zone_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _quoted_lines JSONB;
+  _discount NUMERIC := 0;
+BEGIN
+  IF _delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM delivery_addresses WHERE id = _delivery_address_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Dirección de entrega no válida';
+  END IF;
+
+  _quoted_lines := quote_order_lines(_items);
+
+  IF NULLIF(trim(_promo_code), '') IS NOT NULL THEN
+    SELECT d.discount INTO _discount
+    FROM compute_promo_discount(_promo_code, _quoted_lines) d;
+  END IF;
+
+  RETURN QUERY
+  SELECT f.*
+  FROM calculate_delivery_fee(
+    _delivery_address_id,
+    (
+      SELECT COALESCE(SUM((l.value ->> 'unit_price')::NUMERIC * (l.value ->> 'quantity')::INTEGER), 0)
+      FROM jsonb_array_elements(_quoted_lines) l
+    ) - _discount
+  ) f;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_delivery_fee(JSONB, UUID, TEXT) TO authenticated;